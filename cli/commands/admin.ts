@@ -0,0 +1,72 @@
+import { AdminPlan, loadAdminConfig, planAdminChanges } from "../../sdk";
+import { CliContext, CommandFlags, required } from "../context";
+
+/**
+ * hedgera plan --file <config>
+ * @dev Read-only: compares the configured settings with the chain and lists the calls `apply` would send
+ */
+export async function planCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  await buildPlan(ctx, flags);
+}
+
+/**
+ * hedgera apply --file <config>
+ * @dev Plans like `plan`, then sends the calls in order after confirmation. The signer must own
+ *      every contract the plan touches. With `--export` the calls are written to a batch file for
+ *      `--from` (e.g. the multisig owning the contracts) instead
+ */
+export async function applyCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  const plan = await buildPlan(ctx, flags);
+  if (plan.calls.length === 0) {
+    return;
+  }
+
+  const account = ctx.account();
+  const contracts = [...new Set(plan.calls.map((call) => call.contract))];
+  const notOwned = contracts.filter((c) => plan.owners[c].toLowerCase() !== account.toLowerCase());
+  if (notOwned.length > 0) {
+    throw new Error(
+      `${ctx.exportFile ? "Account" : "Signer"} ${account} does not own ${notOwned
+        .map((c) => `${c} (owner ${plan.owners[c]})`)
+        .join(", ")}`
+    );
+  }
+
+  if (ctx.exportFile) {
+    await ctx.exportCalls(plan.calls);
+    return;
+  }
+
+  if (!(await ctx.confirm(`Send ${plan.calls.length} admin transaction${plan.calls.length === 1 ? "" : "s"}?`))) {
+    return;
+  }
+
+  console.log(`\n🏗️  Applying...`);
+  await ctx.client.applyAdminCalls(plan.calls, (call, receipt) => {
+    console.log(`   ✅ ${call.contract}.${call.method}: ${receipt.hash}`);
+  });
+  console.log(`\n🎉 Settings match ${flags.file}`);
+}
+
+async function buildPlan(ctx: CliContext, flags: CommandFlags): Promise<AdminPlan> {
+  const file = required(flags.file, "--file");
+  const config = loadAdminConfig(file);
+  console.log(`📋 Planning admin changes from ${file}...`);
+
+  const plan = await planAdminChanges(ctx.client, config);
+  if (plan.calls.length === 0) {
+    console.log("\n✅ Live settings already match the config, nothing to do");
+    return plan;
+  }
+
+  console.log(`\n📝 ${plan.calls.length} call${plan.calls.length === 1 ? "" : "s"}, in order:`);
+  plan.calls.forEach((call, i) => {
+    console.log(`   ${String(i + 1).padStart(2)}. ${call.setting}: ${call.current} -> ${call.desired}`);
+    const args = call.args.map((arg) => (Array.isArray(arg) ? `[${arg.join(", ")}]` : String(arg)));
+    console.log(`       ${call.contract}.${call.method}(${args.join(", ")})`);
+  });
+
+  const contracts = [...new Set(plan.calls.map((call) => call.contract))];
+  console.log(`\n🔑 Owners: ${contracts.map((c) => `${c} ${plan.owners[c]}`).join(", ")}`);
+  return plan;
+}
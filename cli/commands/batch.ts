@@ -0,0 +1,83 @@
+import {
+  TransactionBatch,
+  formatTxCost,
+  loadBatch,
+  saveBatch,
+  signBatch,
+  submitBatch,
+  verifyBatch,
+} from "../../sdk";
+import { CliContext, CommandFlags, printBatch, required } from "../context";
+
+/**
+ * hedgera sign <batch> --hash <hash> [--output <file>]
+ * @dev Verifies a batch written with `--export`, then signs every transaction with the configured
+ *      key (consecutive nonces from the RPC) without sending anything. `--hash` is required, so only
+ *      a batch reviewed out of band gets signed. The signed batch replaces the file unless `--output` is given
+ */
+export async function signCommand(ctx: CliContext, flags: CommandFlags, positionals: string[]): Promise<void> {
+  const file = required(positionals[0], "<batch>");
+  required(flags.hash, "--hash");
+  const batch = await loadVerified(ctx, file, flags);
+
+  const signer = ctx.requireSigner();
+  const count = batch.transactions.length;
+  if (!(await ctx.confirm(`Sign ${count} transaction${count === 1 ? "" : "s"} as ${signer.address}?`))) {
+    return;
+  }
+
+  const signed = await signBatch(batch, signer, ctx.txSettings);
+  const path = saveBatch(signed, flags.output ?? file);
+  console.log(`\n✍️  Signed ${count} transaction${count === 1 ? "" : "s"}`);
+  console.log(`💾 Saved to ${path}`);
+  console.log(`   Send it with \`hedgera submit ${flags.output ?? file}\``);
+}
+
+/**
+ * hedgera submit <batch> [--hash <hash>]
+ * @dev Verifies a signed batch and broadcasts its transactions in order. Transactions already
+ *      mined by an earlier, interrupted submit are skipped
+ */
+export async function submitCommand(ctx: CliContext, flags: CommandFlags, positionals: string[]): Promise<void> {
+  const file = required(positionals[0], "<batch>");
+  const batch = await loadVerified(ctx, file, flags);
+  if (!batch.signed) {
+    throw new Error(`${file} is not signed. Run \`hedgera sign ${file}\` first`);
+  }
+
+  const count = batch.signed.length;
+  if (!(await ctx.confirm(`Submit ${count} signed transaction${count === 1 ? "" : "s"}?`))) {
+    return;
+  }
+
+  console.log(`\n📤 Submitting...`);
+  await submitBatch(
+    ctx.provider,
+    batch,
+    (tx, receipt, skipped) => {
+      const detail = skipped ? " (already mined)" : ` (${formatTxCost(receipt)})`;
+      console.log(`   ${skipped ? "♻️ " : "✅"} ${tx.contract}.${tx.method}: ${receipt.hash}${detail}`);
+    },
+    ctx.txSettings
+  );
+  console.log(`\n🎉 Batch submitted`);
+}
+
+/**
+ * Loads a batch, prints it and fails on any verification problem or an unexpected `--hash`
+ */
+async function loadVerified(ctx: CliContext, file: string, flags: CommandFlags): Promise<TransactionBatch> {
+  const batch = loadBatch(file);
+  console.log(`📦 Batch ${file} for ${batch.from} (chainId ${batch.chainId}, created ${batch.createdAt}):`);
+  printBatch(batch);
+
+  const problems = await verifyBatch(ctx.client, batch);
+  if (flags.hash !== undefined && flags.hash.toLowerCase() !== batch.hash.toLowerCase()) {
+    problems.push(`hash is ${batch.hash}, expected ${flags.hash}`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`${file} failed verification:\n${problems.map((p) => `   - ${p}`).join("\n")}`);
+  }
+  console.log(`\n✅ Verified against ${ctx.deploymentFile}`);
+  return batch;
+}
@@ -0,0 +1,47 @@
+import { CliContext, CommandFlags, formatUsdc, parseUsdc } from "../context";
+
+/**
+ * hedgera check-usdc [--allowance <usdc>]
+ * @dev Approves the factory for `--allowance` (default 10 USDC) when the current
+ *      allowance does not cover the creation fee
+ */
+export async function checkUsdcCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("💰 Checking USDC Status...");
+
+  const signer = ctx.requireSigner();
+  const client = ctx.client;
+  const { usdc, factory } = client.deployment;
+
+  console.log(`📝 Signer: ${signer.address}`);
+  console.log(`💰 USDC: ${usdc}`);
+  console.log(`🏭 Factory: ${factory}`);
+
+  const balance = await client.usdc.balanceOf(signer.address);
+  const allowance = await client.usdc.allowance(signer.address, factory);
+  const creationFee = await client.factory.indexCreationFee();
+  console.log(`\n💰 USDC Balance: ${formatUsdc(balance)} USDC`);
+  console.log(`🏭 Factory Allowance: ${formatUsdc(allowance)} USDC`);
+  console.log(`💸 Creation Fee: ${formatUsdc(creationFee)} USDC`);
+
+  if (balance < creationFee) {
+    console.log(`\n❌ Insufficient USDC balance!`);
+    console.log(`   Need: ${formatUsdc(creationFee)} USDC`);
+    console.log(`   Have: ${formatUsdc(balance)} USDC`);
+    return;
+  }
+
+  if (allowance >= creationFee) {
+    console.log(`\n✅ USDC setup looks good!`);
+    return;
+  }
+
+  const approveAmount = parseUsdc(flags.allowance ?? "10", "--allowance");
+  console.log(`\n⚠️  Need to approve USDC for factory!`);
+
+  if (!(await ctx.confirm(`Approve ${formatUsdc(approveAmount)} USDC for the factory?`))) {
+    return;
+  }
+
+  await client.ensureAllowance(usdc, factory, approveAmount);
+  console.log(`✅ USDC approved for ${formatUsdc(approveAmount)} USDC`);
+}
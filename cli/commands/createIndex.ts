@@ -0,0 +1,134 @@
+import {
+  CreateIndexParams,
+  IndexDefinition,
+  checkIndexOnChain,
+  formatAddress,
+  formatTxCost,
+  loadIndexDefinitions,
+  loadPartialDeployment,
+  toCreateIndexParams,
+  validateIndexDefinition,
+} from "../../sdk";
+import {
+  CliContext,
+  CommandFlags,
+  formatUsdc,
+  parseAddress,
+  parseInteger,
+  preflightAssociations,
+  required,
+} from "../context";
+
+/**
+ * hedgera create-index --name <name> --symbol <sym> --tokens WBTC,WETH,... --weights 5000,5000
+ *                      [--mint-fee <bps>] [--redeem-fee <bps>] [--curator <address>]
+ * hedgera create-index --file <definitions.yaml|json>
+ * @dev Tokens and the curator can be given as Hedera IDs (`0.0.x`). The Router and the creator's
+ *      HTS associations are checked before the first transaction (`--skip-association-check` to skip)
+ */
+export async function createIndexCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("🏗️  Creating index on Hedgera...");
+
+  const signer = ctx.requireSigner();
+  const client = ctx.client;
+  const definitions = flags.file ? loadIndexDefinitions(flags.file) : [definitionFromFlags(flags)];
+
+  // Resolve and check everything before the first transaction
+  const indexes: CreateIndexParams[] = [];
+  for (const definition of definitions) {
+    let issues = validateIndexDefinition(definition, ctx.tokens, client.deployment.usdc);
+    if (issues.length === 0) {
+      const params = toCreateIndexParams(definition, ctx.tokens, signer.address);
+      issues = await checkIndexOnChain(client, params, signer.address);
+      indexes.push(params);
+    }
+    if (issues.length > 0) {
+      throw new Error(`Index ${definition.symbol} is invalid:\n  - ${issues.join("\n  - ")}`);
+    }
+  }
+
+  const creationFee = await client.factory.indexCreationFee();
+
+  console.log(`📝 Using IndexFactory at: ${client.deployment.factory}`);
+  console.log(`👤 Creating index as: ${signer.address}`);
+  indexes.forEach((params, i) => {
+    console.log(`\n🏗️  ${params.name} (${params.symbol})`);
+    console.log(`   👤 Curator: ${formatAddress(params.curator)}`);
+    definitions[i].components.forEach(({ token }, j) => {
+      console.log(`   🪙 ${token.padEnd(8)} ${formatAddress(params.tokens[j])}  ${Number(params.weights[j]) / 100}%`);
+    });
+    console.log(`   💸 Fees: ${Number(params.mintFee) / 100}% mint, ${Number(params.redeemFee) / 100}% redeem`);
+  });
+  console.log(`\n   💰 Creation fee: ${formatUsdc(creationFee)} USDC per index`);
+
+  const tokens = [...new Set(indexes.flatMap((params) => params.tokens))];
+  await preflightAssociations(ctx, flags, "createIndex", { account: signer.address, tokens });
+
+  const symbols = indexes.map((params) => params.symbol).join(", ");
+  if (!(await ctx.confirm(`Create index ${symbols}?`))) {
+    return;
+  }
+
+  for (const params of indexes) {
+    const { receipt, event } = await client.createIndex(params);
+
+    console.log(`\n   📤 ${params.symbol} transaction: ${receipt.hash}`);
+    console.log(`   ✅ Confirmed in block: ${receipt.blockNumber} (${formatTxCost(receipt)})`);
+    console.log(`   📊 Index ID: ${event.indexId}`);
+    console.log(`   🏦 Vault: ${formatAddress(event.vault)}`);
+    console.log(`   🪙 Token: ${formatAddress(event.indexToken)}`);
+  }
+}
+
+/**
+ * hedgera validate-index <file> [--offline]
+ */
+export async function validateIndexCommand(ctx: CliContext, flags: CommandFlags, positionals: string[]): Promise<void> {
+  const file = required(positionals[0] ?? flags.file, "<file>");
+  const definitions = loadIndexDefinitions(file);
+
+  // Offline runs fall back to the network's token table when there is no manifest yet
+  const deployment = flags.offline ? loadPartialDeployment(ctx.deploymentFile) : ctx.client.deployment;
+  const tokens = deployment?.tokens ?? ctx.network.tokens;
+  const creator = flags.curator === undefined ? ctx.signer?.address : parseAddress(flags.curator, "--curator");
+
+  console.log(`🔍 Validating ${definitions.length} index definition(s) from ${file}${flags.offline ? " (offline)" : ""}...\n`);
+
+  let invalid = 0;
+  for (const definition of definitions) {
+    let issues = validateIndexDefinition(definition, tokens, deployment?.usdc);
+    if (issues.length === 0 && !flags.offline) {
+      const params = toCreateIndexParams(definition, tokens, creator ?? required(definition.curator, "--curator"));
+      issues = await checkIndexOnChain(ctx.client, params, creator ?? params.curator);
+    }
+
+    console.log(`${issues.length === 0 ? "✅" : "❌"} ${definition.name} (${definition.symbol})`);
+    issues.forEach((issue) => console.log(`   - ${issue}`));
+    if (issues.length > 0) invalid++;
+  }
+
+  if (invalid > 0) {
+    throw new Error(`${invalid} of ${definitions.length} index definitions are invalid`);
+  }
+  console.log("\n🎉 All index definitions are valid");
+}
+
+function definitionFromFlags(flags: CommandFlags): IndexDefinition {
+  const tokens = required(flags.tokens, "--tokens").split(",").map((t) => t.trim());
+  const weights = required(flags.weights, "--weights")
+    .split(",")
+    .map((w) => parseInteger(w.trim(), "--weights"));
+
+  if (tokens.length !== weights.length) {
+    throw new Error(`--tokens has ${tokens.length} entries but --weights has ${weights.length}`);
+  }
+
+  return {
+    name: required(flags.name, "--name"),
+    symbol: required(flags.symbol, "--symbol"),
+    curator: flags.curator,
+    components: tokens.map((token, i) => ({ token, weight: weights[i] })),
+    mintFee: parseInteger(flags.mintFee ?? "0", "--mint-fee"),
+    redeemFee: parseInteger(flags.redeemFee ?? "0", "--redeem-fee"),
+  };
+}
@@ -0,0 +1,116 @@
+import { formatEther } from "ethers";
+import {
+  DeployConfig,
+  PartialDeployment,
+  deployProtocol,
+  inspectDeployment,
+  loadPartialDeployment,
+  planDeployment,
+  saveDeployment,
+} from "../../sdk";
+import { CliContext, CommandFlags, formatUsdc, parseAddress, parseUsdc, required } from "../context";
+
+/**
+ * hedgera deploy [--usdc-token <address>] [--saucerswap-router <address>] [--creation-fee <usdc>] [--allowance <usdc>] [--verify-only]
+ * @dev With `--export`, the steps still missing are written to a batch file for `--from`: contract
+ *      creations (with the VaultDeployer library linked) at the addresses its next nonces give, then the
+ *      configuration. Creations are recorded in the manifest right away, ready for `--verify-only`
+ *      once the batch is submitted
+ */
+export async function deployCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  const config: DeployConfig = {
+    usdc: parseAddress(required(flags.usdcToken ?? ctx.network.usdc, "--usdc-token"), "--usdc-token"),
+    saucerSwapRouter: parseAddress(
+      required(flags.saucerswapRouter ?? ctx.network.saucerSwapRouter, "--saucerswap-router"),
+      "--saucerswap-router"
+    ),
+    creationFee: parseUsdc(flags.creationFee ?? "1", "--creation-fee"),
+    factoryAllowance: parseUsdc(flags.allowance ?? "10", "--allowance"),
+  };
+
+  const existing = loadPartialDeployment(ctx.deploymentFile);
+  if (existing && existing.chainId !== ctx.network.chainId) {
+    throw new Error(`${ctx.deploymentFile} is for chainId ${existing.chainId}, not ${ctx.network.chainId}`);
+  }
+
+  if (flags.verifyOnly) {
+    if (!existing) {
+      throw new Error(`No deployment found at ${ctx.deploymentFile}`);
+    }
+    console.log(`🔍 Verifying ${ctx.deploymentFile} against ${ctx.networkName}...\n`);
+    const checks = await inspectDeployment(ctx.provider, existing, config);
+    for (const check of checks) {
+      const detail = check.ok ? "" : ` (expected ${check.expected}, found ${check.actual})`;
+      console.log(`${check.ok ? "✅" : "❌"} ${check.name}${detail}`);
+    }
+    const drift = checks.filter((check) => !check.ok).length;
+    if (drift > 0) {
+      throw new Error(`${drift} check(s) drifted. Run \`hedgera deploy\` to reconcile.`);
+    }
+    console.log("\n🎉 Deployment matches the chain");
+    return;
+  }
+
+  if (ctx.exportFile) {
+    await exportDeployment(ctx, config, existing);
+    return;
+  }
+
+  console.log(`🚀 Deploying Hedgera contracts to ${ctx.networkName}...`);
+
+  const deployer = ctx.requireSigner();
+
+  console.log("📋 Deployment Details:");
+  console.log(`  Network: ${ctx.networkName} (${ctx.network.chainId})`);
+  console.log(`  Deployer: ${deployer.address}`);
+  console.log(`  USDC: ${config.usdc}`);
+  console.log(`  SaucerSwap Router: ${config.saucerSwapRouter}`);
+  console.log(`  Creation Fee: ${formatUsdc(config.creationFee)} USDC`);
+  console.log(`  Factory Allowance: ${formatUsdc(config.factoryAllowance)} USDC`);
+  console.log(`  Manifest: ${ctx.deploymentFile}${existing ? " (resuming)" : ""}`);
+
+  const balance = await ctx.provider.getBalance(deployer.address);
+  console.log(`  Balance: ${formatEther(balance)} HBAR`);
+
+  const question = existing
+    ? "Reconcile the existing deployment, sending only missing steps?"
+    : "Deploy IndexRegistry, Router and IndexFactory?";
+  if (!(await ctx.confirm(question))) {
+    return;
+  }
+  console.log();
+
+  const addresses = await deployProtocol(deployer, config, {
+    txOverrides: ctx.txSettings,
+    log: console.log,
+    existing,
+    onProgress: (manifest) => saveDeployment(manifest, ctx.deploymentFile),
+  });
+  const deploymentFile = saveDeployment(addresses, ctx.deploymentFile);
+
+  console.log("\n📊 Deployment Summary:");
+  console.log(`📝 Registry: ${addresses.registry}`);
+  console.log(`🔀 Router: ${addresses.router}`);
+  console.log(`🏭 Factory: ${addresses.factory}`);
+  console.log(`💾 Saved to: ${deploymentFile}`);
+  console.log(`📦 Block: ${addresses.deploymentBlock}`);
+  console.log("\n🎉 Deployment completed successfully!");
+}
+
+async function exportDeployment(ctx: CliContext, config: DeployConfig, existing: PartialDeployment | null): Promise<void> {
+  const account = ctx.account();
+  console.log(`⚙️  Exporting the missing deployment steps of ${ctx.deploymentFile} for ${account}...`);
+
+  const plan = await planDeployment(ctx.provider, existing, config, account);
+  if (plan.steps.length === 0) {
+    console.log("\n✅ Deployment already up to date, nothing to export");
+    return;
+  }
+  await ctx.exportCalls(plan.steps, plan.manifest, plan.nonce);
+
+  if (plan.nonce !== undefined && !ctx.dryRun) {
+    saveDeployment(plan.manifest, ctx.deploymentFile);
+    console.log(`📝 Recorded the addresses the batch creates in ${ctx.deploymentFile}`);
+    console.log(`   Sign it before ${account} sends anything else, and check it with \`hedgera deploy --verify-only\` once submitted`);
+  }
+}
@@ -0,0 +1,67 @@
+import { feeClaimCall, formatAddress } from "../../sdk";
+import { CliContext, CommandFlags, formatUsdc, parseAddress, parseUsdc } from "../context";
+
+/**
+ * hedgera fees [--sweep] [--curator-treasury <address>] [--platform-treasury <address>] [--min-usdc <usdc>]
+ * @dev Reports unclaimed fees per vault and party. With `--sweep`, withdraws every balance the signer
+ *      can claim; treasuries default to CURATOR_TREASURY/PLATFORM_TREASURY from .env, then the signer.
+ *      With `--export` the withdrawals claimable by `--from` are written to a batch file instead
+ */
+export async function feesCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("💰 Collected Fees...");
+
+  const curatorTreasury = optionalAddress(flags.curatorTreasury ?? process.env.CURATOR_TREASURY, "--curator-treasury");
+  const platformTreasury = optionalAddress(flags.platformTreasury ?? process.env.PLATFORM_TREASURY, "--platform-treasury");
+  const minAmount = flags.minUsdc === undefined ? 1n : parseUsdc(flags.minUsdc, "--min-usdc");
+
+  const client = ctx.client;
+  const report = await client.getFeeReport();
+
+  for (const vault of report.vaults) {
+    console.log(`\n🔢 Index ${vault.indexId} (${vault.symbol}) ${formatAddress(vault.vault)}`);
+    console.log(`   👤 Curator  ${formatUsdc(vault.curatorFees).padStart(14)} USDC  (${formatAddress(vault.curator)})`);
+    console.log(`   🏛️  Platform ${formatUsdc(vault.platformFees).padStart(14)} USDC  (${formatAddress(report.platform)})`);
+  }
+  console.log(`\n🏭 Factory creation fees: ${formatUsdc(report.factoryFees)} USDC (${report.factoryOwner})`);
+  console.log(`\n📊 Total curator fees:  ${formatUsdc(report.totalCuratorFees)} USDC`);
+  console.log(`📊 Total platform fees: ${formatUsdc(report.totalPlatformFees)} USDC`);
+
+  if (!flags.sweep) {
+    return;
+  }
+
+  const account = ctx.account();
+  const options = { curatorTreasury, platformTreasury, minAmount };
+  const claims = await client.planFeeSweep(account, options);
+  const total = (source: "curator" | "platform" | "factory") =>
+    claims.filter((c) => c.source === source).reduce((sum, c) => sum + c.amount, 0n);
+  const curatorFees = total("curator");
+  const platformFees = total("platform") + total("factory");
+
+  if (claims.length === 0) {
+    console.log(`\n✅ Nothing for ${account} to sweep`);
+    return;
+  }
+  console.log(`\n🧹 Sweep as ${account}:`);
+  console.log(`   ${formatUsdc(curatorFees)} USDC curator fees -> ${curatorTreasury ?? account}`);
+  console.log(`   ${formatUsdc(platformFees)} USDC platform fees -> ${platformTreasury ?? account}`);
+
+  if (ctx.exportFile) {
+    await ctx.exportCalls(claims.map(feeClaimCall));
+    return;
+  }
+  if (!(await ctx.confirm("Sweep these fees?"))) {
+    return;
+  }
+
+  const withdrawals = await client.sweepFees(options);
+  for (const w of withdrawals) {
+    const source = w.indexId === undefined ? "factory" : `index ${w.indexId}`;
+    console.log(`   📤 ${formatUsdc(w.amount)} USDC ${w.source} fees from ${source} -> ${w.to}: ${w.receipt.hash}`);
+  }
+  console.log(`   ✅ Swept ${withdrawals.length} balance${withdrawals.length === 1 ? "" : "s"}`);
+}
+
+function optionalAddress(value: string | undefined, flag: string): string | undefined {
+  return value === undefined ? undefined : parseAddress(value, flag);
+}
@@ -0,0 +1,46 @@
+import { DEFAULT_KEEPER_CONFIG, Keeper, KeeperConfig, defaultKeeperState } from "../../sdk";
+import { CliContext, CommandFlags, parseInteger, parseSlippage, parseUsdc } from "../context";
+
+/** Seconds between passes unless `--interval` says otherwise */
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+/**
+ * hedgera keeper [--interval <seconds>] [--once] [--drift <bps>] [--idle-usdc <usdc>] [--cooldown <seconds>]
+ *                [--max-cost <bps>] [--slippage <bps>] [--min-trade <usdc>] [--state <file>] [--index <id>]
+ * @dev Logs one JSON line per decision on stdout; stops cleanly on SIGINT/SIGTERM after the current pass
+ */
+export async function keeperCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  const defaults = DEFAULT_KEEPER_CONFIG;
+  const config: KeeperConfig = {
+    driftThresholdBps: flags.drift === undefined ? defaults.driftThresholdBps : parseInteger(flags.drift, "--drift"),
+    idleUsdcThreshold:
+      flags.idleUsdc === undefined ? defaults.idleUsdcThreshold : parseUsdc(flags.idleUsdc, "--idle-usdc"),
+    cooldownSeconds: flags.cooldown === undefined ? defaults.cooldownSeconds : parseInteger(flags.cooldown, "--cooldown"),
+    maxCostBps: flags.maxCost === undefined ? defaults.maxCostBps : parseInteger(flags.maxCost, "--max-cost"),
+    slippageBps: parseSlippage(flags),
+    minTradeUsdc: flags.minTrade === undefined ? defaults.minTradeUsdc : parseUsdc(flags.minTrade, "--min-trade"),
+    dryRun: ctx.dryRun,
+    indexIds: flags.index === undefined ? undefined : [parseInteger(flags.index, "--index")],
+  };
+  const interval = flags.interval === undefined ? DEFAULT_INTERVAL_SECONDS : parseInteger(flags.interval, "--interval");
+  if (!config.dryRun) {
+    ctx.requireSigner();
+  }
+
+  const keeper = new Keeper(ctx.client, config, { stateFile: flags.state ?? defaultKeeperState(ctx.deploymentFile) });
+  if (flags.once) {
+    await keeper.runOnce();
+    return;
+  }
+
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  try {
+    await keeper.run(interval, controller.signal);
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+}
@@ -0,0 +1,83 @@
+import { formatUnits } from "ethers";
+import { IndexInfo, IndexStatus, formatAddress } from "../../sdk";
+import { CliContext, CommandFlags, formatShares, formatUsdc, parseInteger, required } from "../context";
+
+/**
+ * Prints the summary block shared by `list` and `show`
+ */
+export function printIndexSummary(indexInfo: IndexInfo): void {
+  console.log(`   📛 Name: ${indexInfo.name}`);
+  console.log(`   🏷️  Symbol: ${indexInfo.symbol}`);
+  console.log(`   👤 Curator: ${formatAddress(indexInfo.curator)}`);
+  console.log(`   📅 Created: ${new Date(indexInfo.creationTime * 1000).toISOString()}`);
+  console.log(`   🔗 Index Token: ${formatAddress(indexInfo.indexToken)}`);
+  console.log(`   🏦 Basket Vault: ${formatAddress(indexInfo.vault)}`);
+  console.log(`   ✅ Status: ${IndexStatus[indexInfo.status]}`);
+  console.log(`   💰 TVL: ${formatUsdc(indexInfo.totalValueLocked)} USDC`);
+  console.log(`   📊 Volume: ${formatUsdc(indexInfo.totalVolume)} USDC`);
+  console.log(`   💸 Mint Fee: ${Number(indexInfo.fees.mintFee) / 100}%`);
+  console.log(`   💸 Redeem Fee: ${Number(indexInfo.fees.redeemFee) / 100}%`);
+  console.log(`   🪙 Components: ${indexInfo.components.length} tokens`);
+}
+
+/**
+ * hedgera list
+ */
+export async function listCommand(ctx: CliContext): Promise<void> {
+  console.log("📊 Listing All Hedgera Indexes...");
+  console.log(`📝 Registry: ${ctx.client.deployment.registry}`);
+
+  const indexes = await ctx.client.listIndexes();
+  console.log(`\n📈 Total Indexes: ${indexes.length}`);
+
+  if (indexes.length === 0) {
+    console.log("📭 No indexes created yet.");
+    return;
+  }
+
+  console.log("\n📋 Index Details:");
+  console.log("=".repeat(80));
+
+  for (const indexInfo of indexes) {
+    console.log(`\n🔢 Index ${indexInfo.id}:`);
+    printIndexSummary(indexInfo);
+  }
+
+  console.log("\n" + "=".repeat(80));
+  console.log(`📊 Summary: ${indexes.length} total indexes listed`);
+}
+
+/**
+ * hedgera show <id>
+ */
+export async function showCommand(ctx: CliContext, flags: CommandFlags, positionals: string[]): Promise<void> {
+  const indexId = parseInteger(required(positionals[0] ?? flags.index, "<id>"), "<id>");
+  const client = ctx.client;
+
+  const indexInfo = await client.getIndex(indexId);
+  console.log(`\n🔢 Index ${indexInfo.id}:`);
+  printIndexSummary(indexInfo);
+
+  const composition = await client.getComposition(indexId);
+  const valuation = await client.getValuation(indexId);
+  console.log(`\n🧺 Basket Composition:`);
+  for (const [i, component] of composition.entries()) {
+    const { symbol, decimals } = await client.getTokenMetadata(component.token);
+    const { value, priced } = valuation.components[i];
+    console.log(
+      `   ${symbol.padEnd(8)} ${formatAddress(component.token)}  weight ${Number(component.weight) / 100}%  ` +
+        `balance ${formatUnits(component.balance, decimals)}  value ${priced ? `${formatUsdc(value)} USDC` : "⚠️  not priced"}`
+    );
+  }
+
+  console.log(`\n💵 Live TVL: ${formatUsdc(valuation.totalValueLocked)} USDC`);
+  console.log(`📊 NAV per Share: ${formatUsdc(valuation.navPerShare)} USDC`);
+  if (valuation.unpriced.length > 0) {
+    console.log(`⚠️  ${valuation.unpriced.length} component(s) could not be priced and are left out of TVL and NAV`);
+  }
+
+  const supply = await client.indexToken(indexInfo.indexToken).totalSupply();
+  console.log(`\n📦 Share Supply: ${formatShares(supply)} ${indexInfo.symbol}`);
+  const [curatorFees, platformFees] = await client.vault(indexInfo.vault).getFeeSplit();
+  console.log(`💼 Collected Fees: ${formatUsdc(curatorFees)} USDC curator, ${formatUsdc(platformFees)} USDC platform`);
+}
@@ -0,0 +1,78 @@
+import { formatUnits } from "ethers";
+import { DEFAULT_MIGRATION_TOLERANCE_BPS, HedgeraClient, VaultSnapshot, formatTxCost, migrationCall } from "../../sdk";
+import { CliContext, CommandFlags, formatShares, formatUsdc, parseAddress, parseInteger, required } from "../context";
+
+/**
+ * hedgera migrate --index <id> [--factory <address>] [--tolerance <bps>]
+ * @dev Snapshots the vault, then moves the index to a new vault deployed by the factory in one
+ *      transaction (vault owner only), which reverts if NAV per share drops beyond the tolerance.
+ *      The new vault is snapshotted again and any difference fails the command.
+ *      With `--export` the migration is written to a batch file for `--from` instead
+ */
+export async function migrateCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("🚚 Migrating Index Vault...");
+
+  const client = ctx.client;
+  const indexId = parseInteger(required(flags.index, "--index"), "--index");
+  const factory = flags.factory === undefined ? client.deployment.factory : parseAddress(flags.factory, "--factory");
+  const toleranceBps =
+    flags.tolerance === undefined ? DEFAULT_MIGRATION_TOLERANCE_BPS : parseInteger(flags.tolerance, "--tolerance");
+
+  const indexInfo = await client.getIndex(indexId);
+  console.log(`   Index: ${indexInfo.name} (${indexInfo.symbol})`);
+  console.log(`   Vault: ${indexInfo.vault}`);
+  console.log(`   Factory: ${factory}`);
+
+  const plan = await client.planMigration(indexId, factory, { toleranceBps });
+  console.log(`\n📸 Before:`);
+  await printSnapshot(client, plan.before);
+  console.log(
+    `\n🛡️  NAV floor: ${formatUsdc(plan.minNavPerShare)} USDC per share (tolerance ${(toleranceBps / 100).toFixed(2)}%)`
+  );
+
+  const account = ctx.account();
+  if (plan.owner.toLowerCase() !== account.toLowerCase()) {
+    throw new Error(`Only the vault owner ${plan.owner} can migrate, ${ctx.exportFile ? "account" : "signer"} is ${account}`);
+  }
+
+  if (ctx.exportFile) {
+    await ctx.exportCalls([migrationCall(plan)]);
+    return;
+  }
+
+  if (!(await ctx.confirm(`Migrate ${indexInfo.symbol} and all of its holdings to a new vault?`))) {
+    return;
+  }
+
+  console.log(`\n🏗️  Migrating...`);
+  const { receipt, event, after, issues } = await client.migrateVault(plan);
+  console.log(`   📤 Transaction: ${receipt.hash}`);
+  console.log(`   🧾 Gas used: ${receipt.gasUsed.toString()} (${formatTxCost(receipt)})`);
+  console.log(`   🏦 New vault: ${event.newVault}`);
+
+  console.log(`\n📸 After:`);
+  await printSnapshot(client, after);
+
+  if (issues.length > 0) {
+    throw new Error(
+      `The migration to ${event.newVault} did not preserve the index:\n` +
+        issues.map((issue) => `   - ${issue}`).join("\n") +
+        `\nThe old vault ${plan.vault} no longer accepts mints or redeems; investigate before reopening the index`
+    );
+  }
+  console.log(`\n✅ Migration successful: supply, balances and fees carried over, NAV within tolerance`);
+}
+
+async function printSnapshot(client: HedgeraClient, snapshot: VaultSnapshot): Promise<void> {
+  console.log(`   Vault: ${snapshot.vault}`);
+  console.log(`   📊 NAV per share: ${formatUsdc(snapshot.navPerShare)} USDC, TVL: ${formatUsdc(snapshot.totalValueLocked)} USDC`);
+  console.log(`   🪙 Supply: ${formatShares(snapshot.totalSupply)} shares`);
+  for (const { token, balance } of snapshot.components) {
+    const { symbol, decimals } = await client.getTokenMetadata(token);
+    console.log(`   🪙 ${symbol.padEnd(8)} ${formatUnits(balance, decimals)}`);
+  }
+  console.log(
+    `   💵 USDC: ${formatUsdc(snapshot.usdcBalance)} (fees ${formatUsdc(snapshot.collectedFees)}, ` +
+      `platform ${formatUsdc(snapshot.platformFees)})`
+  );
+}
@@ -0,0 +1,105 @@
+import { formatUnits } from "ethers";
+import { formatAddress, formatTxCost } from "../../sdk";
+import {
+  CliContext,
+  CommandFlags,
+  formatShares,
+  formatUsdc,
+  parseDeadline,
+  parseInteger,
+  parseShares,
+  parseSlippage,
+  parseUsdc,
+  preflightAssociations,
+  printComponentQuotes,
+  printValuation,
+  required,
+} from "../context";
+
+/**
+ * hedgera mint --index <id> --usdc <amount> [--slippage <bps>] [--min-shares <shares>] [--deadline <seconds>]
+ *             [--skip-association-check]
+ * @dev Checks the HTS associations of the vault, Router and account first. Every component swap gets a minimum output from the quote; `--min-shares` overrides the quoted share minimum.
+ *      With `--export` the approval and the mint are written to a batch file for `--from` instead
+ */
+export async function mintCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("🪙 Minting Index Tokens...");
+
+  const account = ctx.account();
+  const client = ctx.client;
+
+  const indexId = parseInteger(required(flags.index, "--index"), "--index");
+  const usdcAmount = parseUsdc(required(flags.usdc, "--usdc"), "--usdc");
+  const slippageBps = parseSlippage(flags);
+  const deadline = parseDeadline(flags);
+
+  console.log(`📝 ${ctx.exportFile ? "Account" : "Signer"}: ${account}`);
+  console.log(`📊 Registry: ${client.deployment.registry}`);
+
+  console.log(`\n🎯 Mint Configuration:`);
+  console.log(`   Index ID: ${indexId}`);
+  console.log(`   USDC Amount: ${formatUsdc(usdcAmount)} USDC`);
+  console.log(`   Slippage Tolerance: ${slippageBps / 100}%`);
+  console.log(`   Deadline: ${new Date(deadline * 1000).toISOString()}`);
+
+  console.log(`\n📋 Getting index information...`);
+  const indexInfo = await client.getIndex(indexId);
+  console.log(`   Index: ${indexInfo.name} (${indexInfo.symbol})`);
+  console.log(`   Vault: ${formatAddress(indexInfo.vault)}`);
+  console.log(`   Token: ${formatAddress(indexInfo.indexToken)}`);
+
+  console.log(`\n💰 Current Balances:`);
+  const indexToken = client.indexToken(indexInfo.indexToken);
+  const usdcBalance = await client.usdc.balanceOf(account);
+  const shareBalance = await indexToken.balanceOf(account);
+  const allowance = await client.usdc.allowance(account, indexInfo.vault);
+  console.log(`   USDC Balance: ${formatUsdc(usdcBalance)} USDC`);
+  console.log(`   Index Shares: ${formatShares(shareBalance)} ${indexInfo.symbol}`);
+  console.log(`   Vault Allowance: ${formatUsdc(allowance)} USDC${allowance < usdcAmount ? " (approval needed)" : ""}`);
+
+  if (usdcBalance < usdcAmount) {
+    throw new Error(`Insufficient USDC balance: have ${formatUsdc(usdcBalance)}, need ${formatUsdc(usdcAmount)}`);
+  }
+  await preflightAssociations(ctx, flags, "mint", { account, indexId });
+
+  // NAV per share is USDC (6 decimals) per whole share once the index has supply
+  if ((await indexToken.totalSupply()) === 0n) {
+    console.log(`   📊 First mint: 1 ${indexInfo.symbol} per USDC invested`);
+  } else {
+    await printValuation(client, indexId);
+  }
+
+  console.log(`\n📐 Quote:`);
+  const quote = await client.quoteMint(indexId, usdcAmount, slippageBps);
+  const minShares = flags.minShares === undefined ? quote.minShares : parseShares(flags.minShares, "--min-shares");
+  await printComponentQuotes(client, quote.components, slippageBps, (c, decimals) => [
+    `${formatUsdc(c.amountIn)} USDC`,
+    formatUnits(c.expectedOut, decimals),
+    formatUnits(c.minOut, decimals),
+  ]);
+  console.log(`   💸 Mint Fee: ${formatUsdc(quote.fee)} USDC`);
+  console.log(`   📈 Expected Shares: ${formatShares(quote.expectedShares)} ${indexInfo.symbol} (previewMint)`);
+  console.log(`   🛡️  Min Shares: ${formatShares(minShares)} ${indexInfo.symbol}`);
+
+  const options = { minShares, minTokenAmounts: quote.components.map((c) => c.minOut), deadline };
+  if (ctx.exportFile) {
+    await ctx.exportCalls(await client.mintCalls(account, indexId, usdcAmount, options));
+    return;
+  }
+  if (!(await ctx.confirm(`Mint ${formatUsdc(usdcAmount)} USDC into ${indexInfo.symbol}?`))) {
+    return;
+  }
+
+  console.log(`\n🏗️  Minting tokens...`);
+  const { receipt, event } = await client.mint(indexId, usdcAmount, options);
+  console.log(`   📤 Transaction: ${receipt.hash}`);
+  console.log(`   ✅ Mint successful!`);
+  console.log(`   🧾 Gas used: ${receipt.gasUsed.toString()} (${formatTxCost(receipt)})`);
+
+  console.log(`\n💰 Updated Balances:`);
+  const newUsdcBalance = await client.usdc.balanceOf(account);
+  const newShareBalance = await indexToken.balanceOf(account);
+  console.log(`   USDC Balance: ${formatUsdc(newUsdcBalance)} USDC (${formatUsdc(newUsdcBalance - usdcBalance)})`);
+  console.log(`   Index Shares: ${formatShares(newShareBalance)} ${indexInfo.symbol}`);
+  console.log(`   🎉 Minted: ${formatShares(event.sharesOut)} ${indexInfo.symbol} shares`);
+}
@@ -0,0 +1,81 @@
+import { writeFileSync } from "fs";
+import { EventIndexer, EventStore, Portfolio, defaultEventDatabase, getPortfolio, portfolioToJson } from "../../sdk";
+import { CliContext, CommandFlags, formatShares, formatUsdc, parseAddress } from "../context";
+
+/**
+ * hedgera portfolio [address] [--format table|json] [--output <file>] [--db <file>]
+ * @dev Defaults to the signer's address; syncs the event database for the cost basis first
+ */
+export async function portfolioCommand(ctx: CliContext, flags: CommandFlags, positionals: string[]): Promise<void> {
+  const account = positionals[0] === undefined ? ctx.requireSigner().address : parseAddress(positionals[0], "[address]");
+  const format = flags.format ?? "table";
+  if (!["table", "json"].includes(format)) {
+    throw new Error(`Invalid value for --format: "${flags.format}" (expected table, json)`);
+  }
+
+  const file = flags.db ?? defaultEventDatabase(ctx.deploymentFile);
+  const store = new EventStore(file);
+  let portfolio: Portfolio;
+  try {
+    // Progress goes to stderr so JSON on stdout stays clean
+    const result = await new EventIndexer(ctx.provider, ctx.client.deployment, store).sync();
+    console.error(`🗂️  ${file} synced to block ${result.toBlock}`);
+    portfolio = await getPortfolio(ctx.client, store, account);
+  } finally {
+    store.close();
+  }
+
+  if (format === "json") {
+    const output = portfolioToJson(portfolio);
+    if (flags.output) {
+      writeFileSync(flags.output, output);
+      console.error(`💾 Portfolio saved to: ${flags.output}`);
+    } else {
+      process.stdout.write(output + "\n");
+    }
+    return;
+  }
+
+  printPortfolio(portfolio);
+}
+
+function printPortfolio({ account, positions, totals }: Portfolio): void {
+  const usdc = (value: bigint | null) => (value === null ? "n/a" : formatUsdc(value));
+
+  console.log(`\n💼 Portfolio of ${account}`);
+  if (positions.length === 0) {
+    console.log("📭 No index positions.");
+    return;
+  }
+
+  const header = ["ID", "Symbol", "Shares", "NAV", "Value", "Avg Cost", "Cost Basis", "Unrealized", "Realized", "Fees"];
+  const rows = positions.map((p) => [
+    String(p.indexId),
+    p.symbol,
+    formatShares(p.balance),
+    usdc(p.navPerShare),
+    usdc(p.value),
+    usdc(p.averageCost),
+    usdc(p.costBasis),
+    usdc(p.unrealizedPnl),
+    usdc(p.realizedPnl),
+    usdc(p.feesPaid),
+  ]);
+  rows.push(["", "Total", "", "", usdc(totals.value), "", usdc(totals.costBasis), usdc(totals.unrealizedPnl), usdc(totals.realizedPnl), usdc(totals.feesPaid)]);
+
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+  const line = (cells: string[]) => cells.map((cell, i) => (i < 2 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ");
+
+  const width = widths.reduce((sum, w) => sum + w + 2, -2);
+
+  console.log("=".repeat(width));
+  console.log(line(header));
+  rows.forEach((row, i) => {
+    if (i === rows.length - 1) console.log("-".repeat(width));
+    console.log(line(row));
+  });
+  for (const p of positions.filter((p) => p.unpriced.length > 0)) {
+    console.log(`⚠️  ${p.symbol}: ${p.unpriced.length} component(s) could not be priced, NAV and value read low`);
+  }
+  console.log("\n💡 Amounts in USDC. Cost basis includes mint fees and only covers minted shares; shares received by transfer have none.");
+}
@@ -0,0 +1,97 @@
+import { formatUnits } from "ethers";
+import { formatTxCost } from "../../sdk";
+import {
+  CliContext,
+  CommandFlags,
+  formatUsdc,
+  parseDeadline,
+  parseInteger,
+  parseSlippage,
+  parseUsdc,
+  printComponentQuotes,
+  required,
+} from "../context";
+
+/**
+ * hedgera rebalance --index <id> [--weights <bps,...>] [--slippage <bps>] [--min-trade <usdc>] [--deadline <seconds>]
+ * @dev Prints the drift and the planned trades, then executes them through the vault (owner only).
+ *      With `--weights` the registry's target weights are updated in the same transaction.
+ *      With `--export` the rebalance is written to a batch file for `--from` instead
+ */
+export async function rebalanceCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("⚖️  Rebalancing Index Basket...");
+
+  const client = ctx.client;
+  const indexId = parseInteger(required(flags.index, "--index"), "--index");
+  const slippageBps = parseSlippage(flags);
+  const deadline = parseDeadline(flags);
+  const targetWeights = flags.weights?.split(",").map((w) => BigInt(parseInteger(w.trim(), "--weights")));
+  const minTradeUsdc = flags.minTrade === undefined ? undefined : parseUsdc(flags.minTrade, "--min-trade");
+
+  const indexInfo = await client.getIndex(indexId);
+  console.log(`   Index: ${indexInfo.name} (${indexInfo.symbol})`);
+  console.log(`   Vault: ${indexInfo.vault}`);
+
+  const plan = await client.planRebalance(indexId, { targetWeights, slippageBps, minTradeUsdc });
+
+  console.log(`\n📊 Drift (basket value ${formatUsdc(plan.totalValue)} USDC):`);
+  for (const component of plan.components) {
+    const { symbol, decimals } = await client.getTokenMetadata(component.token);
+    const drift = `${component.driftBps >= 0 ? "+" : ""}${(component.driftBps / 100).toFixed(2)}%`;
+    console.log(
+      `   🪙 ${symbol.padEnd(8)} ${formatUnits(component.balance, decimals)} = ${formatUsdc(component.value)} USDC, ` +
+        `${(component.currentWeight / 100).toFixed(2)}% vs target ${(component.targetWeight / 100).toFixed(2)}% (${drift})`
+    );
+  }
+  console.log(`   💵 Idle USDC: ${formatUsdc(plan.idleUsdc)}`);
+
+  const sells = plan.sells.filter((s) => s.amountIn > 0n);
+  const buys = plan.buys.filter((b) => b.amountIn > 0n);
+  if (sells.length === 0 && buys.length === 0 && !plan.weightsChanged) {
+    console.log("\n✅ Basket is within the minimum trade size of its targets, nothing to do");
+    return;
+  }
+
+  if (sells.length > 0) {
+    console.log(`\n📤 Sells:`);
+    await printComponentQuotes(client, sells, slippageBps, (c, decimals) => [
+      formatUnits(c.amountIn, decimals),
+      `${formatUsdc(c.expectedOut)} USDC`,
+      `${formatUsdc(c.minOut)} USDC`,
+    ]);
+  }
+  if (buys.length > 0) {
+    console.log(`\n📥 Buys:`);
+    await printComponentQuotes(client, buys, slippageBps, (c, decimals) => [
+      `${formatUsdc(c.amountIn)} USDC`,
+      formatUnits(c.expectedOut, decimals),
+      formatUnits(c.minOut, decimals),
+    ]);
+  }
+  if (plan.weightsChanged) {
+    console.log(`\n🎯 New target weights: ${plan.targetWeights.join(", ")}`);
+  }
+  console.log(`\n💸 Estimated cost (pool fees and price impact): ${formatUsdc(plan.estimatedCost)} USDC`);
+
+  const owner = await client.vault(indexInfo.vault).owner();
+  const account = ctx.account();
+  if (owner.toLowerCase() !== account.toLowerCase()) {
+    throw new Error(`Only the vault owner ${owner} can rebalance, ${ctx.exportFile ? "account" : "signer"} is ${account}`);
+  }
+
+  if (ctx.exportFile) {
+    await ctx.exportCalls([await client.rebalanceCall(plan, { deadline })]);
+    return;
+  }
+
+  if (!(await ctx.confirm(`Rebalance ${indexInfo.symbol} with ${sells.length} sells and ${buys.length} buys?`))) {
+    return;
+  }
+
+  console.log(`\n🏗️  Rebalancing...`);
+  const { receipt, event } = await client.rebalance(plan, { deadline });
+  console.log(`   📤 Transaction: ${receipt.hash}`);
+  console.log(`   ✅ Rebalance successful!`);
+  console.log(`   🧾 Gas used: ${receipt.gasUsed.toString()} (${formatTxCost(receipt)})`);
+  console.log(`   🎯 Target weights: ${event.weights.join(", ")}`);
+}
@@ -0,0 +1,173 @@
+import { formatUnits } from "ethers";
+import { formatAddress, formatTxCost } from "../../sdk";
+import {
+  CliContext,
+  CommandFlags,
+  formatShares,
+  formatUsdc,
+  parseDeadline,
+  parseInteger,
+  parseShares,
+  parseSlippage,
+  parseUsdc,
+  preflightAssociations,
+  printComponentQuotes,
+  printValuation,
+  required,
+} from "../context";
+
+/**
+ * Resolves `--shares <amount>` or `--percent <1-100>` against the holder's balance
+ */
+function resolveShares(flags: CommandFlags, balance: bigint): bigint {
+  if (flags.shares !== undefined && flags.percent !== undefined) {
+    throw new Error("Pass either --shares or --percent, not both");
+  }
+  if (flags.shares !== undefined) {
+    const shares = parseShares(flags.shares, "--shares");
+    if (shares > balance) {
+      throw new Error(`Cannot redeem ${formatShares(shares)} shares, balance is ${formatShares(balance)}`);
+    }
+    return shares;
+  }
+
+  const percent = parseInteger(required(flags.percent, "--shares or --percent"), "--percent");
+  if (percent < 1 || percent > 100) {
+    throw new Error("--percent must be between 1 and 100");
+  }
+  return (balance * BigInt(percent)) / 100n;
+}
+
+/**
+ * hedgera redeem --index <id> (--shares <amount> | --percent <pct>) [--slippage <bps>] [--min-usdc <amount>] [--deadline <seconds>]
+ * hedgera redeem --index <id> (--shares <amount> | --percent <pct>) --in-kind [--deadline <seconds>]
+ * @dev Checks the HTS associations of everyone receiving tokens first (`--skip-association-check` to skip).
+ *      Every component sale gets a minimum output from the quote; `--min-usdc` overrides the quoted USDC minimum.
+ *      `--in-kind` skips the swaps and pays out each basket token pro rata. With `--export` the redeem
+ *      is written to a batch file for `--from` instead
+ */
+export async function redeemCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("💰 Redeeming Index Tokens...");
+
+  const account = ctx.account();
+  const client = ctx.client;
+
+  const indexId = parseInteger(required(flags.index, "--index"), "--index");
+  const slippageBps = parseSlippage(flags);
+  const inKind = flags.inKind ?? false;
+  const deadline = parseDeadline(flags);
+
+  console.log(`📝 ${ctx.exportFile ? "Account" : "Signer"}: ${account}`);
+  console.log(`📊 Registry: ${client.deployment.registry}`);
+
+  console.log(`\n📋 Getting index information...`);
+  const indexInfo = await client.getIndex(indexId);
+  console.log(`   Index: ${indexInfo.name} (${indexInfo.symbol})`);
+  console.log(`   Vault: ${formatAddress(indexInfo.vault)}`);
+  console.log(`   Token: ${formatAddress(indexInfo.indexToken)}`);
+
+  console.log(`\n💰 Current Balances:`);
+  const indexToken = client.indexToken(indexInfo.indexToken);
+  const usdcBalance = await client.usdc.balanceOf(account);
+  const shareBalance = await indexToken.balanceOf(account);
+  console.log(`   USDC Balance: ${formatUsdc(usdcBalance)} USDC`);
+  console.log(`   Index Shares: ${formatShares(shareBalance)} ${indexInfo.symbol}`);
+
+  if (shareBalance === 0n) {
+    throw new Error("No shares to redeem. Run `hedgera mint` first.");
+  }
+
+  const sharesToRedeem = resolveShares(flags, shareBalance);
+  if (sharesToRedeem === 0n) {
+    throw new Error("Nothing to redeem: resolved share amount is 0");
+  }
+  await preflightAssociations(ctx, flags, inKind ? "redeemInKind" : "redeem", { account, indexId });
+
+  console.log(`\n🎯 Redeem Configuration:`);
+  console.log(`   Index ID: ${indexId}`);
+  console.log(`   Shares: ${formatShares(sharesToRedeem)} ${indexInfo.symbol}`);
+  if (!inKind) {
+    console.log(`   Slippage Tolerance: ${slippageBps / 100}%`);
+  }
+  console.log(`   In-Kind: ${inKind ? "Yes (basket tokens)" : "No (USDC)"}`);
+  console.log(`   Deadline: ${new Date(deadline * 1000).toISOString()}`);
+
+  await printValuation(client, indexId);
+
+  if (inKind) {
+    await redeemInKind(ctx, indexId, sharesToRedeem, deadline);
+    return;
+  }
+
+  console.log(`\n📐 Quote:`);
+  const quote = await client.quoteRedeem(indexId, sharesToRedeem, slippageBps);
+  const minUsdcAmount = flags.minUsdc === undefined ? quote.minUsdc : parseUsdc(flags.minUsdc, "--min-usdc");
+  await printComponentQuotes(client, quote.components, slippageBps, (c, decimals) => [
+    formatUnits(c.amountIn, decimals),
+    `${formatUsdc(c.expectedOut)} USDC`,
+    `${formatUsdc(c.minOut)} USDC`,
+  ]);
+  console.log(`   💸 Redeem Fee: ${formatUsdc(quote.fee)} USDC`);
+  console.log(`   📈 Expected USDC: ${formatUsdc(quote.expectedUsdc)} USDC (previewRedeem)`);
+  console.log(`   🛡️  Min USDC: ${formatUsdc(minUsdcAmount)} USDC`);
+
+  const options = { minAmount: minUsdcAmount, minUsdcAmounts: quote.components.map((c) => c.minOut), deadline };
+  if (ctx.exportFile) {
+    await ctx.exportCalls([await client.redeemCall(indexId, sharesToRedeem, options)]);
+    return;
+  }
+  if (!(await ctx.confirm(`Redeem ${formatShares(sharesToRedeem)} ${indexInfo.symbol}?`))) {
+    return;
+  }
+
+  console.log(`\n💸 Redeeming tokens...`);
+  const { receipt, event } = await client.redeem(indexId, sharesToRedeem, options);
+  console.log(`   📤 Transaction: ${receipt.hash}`);
+  console.log(`   ✅ Redeem successful!`);
+  console.log(`   🧾 Gas used: ${receipt.gasUsed.toString()} (${formatTxCost(receipt)})`);
+
+  console.log(`\n💰 Updated Balances:`);
+  const newUsdcBalance = await client.usdc.balanceOf(account);
+  const newShareBalance = await indexToken.balanceOf(account);
+  console.log(`   USDC Balance: ${formatUsdc(newUsdcBalance)} USDC (+${formatUsdc(newUsdcBalance - usdcBalance)})`);
+  console.log(`   Index Shares: ${formatShares(newShareBalance)} ${indexInfo.symbol}`);
+  console.log(`   🎉 Redeemed: ${formatShares(event.sharesIn)} ${indexInfo.symbol} shares`);
+  console.log(`   💰 Received: ${formatUsdc(event.usdcOut)} USDC`);
+}
+
+async function redeemInKind(ctx: CliContext, indexId: number, shares: bigint, deadline: number): Promise<void> {
+  const client = ctx.client;
+  const indexInfo = await client.getIndex(indexId);
+
+  console.log(`\n📐 Preview (redeem fee ${Number(indexInfo.fees.redeemFee) / 100}% kept in kind):`);
+  for (const component of await client.previewRedeemInKind(indexId, shares)) {
+    const { symbol, decimals } = await client.getTokenMetadata(component.token);
+    console.log(
+      `   🪙 ${symbol.padEnd(8)} ${formatUnits(component.amount, decimals)} (fee ${formatUnits(component.fee, decimals)})`
+    );
+  }
+
+  if (ctx.exportFile) {
+    await ctx.exportCalls([await client.redeemInKindCall(indexId, shares, { deadline })]);
+    return;
+  }
+  if (!(await ctx.confirm(`Redeem ${formatShares(shares)} ${indexInfo.symbol} in kind?`))) {
+    return;
+  }
+
+  console.log(`\n💸 Redeeming tokens in kind...`);
+  const { receipt, event } = await client.redeemInKind(indexId, shares, { deadline });
+  console.log(`   📤 Transaction: ${receipt.hash}`);
+  console.log(`   ✅ Redeem successful!`);
+  console.log(`   🧾 Gas used: ${receipt.gasUsed.toString()} (${formatTxCost(receipt)})`);
+
+  console.log(`\n🎉 Redeemed: ${formatShares(event.sharesIn)} ${indexInfo.symbol} shares`);
+  console.log(`💰 Received:`);
+  for (let i = 0; i < event.tokens.length; i++) {
+    const { symbol, decimals } = await client.getTokenMetadata(event.tokens[i]);
+    console.log(`   🪙 ${symbol.padEnd(8)} ${formatUnits(event.amounts[i], decimals)}  (${event.tokens[i]})`);
+  }
+  if (event.usdcOut > 0n) {
+    console.log(`   💵 USDC     ${formatUsdc(event.usdcOut)}`);
+  }
+}
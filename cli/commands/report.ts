@@ -0,0 +1,82 @@
+import { writeFileSync } from "fs";
+import {
+  EventIndexer,
+  EventStore,
+  IndexPerformance,
+  ReportPeriod,
+  analyzeIndexes,
+  defaultEventDatabase,
+  navHistoryToCsv,
+  performanceToJson,
+} from "../../sdk";
+import { CliContext, CommandFlags, formatUsdc, parseInteger } from "../context";
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = { day: "Daily", week: "Weekly", month: "Monthly" };
+const PERIODS = Object.keys(PERIOD_LABELS) as ReportPeriod[];
+const FORMATS = ["table", "json", "csv"];
+
+/**
+ * hedgera report [--index <id>] [--period day|week|month] [--format table|json|csv] [--output <file>] [--db <file>] [--offline]
+ * @dev Syncs the event database first unless `--offline`; `csv` exports the NAV/TVL series, `json` the full report
+ */
+export async function reportCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  const period = (flags.period ?? "day") as ReportPeriod;
+  if (!PERIODS.includes(period)) {
+    throw new Error(`Invalid value for --period: "${flags.period}" (expected ${PERIODS.join(", ")})`);
+  }
+  const format = flags.format ?? "table";
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Invalid value for --format: "${flags.format}" (expected ${FORMATS.join(", ")})`);
+  }
+  const indexId = flags.index === undefined ? undefined : parseInteger(flags.index, "--index");
+  const file = flags.db ?? defaultEventDatabase(ctx.deploymentFile);
+
+  const store = new EventStore(file);
+  let reports: IndexPerformance[];
+  try {
+    if (!flags.offline) {
+      // Progress goes to stderr so JSON/CSV on stdout stays clean
+      const result = await new EventIndexer(ctx.provider, ctx.client.deployment, store).sync();
+      console.error(`🗂️  ${file} synced to block ${result.toBlock}`);
+    }
+    reports = analyzeIndexes(store, period, indexId);
+  } finally {
+    store.close();
+  }
+
+  if (format === "table") {
+    reports.forEach((report) => printReport(report));
+    return;
+  }
+
+  const output = format === "json" ? performanceToJson(reports) : navHistoryToCsv(reports);
+  if (flags.output) {
+    writeFileSync(flags.output, output);
+    console.error(`💾 Report saved to: ${flags.output}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+function printReport(report: IndexPerformance): void {
+  const percent = (value: number | null) => (value === null ? "n/a" : `${(value * 100).toFixed(2)}%`);
+  const nav = (value: bigint | null) => (value === null ? "n/a" : `${formatUsdc(value)} USDC`);
+  const date = (timestamp: number | null) => (timestamp === null ? "n/a" : new Date(timestamp * 1000).toISOString());
+
+  console.log(`\n🔢 Index ${report.indexId}: ${report.name} (${report.symbol})`);
+  console.log(`   📅 History: ${date(report.firstTimestamp)} → ${date(report.lastTimestamp)} (${report.history.length} mints/redeems)`);
+  console.log(`   📊 NAV per Share: ${nav(report.startNav)} → ${nav(report.endNav)}`);
+  console.log(`   📈 Total Return: ${percent(report.totalReturn)}`);
+  console.log(`   🌊 Volatility (${report.period}): ${percent(report.volatility)}, annualized ${percent(report.annualizedVolatility)}`);
+  console.log(`   📉 Max Drawdown: ${percent(report.maxDrawdown)}`);
+  console.log(`   💰 TVL: ${formatUsdc(report.tvl)} USDC`);
+  console.log(`   💸 Fees: ${formatUsdc(report.mintFees)} USDC mint, ${formatUsdc(report.redeemFees)} USDC redeem`);
+  console.log(`   🔁 Net Flows: ${formatUsdc(report.netFlows)} USDC (${formatUsdc(report.inflows)} in, ${formatUsdc(report.outflows)} out)`);
+
+  if (report.periodReturns.length > 0) {
+    console.log(`\n   🗓️  ${PERIOD_LABELS[report.period]} returns:`);
+    for (const { start, navPerShare, return: periodReturn } of report.periodReturns) {
+      console.log(`      ${start}  ${formatUsdc(navPerShare).padStart(12)} USDC  ${percent(periodReturn).padStart(8)}`);
+    }
+  }
+}
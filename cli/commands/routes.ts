@@ -0,0 +1,73 @@
+import { formatUnits } from "ethers";
+import { dump as dumpYaml } from "js-yaml";
+import { DEFAULT_ROUTE_AMOUNT, planRoutes, resolveToken, routeAdminConfig } from "../../sdk";
+import { CliContext, CommandFlags, formatUsdc, parseInteger, parseUsdc } from "../context";
+
+/**
+ * hedgera routes (--index <id> | --tokens <list>) [--via <list>] [--usdc <amount>]
+ * @dev Read-only: compares the Router's path for every component with the best path through the
+ *      `--via` tokens (default HBAR) at a `--usdc` trade size, and prints the `router.paths` admin
+ *      config that switches to the better ones, to review and send with `plan`/`apply`
+ */
+export async function routesCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  console.log("🧭 Finding SaucerSwap routes...");
+  const client = ctx.client;
+
+  let tokens: string[];
+  if (flags.index !== undefined) {
+    const index = await client.getIndex(parseInteger(flags.index, "--index"));
+    console.log(`📋 Index: ${index.name} (${index.symbol})`);
+    tokens = index.components.map((c) => c.token);
+  } else if (flags.tokens !== undefined) {
+    tokens = flags.tokens.split(",").map((t) => resolveToken(t.trim(), ctx.tokens));
+  } else {
+    throw new Error("Missing --index or --tokens");
+  }
+
+  const via = flags.via
+    ? flags.via.split(",").map((t) => resolveToken(t.trim(), ctx.tokens))
+    : ctx.tokens.HBAR
+      ? [ctx.tokens.HBAR]
+      : [];
+  const amountIn = flags.usdc === undefined ? DEFAULT_ROUTE_AMOUNT : parseUsdc(flags.usdc, "--usdc");
+
+  const symbols = new Map<string, string>([[client.deployment.usdc.toLowerCase(), "USDC"]]);
+  const symbolOf = async (token: string) => {
+    if (!symbols.has(token.toLowerCase())) {
+      symbols.set(token.toLowerCase(), (await client.getTokenMetadata(token)).symbol);
+    }
+    return symbols.get(token.toLowerCase())!;
+  };
+  const describe = async (path: string[]) => (await Promise.all(path.map(symbolOf))).join(" → ");
+  console.log(`🔀 Via: ${via.length > 0 ? (await Promise.all(via.map(symbolOf))).join(", ") : "direct pools only"}`);
+  console.log(`💵 Compared at: ${formatUsdc(amountIn)} USDC per component`);
+
+  const plans = await planRoutes(client, tokens, { via, amountIn });
+  console.log(`\n🪙 Components:`);
+  for (const { token, current, best, improvementBps } of plans) {
+    const symbol = await symbolOf(token);
+    if (!best) {
+      console.log(`   ❌ ${symbol.padEnd(8)} no route from USDC through the pools`);
+      continue;
+    }
+    const bestOut = best.amounts[best.amounts.length - 1];
+    if (!current) {
+      console.log(`   ⚠️  ${symbol.padEnd(8)} configured path cannot be quoted; best: ${await describe(best.path)}`);
+    } else if (improvementBps === 0) {
+      console.log(`   ✅ ${symbol.padEnd(8)} ${await describe(current.path)}`);
+    } else {
+      const better = `${await describe(best.path)} (+${improvementBps / 100}%)`;
+      console.log(`   ⚠️  ${symbol.padEnd(8)} ${await describe(current.path)}, better: ${better}`);
+    }
+    const { decimals } = await client.getTokenMetadata(token);
+    console.log(`       ${formatUsdc(amountIn)} USDC buys ${formatUnits(bestOut, decimals)} ${symbol} on the best path`);
+  }
+
+  const config = routeAdminConfig(plans);
+  if (Object.keys(config.router!.paths!).length === 0) {
+    console.log(`\n✅ The Router already uses the best paths`);
+    return;
+  }
+  console.log(`\n📝 Add to your admin config, then run plan and apply:\n`);
+  console.log(dumpYaml(config, { flowLevel: 3 }).trimEnd().replace(/^/gm, "   "));
+}
@@ -0,0 +1,44 @@
+import { ApiServer, DEFAULT_API_CACHE_TTL_MS } from "../../sdk";
+import { CliContext, CommandFlags, parseInteger } from "../context";
+
+/** Port the API listens on unless `--port` says otherwise */
+const DEFAULT_PORT = 3000;
+
+/**
+ * hedgera serve [--port <port>] [--host <host>] [--cache-ttl <seconds>]
+ * @dev Read-only HTTP/JSON API for dashboards; needs no signer. Logs one line per request and
+ *      stops cleanly on SIGINT/SIGTERM
+ */
+export async function serveCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  const port = flags.port === undefined ? DEFAULT_PORT : parseInteger(flags.port, "--port");
+  const cacheTtlMs =
+    flags.cacheTtl === undefined ? DEFAULT_API_CACHE_TTL_MS : parseInteger(flags.cacheTtl, "--cache-ttl") * 1000;
+
+  const api = new ApiServer(ctx.client, { cacheTtlMs, log: (line) => console.log(`   ${line}`) });
+  const url = await api.listen(port, flags.host ?? "127.0.0.1");
+  console.log(`🌐 Hedgera API on ${url} (${ctx.network.name}, registry ${ctx.client.deployment.registry})`);
+  console.log(`   Reads are cached for ${cacheTtlMs / 1000}s. Routes:`);
+  for (const route of [
+    "/indexes?offset&limit",
+    "/indexes/:id",
+    "/indexes/:id/composition",
+    "/indexes/:id/nav",
+    "/curators/:address/indexes",
+    "/quote/mint?indexId&usdc[&slippage]",
+  ]) {
+    console.log(`   GET ${url}${route}`);
+  }
+
+  let stop!: () => void;
+  const stopped = new Promise<void>((resolve) => (stop = resolve));
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  try {
+    await stopped;
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+  console.log(`\n🛑 Stopping...`);
+  await api.close();
+}
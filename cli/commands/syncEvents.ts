@@ -0,0 +1,35 @@
+import { EventIndexer, EventStore, defaultEventDatabase } from "../../sdk";
+import { CliContext, CommandFlags, parseInteger } from "../context";
+
+/**
+ * hedgera sync-events [--db <file>] [--block-range <n>]
+ * @dev Resumes from the database's checkpoint; the first run starts at the manifest's deployment block
+ */
+export async function syncEventsCommand(ctx: CliContext, flags: CommandFlags): Promise<void> {
+  const file = flags.db ?? defaultEventDatabase(ctx.deploymentFile);
+  const blockRange = flags.blockRange === undefined ? undefined : parseInteger(flags.blockRange, "--block-range");
+
+  const store = new EventStore(file);
+  try {
+    const indexer = new EventIndexer(ctx.provider, ctx.client.deployment, store, {
+      blockRange,
+      log: (message) => console.log(message),
+    });
+
+    console.log(`🗂️  Syncing events into ${file}...`);
+    const result = await indexer.sync();
+
+    if (result.ranges === 0) {
+      console.log(`✅ Already up to date at block ${result.toBlock}`);
+    } else {
+      console.log(`\n✅ Synced blocks ${result.fromBlock}-${result.toBlock}: ${result.events} events, ${result.indexes} new indexes`);
+    }
+
+    console.log("\n📊 Stored events:");
+    for (const [name, count] of Object.entries(store.countEvents())) {
+      console.log(`   ${name.padEnd(20)} ${count}`);
+    }
+  } finally {
+    store.close();
+  }
+}
@@ -0,0 +1,405 @@
+import { createInterface } from "readline/promises";
+import { JsonRpcProvider, Wallet, formatUnits, parseUnits } from "ethers";
+import {
+  AssociationOperation,
+  ComponentQuote,
+  ContractCall,
+  ContractCreation,
+  DEFAULT_DEADLINE_SECONDS,
+  DeploymentManifest,
+  DEFAULT_SLIPPAGE_BPS,
+  HedgeraClient,
+  IndexValuation,
+  NetworkConfig,
+  TransactionBatch,
+  TxSettings,
+  assertDeploymentChain,
+  checkAssociations,
+  createBatch,
+  formatAddress,
+  getNetwork,
+  loadDeployment,
+  saveBatch,
+  toEvmAddress,
+} from "../sdk";
+
+/**
+ * Flags accepted by every command
+ */
+export interface GlobalOptions {
+  network: string;
+  rpcUrl?: string;
+  privateKey?: string;
+  deployment?: string;
+  dryRun: boolean;
+  yes: boolean;
+  exportFile?: string;
+  from?: string;
+  confirmations?: string;
+}
+
+/**
+ * Command-specific flags (all optional; each command validates what it needs)
+ */
+export interface CommandFlags {
+  index?: string;
+  usdc?: string;
+  minShares?: string;
+  shares?: string;
+  percent?: string;
+  minUsdc?: string;
+  deadline?: string;
+  slippage?: string;
+  name?: string;
+  symbol?: string;
+  curator?: string;
+  tokens?: string;
+  weights?: string;
+  mintFee?: string;
+  redeemFee?: string;
+  usdcToken?: string;
+  saucerswapRouter?: string;
+  creationFee?: string;
+  allowance?: string;
+  verifyOnly?: boolean;
+  file?: string;
+  offline?: boolean;
+  inKind?: boolean;
+  db?: string;
+  blockRange?: string;
+  period?: string;
+  format?: string;
+  output?: string;
+  minTrade?: string;
+  interval?: string;
+  once?: boolean;
+  drift?: string;
+  idleUsdc?: string;
+  cooldown?: string;
+  maxCost?: string;
+  state?: string;
+  sweep?: boolean;
+  curatorTreasury?: string;
+  platformTreasury?: string;
+  hash?: string;
+  skipAssociationCheck?: boolean;
+  via?: string;
+  port?: string;
+  host?: string;
+  cacheTtl?: string;
+  factory?: string;
+  tolerance?: string;
+}
+
+/**
+ * Everything a command needs to talk to the chain
+ */
+export class CliContext {
+  readonly networkName: string;
+  readonly network: NetworkConfig;
+  /** The network's transaction settings, with `--confirmations` applied */
+  readonly txSettings: TxSettings;
+  readonly provider: JsonRpcProvider;
+  readonly signer?: Wallet;
+  readonly deploymentFile: string;
+  readonly dryRun: boolean;
+  readonly exportFile?: string;
+  private readonly from?: string;
+  private readonly assumeYes: boolean;
+  private _client?: HedgeraClient;
+
+  constructor(options: GlobalOptions) {
+    this.networkName = options.network;
+    this.network = getNetwork(options.network);
+    this.txSettings = { ...this.network.txOverrides };
+    if (options.confirmations !== undefined) {
+      this.txSettings.confirmations = parseInteger(options.confirmations, "--confirmations");
+    }
+    this.provider = new JsonRpcProvider(options.rpcUrl ?? this.network.url, this.network.chainId, {
+      staticNetwork: true,
+      cacheTimeout: -1, // never serve a stale nonce between consecutive transactions
+    });
+
+    const privateKey = options.privateKey ?? process.env.PRIVATE_KEY;
+    if (privateKey) {
+      this.signer = new Wallet(privateKey, this.provider);
+    }
+
+    this.deploymentFile = options.deployment ?? this.network.deploymentFile;
+    this.dryRun = options.dryRun;
+    this.assumeYes = options.yes;
+
+    this.exportFile = options.exportFile;
+    this.from = options.from === undefined ? undefined : parseAddress(options.from, "--from");
+  }
+
+  /**
+   * Fails unless the RPC endpoint serves the chain the network is configured for
+   * @dev The provider uses a static network, so a wrong `--rpc-url` would otherwise go unnoticed
+   */
+  async verifyChain(): Promise<void> {
+    const chainId = Number(await this.provider.send("eth_chainId", []));
+    if (chainId !== this.network.chainId) {
+      throw new Error(
+        `RPC endpoint is on chainId ${chainId} but network "${this.networkName}" expects ${this.network.chainId}`
+      );
+    }
+  }
+
+  /**
+   * Client bound to the deployment manifest, using the signer when one is configured
+   * @dev Refuses manifests written for a different chain
+   */
+  get client(): HedgeraClient {
+    if (!this._client) {
+      const deployment = loadDeployment(this.deploymentFile);
+      assertDeploymentChain(deployment, this.network.chainId, this.deploymentFile);
+      this._client = new HedgeraClient(deployment, this.signer ?? this.provider, {
+        txOverrides: this.txSettings,
+      });
+    }
+    return this._client;
+  }
+
+  /**
+   * Symbol to address table for the deployment (mock tokens on local chains)
+   */
+  get tokens(): Record<string, string> {
+    return this.client.deployment.tokens ?? this.network.tokens;
+  }
+
+  /**
+   * Returns the signer or fails with a hint on how to configure one
+   */
+  requireSigner(): Wallet {
+    if (!this.signer) {
+      throw new Error("No signer configured. Set PRIVATE_KEY in .env or pass --private-key");
+    }
+    return this.signer;
+  }
+
+  /**
+   * Account the command acts for: `--from` when given, otherwise the signer
+   */
+  account(): string {
+    if (this.from) {
+      return this.from;
+    }
+    if (!this.signer && this.exportFile) {
+      throw new Error("No account to export for. Pass --from <address> or configure a signer");
+    }
+    return this.requireSigner().address;
+  }
+
+  /**
+   * Writes calls to the `--export` batch file instead of sending them
+   * @dev With --dry-run the batch is only printed. Creations need the deployment they build and
+   *      the nonce they were planned for
+   */
+  async exportCalls(
+    calls: (ContractCall | ContractCreation)[],
+    deployment: DeploymentManifest = this.client.deployment,
+    nonce?: number
+  ): Promise<void> {
+    const batch = createBatch(deployment, this.account(), calls, nonce);
+    console.log(`\n📦 Unsigned batch for ${batch.from}:`);
+    printBatch(batch);
+    if (this.dryRun) {
+      console.log("\n🧪 Dry run: batch not written");
+      return;
+    }
+    const path = saveBatch(batch, this.exportFile!);
+    console.log(`\n💾 Saved to ${path}`);
+    console.log(`   Sign it with \`hedgera sign ${this.exportFile}\` (or import it into a multisig),`);
+    console.log(`   then send it with \`hedgera submit ${this.exportFile}\``);
+  }
+
+  /**
+   * Asks the user to confirm a state-changing action
+   * @return proceed Whether the action should be executed
+   */
+  async confirm(question: string): Promise<boolean> {
+    if (this.dryRun) {
+      console.log("\n🧪 Dry run: no transactions sent");
+      return false;
+    }
+    if (this.assumeYes) {
+      return true;
+    }
+    if (!process.stdin.isTTY) {
+      throw new Error("Confirmation required. Pass --yes to run non-interactively");
+    }
+
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      const answer = await rl.question(`\n❓ ${question} [y/N] `);
+      const proceed = ["y", "yes"].includes(answer.trim().toLowerCase());
+      if (!proceed) {
+        console.log("🚫 Aborted");
+      }
+      return proceed;
+    } finally {
+      rl.close();
+    }
+  }
+}
+
+/**
+ * Prints the transactions of a batch with their decoded calls and the batch hash
+ */
+export function printBatch(batch: TransactionBatch): void {
+  batch.transactions.forEach((tx, i) => {
+    console.log(`   ${String(i + 1).padStart(2)}. ${tx.description}`);
+    const target = tx.to === null ? `creates ${tx.address}` : `@ ${tx.to}`;
+    console.log(`       ${tx.contract}.${tx.method}(${tx.args.join(", ")}) ${target}`);
+  });
+  if (batch.nonce !== undefined) {
+    console.log(`   🔢 Starts at nonce ${batch.nonce} of ${batch.from}`);
+  }
+  console.log(`   🔐 Hash: ${batch.hash}`);
+  if (batch.signed) {
+    console.log(`   ✍️  Signed: ${batch.signed.length} of ${batch.transactions.length}`);
+  }
+}
+
+/** Formats a USDC amount (6 decimals) */
+export function formatUsdc(amount: bigint): string {
+  return formatUnits(amount, 6);
+}
+
+/** Formats an index share amount (18 decimals) */
+export function formatShares(amount: bigint): string {
+  return formatUnits(amount, 18);
+}
+
+/**
+ * Parses a decimal USDC amount such as "12.5" into 6-decimal units
+ */
+export function parseUsdc(value: string, flag: string): bigint {
+  try {
+    return parseUnits(value, 6);
+  } catch {
+    throw new Error(`Invalid USDC amount for ${flag}: "${value}"`);
+  }
+}
+
+/**
+ * Parses a decimal share amount such as "1.5" into 18-decimal units
+ */
+export function parseShares(value: string, flag: string): bigint {
+  try {
+    return parseUnits(value, 18);
+  } catch {
+    throw new Error(`Invalid share amount for ${flag}: "${value}"`);
+  }
+}
+
+/**
+ * Parses an EVM address or a Hedera account/token ID (`0.0.x`) into an EVM address
+ */
+export function parseAddress(value: string, flag: string): string {
+  return toEvmAddress(value, `address for ${flag}`);
+}
+
+/**
+ * Parses a non-negative integer flag
+ */
+export function parseInteger(value: string, flag: string): number {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid value for ${flag}: "${value}" (expected a non-negative integer)`);
+  }
+  return Number(value);
+}
+
+/**
+ * Returns a required flag value or fails with a usage hint
+ */
+export function required<T>(value: T | undefined, flag: string): T {
+  if (value === undefined) {
+    throw new Error(`Missing required option ${flag}`);
+  }
+  return value;
+}
+
+/**
+ * Resolves `--deadline` (seconds from now, default 30 minutes) to a unix timestamp
+ */
+export function parseDeadline(flags: CommandFlags): number {
+  const seconds = flags.deadline === undefined ? DEFAULT_DEADLINE_SECONDS : parseInteger(flags.deadline, "--deadline");
+  return Math.floor(Date.now() / 1000) + seconds;
+}
+
+/**
+ * Resolves `--slippage` (basis points, default 1%)
+ */
+export function parseSlippage(flags: CommandFlags): number {
+  return flags.slippage === undefined ? DEFAULT_SLIPPAGE_BPS : parseInteger(flags.slippage, "--slippage");
+}
+
+/**
+ * Checks the HTS token associations an operation needs and fails listing the missing ones
+ * @dev `--skip-association-check` bypasses it, e.g. for accounts relying on automatic association
+ */
+export async function preflightAssociations(
+  ctx: CliContext,
+  flags: CommandFlags,
+  operation: AssociationOperation,
+  request: { account: string; indexId?: number; tokens?: string[] }
+): Promise<void> {
+  console.log(`\n🔗 Token Associations:`);
+  if (flags.skipAssociationCheck) {
+    console.log(`   ⚠️  Check skipped`);
+    return;
+  }
+
+  const missing = await checkAssociations(ctx.client, operation, request);
+  if (missing.length === 0) {
+    console.log(`   ✅ Every account involved can receive its tokens`);
+    return;
+  }
+  for (const { account, role, token } of missing) {
+    const { symbol } = await ctx.client.getTokenMetadata(token);
+    console.log(`   ❌ ${role.padEnd(8)} ${formatAddress(account)} is not associated with ${symbol} ${formatAddress(token)}`);
+  }
+  throw new Error(
+    `${missing.length} token association${missing.length === 1 ? " is" : "s are"} missing. ` +
+      "Associate them and retry, or pass --skip-association-check"
+  );
+}
+
+/**
+ * Prints the live NAV per share of an index and warns about components the vault cannot price
+ * @dev Unpriced components are left out of NAV and TVL, so both read low until the Router can quote them
+ */
+export async function printValuation(client: HedgeraClient, indexId: number): Promise<IndexValuation> {
+  const valuation = await client.getValuation(indexId);
+  console.log(`   📊 Current Share Price: ${formatUsdc(valuation.navPerShare)} USDC`);
+  for (const token of valuation.unpriced) {
+    const { symbol } = await client.getTokenMetadata(token);
+    console.log(`   ⚠️  ${symbol} ${formatAddress(token)} could not be priced and is left out of the NAV`);
+  }
+  return valuation;
+}
+
+/**
+ * Prints one line per quoted component swap, warning when price impact exceeds the tolerance
+ * @param format Formats [amountIn, expectedOut, minOut] of a component for display
+ */
+export async function printComponentQuotes(
+  client: HedgeraClient,
+  components: ComponentQuote[],
+  slippageBps: number,
+  format: (component: ComponentQuote, decimals: number) => [string, string, string]
+): Promise<void> {
+  for (const component of components) {
+    const { symbol, decimals } = await client.getTokenMetadata(component.token);
+    const [amountIn, expectedOut, minOut] = format(component, decimals);
+    const impact = `${(component.priceImpactBps / 100).toFixed(2)}%`;
+    const hops = component.path.slice(1, -1);
+    const route = hops.length > 0
+      ? ` via ${(await Promise.all(hops.map(async (hop) => (await client.getTokenMetadata(hop)).symbol))).join(", ")}`
+      : "";
+    const warning = component.priceImpactBps > slippageBps ? " ⚠️  impact exceeds slippage tolerance" : "";
+    console.log(`   🪙 ${symbol.padEnd(8)} ${amountIn} → ${expectedOut} (min ${minOut}, impact ${impact})${route}${warning}`);
+  }
+}
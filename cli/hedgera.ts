@@ -0,0 +1,332 @@
+#!/usr/bin/env ts-node
+import { parseArgs } from "util";
+import * as dotenv from "dotenv";
+import { describeError } from "../sdk";
+import { CliContext, CommandFlags } from "./context";
+import { applyCommand, planCommand } from "./commands/admin";
+import { signCommand, submitCommand } from "./commands/batch";
+import { checkUsdcCommand } from "./commands/checkUsdc";
+import { createIndexCommand, validateIndexCommand } from "./commands/createIndex";
+import { deployCommand } from "./commands/deploy";
+import { feesCommand } from "./commands/fees";
+import { keeperCommand } from "./commands/keeper";
+import { listCommand, showCommand } from "./commands/list";
+import { migrateCommand } from "./commands/migrate";
+import { mintCommand } from "./commands/mint";
+import { portfolioCommand } from "./commands/portfolio";
+import { rebalanceCommand } from "./commands/rebalance";
+import { redeemCommand } from "./commands/redeem";
+import { reportCommand } from "./commands/report";
+import { routesCommand } from "./commands/routes";
+import { serveCommand } from "./commands/serve";
+import { syncEventsCommand } from "./commands/syncEvents";
+
+dotenv.config();
+
+/** Commands that can write their transactions to a batch file with --export */
+const EXPORTABLE = new Set(["deploy", "mint", "redeem", "rebalance", "migrate", "fees", "apply"]);
+
+type Command = (ctx: CliContext, flags: CommandFlags, positionals: string[]) => Promise<void>;
+
+const COMMANDS: Record<string, Command> = {
+  deploy: deployCommand,
+  "create-index": createIndexCommand,
+  "validate-index": validateIndexCommand,
+  list: listCommand,
+  show: showCommand,
+  mint: mintCommand,
+  redeem: redeemCommand,
+  rebalance: rebalanceCommand,
+  migrate: migrateCommand,
+  keeper: keeperCommand,
+  fees: feesCommand,
+  plan: planCommand,
+  apply: applyCommand,
+  routes: routesCommand,
+  sign: signCommand,
+  submit: submitCommand,
+  "check-usdc": checkUsdcCommand,
+  "sync-events": syncEventsCommand,
+  report: reportCommand,
+  portfolio: portfolioCommand,
+  serve: serveCommand,
+};
+
+const USAGE = `Usage: hedgera <command> [options]
+
+Commands:
+  deploy                     Deploy IndexRegistry, Router and IndexFactory (resumes
+                             from the manifest and only sends missing steps)
+  create-index               Create an index through the factory (from flags or --file)
+  validate-index <file>      Check index definitions against the factory rules and pools
+  list                       List all indexes
+  show <id>                  Show an index with its basket composition
+  mint                       Mint index shares with USDC
+  redeem                     Redeem index shares for USDC (or the basket tokens with --in-kind)
+  rebalance                  Trade a basket back to its target weights, deploying idle USDC
+                             (vault owner; --dry-run prints the plan only)
+  migrate                    Move an index and all of its holdings to a new vault from an
+                             authorized factory, checking NAV, supply and fees (vault owner)
+  keeper                     Long-running keeper that rebalances drifted or idle-USDC baskets
+                             (vault owner; JSON line logs; --dry-run only logs decisions)
+  fees                       Unclaimed curator and platform fees per vault (--sweep withdraws
+                             the signer's share to the treasuries)
+  plan                       Diff a desired-state admin config (--file) against the chain
+  apply                      Send the calls from plan in order (owner of each contract)
+  routes                     Compare each component's Router swap path with the best path
+                             through the SaucerSwap pools (--index or --tokens)
+  sign <batch>               Verify a batch written with --export and sign it with the
+                             configured key, without sending
+  submit <batch>             Verify a signed batch and broadcast it in order
+  check-usdc                 Check USDC balance and factory allowance
+  sync-events                Index protocol events into a local SQLite database (resumable)
+  report                     NAV history, returns, volatility, drawdown, fees and flows per index
+  portfolio [address]        Positions across all indexes with cost basis and PnL (default signer)
+  serve                      Read-only HTTP/JSON API with index data, compositions, NAV and
+                             mint quotes for dashboards
+
+Global options:
+  -n, --network <name>       hedera | hedera-testnet | hedera-previewnet | localhost
+                             (default: hedera, or HEDGERA_NETWORK)
+      --rpc-url <url>        Override the network's RPC endpoint
+      --private-key <key>    Signer key (default: PRIVATE_KEY from .env)
+      --deployment <file>    Deployment manifest (default: per network)
+      --dry-run              Print what would happen without sending transactions
+  -y, --yes                  Skip confirmation prompts
+      --export <file>        Write the transactions to an unsigned batch file instead of
+                             sending them (deploy configuration, mint, redeem, rebalance,
+                             migrate, fees --sweep, apply)
+      --from <address>       Account that will sign the exported batch, e.g. a multisig
+                             (with --export, default signer)
+      --confirmations <n>    Blocks to wait for after each transaction (default per network, 1)
+  -h, --help                 Show this help
+
+Addresses (accounts, tokens, treasuries) can be given as EVM addresses or Hedera IDs such as 0.0.456858.
+
+Command options:
+  -i, --index <id>           Index ID (mint, redeem, rebalance, migrate; report and keeper only
+                             this index)
+      --usdc <amount>        USDC to deposit, e.g. 12.5 (mint), or the trade size to compare
+                             paths at (routes, default 1000)
+      --min-shares <amount>  Minimum shares to receive (mint, default from the quote)
+      --shares <amount>      Absolute shares to redeem (redeem)
+      --percent <1-100>      Percentage of balance to redeem (redeem)
+      --min-usdc <amount>    Minimum USDC to receive (redeem, default from the quote), or
+                             smallest balance to sweep (fees, default any)
+      --in-kind              Receive the basket tokens instead of USDC, without swaps (redeem)
+      --deadline <seconds>   Deadline from now (mint, redeem, rebalance, default 1800)
+      --slippage <bps>       Tolerance per component swap and on the total (mint, redeem,
+                             rebalance, keeper, default 100, at most the vault's MAX_SLIPPAGE)
+      --min-trade <usdc>     Skip trades worth less than this (rebalance, keeper, default 1)
+      --name, --symbol       Index name and symbol (create-index)
+      --tokens <list>        Comma separated symbols or addresses (create-index, routes)
+      --weights <list>       Comma separated basis points summing to 10000 (create-index;
+                             new target weights for rebalance)
+      --mint-fee <bps>       Mint fee (create-index, default 0)
+      --redeem-fee <bps>     Redeem fee (create-index, default 0)
+      --curator <address>    Curator (create-index, validate-index, default signer)
+      --file <path>          JSON/YAML index definitions (create-index) or admin config
+                             (plan, apply)
+      --offline              Only check the factory rules, without RPC calls (validate-index),
+                             or report from the event database without syncing (report)
+      --usdc-token <address> USDC address (deploy, default per network)
+      --saucerswap-router <address>  SaucerSwap V1 router (deploy, default per network)
+      --creation-fee <usdc>  Index creation fee (deploy, default 1)
+      --allowance <usdc>     Factory USDC allowance (deploy, check-usdc, default 10)
+      --verify-only          Report drift between the manifest and the chain (deploy)
+      --db <file>            Event database (sync-events, report, portfolio, default next
+                             to the manifest)
+      --block-range <n>      Blocks per log query (sync-events, default 1000)
+      --period <period>      day | week | month, for returns and volatility (report, default day)
+      --format <format>      table | json | csv (report, portfolio, default table; csv is the
+                             NAV/TVL series and only for report)
+      --output <file>        Write the json/csv export to a file instead of stdout (report,
+                             portfolio), or the signed batch (sign, default the input file)
+      --interval <seconds>   Seconds between keeper passes (keeper, default 60)
+      --once                 Run a single pass and exit (keeper)
+      --drift <bps>          Rebalance once a component drifts this far from target (keeper, default 200)
+      --idle-usdc <usdc>     ...or once this much USDC sits idle in the vault (keeper, default 10)
+      --cooldown <seconds>   Minimum time between attempts on one index (keeper, default 3600)
+      --max-cost <bps>       Skip plans costing more than this share of the basket (keeper, default 100)
+      --state <file>         Keeper state file (keeper, default next to the manifest)
+      --sweep                Withdraw the fees the signer can claim (fees)
+      --curator-treasury <address>   Receives curator fees (fees, default CURATOR_TREASURY
+                             from .env, then the signer)
+      --platform-treasury <address>  Receives platform and creation fees (fees, default
+                             PLATFORM_TREASURY from .env, then the signer)
+      --hash <hash>          Refuse a batch whose hash differs, e.g. the one reviewed by the
+                             other signers (required by sign; optional for submit)
+      --skip-association-check  Do not check HTS token associations first (create-index,
+                             mint, redeem), e.g. for accounts using automatic association
+      --via <list>           Intermediate tokens to route through (routes, default HBAR)
+      --port <port>          Port to listen on (serve, default 3000)
+      --host <host>          Interface to listen on (serve, default 127.0.0.1)
+      --cache-ttl <seconds>  How long reads are reused (serve, default 5)
+      --factory <address>    Factory that deploys the new vault (migrate, default the manifest's)
+      --tolerance <bps>      NAV and TVL the migration may lose (migrate, default 10, at most 1000)
+`;
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      network: { type: "string", short: "n" },
+      "rpc-url": { type: "string" },
+      "private-key": { type: "string" },
+      deployment: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      yes: { type: "boolean", short: "y", default: false },
+      export: { type: "string" },
+      from: { type: "string" },
+      confirmations: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+      index: { type: "string", short: "i" },
+      usdc: { type: "string" },
+      "min-shares": { type: "string" },
+      shares: { type: "string" },
+      percent: { type: "string" },
+      "min-usdc": { type: "string" },
+      deadline: { type: "string" },
+      slippage: { type: "string" },
+      name: { type: "string" },
+      symbol: { type: "string" },
+      curator: { type: "string" },
+      tokens: { type: "string" },
+      weights: { type: "string" },
+      "mint-fee": { type: "string" },
+      "redeem-fee": { type: "string" },
+      "usdc-token": { type: "string" },
+      "saucerswap-router": { type: "string" },
+      "creation-fee": { type: "string" },
+      allowance: { type: "string" },
+      "verify-only": { type: "boolean", default: false },
+      file: { type: "string" },
+      offline: { type: "boolean", default: false },
+      "in-kind": { type: "boolean", default: false },
+      db: { type: "string" },
+      "block-range": { type: "string" },
+      period: { type: "string" },
+      format: { type: "string" },
+      output: { type: "string" },
+      "min-trade": { type: "string" },
+      interval: { type: "string" },
+      once: { type: "boolean", default: false },
+      drift: { type: "string" },
+      "idle-usdc": { type: "string" },
+      cooldown: { type: "string" },
+      "max-cost": { type: "string" },
+      state: { type: "string" },
+      sweep: { type: "boolean", default: false },
+      "curator-treasury": { type: "string" },
+      "platform-treasury": { type: "string" },
+      hash: { type: "string" },
+      "skip-association-check": { type: "boolean", default: false },
+      via: { type: "string" },
+      port: { type: "string" },
+      host: { type: "string" },
+      "cache-ttl": { type: "string" },
+      factory: { type: "string" },
+      tolerance: { type: "string" },
+    },
+  });
+}
+
+export async function run(argv: string[]): Promise<void> {
+  const { values, positionals } = parseCommandLine(argv);
+  const [commandName, ...rest] = positionals;
+
+  if (values.help || !commandName) {
+    console.log(USAGE);
+    return;
+  }
+
+  const command = COMMANDS[commandName];
+  if (!command) {
+    throw new Error(`Unknown command "${commandName}"\n\n${USAGE}`);
+  }
+
+  if (values.export !== undefined && !EXPORTABLE.has(commandName)) {
+    throw new Error(`--export is not supported by ${commandName}`);
+  }
+  if (values.from !== undefined && values.export === undefined) {
+    throw new Error("--from only applies with --export");
+  }
+
+  const ctx = new CliContext({
+    network: values.network ?? process.env.HEDGERA_NETWORK ?? "hedera",
+    rpcUrl: values["rpc-url"],
+    privateKey: values["private-key"],
+    deployment: values.deployment,
+    dryRun: values["dry-run"] ?? false,
+    yes: values.yes ?? false,
+    exportFile: values.export,
+    from: values.from,
+    confirmations: values.confirmations,
+  });
+  if (!values.offline) {
+    await ctx.verifyChain();
+  }
+
+  const flags: CommandFlags = {
+    index: values.index,
+    usdc: values.usdc,
+    minShares: values["min-shares"],
+    shares: values.shares,
+    percent: values.percent,
+    minUsdc: values["min-usdc"],
+    deadline: values.deadline,
+    slippage: values.slippage,
+    name: values.name,
+    symbol: values.symbol,
+    curator: values.curator,
+    tokens: values.tokens,
+    weights: values.weights,
+    mintFee: values["mint-fee"],
+    redeemFee: values["redeem-fee"],
+    usdcToken: values["usdc-token"],
+    saucerswapRouter: values["saucerswap-router"],
+    creationFee: values["creation-fee"],
+    allowance: values.allowance,
+    verifyOnly: values["verify-only"],
+    file: values.file,
+    offline: values.offline,
+    inKind: values["in-kind"],
+    db: values.db,
+    blockRange: values["block-range"],
+    period: values.period,
+    format: values.format,
+    output: values.output,
+    minTrade: values["min-trade"],
+    interval: values.interval,
+    once: values.once,
+    drift: values.drift,
+    idleUsdc: values["idle-usdc"],
+    cooldown: values.cooldown,
+    maxCost: values["max-cost"],
+    state: values.state,
+    sweep: values.sweep,
+    curatorTreasury: values["curator-treasury"],
+    platformTreasury: values["platform-treasury"],
+    hash: values.hash,
+    skipAssociationCheck: values["skip-association-check"],
+    via: values.via,
+    port: values.port,
+    host: values.host,
+    cacheTtl: values["cache-ttl"],
+    factory: values.factory,
+    tolerance: values.tolerance,
+  };
+
+  await command(ctx, flags, rest);
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2))
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(`❌ ${describeError(error)}`);
+      process.exit(1);
+    });
+}
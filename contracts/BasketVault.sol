@@ -6,6 +6,7 @@ import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "./interfaces/IBasketVault.sol";
+import "./interfaces/IIndexFactory.sol";
 import "./interfaces/IIndexRegistry.sol";
 import "./interfaces/IIndexToken.sol";
 import "./interfaces/IRouter.sol";
@@ -34,9 +35,15 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
     /// @notice USDC token contract
     IERC20 public immutable usdc;
     
-    /// @notice Collected fees in USDC
+    /// @notice Unclaimed fees in USDC, curator and platform shares together
     uint256 public collectedFees;
     
+    /// @notice Platform's part of `collectedFees`, claimable by the registry owner
+    uint256 public platformFees;
+
+    /// @notice Vault the index moved to with `migrate`, or zero while this vault is live
+    address public override migratedTo;
+    
     /// @notice Basis points denominator (10000 = 100%)
     uint256 public constant BASIS_POINTS = 10000;
     
@@ -46,6 +53,10 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
     /// @notice Maximum slippage for swaps (5%)
     uint256 public constant MAX_SLIPPAGE = 500;
 
+    /// @notice Smallest share supply a redeem may leave behind (0.000001 shares), so that
+    ///         donations cannot inflate the price of a dust supply and round later mints to nothing
+    uint256 public constant MIN_SHARE_SUPPLY = 1e12;
+
     /**
      * @notice Constructor
      * @param indexId_ The index ID this vault manages
@@ -83,6 +94,7 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
 
     /**
      * @notice Mints index tokens by depositing USDC
+     * @dev Component swaps that fail leave their allocation in the vault as USDC
      * @param usdcAmount Amount of USDC to deposit
      * @param minShares Minimum number of shares to receive
      * @param deadline Transaction deadline
@@ -94,53 +106,31 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
         nonReentrant 
         returns (uint256 shares) 
     {
-        require(block.timestamp <= deadline, "BasketVault: expired");
-        require(usdcAmount >= MIN_MINT_AMOUNT, "BasketVault: amount too small");
-        require(address(indexToken) != address(0), "BasketVault: not initialized");
-
-        // Get index info
-        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
-        require(indexInfo.status == Types.IndexStatus.Active, "BasketVault: index not active");
-
-        // Transfer USDC from user
-        usdc.safeTransferFrom(msg.sender, address(this), usdcAmount);
-
-        // Calculate fees
-        uint256 feeAmount = (usdcAmount * indexInfo.fees.mintFee) / BASIS_POINTS;
-        uint256 investmentAmount = usdcAmount - feeAmount;
-        
-        collectedFees += feeAmount;
-
-        // Calculate shares to mint
-        uint256 currentSupply = indexToken.totalSupply();
-        if (currentSupply == 0) {
-            // First mint: 1 USDC = 1e18 shares (18 decimals)
-            shares = investmentAmount * 1e12; // Convert from 6 to 18 decimals
-        } else {
-            uint256 navPerShare = getNavPerShare();
-            shares = (investmentAmount * 1e18) / navPerShare;
-        }
-
-        require(shares >= minShares, "BasketVault: insufficient shares");
-
-        // Buy basket tokens
-        _buyBasketTokens(investmentAmount);
-
-        // Mint index tokens
-        indexToken.mint(msg.sender, shares);
-
-        // Update registry metrics
-        uint256 newTvl = getTotalValueLocked();
-        registry.updateIndexMetrics(indexId, newTvl, usdcAmount);
-
-        emit Minted(msg.sender, indexId, usdcAmount, shares, getNavPerShare());
-        emit FeesCollected(indexId, feeAmount, 0); // 0 = mint fee
+        return _mint(usdcAmount, minShares, new uint256[](0), deadline);
+    }
 
-        return shares;
+    /**
+     * @notice Mints index tokens by depositing USDC, reverting unless every component swap succeeds
+     * @param usdcAmount Amount of USDC to deposit
+     * @param minShares Minimum number of shares to receive
+     * @param minTokenAmounts Minimum amount of each component to buy, in registry component order
+     * @param deadline Transaction deadline
+     * @return shares Number of index token shares minted
+     */
+    function mintWithMinimums(
+        uint256 usdcAmount,
+        uint256 minShares,
+        uint256[] calldata minTokenAmounts,
+        uint256 deadline
+    ) external override nonReentrant returns (uint256 shares) {
+        require(minTokenAmounts.length > 0, "BasketVault: no minimums");
+        return _mint(usdcAmount, minShares, minTokenAmounts, deadline);
     }
 
     /**
      * @notice Redeems index tokens for USDC
+     * @dev Pays the pro-rata part of idle USDC with the sale proceeds. Reverts if any component sale
+     *      fails, so shares are never burned for components left behind; `redeemInKind` works meanwhile
      * @param shares Number of shares to redeem
      * @param minAmount Minimum USDC amount to receive
      * @param deadline Transaction deadline
@@ -151,53 +141,98 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
         override 
         nonReentrant 
         returns (uint256 amount) 
+    {
+        return _redeem(shares, minAmount, new uint256[](0), deadline);
+    }
+
+    /**
+     * @notice Redeems index tokens for USDC, reverting unless every component sale succeeds
+     * @param shares Number of shares to redeem
+     * @param minAmount Minimum USDC amount to receive after fees
+     * @param minUsdcAmounts Minimum USDC from selling each component, in registry component order
+     * @param deadline Transaction deadline
+     * @return amount Amount of USDC received
+     */
+    function redeemWithMinimums(
+        uint256 shares,
+        uint256 minAmount,
+        uint256[] calldata minUsdcAmounts,
+        uint256 deadline
+    ) external override nonReentrant returns (uint256 amount) {
+        require(minUsdcAmounts.length > 0, "BasketVault: no minimums");
+        return _redeem(shares, minAmount, minUsdcAmounts, deadline);
+    }
+
+    /**
+     * @notice Redeems index tokens for the pro-rata share of each basket component, without swaps
+     * @dev The redeem fee is taken from each component in kind and split between the owner and the platform.
+     *      The pro-rata part of idle USDC is paid alongside, its redeem fee added to the collected fees
+     * @param shares Number of shares to redeem
+     * @param deadline Transaction deadline
+     * @return amounts Amount of each component received, in registry component order
+     * @return usdcAmount Idle USDC received
+     */
+    function redeemInKind(uint256 shares, uint256 deadline)
+        external
+        override
+        nonReentrant
+        returns (uint256[] memory amounts, uint256 usdcAmount)
     {
         require(block.timestamp <= deadline, "BasketVault: expired");
+        require(migratedTo == address(0), "BasketVault: migrated");
         require(shares > 0, "BasketVault: shares must be positive");
         require(indexToken.balanceOf(msg.sender) >= shares, "BasketVault: insufficient balance");
 
-        // Get index info
         Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
-
-        // Calculate user's share of the vault
         uint256 totalSupply = indexToken.totalSupply();
-        require(totalSupply > 0, "BasketVault: no supply");
-
-        // Sell proportional amount of basket tokens
-        uint256 grossAmount = _sellBasketTokens(shares);
+        _checkRemainingSupply(totalSupply, shares);
+        uint256 count = indexInfo.components.length;
 
-        // Calculate fees
-        uint256 feeAmount = (grossAmount * indexInfo.fees.redeemFee) / BASIS_POINTS;
-        amount = grossAmount - feeAmount;
-        
-        collectedFees += feeAmount;
+        address[] memory tokens = new address[](count);
+        uint256[] memory fees = new uint256[](count);
+        amounts = new uint256[](count);
 
-        require(amount >= minAmount, "BasketVault: insufficient amount");
+        // Same proportion _sellBasketTokens sells, before burning changes the supply
+        for (uint256 i = 0; i < count; i++) {
+            tokens[i] = indexInfo.components[i].token;
+            uint256 grossAmount = (IERC20(tokens[i]).balanceOf(address(this)) * shares) / totalSupply;
+            fees[i] = (grossAmount * indexInfo.fees.redeemFee) / BASIS_POINTS;
+            amounts[i] = grossAmount - fees[i];
+        }
+        uint256 usdcGross = (_idleUsdc() * shares) / totalSupply;
+        uint256 usdcFee = (usdcGross * indexInfo.fees.redeemFee) / BASIS_POINTS;
+        usdcAmount = usdcGross - usdcFee;
 
-        // Burn index tokens
         indexToken.burn(msg.sender, shares);
+        _accrueFees(usdcFee, indexInfo.fees.platformShare);
+
+        address platformRecipient = platform();
+        for (uint256 i = 0; i < count; i++) {
+            if (amounts[i] > 0) IERC20(tokens[i]).safeTransfer(msg.sender, amounts[i]);
+            uint256 platformFee = (fees[i] * indexInfo.fees.platformShare) / BASIS_POINTS;
+            if (platformFee > 0) IERC20(tokens[i]).safeTransfer(platformRecipient, platformFee);
+            if (fees[i] > platformFee) IERC20(tokens[i]).safeTransfer(owner(), fees[i] - platformFee);
+        }
+        if (usdcAmount > 0) usdc.safeTransfer(msg.sender, usdcAmount);
 
-        // Transfer USDC to user
-        usdc.safeTransfer(msg.sender, amount);
+        // Nothing is traded, so no volume is recorded
+        registry.updateIndexMetrics(indexId, getTotalValueLocked(), 0);
 
-        // Update registry metrics
-        uint256 newTvl = getTotalValueLocked();
-        registry.updateIndexMetrics(indexId, newTvl, grossAmount);
+        emit RedeemedInKind(msg.sender, indexId, shares, tokens, amounts, fees, usdcAmount);
+        if (usdcFee > 0) emit FeesCollected(indexId, usdcFee, 1); // 1 = redeem fee
 
-        emit Redeemed(msg.sender, indexId, shares, amount, getNavPerShare());
-        emit FeesCollected(indexId, feeAmount, 1); // 1 = redeem fee
-
-        return amount;
+        return (amounts, usdcAmount);
     }
 
     /**
      * @notice Gets the current NAV per share in USDC
-     * @return navPerShare NAV per share (18 decimals)
+     * @dev Components that cannot be priced are left out, so mints refuse to price shares from it then
+     * @return navPerShare NAV per share (6 decimals)
      */
-    function getNavPerShare() public override returns (uint256 navPerShare) {
+    function getNavPerShare() public view override returns (uint256 navPerShare) {
         uint256 totalSupply = indexToken.totalSupply();
         if (totalSupply == 0) {
-            return 1e18; // 1 USDC per share initially
+            return 1e6; // 1 USDC per share initially
         }
 
         uint256 totalValue = getTotalValueLocked();
@@ -206,27 +241,68 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
 
     /**
      * @notice Gets the total value locked in USDC
+     * @dev Component values plus idle USDC (balance above collected fees). Components that cannot
+     *      be priced are left out; `getComponentValues` flags them
      * @return tvl Total value locked (6 decimals)
      */
-    function getTotalValueLocked() public override returns (uint256 tvl) {
+    function getTotalValueLocked() public view override returns (uint256 tvl) {
+        (uint256[] memory values, ) = getComponentValues();
+        tvl = _idleUsdc();
+        for (uint256 i = 0; i < values.length; i++) {
+            tvl += values[i];
+        }
+        return tvl;
+    }
+
+    /**
+     * @notice Values each component balance in USDC through the router
+     * @return values USDC value per component in registry order, 0 where pricing failed
+     * @return priced Whether each component could be priced (empty balances always are)
+     */
+    function getComponentValues() public view override returns (uint256[] memory values, bool[] memory priced) {
         Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
-        
+        values = new uint256[](indexInfo.components.length);
+        priced = new bool[](indexInfo.components.length);
+
         for (uint256 i = 0; i < indexInfo.components.length; i++) {
             address token = indexInfo.components[i].token;
-            uint256 balance = IERC20(token).balanceOf(address(this));
-            
-            if (balance > 0) {
-                // Get token value in USDC via router price query
-                try router.getTokenValueInUSDC(token, balance) returns (uint256 usdcValue) {
-                    tvl += usdcValue;
-                } catch {
-                    // If pricing fails, skip this token for TVL calculation
-                    // In production, might want alternative pricing sources
-                }
-            }
+            (priced[i], values[i]) = _valueOf(token, IERC20(token).balanceOf(address(this)));
         }
+    }
 
-        return tvl;
+    /**
+     * @notice Shares a mint of `usdcAmount` would issue at the current NAV, after the mint fee
+     * @dev Matches `mint`, which prices shares before buying the components. Reverts like `mint`
+     *      while a held component cannot be priced
+     * @param usdcAmount Amount of USDC to deposit
+     * @return shares Number of shares
+     */
+    function previewMint(uint256 usdcAmount) external view override returns (uint256 shares) {
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        uint256 investmentAmount = usdcAmount - (usdcAmount * indexInfo.fees.mintFee) / BASIS_POINTS;
+        return _sharesFor(investmentAmount);
+    }
+
+    /**
+     * @notice USDC a redeem of `shares` would pay out at current pool prices, after the redeem fee
+     * @dev Each component's pro-rata amount is quoted on its own, so components routed through a
+     *      shared pool are slightly overestimated. Components that cannot be priced count as 0, and
+     *      a redeem reverts while their sale fails. The pro-rata part of idle USDC is added
+     * @param shares Number of shares to redeem
+     * @return amount USDC amount
+     */
+    function previewRedeem(uint256 shares) external view override returns (uint256 amount) {
+        uint256 totalSupply = indexToken.totalSupply();
+        require(totalSupply > 0, "BasketVault: no supply");
+
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        uint256 grossAmount = (_idleUsdc() * shares) / totalSupply;
+        for (uint256 i = 0; i < indexInfo.components.length; i++) {
+            address token = indexInfo.components[i].token;
+            (, uint256 value) = _valueOf(token, (IERC20(token).balanceOf(address(this)) * shares) / totalSupply);
+            grossAmount += value;
+        }
+        return grossAmount - (grossAmount * indexInfo.fees.redeemFee) / BASIS_POINTS;
     }
 
     /**
@@ -254,23 +330,100 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
     }
 
     /**
-     * @notice Updates basket weights (only owner for MVP)
-     * @param newWeights Array of new weights in basis points
+     * @notice Updates the target weights in the registry without trading
+     * @dev Holdings converge on the new weights through later mints, or right away with `rebalance`
+     * @param newWeights Array of new weights in basis points, in registry component order
      */
     function updateBasketWeights(uint256[] memory newWeights) external override onlyOwner {
-        // For MVP: This would trigger rebalancing logic
-        // Simplified implementation for now
+        registry.updateIndexWeights(indexId, newWeights);
         emit BasketRebalanced(indexId, newWeights);
     }
 
     /**
-     * @notice Withdraws collected fees
+     * @notice Sells overweight components and buys underweight ones, optionally moving to new target weights
+     * @dev Sales run first and fund the buys together with idle USDC (vault balance above collected fees).
+     *      Every leg must meet its minimum, so the minimums carry the curator's slippage tolerance. Each
+     *      minimum must be within MAX_SLIPPAGE of the Router's quote for the leg at execution, so the
+     *      owner cannot trade holders' funds without a bound
+     * @param newWeights New target weights in registry component order, or empty to keep the current ones
+     * @param sellAmounts Amount of each component to sell
+     * @param minUsdcAmounts Minimum USDC from each sale
+     * @param buyAllocations USDC to spend on each component
+     * @param minTokenAmounts Minimum amount of each component to buy
+     * @param deadline Transaction deadline
+     */
+    function rebalance(
+        uint256[] memory newWeights,
+        uint256[] memory sellAmounts,
+        uint256[] memory minUsdcAmounts,
+        uint256[] memory buyAllocations,
+        uint256[] memory minTokenAmounts,
+        uint256 deadline
+    ) external override onlyOwner nonReentrant {
+        require(block.timestamp <= deadline, "BasketVault: expired");
+        if (newWeights.length > 0) {
+            registry.updateIndexWeights(indexId, newWeights);
+        }
+
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        uint256 count = indexInfo.components.length;
+        require(
+            sellAmounts.length == count &&
+                minUsdcAmounts.length == count &&
+                buyAllocations.length == count &&
+                minTokenAmounts.length == count,
+            "BasketVault: length mismatch"
+        );
+
+        address[] memory tokens = new address[](count);
+        uint256[] memory weights = new uint256[](count);
+        uint256 usdcToSpend = 0;
+        for (uint256 i = 0; i < count; i++) {
+            tokens[i] = indexInfo.components[i].token;
+            weights[i] = indexInfo.components[i].weight;
+            if (sellAmounts[i] > 0) {
+                (bool priced, uint256 quote) = _valueOf(tokens[i], sellAmounts[i]);
+                require(priced, "BasketVault: component not priced");
+                _checkSlippageBound(minUsdcAmounts[i], quote);
+                IERC20(tokens[i]).approve(address(router), sellAmounts[i]);
+            }
+            usdcToSpend += buyAllocations[i];
+        }
+
+        uint256[] memory usdcAmounts = router.swapExactTokensForUSDC(tokens, sellAmounts, minUsdcAmounts, address(this));
+        _checkMinimums(usdcAmounts, sellAmounts, minUsdcAmounts);
+
+        if (usdcToSpend > 0) {
+            require(usdc.balanceOf(address(this)) >= collectedFees + usdcToSpend, "BasketVault: insufficient idle USDC");
+            // Quoted after the sales, at the prices the buys will see
+            for (uint256 i = 0; i < count; i++) {
+                if (buyAllocations[i] > 0) _checkSlippageBound(minTokenAmounts[i], _quoteBuy(tokens[i], buyAllocations[i]));
+            }
+            usdc.approve(address(router), usdcToSpend);
+            uint256[] memory amounts = router.swapExactUSDCForTokens(
+                usdcToSpend,
+                tokens,
+                buyAllocations,
+                minTokenAmounts,
+                address(this)
+            );
+            _checkMinimums(amounts, buyAllocations, minTokenAmounts);
+        }
+
+        // Trades move value between components, so no volume is recorded
+        registry.updateIndexMetrics(indexId, getTotalValueLocked(), 0);
+
+        emit BasketRebalanced(indexId, weights);
+    }
+
+    /**
+     * @notice Withdraws the curator's share of collected fees
      * @param to Address to send fees to
      * @param amount Amount of fees to withdraw in USDC
      */
     function withdrawFees(address to, uint256 amount) external override onlyOwner {
         require(to != address(0), "BasketVault: to cannot be zero");
-        require(amount <= collectedFees, "BasketVault: insufficient fees");
+        require(amount <= collectedFees - platformFees, "BasketVault: insufficient fees");
         
         collectedFees -= amount;
         usdc.safeTransfer(to, amount);
@@ -278,6 +431,92 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
         emit FeesWithdrawn(to, amount);
     }
 
+    /**
+     * @notice Withdraws the platform's share of collected fees (registry owner only)
+     * @param to Address to send fees to
+     * @param amount Amount of fees to withdraw in USDC
+     */
+    function withdrawPlatformFees(address to, uint256 amount) external override {
+        require(msg.sender == platform(), "BasketVault: caller is not the platform");
+        require(to != address(0), "BasketVault: to cannot be zero");
+        require(amount <= platformFees, "BasketVault: insufficient fees");
+
+        platformFees -= amount;
+        collectedFees -= amount;
+        usdc.safeTransfer(to, amount);
+
+        emit PlatformFeesWithdrawn(to, amount);
+    }
+
+    /**
+     * @notice Moves the index to a new vault deployed by `factory`, e.g. when a fixed vault ships
+     * @dev Atomic: the factory deploys the new vault and points the registry at it, this vault sends it
+     *      every component balance, all of its USDC and the fee ledger, points the index token at it and
+     *      hands it to this vault's owner. Mints and redeems here revert from then on
+     * @param factory Factory authorized in the registry that deploys the new vault
+     * @param minNavPerShare Lowest NAV per share the new vault may report afterwards, so value lost to
+     *        the new vault's pricing reverts the migration
+     * @return newVault Address of the new vault
+     */
+    function migrate(address factory, uint256 minNavPerShare)
+        external
+        override
+        onlyOwner
+        nonReentrant
+        returns (address newVault)
+    {
+        require(migratedTo == address(0), "BasketVault: migrated");
+        require(address(indexToken) != address(0), "BasketVault: not initialized");
+
+        // Only the registry's owner and authorized factories can register the new vault
+        newVault = IIndexFactory(factory).deployMigrationVault(indexId);
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        require(indexInfo.vault == newVault && newVault != address(this), "BasketVault: new vault not registered");
+        require(IBasketVault(newVault).getIndexId() == indexId, "BasketVault: new vault for another index");
+
+        migratedTo = newVault;
+        uint256 fees = collectedFees;
+        uint256 platformFees_ = platformFees;
+        collectedFees = 0;
+        platformFees = 0;
+
+        for (uint256 i = 0; i < indexInfo.components.length; i++) {
+            IERC20 token = IERC20(indexInfo.components[i].token);
+            uint256 balance = token.balanceOf(address(this));
+            if (balance > 0) token.safeTransfer(newVault, balance);
+        }
+        uint256 usdcBalance = usdc.balanceOf(address(this));
+        if (usdcBalance > 0) usdc.safeTransfer(newVault, usdcBalance);
+
+        // Still the token's vault here, which is what the new vault checks
+        IBasketVault(newVault).acceptMigration(fees, platformFees_);
+        indexToken.updateVault(newVault);
+        Ownable(newVault).transferOwnership(owner());
+
+        uint256 navPerShare = IBasketVault(newVault).getNavPerShare();
+        require(navPerShare >= minNavPerShare, "BasketVault: migration lost value");
+
+        emit VaultMigrated(indexId, newVault, IBasketVault(newVault).getTotalValueLocked(), navPerShare);
+    }
+
+    /**
+     * @notice Takes over the fee ledger of the vault this one replaces
+     * @dev Only the old vault can call, during `migrate`: it owns this vault and is still the index
+     *      token's vault. The USDC backing the fees has arrived with its other balances
+     * @param collectedFees_ Unclaimed fees moved over, curator and platform shares together
+     * @param platformFees_ Platform's part of `collectedFees_`
+     */
+    function acceptMigration(uint256 collectedFees_, uint256 platformFees_) external override onlyOwner {
+        require(msg.sender == indexToken.getVault(), "BasketVault: caller is not the live vault");
+        require(platformFees_ <= collectedFees_, "BasketVault: invalid fees");
+
+        collectedFees += collectedFees_;
+        platformFees += platformFees_;
+        require(usdc.balanceOf(address(this)) >= collectedFees, "BasketVault: fees not backed");
+
+        registry.updateIndexMetrics(indexId, getTotalValueLocked(), 0);
+    }
+
     /**
      * @notice Gets the amount of fees collected
      * @return fees Amount of fees in USDC
@@ -286,30 +525,235 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
         return collectedFees;
     }
 
+    /**
+     * @notice Gets the unclaimed fees of each party
+     * @return curatorFees Fees the owner can withdraw, in USDC
+     * @return platformFees_ Fees the platform can withdraw, in USDC
+     */
+    function getFeeSplit() external view override returns (uint256 curatorFees, uint256 platformFees_) {
+        return (collectedFees - platformFees, platformFees);
+    }
+
+    /**
+     * @notice Gets the address that receives the platform's share of fees
+     * @return The registry owner
+     */
+    function platform() public view override returns (address) {
+        return Ownable(address(registry)).owner();
+    }
+
+    /**
+     * @notice Shared mint logic
+     * @param minTokenAmounts Per-component minimums, or empty to tolerate failed swaps
+     */
+    function _mint(
+        uint256 usdcAmount,
+        uint256 minShares,
+        uint256[] memory minTokenAmounts,
+        uint256 deadline
+    ) internal returns (uint256 shares) {
+        require(block.timestamp <= deadline, "BasketVault: expired");
+        require(migratedTo == address(0), "BasketVault: migrated");
+        require(usdcAmount >= MIN_MINT_AMOUNT, "BasketVault: amount too small");
+        require(address(indexToken) != address(0), "BasketVault: not initialized");
+
+        // Get index info
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        require(indexInfo.status == Types.IndexStatus.Active, "BasketVault: index not active");
+
+        // Calculate fees
+        uint256 feeAmount = (usdcAmount * indexInfo.fees.mintFee) / BASIS_POINTS;
+        uint256 investmentAmount = usdcAmount - feeAmount;
+
+        // Calculate shares to mint, before the deposit counts as idle USDC
+        shares = _sharesFor(investmentAmount);
+
+        require(shares > 0, "BasketVault: zero shares");
+        require(shares >= minShares, "BasketVault: insufficient shares");
+
+        // Transfer USDC from user
+        usdc.safeTransferFrom(msg.sender, address(this), usdcAmount);
+
+        _accrueFees(feeAmount, indexInfo.fees.platformShare);
+
+        // Buy basket tokens
+        _buyBasketTokens(investmentAmount, minTokenAmounts);
+
+        // Mint index tokens
+        indexToken.mint(msg.sender, shares);
+
+        // Update registry metrics
+        uint256 newTvl = getTotalValueLocked();
+        registry.updateIndexMetrics(indexId, newTvl, usdcAmount);
+
+        emit Minted(msg.sender, indexId, usdcAmount, shares, getNavPerShare());
+        emit FeesCollected(indexId, feeAmount, 0); // 0 = mint fee
+
+        return shares;
+    }
+
+    /**
+     * @notice Shared redeem logic
+     * @param minUsdcAmounts Per-component minimums, or empty to only require every sale to succeed
+     */
+    function _redeem(
+        uint256 shares,
+        uint256 minAmount,
+        uint256[] memory minUsdcAmounts,
+        uint256 deadline
+    ) internal returns (uint256 amount) {
+        require(block.timestamp <= deadline, "BasketVault: expired");
+        require(migratedTo == address(0), "BasketVault: migrated");
+        require(shares > 0, "BasketVault: shares must be positive");
+        require(indexToken.balanceOf(msg.sender) >= shares, "BasketVault: insufficient balance");
+
+        // Get index info
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+
+        // Calculate user's share of the vault
+        uint256 totalSupply = indexToken.totalSupply();
+        require(totalSupply > 0, "BasketVault: no supply");
+        _checkRemainingSupply(totalSupply, shares);
+
+        // Pro-rata idle USDC, before the sales add to the balance, plus the proceeds of a proportional sale
+        uint256 grossAmount = (_idleUsdc() * shares) / totalSupply;
+        grossAmount += _sellBasketTokens(shares, minUsdcAmounts);
+
+        // Calculate fees
+        uint256 feeAmount = (grossAmount * indexInfo.fees.redeemFee) / BASIS_POINTS;
+        amount = grossAmount - feeAmount;
+        
+        _accrueFees(feeAmount, indexInfo.fees.platformShare);
+
+        require(amount >= minAmount, "BasketVault: insufficient amount");
+
+        // Burn index tokens
+        indexToken.burn(msg.sender, shares);
+
+        // Transfer USDC to user
+        usdc.safeTransfer(msg.sender, amount);
+
+        // Update registry metrics
+        uint256 newTvl = getTotalValueLocked();
+        registry.updateIndexMetrics(indexId, newTvl, grossAmount);
+
+        emit Redeemed(msg.sender, indexId, shares, amount, getNavPerShare());
+        emit FeesCollected(indexId, feeAmount, 1); // 1 = redeem fee
+
+        return amount;
+    }
+
+    /**
+     * @notice Shares issued for an investment (USDC after the mint fee) at the current NAV
+     * @dev Requires every held component to be priced: one left out of the NAV would issue
+     *      too many shares and dilute the holders. Idle USDC counts towards the NAV for the same reason
+     */
+    function _sharesFor(uint256 investmentAmount) internal view returns (uint256) {
+        uint256 totalSupply = indexToken.totalSupply();
+        if (totalSupply == 0) {
+            // First mint: 1 USDC = 1e18 shares (18 decimals)
+            return investmentAmount * 1e12; // Convert from 6 to 18 decimals
+        }
+
+        (uint256[] memory values, bool[] memory priced) = getComponentValues();
+        uint256 totalValue = _idleUsdc();
+        for (uint256 i = 0; i < values.length; i++) {
+            require(priced[i], "BasketVault: component not priced");
+            totalValue += values[i];
+        }
+        return (investmentAmount * 1e18) / ((totalValue * 1e18) / totalSupply);
+    }
+
+    /**
+     * @notice Requires a redeem to burn the whole supply or leave at least MIN_SHARE_SUPPLY
+     */
+    function _checkRemainingSupply(uint256 totalSupply, uint256 shares) internal pure {
+        uint256 remaining = totalSupply - shares;
+        require(remaining == 0 || remaining >= MIN_SHARE_SUPPLY, "BasketVault: dust supply");
+    }
+
+    /**
+     * @notice USDC the vault holds beyond the collected fees, left by failed swaps or donated
+     */
+    function _idleUsdc() internal view returns (uint256) {
+        uint256 balance = usdc.balanceOf(address(this));
+        return balance > collectedFees ? balance - collectedFees : 0;
+    }
+
+    /**
+     * @notice Values a component amount in USDC through the router
+     * @return priced False when the router call or its DEX quote failed
+     * @return value USDC value, 0 when not priced
+     */
+    function _valueOf(address token, uint256 amount) internal view returns (bool priced, uint256 value) {
+        if (amount == 0) {
+            return (true, 0);
+        }
+        try router.tryGetTokenValueInUSDC(token, amount) returns (bool ok, uint256 usdcValue) {
+            return (ok, usdcValue);
+        } catch {
+            return (false, 0);
+        }
+    }
+
+    /**
+     * @notice Adds a USDC fee to the collected fees, earmarking the platform's share
+     * @param feeAmount Fee in USDC
+     * @param platformShare Platform's share in basis points
+     */
+    function _accrueFees(uint256 feeAmount, uint256 platformShare) internal {
+        collectedFees += feeAmount;
+        platformFees += (feeAmount * platformShare) / BASIS_POINTS;
+    }
+
     /**
      * @notice Buy basket tokens with USDC
+     * @dev With minimums, rounding dust goes to the last component so allocations add up,
+     *      and the whole call reverts if any component swap fails or falls short
      * @param usdcAmount Amount of USDC to spend
+     * @param minAmounts Minimum amount of each component, or empty to tolerate failed swaps
      */
-    function _buyBasketTokens(uint256 usdcAmount) internal {
+    function _buyBasketTokens(uint256 usdcAmount, uint256[] memory minAmounts) internal {
         if (usdcAmount == 0) return;
         
         // Get index info from registry
         Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        uint256 count = indexInfo.components.length;
+        bool strict = minAmounts.length > 0;
         
         // Get token allocations based on weights
-        uint256[] memory allocations = new uint256[](indexInfo.components.length);
-        address[] memory tokens = new address[](indexInfo.components.length);
-        uint256[] memory minAmounts = new uint256[](indexInfo.components.length);
+        uint256[] memory allocations = new uint256[](count);
+        address[] memory tokens = new address[](count);
+        uint256 allocated = 0;
         
-        for (uint256 i = 0; i < indexInfo.components.length; i++) {
+        for (uint256 i = 0; i < count; i++) {
             allocations[i] = (usdcAmount * indexInfo.components[i].weight) / BASIS_POINTS;
             tokens[i] = indexInfo.components[i].token;
-            minAmounts[i] = 0; // Accept any amount for MVP
+            allocated += allocations[i];
+        }
+        
+        if (!strict) {
+            minAmounts = new uint256[](count); // Accept any amount
+        } else {
+            require(minAmounts.length == count, "BasketVault: minimums length mismatch");
+            allocations[count - 1] += usdcAmount - allocated;
         }
         
         // Approve Router to spend USDC from this vault
         usdc.approve(address(router), usdcAmount);
         
+        if (strict) {
+            uint256[] memory amounts = router.swapExactUSDCForTokens(
+                usdcAmount,
+                tokens,
+                allocations,
+                minAmounts,
+                address(this)
+            );
+            _checkMinimums(amounts, allocations, minAmounts);
+            return;
+        }
+
         // Execute batch swap through Router
         try router.swapExactUSDCForTokens(
             usdcAmount,
@@ -327,69 +771,89 @@ contract BasketVault is Ownable, ReentrancyGuard, IBasketVault {
 
     /**
      * @notice Sell basket tokens for USDC
+     * @dev The whole call reverts if any component sale fails or falls short of its minimum
      * @param shareAmount Amount of shares being redeemed
+     * @param minAmounts Minimum USDC for each component, or empty for no minimum
      */
-    function _sellBasketTokens(uint256 shareAmount) internal returns (uint256 usdcReceived) {
+    function _sellBasketTokens(uint256 shareAmount, uint256[] memory minAmounts) internal returns (uint256 usdcReceived) {
         uint256 totalShares = indexToken.totalSupply();
         if (totalShares == 0) return 0;
         
         // Get index info from registry
         Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        uint256 count = indexInfo.components.length;
         
-        address[] memory tokens = new address[](indexInfo.components.length);
-        uint256[] memory amounts = new uint256[](indexInfo.components.length);
-        uint256[] memory minUSDCAmounts = new uint256[](indexInfo.components.length);
-        uint256 tokenCount = 0;
+        if (minAmounts.length == 0) {
+            minAmounts = new uint256[](count); // Any amount, as long as the sale succeeds
+        } else {
+            require(minAmounts.length == count, "BasketVault: minimums length mismatch");
+        }
         
-        // Calculate token amounts to sell based on share proportion
-        for (uint256 i = 0; i < indexInfo.components.length; i++) {
-            IERC20 token = IERC20(indexInfo.components[i].token);
-            uint256 tokenBalance = token.balanceOf(address(this));
+        address[] memory tokens = new address[](count);
+        uint256[] memory amounts = new uint256[](count);
+        
+        // Calculate token amounts to sell based on share proportion; the Router skips zero amounts
+        for (uint256 i = 0; i < count; i++) {
+            tokens[i] = indexInfo.components[i].token;
+            amounts[i] = (IERC20(tokens[i]).balanceOf(address(this)) * shareAmount) / totalShares;
             
-            if (tokenBalance > 0) {
-                uint256 tokenAmount = (tokenBalance * shareAmount) / totalShares;
-                if (tokenAmount > 0) {
-                    tokens[tokenCount] = indexInfo.components[i].token;
-                    amounts[tokenCount] = tokenAmount;
-                    minUSDCAmounts[tokenCount] = 0; // Accept any amount for MVP
-                    tokenCount++;
-                }
+            // Approve Router to spend each token
+            if (amounts[i] > 0) {
+                IERC20(tokens[i]).approve(address(router), amounts[i]);
             }
         }
         
-        if (tokenCount > 0) {
-            // Resize arrays to actual token count
-            address[] memory tokensToSell = new address[](tokenCount);
-            uint256[] memory amountsToSell = new uint256[](tokenCount);
-            uint256[] memory minAmounts = new uint256[](tokenCount);
-            
-            for (uint256 i = 0; i < tokenCount; i++) {
-                tokensToSell[i] = tokens[i];
-                amountsToSell[i] = amounts[i];
-                minAmounts[i] = minUSDCAmounts[i];
-                
-                // Approve Router to spend each token
-                IERC20(tokensToSell[i]).approve(address(router), amountsToSell[i]);
-            }
-            
-            // Execute batch sell through Router
-            try router.swapExactTokensForUSDC(
-                tokensToSell,
-                amountsToSell,
-                minAmounts,
-                address(this)
-            ) returns (uint256[] memory usdcAmounts) {
-                // Sum up USDC received
-                for (uint256 i = 0; i < usdcAmounts.length; i++) {
-                    usdcReceived += usdcAmounts[i];
-                }
-            } catch {
-                // If swaps fail, no USDC received from swaps
-                // Tokens remain in vault
-                usdcReceived = 0;
-            }
+        // A failed leg comes back as 0 USDC, which _checkMinimums rejects
+        uint256[] memory usdcAmounts = router.swapExactTokensForUSDC(tokens, amounts, minAmounts, address(this));
+        _checkMinimums(usdcAmounts, amounts, minAmounts);
+        
+        // Sum up USDC received
+        for (uint256 i = 0; i < usdcAmounts.length; i++) {
+            usdcReceived += usdcAmounts[i];
         }
         
         return usdcReceived;
     }
-} 
\ No newline at end of file
+
+    /**
+     * @notice Amount of a component the Router's DEX quotes for `usdcAmount` along the component's path
+     */
+    function _quoteBuy(address token, uint256 usdcAmount) internal view returns (uint256) {
+        if (token == address(usdc)) return usdcAmount;
+        uint256[] memory amounts = router.getAmountsOut(usdcAmount, router.getTokenPath(token));
+        return amounts[amounts.length - 1];
+    }
+
+    /**
+     * @notice Reverts when a leg's minimum allows more than MAX_SLIPPAGE below its quote
+     * @param minimum Minimum output the caller set for the leg
+     * @param quote Output the Router quotes for the leg now
+     */
+    function _checkSlippageBound(uint256 minimum, uint256 quote) internal pure {
+        require(
+            minimum >= (quote * (BASIS_POINTS - MAX_SLIPPAGE)) / BASIS_POINTS,
+            "BasketVault: minimum exceeds max slippage"
+        );
+    }
+
+    /**
+     * @notice Reverts unless every swapped leg produced output of at least its minimum
+     * @dev The Router reports a failed leg as 0 output after falling back
+     * @param outputs Amounts received per leg
+     * @param inputs Amounts sent per leg (legs with no input are skipped)
+     * @param minimums Minimum output per leg
+     */
+    function _checkMinimums(
+        uint256[] memory outputs,
+        uint256[] memory inputs,
+        uint256[] memory minimums
+    ) internal pure {
+        for (uint256 i = 0; i < inputs.length; i++) {
+            if (inputs[i] == 0) {
+                require(minimums[i] == 0, "BasketVault: component below minimum");
+                continue;
+            }
+            require(outputs[i] > 0 && outputs[i] >= minimums[i], "BasketVault: component below minimum");
+        }
+    }
+}
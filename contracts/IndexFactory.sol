@@ -4,17 +4,19 @@ pragma solidity ^0.8.28;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./interfaces/IIndexFactory.sol";
 import "./interfaces/IIndexRegistry.sol";
 import "./IndexToken.sol";
 import "./BasketVault.sol";
 import "./libraries/Types.sol";
+import "./libraries/VaultDeployer.sol";
 
 /**
  * @title IndexFactory
  * @notice Factory contract for creating new Hedgera indexes
  * @dev Orchestrates the deployment of IndexToken, BasketVault and registration
  */
-contract IndexFactory is Ownable, ReentrancyGuard {
+contract IndexFactory is Ownable, ReentrancyGuard, IIndexFactory {
     /// @notice The registry contract
     IIndexRegistry public immutable registry;
     
@@ -124,12 +126,7 @@ contract IndexFactory is Ownable, ReentrancyGuard {
         ));
 
         // Deploy BasketVault
-        vault = address(new BasketVault(
-            indexId,
-            address(registry),
-            usdc,
-            address(this) // Factory is initial owner
-        ));
+        vault = VaultDeployer.deploy(indexId, address(registry), usdc); // Factory is initial owner
 
         // Initialize components
         IndexToken(indexToken).initialize(vault);
@@ -157,6 +154,26 @@ contract IndexFactory is Ownable, ReentrancyGuard {
         return (indexId, vault, indexToken);
     }
 
+    /**
+     * @notice Deploys and registers the vault that replaces an index's vault, for `BasketVault.migrate`
+     * @dev Only the index's registered vault can ask. It owns the new vault until it has handed over
+     *      its balances, fee ledger and index token, then passes it on to its own owner
+     * @param indexId The index ID of the calling vault
+     * @return vault Address of the new vault
+     */
+    function deployMigrationVault(uint256 indexId) external override nonReentrant returns (address vault) {
+        Types.IndexInfo memory indexInfo = registry.getIndex(indexId);
+        require(msg.sender == indexInfo.vault, "IndexFactory: caller is not the index vault");
+        require(router != address(0), "IndexFactory: router not set");
+
+        vault = VaultDeployer.deploy(indexId, address(registry), usdc);
+        BasketVault(vault).initialize(indexInfo.indexToken, router);
+        registry.updateIndexAddresses(indexId, vault, indexInfo.indexToken);
+        BasketVault(vault).transferOwnership(msg.sender);
+
+        emit MigrationVaultDeployed(indexId, msg.sender, vault);
+    }
+
     /**
      * @notice Sets the router address (owner only)
      * @param router_ New router address
@@ -161,6 +161,45 @@ contract IndexRegistry is Ownable, ReentrancyGuard, IIndexRegistry {
         emit IndexAddressesUpdated(indexId, vault, token);
     }
 
+    /**
+     * @notice Updates the target weights of an index's components
+     * @dev Called by the index's vault on behalf of its curator; same weight rules as creation
+     * @param indexId The index ID
+     * @param weights New weights in basis points, in component order
+     */
+    function updateIndexWeights(uint256 indexId, uint256[] calldata weights) external override {
+        require(indexId < _indexCounter, "IndexRegistry: index does not exist");
+        require(msg.sender == owner() || msg.sender == _indexes[indexId].vault, "IndexRegistry: not authorized");
+
+        Types.Component[] storage components = _indexes[indexId].components;
+        require(weights.length == components.length, "IndexRegistry: tokens and weights length mismatch");
+
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < weights.length; i++) {
+            require(weights[i] >= MIN_TOKEN_WEIGHT, "IndexRegistry: weight too low");
+            require(weights[i] <= MAX_TOKEN_WEIGHT, "IndexRegistry: weight too high");
+            components[i].weight = weights[i];
+            totalWeight += weights[i];
+        }
+        require(totalWeight == 10000, "IndexRegistry: weights must sum to 100%");
+
+        emit IndexWeightsUpdated(indexId, weights);
+    }
+
+    /**
+     * @notice Updates the platform's share of an index's mint and redeem fees (owner only)
+     * @dev Applies to fees collected from now on; fees already accrued keep their split
+     * @param indexId The index ID
+     * @param platformShare New share in basis points
+     */
+    function updatePlatformShare(uint256 indexId, uint256 platformShare) external override onlyOwner {
+        require(indexId < _indexCounter, "IndexRegistry: index does not exist");
+        require(platformShare <= 10000, "IndexRegistry: share too high");
+
+        _indexes[indexId].fees.platformShare = platformShare;
+        emit PlatformShareUpdated(indexId, platformShare);
+    }
+
     /**
      * @notice Updates index metrics (TVL, volume)
      * @param indexId The index ID
@@ -105,11 +105,12 @@ contract IndexToken is ERC20, Ownable, ReentrancyGuard, IIndexToken {
     }
 
     /**
-     * @notice Updates the vault address (only owner)
+     * @notice Updates the vault address (owner, or the current vault handing over to its successor)
      * @param newVault New vault address
-     * @dev Emergency function to update vault if needed
+     * @dev `BasketVault.migrate` calls this from the old vault; the owner can still repoint it in an emergency
      */
-    function updateVault(address newVault) external onlyOwner {
+    function updateVault(address newVault) external override {
+        require(msg.sender == owner() || msg.sender == vault, "IndexToken: caller is not the owner or vault");
         require(newVault != address(0), "IndexToken: vault cannot be zero address");
         require(newVault != vault, "IndexToken: same vault address");
         
@@ -23,6 +23,10 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
 
     uint256 public constant DEFAULT_SLIPPAGE = 300; // 3% in basis points
     uint256 public constant MAX_SLIPPAGE = 1000; // 10% max slippage
+    uint256 public constant MAX_PATH_LENGTH = 4; // USDC, up to two intermediate tokens, token
+
+    // Token => configured USDC -> token path (empty: direct pool)
+    mapping(address => address[]) private _tokenPaths;
 
     event SwapExecuted(
         address indexed tokenIn,
@@ -33,6 +37,7 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
     );
 
     event SlippageUpdated(uint256 oldSlippage, uint256 newSlippage);
+    event TokenPathUpdated(address indexed token, address[] path);
 
     constructor(
         address usdc_,
@@ -96,10 +101,8 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
             // Approve SaucerSwap router
             usdc.approve(address(saucerSwapRouter), allocation);
             
-            // Create swap path: USDC -> Token
-            address[] memory path = new address[](2);
-            path[0] = address(usdc);
-            path[1] = tokens[i];
+            // Swap path: USDC -> (intermediate tokens) -> Token
+            address[] memory path = getTokenPath(tokens[i]);
             
             try saucerSwapRouter.swapExactTokensForTokens(
                 allocation,
@@ -108,7 +111,7 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
                 recipient,
                 block.timestamp + 300 // 5 minute deadline
             ) returns (uint256[] memory swapAmounts) {
-                amounts[i] = swapAmounts[1]; // Output amount
+                amounts[i] = swapAmounts[swapAmounts.length - 1]; // Output amount
                 
                 emit SwapExecuted(
                     address(usdc),
@@ -165,10 +168,8 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
             // Approve SaucerSwap router
             IERC20(tokens[i]).approve(address(saucerSwapRouter), amounts[i]);
             
-            // Create swap path: Token -> USDC
-            address[] memory path = new address[](2);
-            path[0] = tokens[i];
-            path[1] = address(usdc);
+            // Swap path: Token -> (intermediate tokens) -> USDC
+            address[] memory path = _reversePath(tokens[i]);
             
             try saucerSwapRouter.swapExactTokensForTokens(
                 amounts[i],
@@ -177,7 +178,7 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
                 recipient,
                 block.timestamp + 300 // 5 minute deadline
             ) returns (uint256[] memory swapAmounts) {
-                usdcAmounts[i] = swapAmounts[1]; // Output amount
+                usdcAmounts[i] = swapAmounts[swapAmounts.length - 1]; // Output amount
                 
                 emit SwapExecuted(
                     tokens[i],
@@ -258,20 +259,75 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
         override 
         returns (uint256 usdcValue) 
     {
-        if (token == address(usdc)) {
-            return amount;
-        }
+        (bool priced, uint256 value) = tryGetTokenValueInUSDC(token, amount);
+        // Fallback: Return input amount for MVP
+        return priced ? value : amount;
+    }
 
-        address[] memory path = new address[](2);
-        path[0] = token;
-        path[1] = address(usdc);
+    /**
+     * @notice Get token value in USDC along the token's path, reporting whether the DEX could quote it
+     * @param token Token address
+     * @param amount Token amount
+     * @return priced False when the DEX quote failed
+     * @return usdcValue Value in USDC, 0 when not priced
+     */
+    function tryGetTokenValueInUSDC(address token, uint256 amount)
+        public
+        view
+        override
+        returns (bool priced, uint256 usdcValue)
+    {
+        if (token == address(usdc) || amount == 0) {
+            return (true, amount);
+        }
 
-        try saucerSwapRouter.getAmountsOut(amount, path) returns (uint256[] memory amounts) {
-            return amounts[1];
+        try saucerSwapRouter.getAmountsOut(amount, _reversePath(token)) returns (uint256[] memory amounts) {
+            return (true, amounts[amounts.length - 1]);
         } catch {
-            // Fallback: Return input amount for MVP
-            return amount;
+            return (false, 0);
+        }
+    }
+
+    /**
+     * @notice Get the swap path used to buy a token with USDC
+     * @dev Sells and valuations use the same path reversed
+     * @param token Token address
+     * @return path Configured path, or the direct [USDC, token] path when none is set
+     */
+    function getTokenPath(address token) public view override returns (address[] memory path) {
+        path = _tokenPaths[token];
+        if (path.length == 0) {
+            path = new address[](2);
+            path[0] = address(usdc);
+            path[1] = token;
+        }
+    }
+
+    /**
+     * @notice Set the swap path for a token that lacks a deep direct USDC pool
+     * @dev The path must start at USDC, end at the token and route through distinct
+     *      intermediate tokens. An empty path goes back to the direct pool
+     * @param token Token address
+     * @param path USDC -> token path, e.g. [USDC, WHBAR, token]
+     */
+    function setTokenPath(address token, address[] calldata path) external onlyOwner {
+        require(token != address(0) && token != address(usdc), "Router: Invalid token");
+        if (path.length > 0) {
+            require(path.length >= 2 && path.length <= MAX_PATH_LENGTH, "Router: Invalid path length");
+            require(path[0] == address(usdc), "Router: Path must start at USDC");
+            require(path[path.length - 1] == token, "Router: Path must end at token");
+            for (uint256 i = 1; i < path.length - 1; i++) {
+                require(
+                    path[i] != address(0) && path[i] != address(usdc) && path[i] != token,
+                    "Router: Invalid intermediate token"
+                );
+                for (uint256 j = 1; j < i; j++) {
+                    require(path[i] != path[j], "Router: Invalid intermediate token");
+                }
+            }
         }
+        _tokenPaths[token] = path;
+        emit TokenPathUpdated(token, path);
     }
 
     /**
@@ -299,4 +355,15 @@ contract Router is IRouter, Ownable, ReentrancyGuard {
     function rescueToken(address token, uint256 amount) external onlyOwner {
         IERC20(token).safeTransfer(owner(), amount);
     }
+
+    /**
+     * @dev Token -> USDC path, the reverse of the token's buy path
+     */
+    function _reversePath(address token) private view returns (address[] memory path) {
+        address[] memory forward = getTokenPath(token);
+        path = new address[](forward.length);
+        for (uint256 i = 0; i < forward.length; i++) {
+            path[i] = forward[forward.length - 1 - i];
+        }
+    }
 } 
\ No newline at end of file
@@ -17,8 +17,24 @@ interface IBasketVault {
      */
     function mint(uint256 usdcAmount, uint256 minShares, uint256 deadline) external returns (uint256 shares);
 
+    /**
+     * @notice Mints index tokens by depositing USDC, enforcing a minimum output for every component swap
+     * @param usdcAmount Amount of USDC to deposit
+     * @param minShares Minimum number of shares to receive
+     * @param minTokenAmounts Minimum amount of each component to buy, in registry component order
+     * @param deadline Transaction deadline
+     * @return shares Number of index token shares minted
+     */
+    function mintWithMinimums(
+        uint256 usdcAmount,
+        uint256 minShares,
+        uint256[] calldata minTokenAmounts,
+        uint256 deadline
+    ) external returns (uint256 shares);
+
     /**
      * @notice Redeems index tokens for USDC
+     * @dev Reverts if any component sale fails
      * @param shares Number of shares to redeem
      * @param minAmount Minimum USDC amount to receive
      * @param deadline Transaction deadline
@@ -26,17 +42,64 @@ interface IBasketVault {
      */
     function redeem(uint256 shares, uint256 minAmount, uint256 deadline) external returns (uint256 amount);
 
+    /**
+     * @notice Redeems index tokens for USDC, enforcing a minimum output for every component sale
+     * @param shares Number of shares to redeem
+     * @param minAmount Minimum USDC amount to receive after fees
+     * @param minUsdcAmounts Minimum USDC from selling each component, in registry component order
+     * @param deadline Transaction deadline
+     * @return amount Amount of USDC received
+     */
+    function redeemWithMinimums(
+        uint256 shares,
+        uint256 minAmount,
+        uint256[] calldata minUsdcAmounts,
+        uint256 deadline
+    ) external returns (uint256 amount);
+
+    /**
+     * @notice Redeems index tokens for the pro-rata share of each basket component, without swaps
+     * @param shares Number of shares to redeem
+     * @param deadline Transaction deadline
+     * @return amounts Amount of each component received after the in-kind redeem fee
+     * @return usdcAmount Pro-rata idle USDC received after the redeem fee
+     */
+    function redeemInKind(uint256 shares, uint256 deadline) external returns (uint256[] memory amounts, uint256 usdcAmount);
+
     /**
      * @notice Gets the current NAV (Net Asset Value) per share in USDC
      * @return navPerShare NAV per share (6 decimals for USDC)
      */
-    function getNavPerShare() external returns (uint256 navPerShare);
+    function getNavPerShare() external view returns (uint256 navPerShare);
 
     /**
      * @notice Gets the total value locked in the vault in USDC
+     * @dev Includes idle USDC, the vault's USDC balance above its collected fees
      * @return tvl Total value locked (6 decimals for USDC)
      */
-    function getTotalValueLocked() external returns (uint256 tvl);
+    function getTotalValueLocked() external view returns (uint256 tvl);
+
+    /**
+     * @notice Values each component balance in USDC through the router
+     * @return values USDC value per component, 0 where pricing failed
+     * @return priced Whether each component could be priced
+     */
+    function getComponentValues() external view returns (uint256[] memory values, bool[] memory priced);
+
+    /**
+     * @notice Shares a mint of `usdcAmount` would issue at the current NAV, after the mint fee
+     * @dev Reverts while a component the vault holds cannot be priced, as `mint` does
+     * @param usdcAmount Amount of USDC to deposit
+     * @return shares Number of shares
+     */
+    function previewMint(uint256 usdcAmount) external view returns (uint256 shares);
+
+    /**
+     * @notice USDC a redeem of `shares` would pay out at current pool prices, after the redeem fee
+     * @param shares Number of shares to redeem
+     * @return amount USDC amount
+     */
+    function previewRedeem(uint256 shares) external view returns (uint256 amount);
 
     /**
      * @notice Gets the current basket composition
@@ -51,24 +114,84 @@ interface IBasketVault {
     function getIndexId() external view returns (uint256 indexId);
 
     /**
-     * @notice Updates the basket weights (only callable by authorized addresses)
+     * @notice Updates the target weights in the registry (only callable by the owner, which is the curator)
      * @param newWeights Array of new weights in basis points
      */
     function updateBasketWeights(uint256[] memory newWeights) external;
 
     /**
-     * @notice Withdraws collected fees (only callable by owner)
+     * @notice Trades the basket towards its target weights (only callable by the owner, which is the curator)
+     * @dev Reverts when a leg's minimum is more than MAX_SLIPPAGE below the Router's quote for it
+     * @param newWeights New target weights, or empty to keep the current ones
+     * @param sellAmounts Amount of each component to sell
+     * @param minUsdcAmounts Minimum USDC from each sale
+     * @param buyAllocations USDC to spend on each component, funded by the sales and idle USDC
+     * @param minTokenAmounts Minimum amount of each component to buy
+     * @param deadline Transaction deadline
+     */
+    function rebalance(
+        uint256[] memory newWeights,
+        uint256[] memory sellAmounts,
+        uint256[] memory minUsdcAmounts,
+        uint256[] memory buyAllocations,
+        uint256[] memory minTokenAmounts,
+        uint256 deadline
+    ) external;
+
+    /**
+     * @notice Withdraws the curator's share of collected fees (only callable by owner)
      * @param to Address to send fees to
      * @param amount Amount of fees to withdraw in USDC
      */
     function withdrawFees(address to, uint256 amount) external;
 
+    /**
+     * @notice Withdraws the platform's share of collected fees (only callable by the registry owner)
+     * @param to Address to send fees to
+     * @param amount Amount of fees to withdraw in USDC
+     */
+    function withdrawPlatformFees(address to, uint256 amount) external;
+
+    /**
+     * @notice Moves the index, its balances and fee ledger to a new vault deployed by `factory` (only callable by owner)
+     * @param factory Factory authorized in the registry that deploys the new vault
+     * @param minNavPerShare Lowest NAV per share the new vault may report afterwards (6 decimals for USDC)
+     * @return newVault Address of the new vault
+     */
+    function migrate(address factory, uint256 minNavPerShare) external returns (address newVault);
+
+    /**
+     * @notice Takes over the fee ledger of the vault this one replaces (only callable by that vault during `migrate`)
+     * @param collectedFees Unclaimed fees moved over, in USDC
+     * @param platformFees Platform's part of `collectedFees`
+     */
+    function acceptMigration(uint256 collectedFees, uint256 platformFees) external;
+
+    /**
+     * @notice Gets the vault the index moved to
+     * @return The new vault, or the zero address while this vault is live
+     */
+    function migratedTo() external view returns (address);
+
     /**
      * @notice Gets the amount of fees collected
      * @return fees Amount of fees in USDC
      */
     function getCollectedFees() external view returns (uint256 fees);
 
+    /**
+     * @notice Gets the unclaimed fees of each party, split by the index's `platformShare`
+     * @return curatorFees Fees the owner can withdraw, in USDC
+     * @return platformFees Fees the platform can withdraw, in USDC
+     */
+    function getFeeSplit() external view returns (uint256 curatorFees, uint256 platformFees);
+
+    /**
+     * @notice Gets the address that receives the platform's share of fees
+     * @return The registry owner
+     */
+    function platform() external view returns (address);
+
     // Events
     event Minted(
         address indexed user,
@@ -86,9 +209,23 @@ interface IBasketVault {
         uint256 navPerShare
     );
 
+    event RedeemedInKind(
+        address indexed user,
+        uint256 indexed indexId,
+        uint256 sharesIn,
+        address[] tokens,
+        uint256[] amounts,
+        uint256[] fees,
+        uint256 usdcOut
+    );
+
     event FeesCollected(uint256 indexed indexId, uint256 amount, uint256 feeType);
 
     event BasketRebalanced(uint256 indexed indexId, uint256[] newWeights);
 
     event FeesWithdrawn(address indexed to, uint256 amount);
+
+    event PlatformFeesWithdrawn(address indexed to, uint256 amount);
+
+    event VaultMigrated(uint256 indexed indexId, address indexed newVault, uint256 totalValueLocked, uint256 navPerShare);
 } 
\ No newline at end of file
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+/**
+ * @title IIndexFactory
+ * @notice Interface for the factory entry points that vaults call
+ */
+interface IIndexFactory {
+    /**
+     * @notice Deploys and registers the vault that replaces an index's vault (only callable by that vault)
+     * @param indexId The index ID of the calling vault
+     * @return vault Address of the new vault, owned by the caller until the migration completes
+     */
+    function deployMigrationVault(uint256 indexId) external returns (address vault);
+
+    // Events
+    event MigrationVaultDeployed(uint256 indexed indexId, address indexed oldVault, address newVault);
+}
@@ -57,6 +57,20 @@ interface IIndexRegistry {
      */
     function updateIndexAddresses(uint256 indexId, address vault, address token) external;
 
+    /**
+     * @notice Updates the target weights of an index's components
+     * @param indexId The index ID
+     * @param weights New weights in basis points, in component order
+     */
+    function updateIndexWeights(uint256 indexId, uint256[] calldata weights) external;
+
+    /**
+     * @notice Updates the platform's share of an index's mint and redeem fees
+     * @param indexId The index ID
+     * @param platformShare New share in basis points
+     */
+    function updatePlatformShare(uint256 indexId, uint256 platformShare) external;
+
     /**
      * @notice Updates index metrics (TVL, volume)
      * @param indexId The index ID
@@ -80,4 +94,8 @@ interface IIndexRegistry {
     event IndexAddressesUpdated(uint256 indexed indexId, address vault, address token);
     
     event IndexMetricsUpdated(uint256 indexed indexId, uint256 tvl, uint256 totalVolume);
+
+    event IndexWeightsUpdated(uint256 indexed indexId, uint256[] weights);
+
+    event PlatformShareUpdated(uint256 indexed indexId, uint256 platformShare);
 } 
\ No newline at end of file
@@ -42,6 +42,12 @@ interface IIndexToken is IERC20 {
      */
     function getMetadata() external view returns (string memory name, string memory symbol, uint8 decimals);
 
+    /**
+     * @notice Points the token at a new vault (only callable by the owner, or by the current vault when migrating)
+     * @param newVault Address of the vault that will mint and burn from now on
+     */
+    function updateVault(address newVault) external;
+
     // Events (in addition to standard ERC-20 events)
     event VaultUpdated(address indexed oldVault, address indexed newVault);
 } 
\ No newline at end of file
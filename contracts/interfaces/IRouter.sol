@@ -67,4 +67,20 @@ interface IRouter {
      * @return usdcValue Value in USDC
      */
     function getTokenValueInUSDC(address token, uint256 amount) external view returns (uint256 usdcValue);
-} 
\ No newline at end of file
+
+    /**
+     * @notice Get token value in USDC, reporting whether the DEX could quote it
+     * @param token Token address
+     * @param amount Token amount
+     * @return priced False when the DEX quote failed
+     * @return usdcValue Value in USDC, 0 when not priced
+     */
+    function tryGetTokenValueInUSDC(address token, uint256 amount) external view returns (bool priced, uint256 usdcValue);
+
+    /**
+     * @notice Get the swap path used to buy a token with USDC
+     * @param token Token address
+     * @return path USDC -> token path
+     */
+    function getTokenPath(address token) external view returns (address[] memory path);
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "../BasketVault.sol";
+
+/**
+ * @title VaultDeployer
+ * @notice Deploys BasketVaults for IndexFactory
+ * @dev Linked into IndexFactory and reached by DELEGATECALL, so the vault's creation code
+ *      lives here instead of pushing the factory past the contract size limit
+ */
+library VaultDeployer {
+    /**
+     * @notice Deploys a vault owned by the calling factory
+     * @param indexId The index ID the vault manages
+     * @param registry Address of the registry contract
+     * @param usdc Address of the USDC token
+     * @return vault Address of the deployed vault
+     */
+    function deploy(uint256 indexId, address registry, address usdc) external returns (address vault) {
+        // address(this) is the factory under DELEGATECALL
+        vault = address(new BasketVault(indexId, registry, usdc, address(this)));
+    }
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @notice Freely mintable ERC-20 with configurable decimals, standing in for
+ *         HTS tokens (USDC, WBTC, WETH, ...) on local networks
+ * @dev Test-only: anyone can mint
+ */
+contract MockERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    /**
+     * @notice Constructor
+     * @param name_ Token name
+     * @param symbol_ Token symbol
+     * @param decimals_ Token decimals (e.g. 6 for USDC, 8 for WBTC)
+     */
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_
+    ) ERC20(name_, symbol_) {
+        _decimals = decimals_;
+    }
+
+    /**
+     * @notice Mints tokens to an address
+     * @param to Recipient
+     * @param amount Amount to mint
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Burns tokens from an address
+     * @param from Holder
+     * @param amount Amount to burn
+     */
+    function burn(address from, uint256 amount) external {
+        _burn(from, amount);
+    }
+
+    /**
+     * @notice Returns the token decimals
+     */
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+}
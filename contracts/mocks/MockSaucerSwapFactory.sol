@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "./MockSaucerSwapPair.sol";
+
+/**
+ * @title MockSaucerSwapFactory
+ * @notice Pair factory mirroring the SaucerSwap V1 / Uniswap V2 factory
+ */
+contract MockSaucerSwapFactory {
+    /// @notice Pair address for each (unordered) token combination
+    mapping(address => mapping(address => address)) public getPair;
+
+    /// @notice All pairs in creation order
+    address[] public allPairs;
+
+    event PairCreated(address indexed token0, address indexed token1, address pair, uint256 index);
+
+    /**
+     * @notice Creates a pair for two tokens
+     * @return pair Address of the new pair
+     */
+    function createPair(address tokenA, address tokenB) external returns (address pair) {
+        require(tokenA != tokenB, "MockSaucerSwapFactory: identical addresses");
+        (address token0, address token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        require(token0 != address(0), "MockSaucerSwapFactory: zero address");
+        require(getPair[token0][token1] == address(0), "MockSaucerSwapFactory: pair exists");
+
+        MockSaucerSwapPair newPair = new MockSaucerSwapPair();
+        newPair.initialize(token0, token1);
+        pair = address(newPair);
+
+        getPair[token0][token1] = pair;
+        getPair[token1][token0] = pair;
+        allPairs.push(pair);
+
+        emit PairCreated(token0, token1, pair, allPairs.length);
+    }
+
+    /**
+     * @notice Gets the number of pairs
+     */
+    function allPairsLength() external view returns (uint256) {
+        return allPairs.length;
+    }
+}
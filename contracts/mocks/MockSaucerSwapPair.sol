@@ -0,0 +1,157 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title MockSaucerSwapPair
+ * @notice Constant-product pair mirroring SaucerSwap V1 / Uniswap V2 pair semantics
+ * @dev Test-only: no flash swaps, no protocol fee, no price accumulators
+ */
+contract MockSaucerSwapPair is ERC20 {
+    using SafeERC20 for IERC20;
+
+    /// @notice Liquidity locked forever on first mint
+    uint256 public constant MINIMUM_LIQUIDITY = 1000;
+
+    /// @notice Address receiving the locked minimum liquidity
+    address private constant DEAD = 0x000000000000000000000000000000000000dEaD;
+
+    /// @notice Factory that created this pair
+    address public immutable factory;
+
+    address public token0;
+    address public token1;
+
+    uint256 private _reserve0;
+    uint256 private _reserve1;
+
+    event Mint(address indexed sender, uint256 amount0, uint256 amount1);
+    event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to);
+    event Swap(
+        address indexed sender,
+        uint256 amount0In,
+        uint256 amount1In,
+        uint256 amount0Out,
+        uint256 amount1Out,
+        address indexed to
+    );
+    event Sync(uint256 reserve0, uint256 reserve1);
+
+    constructor() ERC20("SaucerSwap V1 LP", "SSLP") {
+        factory = msg.sender;
+    }
+
+    /**
+     * @notice Sets the pair tokens (called once by the factory)
+     */
+    function initialize(address token0_, address token1_) external {
+        require(msg.sender == factory, "MockSaucerSwapPair: forbidden");
+        token0 = token0_;
+        token1 = token1_;
+    }
+
+    /**
+     * @notice Gets the current reserves
+     */
+    function getReserves() public view returns (uint256 reserve0, uint256 reserve1) {
+        return (_reserve0, _reserve1);
+    }
+
+    /**
+     * @notice Mints LP tokens for tokens transferred to the pair since the last update
+     * @param to Recipient of the LP tokens
+     * @return liquidity Amount of LP tokens minted
+     */
+    function mint(address to) external returns (uint256 liquidity) {
+        (uint256 reserve0, uint256 reserve1) = getReserves();
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0 = balance0 - reserve0;
+        uint256 amount1 = balance1 - reserve1;
+
+        uint256 supply = totalSupply();
+        if (supply == 0) {
+            liquidity = Math.sqrt(amount0 * amount1) - MINIMUM_LIQUIDITY;
+            _mint(DEAD, MINIMUM_LIQUIDITY);
+        } else {
+            liquidity = Math.min((amount0 * supply) / reserve0, (amount1 * supply) / reserve1);
+        }
+        require(liquidity > 0, "MockSaucerSwapPair: insufficient liquidity minted");
+        _mint(to, liquidity);
+
+        _update(balance0, balance1);
+        emit Mint(msg.sender, amount0, amount1);
+    }
+
+    /**
+     * @notice Burns LP tokens transferred to the pair and returns the underlying tokens
+     * @param to Recipient of the underlying tokens
+     */
+    function burn(address to) external returns (uint256 amount0, uint256 amount1) {
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 liquidity = balanceOf(address(this));
+
+        uint256 supply = totalSupply();
+        amount0 = (liquidity * balance0) / supply;
+        amount1 = (liquidity * balance1) / supply;
+        require(amount0 > 0 && amount1 > 0, "MockSaucerSwapPair: insufficient liquidity burned");
+
+        _burn(address(this), liquidity);
+        IERC20(token0).safeTransfer(to, amount0);
+        IERC20(token1).safeTransfer(to, amount1);
+
+        _update(IERC20(token0).balanceOf(address(this)), IERC20(token1).balanceOf(address(this)));
+        emit Burn(msg.sender, amount0, amount1, to);
+    }
+
+    /**
+     * @notice Sends out tokens; the caller must have transferred the input beforehand
+     * @param amount0Out Amount of token0 to send
+     * @param amount1Out Amount of token1 to send
+     * @param to Recipient
+     */
+    function swap(uint256 amount0Out, uint256 amount1Out, address to) external {
+        require(amount0Out > 0 || amount1Out > 0, "MockSaucerSwapPair: insufficient output amount");
+        (uint256 reserve0, uint256 reserve1) = getReserves();
+        require(amount0Out < reserve0 && amount1Out < reserve1, "MockSaucerSwapPair: insufficient liquidity");
+        require(to != token0 && to != token1, "MockSaucerSwapPair: invalid to");
+
+        if (amount0Out > 0) IERC20(token0).safeTransfer(to, amount0Out);
+        if (amount1Out > 0) IERC20(token1).safeTransfer(to, amount1Out);
+
+        uint256 balance0 = IERC20(token0).balanceOf(address(this));
+        uint256 balance1 = IERC20(token1).balanceOf(address(this));
+        uint256 amount0In = balance0 > reserve0 - amount0Out ? balance0 - (reserve0 - amount0Out) : 0;
+        uint256 amount1In = balance1 > reserve1 - amount1Out ? balance1 - (reserve1 - amount1Out) : 0;
+        require(amount0In > 0 || amount1In > 0, "MockSaucerSwapPair: insufficient input amount");
+
+        // 0.3% fee on input, same as SaucerSwap V1
+        uint256 balance0Adjusted = balance0 * 1000 - amount0In * 3;
+        uint256 balance1Adjusted = balance1 * 1000 - amount1In * 3;
+        require(
+            balance0Adjusted * balance1Adjusted >= reserve0 * reserve1 * 1000 ** 2,
+            "MockSaucerSwapPair: K"
+        );
+
+        _update(balance0, balance1);
+        emit Swap(msg.sender, amount0In, amount1In, amount0Out, amount1Out, to);
+    }
+
+    /**
+     * @notice Forces reserves to match balances
+     */
+    function sync() external {
+        _update(IERC20(token0).balanceOf(address(this)), IERC20(token1).balanceOf(address(this)));
+    }
+
+    function _update(uint256 balance0, uint256 balance1) private {
+        _reserve0 = balance0;
+        _reserve1 = balance1;
+        emit Sync(balance0, balance1);
+    }
+}
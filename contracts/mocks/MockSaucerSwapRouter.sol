@@ -0,0 +1,224 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "../interfaces/ISaucerSwapRouter.sol";
+import "./MockSaucerSwapFactory.sol";
+import "./MockSaucerSwapPair.sol";
+
+/**
+ * @title MockSaucerSwapRouter
+ * @notice Router mirroring SaucerSwap V1 / Uniswap V2 routing over MockSaucerSwapFactory pairs
+ * @dev Test-only. The owner can disable tokens to simulate failing swaps and quotes
+ */
+contract MockSaucerSwapRouter is ISaucerSwapRouter, Ownable {
+    using SafeERC20 for IERC20;
+
+    /// @notice Pair factory
+    MockSaucerSwapFactory public immutable factory;
+
+    /// @notice Tokens for which every quote and swap reverts
+    mapping(address => bool) public disabledTokens;
+
+    event TokenDisabled(address indexed token, bool disabled);
+
+    modifier ensure(uint256 deadline) {
+        require(deadline >= block.timestamp, "MockSaucerSwapRouter: expired");
+        _;
+    }
+
+    /**
+     * @notice Constructor
+     * @param _factory Pair factory address
+     * @param _owner Owner address
+     */
+    constructor(address _factory, address _owner) Ownable(_owner) {
+        factory = MockSaucerSwapFactory(_factory);
+    }
+
+    /**
+     * @notice Makes every quote and swap involving a token revert (or restores it)
+     * @param token Token address
+     * @param disabled Whether the token is disabled
+     */
+    function setTokenDisabled(address token, bool disabled) external onlyOwner {
+        disabledTokens[token] = disabled;
+        emit TokenDisabled(token, disabled);
+    }
+
+    /**
+     * @notice Adds liquidity to a pair, creating it if needed
+     * @return amountA Amount of tokenA deposited
+     * @return amountB Amount of tokenB deposited
+     * @return liquidity LP tokens minted to `to`
+     */
+    function addLiquidity(
+        address tokenA,
+        address tokenB,
+        uint256 amountADesired,
+        uint256 amountBDesired,
+        uint256 amountAMin,
+        uint256 amountBMin,
+        address to,
+        uint256 deadline
+    ) external ensure(deadline) returns (uint256 amountA, uint256 amountB, uint256 liquidity) {
+        address pair = factory.getPair(tokenA, tokenB);
+        if (pair == address(0)) {
+            pair = factory.createPair(tokenA, tokenB);
+        }
+
+        (uint256 reserveA, uint256 reserveB) = _getReserves(tokenA, tokenB);
+        if (reserveA == 0 && reserveB == 0) {
+            (amountA, amountB) = (amountADesired, amountBDesired);
+        } else {
+            uint256 amountBOptimal = (amountADesired * reserveB) / reserveA;
+            if (amountBOptimal <= amountBDesired) {
+                require(amountBOptimal >= amountBMin, "MockSaucerSwapRouter: insufficient B amount");
+                (amountA, amountB) = (amountADesired, amountBOptimal);
+            } else {
+                uint256 amountAOptimal = (amountBDesired * reserveA) / reserveB;
+                require(amountAOptimal >= amountAMin, "MockSaucerSwapRouter: insufficient A amount");
+                (amountA, amountB) = (amountAOptimal, amountBDesired);
+            }
+        }
+
+        IERC20(tokenA).safeTransferFrom(msg.sender, pair, amountA);
+        IERC20(tokenB).safeTransferFrom(msg.sender, pair, amountB);
+        liquidity = MockSaucerSwapPair(pair).mint(to);
+    }
+
+    /**
+     * @inheritdoc ISaucerSwapRouter
+     */
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external override ensure(deadline) returns (uint256[] memory amounts) {
+        amounts = getAmountsOut(amountIn, path);
+        require(amounts[amounts.length - 1] >= amountOutMin, "MockSaucerSwapRouter: insufficient output amount");
+        IERC20(path[0]).safeTransferFrom(msg.sender, _pairFor(path[0], path[1]), amounts[0]);
+        _swap(amounts, path, to);
+    }
+
+    /**
+     * @inheritdoc ISaucerSwapRouter
+     */
+    function swapTokensForExactTokens(
+        uint256 amountOut,
+        uint256 amountInMax,
+        address[] calldata path,
+        address to,
+        uint256 deadline
+    ) external override ensure(deadline) returns (uint256[] memory amounts) {
+        amounts = getAmountsIn(amountOut, path);
+        require(amounts[0] <= amountInMax, "MockSaucerSwapRouter: excessive input amount");
+        IERC20(path[0]).safeTransferFrom(msg.sender, _pairFor(path[0], path[1]), amounts[0]);
+        _swap(amounts, path, to);
+    }
+
+    /**
+     * @inheritdoc ISaucerSwapRouter
+     */
+    function getAmountsOut(uint256 amountIn, address[] calldata path)
+        public
+        view
+        override
+        returns (uint256[] memory amounts)
+    {
+        require(path.length >= 2, "MockSaucerSwapRouter: invalid path");
+        amounts = new uint256[](path.length);
+        amounts[0] = amountIn;
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            _requireEnabled(path[i], path[i + 1]);
+            (uint256 reserveIn, uint256 reserveOut) = _getReserves(path[i], path[i + 1]);
+            amounts[i + 1] = _getAmountOut(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    /**
+     * @inheritdoc ISaucerSwapRouter
+     */
+    function getAmountsIn(uint256 amountOut, address[] calldata path)
+        public
+        view
+        override
+        returns (uint256[] memory amounts)
+    {
+        require(path.length >= 2, "MockSaucerSwapRouter: invalid path");
+        amounts = new uint256[](path.length);
+        amounts[amounts.length - 1] = amountOut;
+        for (uint256 i = path.length - 1; i > 0; i--) {
+            _requireEnabled(path[i - 1], path[i]);
+            (uint256 reserveIn, uint256 reserveOut) = _getReserves(path[i - 1], path[i]);
+            amounts[i - 1] = _getAmountIn(amounts[i], reserveIn, reserveOut);
+        }
+    }
+
+    function _swap(uint256[] memory amounts, address[] calldata path, address to) private {
+        for (uint256 i = 0; i < path.length - 1; i++) {
+            (address input, address output) = (path[i], path[i + 1]);
+            (address token0, ) = _sortTokens(input, output);
+            uint256 amountOut = amounts[i + 1];
+            (uint256 amount0Out, uint256 amount1Out) = input == token0
+                ? (uint256(0), amountOut)
+                : (amountOut, uint256(0));
+            address recipient = i < path.length - 2 ? _pairFor(output, path[i + 2]) : to;
+            MockSaucerSwapPair(_pairFor(input, output)).swap(amount0Out, amount1Out, recipient);
+        }
+    }
+
+    function _requireEnabled(address tokenA, address tokenB) private view {
+        require(!disabledTokens[tokenA] && !disabledTokens[tokenB], "MockSaucerSwapRouter: token disabled");
+    }
+
+    function _pairFor(address tokenA, address tokenB) private view returns (address pair) {
+        _requireEnabled(tokenA, tokenB);
+        pair = factory.getPair(tokenA, tokenB);
+        require(pair != address(0), "MockSaucerSwapRouter: pair not found");
+    }
+
+    function _getReserves(address tokenA, address tokenB)
+        private
+        view
+        returns (uint256 reserveA, uint256 reserveB)
+    {
+        address pair = factory.getPair(tokenA, tokenB);
+        if (pair == address(0)) {
+            return (0, 0);
+        }
+        (address token0, ) = _sortTokens(tokenA, tokenB);
+        (uint256 reserve0, uint256 reserve1) = MockSaucerSwapPair(pair).getReserves();
+        (reserveA, reserveB) = tokenA == token0 ? (reserve0, reserve1) : (reserve1, reserve0);
+    }
+
+    function _sortTokens(address tokenA, address tokenB) private pure returns (address token0, address token1) {
+        require(tokenA != tokenB, "MockSaucerSwapRouter: identical addresses");
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+    }
+
+    function _getAmountOut(uint256 amountIn, uint256 reserveIn, uint256 reserveOut)
+        private
+        pure
+        returns (uint256)
+    {
+        require(amountIn > 0, "MockSaucerSwapRouter: insufficient input amount");
+        require(reserveIn > 0 && reserveOut > 0, "MockSaucerSwapRouter: insufficient liquidity");
+        uint256 amountInWithFee = amountIn * 997;
+        return (amountInWithFee * reserveOut) / (reserveIn * 1000 + amountInWithFee);
+    }
+
+    function _getAmountIn(uint256 amountOut, uint256 reserveIn, uint256 reserveOut)
+        private
+        pure
+        returns (uint256)
+    {
+        require(amountOut > 0, "MockSaucerSwapRouter: insufficient output amount");
+        require(reserveIn > 0 && reserveOut > amountOut, "MockSaucerSwapRouter: insufficient liquidity");
+        return (reserveIn * amountOut * 1000) / ((reserveOut - amountOut) * 997) + 1;
+    }
+}
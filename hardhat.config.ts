@@ -1,9 +1,27 @@
 import { HardhatUserConfig } from "hardhat/config";
+import { HttpNetworkUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
 import * as dotenv from "dotenv";
+import { NETWORKS, NetworkConfig } from "./sdk/networks";
 
 dotenv.config();
 
+/**
+ * Hardhat settings for a Hedera JSON-RPC relay network from sdk/networks.ts
+ */
+function hederaNetwork(network: NetworkConfig): HttpNetworkUserConfig {
+  return {
+    url: network.url,
+    chainId: network.chainId,
+    accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
+    // Estimated with the same margin as sdk/transactions.ts; the SDK sends with its own settings
+    gas: network.txOverrides.gasLimit ?? "auto",
+    gasMultiplier: 1 + (network.txOverrides.gasMarginBps ?? 0) / 10000,
+    gasPrice: network.txOverrides.gasPrice ?? "auto",
+    timeout: network.txOverrides.timeoutMs ?? 60000,
+  };
+}
+
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.28",
@@ -17,16 +35,15 @@ const config: HardhatUserConfig = {
   },
   networks: {
     hardhat: {
-      chainId: 1337,
+      chainId: NETWORKS.localhost.chainId,
     },
-    hedera: {
-      url: "https://mainnet.hashio.io/api",
-      chainId: 295, // 0x127
-      accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
-      gas: 1500000000, // 15M gas limit
-      gasPrice: 350000000000, // 350 gwei (above minimum 320)
-      timeout: 60000,
+    localhost: {
+      url: NETWORKS.localhost.url,
+      chainId: NETWORKS.localhost.chainId, // `npm run node`
     },
+    hedera: hederaNetwork(NETWORKS.hedera), // chainId 295
+    "hedera-testnet": hederaNetwork(NETWORKS["hedera-testnet"]), // chainId 296
+    "hedera-previewnet": hederaNetwork(NETWORKS["hedera-previewnet"]), // chainId 297
   },
   defaultNetwork: "hedera",
 };
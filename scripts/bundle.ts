@@ -0,0 +1,118 @@
+import { artifacts } from "hardhat";
+import { readdirSync, rmSync } from "fs";
+import { join, resolve } from "path";
+import { runTypeChain } from "typechain";
+import * as ts from "typescript";
+import { version } from "../package.json";
+import {
+  ABI_LOCK_FILE,
+  BUNDLE_CONTRACTS,
+  BUNDLE_PACKAGE_NAME,
+  checkAbiCompatibility,
+  collectDeployments,
+  createAbiLock,
+  describeError,
+  loadAbiLock,
+  saveAbiLock,
+  writeBundle,
+} from "../sdk";
+
+// Output directory; override with BUNDLE_DIR=<path>
+const BUNDLE_DIR = process.env.BUNDLE_DIR ?? join("dist", "contracts");
+
+async function main() {
+  const abis: Record<string, unknown[]> = {};
+  for (const name of BUNDLE_CONTRACTS) {
+    abis[name] = (await artifacts.readArtifact(name)).abi;
+  }
+
+  // BUNDLE_CHECK=true: only compare the compiled ABIs with the lock, e.g. in CI
+  const checkOnly = process.env.BUNDLE_CHECK === "true";
+  const lock = loadAbiLock();
+  if (!lock) {
+    if (checkOnly) {
+      throw new Error(`No ${ABI_LOCK_FILE} to check against. Run \`npm run bundle\` to create it.`);
+    }
+    saveAbiLock(createAbiLock(version, abis));
+    console.log(`🔒 Created ${ABI_LOCK_FILE} for version ${version}`);
+  } else {
+    const report = checkAbiCompatibility(lock, version, abis);
+    console.log(`🔍 ABIs of version ${version} against ${ABI_LOCK_FILE} (${lock.version}): ${report.changes.length} change(s)`);
+    for (const change of report.changes) {
+      console.log(`   ${change.change === "added" ? "+" : "-"} ${change.contract}: ${change.signature}`);
+    }
+    if (!report.ok) {
+      throw new Error(
+        `ABIs changed since ${lock.version} and need a ${report.required} version bump, but package.json has ${version}`
+      );
+    }
+    if (checkOnly) {
+      console.log("✅ ABIs are compatible with the version");
+      return;
+    }
+    if (report.bump !== "none") {
+      saveAbiLock(createAbiLock(version, abis));
+      console.log(`🔒 Updated ${ABI_LOCK_FILE} to version ${version}; commit it with the release`);
+    }
+  }
+
+  // BUNDLE_LOCAL=true: also publish deployments/localhost.json, e.g. for a frontend on a local node
+  const { networks, warnings } = collectDeployments({ includeLocal: process.env.BUNDLE_LOCAL === "true" });
+  warnings.forEach((warning) => console.log(`⚠️  ${warning}`));
+  for (const network of Object.values(networks)) {
+    console.log(`🌐 ${network.network} (${network.chainId}): registry ${network.registry}, ${network.indexes.length} index(es)`);
+  }
+
+  console.log(`\n📦 Writing ${BUNDLE_PACKAGE_NAME}@${version} to ${BUNDLE_DIR}...`);
+  const root = resolve(BUNDLE_DIR);
+  writeBundle({ name: BUNDLE_PACKAGE_NAME, version, abis, networks }, BUNDLE_DIR);
+
+  // Same TypeChain target as the Hardhat toolchain, from the ABIs alone: typed contracts and connect-only factories
+  const abiFiles = BUNDLE_CONTRACTS.map((name) => join(root, "abis", `${name}.json`));
+  const { filesGenerated } = await runTypeChain({
+    cwd: process.cwd(),
+    filesToProcess: abiFiles,
+    allFiles: abiFiles,
+    outDir: join(root, "types"),
+    target: "ethers-v6",
+  });
+  console.log(`🧬 Generated ${filesGenerated} TypeChain file(s)`);
+
+  compile(root);
+  console.log(`✅ ${BUNDLE_DIR} is ready to publish (npm publish ${BUNDLE_DIR})`);
+}
+
+/**
+ * Compiles the bundle's TypeScript to CommonJS with declarations, then removes the sources
+ */
+function compile(root: string) {
+  const program = ts.createProgram([join(root, "index.ts")], {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    declaration: true,
+    strict: true,
+    esModuleInterop: true,
+    skipLibCheck: true,
+    types: [],
+    rootDir: root,
+    outDir: root,
+  });
+  const { diagnostics } = program.emit();
+  const errors = [...ts.getPreEmitDiagnostics(program), ...diagnostics];
+  if (errors.length > 0) {
+    const messages = errors.map((d) => `${d.file?.fileName ?? ""} ${ts.flattenDiagnosticMessageText(d.messageText, "\n")}`);
+    throw new Error(`Bundle does not compile:\n${messages.join("\n")}`);
+  }
+  for (const entry of readdirSync(root, { recursive: true, encoding: "utf8" })) {
+    if (entry.endsWith(".ts") && !entry.endsWith(".d.ts")) {
+      rmSync(join(root, entry));
+    }
+  }
+}
+
+main()
+  .then(() => process.exit())
+  .catch((error) => {
+    console.error(`❌ Bundle failed: ${describeError(error)}`);
+    process.exit(1);
+  });
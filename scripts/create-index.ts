@@ -1,151 +1,118 @@
 import { ethers } from "hardhat";
-import { readFileSync } from "fs";
-import { join } from "path";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import {
+  CREATED_INDEXES_FILE,
+  CreatedIndexRecord,
+  HedgeraClient,
+  IndexDefinition,
+  checkIndexOnChain,
+  describeError,
+  loadIndexDefinitions,
+  loadNetworkDeployment,
+  toCreateIndexParams,
+  validateIndexDefinition,
+} from "../sdk";
 
-// Real token addresses on Hedera
-const HEDERA_TOKENS = {
-  WBTC: "0x0000000000000000000000000000000000101afb",   // Wrapped Bitcoin
-  WETH: "0x000000000000000000000000000000000008437c",   // Wrapped Ethereum  
-  WLINK: "0x0000000000000000000000000000000000101b07",  // Wrapped Chainlink
-  HBAR: "0x0000000000000000000000000000000000163b5a",   // HBAR (Hedera native)
-  SAUCE: "0x00000000000000000000000000000000000b2ad5",  // SaucerSwap token
-  BONZO: "0x00000000000000000000000000000000007e545e",  // Bonzo token
-  BSL: "0x000000000000000000000000000000000043a076",    // BSL token
-  PACK: "0x0000000000000000000000000000000000492a28",   // HashPack token
-};
-
-interface IndexConfig {
-  name: string;
-  symbol: string;
-  tokens: string[];
-  weights: number[]; // basis points (10000 = 100%)
-  mintFee: number;   // basis points
-  redeemFee: number; // basis points
-  description: string;
-}
-
-const HEDERA_INDEXES: IndexConfig[] = [
-  {
-    name: "Blue Chip Crypto Index",
-    symbol: "BCCI",
-    tokens: [HEDERA_TOKENS.WBTC, HEDERA_TOKENS.WETH, HEDERA_TOKENS.WLINK, HEDERA_TOKENS.HBAR],
-    weights: [3000, 3000, 2000, 2000], // 30% WBTC, 30% WETH, 20% WLINK, 20% HBAR
-    mintFee: 50,  // 0.5%
-    redeemFee: 50, // 0.5%
-    description: "Blue chip cryptocurrencies including BTC, ETH, LINK and HBAR"
-  },
-  {
-    name: "Hedera DeFi Index",
-    symbol: "HDI",
-    tokens: [HEDERA_TOKENS.HBAR, HEDERA_TOKENS.SAUCE, HEDERA_TOKENS.BONZO, HEDERA_TOKENS.BSL, HEDERA_TOKENS.PACK],
-    weights: [4000, 2500, 1500, 1000, 1000], // 40% HBAR, 25% SAUCE, 15% BONZO, 10% BSL, 10% PACK
-    mintFee: 75,  // 0.75%
-    redeemFee: 75, // 0.75%
-    description: "Native Hedera ecosystem tokens and DeFi projects"
-  }
-];
-
-async function loadDeploymentAddresses() {
-  try {
-    const deploymentFile = join(process.cwd(), "deployments", "hedera-mainnet.json");
-    const deployment = JSON.parse(readFileSync(deploymentFile, "utf8"));
-    return deployment;
-  } catch (error) {
-    throw new Error("❌ Deployment file not found. Please run deployment script first.");
-  }
-}
+// Index definitions to create; override with INDEX_FILE=<path to .json/.yaml>
+const INDEX_FILE = process.env.INDEX_FILE ?? "indexes/hedera.yaml";
 
 async function main() {
   console.log("🏗️  Creating sample indexes on Hedgera...");
   
-  // Load deployment addresses
-  const deployment = await loadDeploymentAddresses();
+  const definitions = loadIndexDefinitions(INDEX_FILE);
+  console.log(`📄 Index definitions: ${INDEX_FILE} (${definitions.length})`);
+  
+  // Load deployment addresses for the connected chain
+  const { deployment, network } = await loadNetworkDeployment(ethers.provider);
+  console.log(`🌐 Network: ${network.name} (${deployment.chainId})`);
   console.log(`📝 Using IndexFactory at: ${deployment.factory}`);
   
+  // Local deployments ship their own mock tokens
+  const tokenTable = deployment.tokens ?? network.tokens;
+  
   // Get signer
   const [deployer] = await ethers.getSigners();
   const deployerAddress = await deployer.getAddress();
   console.log(`👤 Creating indexes as: ${deployerAddress}`);
   
-  // Connect to contracts
-  const IndexFactory = await ethers.getContractFactory("IndexFactory");
-  const factory = IndexFactory.attach(deployment.factory);
-  
-  const IndexRegistry = await ethers.getContractFactory("IndexRegistry");
-  const registry = IndexRegistry.attach(deployment.registry);
+  // Connect to contracts with the network's gas settings
+  const client = new HedgeraClient(deployment, deployer, {
+    txOverrides: network.txOverrides,
+  });
   
   // Check initial state
-  const initialIndexCount = await registry.getIndexCount();
+  const initialIndexCount = await client.getIndexCount();
   console.log(`📊 Current index count: ${initialIndexCount}`);
   
   // Check factory configuration
-  const creationFee = await factory.indexCreationFee();
+  const creationFee = await client.factory.indexCreationFee();
   console.log(`💰 Index creation fee: ${ethers.formatUnits(creationFee, 6)} USDC`);
   
+  // Validate every definition before sending any transaction
+  console.log("\n🔍 Validating index definitions...");
+  let invalid = 0;
+  for (const config of definitions) {
+    let issues = validateIndexDefinition(config, tokenTable, deployment.usdc);
+    if (issues.length === 0) {
+      issues = await checkIndexOnChain(client, toCreateIndexParams(config, tokenTable, deployerAddress), deployerAddress);
+    }
+    if (issues.length === 0) {
+      console.log(`   ✅ ${config.symbol}`);
+    } else {
+      invalid++;
+      console.log(`   ❌ ${config.symbol}`);
+      issues.forEach((issue) => console.log(`      - ${issue}`));
+    }
+  }
+  if (invalid > 0) {
+    throw new Error(`${invalid} of ${definitions.length} index definitions are invalid; nothing was created`);
+  }
+  
   // Create indexes
-  const createdIndexes = [];
+  const createdIndexes: (CreatedIndexRecord & { config: IndexDefinition })[] = [];
   
-  for (let i = 0; i < HEDERA_INDEXES.length; i++) {
-    const config = HEDERA_INDEXES[i];
+  for (let i = 0; i < definitions.length; i++) {
+    const config = definitions[i];
     console.log(`\n🏗️  Creating Index ${i + 1}: ${config.name} (${config.symbol})`);
-    console.log(`   📝 Description: ${config.description}`);
-    console.log(`   🏷️  Tokens: ${config.tokens.length}`);
-    console.log(`   ⚖️  Weights: ${config.weights.map(w => `${w/100}%`).join(', ')}`);
+    if (config.description) {
+      console.log(`   📝 Description: ${config.description}`);
+    }
+    console.log(`   🏷️  Tokens: ${config.components.map(c => c.token).join(', ')}`);
+    console.log(`   ⚖️  Weights: ${config.components.map(c => `${c.weight/100}%`).join(', ')}`);
     console.log(`   💸 Fees: ${config.mintFee/100}% mint, ${config.redeemFee/100}% redeem`);
     
     try {
-      // Create the index with fixed gas settings
-      const tx = await factory.createIndex(
-        config.name,
-        config.symbol,
-        deployerAddress, // curator = deployer
-        config.tokens,
-        config.weights,
-        config.mintFee,
-        config.redeemFee,
-        { 
-          gasLimit: 15000000,
-          gasPrice: 350000000000
-        }
+      // Create the index (approves the creation fee first if needed); curator defaults to the deployer
+      const { receipt, event } = await client.createIndex(
+        toCreateIndexParams(config, tokenTable, deployerAddress)
       );
       
-      console.log(`   📤 Transaction sent: ${tx.hash}`);
-      console.log(`   ⏳ Waiting for confirmation...`);
-      
-      const receipt = await tx.wait();
-      console.log(`   ✅ Confirmed in block: ${receipt?.blockNumber}`);
-      
-      // Parse the IndexCreated event
-      const eventFilter = factory.filters.IndexCreated();
-      const events = await factory.queryFilter(eventFilter, receipt?.blockNumber, receipt?.blockNumber);
+      console.log(`   📤 Transaction: ${receipt.hash}`);
+      console.log(`   ✅ Confirmed in block: ${receipt.blockNumber}`);
+      console.log(`   📊 Index ID: ${event.indexId}`);
+      console.log(`   🏦 Vault: ${event.vault}`);
+      console.log(`   🪙 Token: ${event.indexToken}`);
       
-      if (events.length > 0) {
-        const event = events[events.length - 1]; // Get the latest event
-        const indexId = event.args?.indexId;
-        const vault = event.args?.vault;
-        const indexToken = event.args?.indexToken;
-        
-        console.log(`   📊 Index ID: ${indexId}`);
-        console.log(`   🏦 Vault: ${vault}`);
-        console.log(`   🪙 Token: ${indexToken}`);
-        
-        createdIndexes.push({
-          id: Number(indexId),
-          name: config.name,
-          symbol: config.symbol,
-          vault,
-          indexToken,
-          config
-        });
-      }
+      createdIndexes.push({
+        id: event.indexId,
+        name: config.name,
+        symbol: config.symbol,
+        vault: event.vault,
+        indexToken: event.indexToken,
+        chainId: deployment.chainId,
+        registry: deployment.registry,
+        config
+      });
       
     } catch (error) {
-      console.error(`   ❌ Failed to create ${config.name}:`, error);
-      continue;
+      // Stop rather than skip, so later indexes are not created out of order
+      console.error(`   ❌ Failed to create ${config.name}: ${describeError(error)}`);
+      process.exitCode = 1;
+      break;
     }
     
     // Wait a bit between deployments
-    if (i < HEDERA_INDEXES.length - 1) {
+    if (i < definitions.length - 1) {
       console.log("   ⏱️  Waiting 2 seconds before next deployment...");
       await new Promise(resolve => setTimeout(resolve, 2000));
     }
@@ -153,24 +120,24 @@ async function main() {
   
   // Final verification
   console.log("\n🔍 Verifying created indexes...");
-  const finalIndexCount = await registry.getIndexCount();
+  const finalIndexCount = await client.getIndexCount();
   console.log(`📊 Final index count: ${finalIndexCount}`);
   
   // List all created indexes
   console.log("\n📋 Created Indexes Summary:");
-  console.log("=" * 60);
+  console.log("=".repeat(60));
   
   for (const index of createdIndexes) {
     console.log(`🆔 ID: ${index.id}`);
     console.log(`📛 Name: ${index.name} (${index.symbol})`);
     console.log(`🏦 Vault: ${index.vault}`);
     console.log(`🪙 Token: ${index.indexToken}`);
-    console.log(`📊 Tokens: ${index.config.tokens.length}, Fees: ${index.config.mintFee/100}%/${index.config.redeemFee/100}%`);
+    console.log(`📊 Tokens: ${index.config.components.length}, Fees: ${index.config.mintFee/100}%/${index.config.redeemFee/100}%`);
     console.log("---");
   }
   
   console.log("\n🎉 Index creation completed!");
-  console.log(`✅ Successfully created ${createdIndexes.length} out of ${HEDERA_INDEXES.length} indexes`);
+  console.log(`✅ Successfully created ${createdIndexes.length} out of ${definitions.length} indexes`);
   
   if (createdIndexes.length > 0) {
     console.log("\n📋 Next Steps:");
@@ -179,18 +146,23 @@ async function main() {
     console.log(`   💡 Try minting from Index ID: ${createdIndexes[0].id}`);
   }
   
-  // Save created indexes info
-  const indexesFile = join(process.cwd(), "deployments", "created-indexes.json");
-  require("fs").writeFileSync(indexesFile, JSON.stringify(createdIndexes, null, 2));
-  console.log(`💾 Index details saved to: ${indexesFile}`);
+  // Add to the indexes created earlier, on this and other deployments (published by `npm run bundle`)
+  const previous: CreatedIndexRecord[] = existsSync(CREATED_INDEXES_FILE)
+    ? JSON.parse(readFileSync(CREATED_INDEXES_FILE, "utf8"))
+    : [];
+  const kept = previous.filter(
+    (r) => !createdIndexes.some((c) => c.id === r.id && c.chainId === r.chainId && c.registry === r.registry)
+  );
+  writeFileSync(CREATED_INDEXES_FILE, JSON.stringify([...kept, ...createdIndexes], null, 2));
+  console.log(`💾 Index details saved to: ${CREATED_INDEXES_FILE}`);
   
   return createdIndexes;
 }
 
 // Error handling
 main()
-  .then(() => process.exit(0))
+  .then(() => process.exit())
   .catch((error) => {
-    console.error("❌ Index creation failed:", error);
+    console.error(`❌ Index creation failed: ${describeError(error)}`);
     process.exit(1);
   }); 
\ No newline at end of file
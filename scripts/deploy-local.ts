@@ -0,0 +1,105 @@
+import { ethers, network } from "hardhat";
+import { readFileSync } from "fs";
+import {
+  DEFAULT_LOCAL_TOKENS,
+  LocalEnvironmentConfig,
+  deployLocalEnvironment,
+  deployProtocol,
+  describeError,
+  getNetworkByChainId,
+  saveDeployment,
+} from "../sdk";
+
+const LOCAL_CONFIG = {
+  INITIAL_CREATION_FEE: "1000000", // 1 USDC (6 decimals)
+  FACTORY_ALLOWANCE: "10", // 10 USDC
+  LIQUIDITY_USD: 1000000, // 1M USDC on each side of every pool
+  FUNDED_ACCOUNTS: 5, // First N Hardhat accounts receive USDC
+  FUNDING_USDC: 100000, // 100k USDC each
+};
+
+/**
+ * Builds the environment config, optionally overridden by a JSON file in
+ * LOCAL_CONFIG (any subset of `tokens`, `liquidityUsd`, `fundingUsdc`, `fundedAccounts`)
+ */
+function loadLocalConfig(accounts: string[]): LocalEnvironmentConfig {
+  const config: LocalEnvironmentConfig = {
+    tokens: DEFAULT_LOCAL_TOKENS,
+    liquidityUsd: LOCAL_CONFIG.LIQUIDITY_USD,
+    fundedAccounts: accounts.slice(0, LOCAL_CONFIG.FUNDED_ACCOUNTS),
+    fundingUsdc: LOCAL_CONFIG.FUNDING_USDC,
+  };
+
+  const file = process.env.LOCAL_CONFIG;
+  if (!file) {
+    return config;
+  }
+  console.log(`📄 Using local config: ${file}`);
+  return { ...config, ...(JSON.parse(readFileSync(file, "utf8")) as Partial<LocalEnvironmentConfig>) };
+}
+
+async function main() {
+  console.log(`🚀 Deploying Hedgera with a local SaucerSwap + USDC stand-in to ${network.name}...`);
+
+  if (network.name === "hardhat") {
+    console.log("⚠️  The in-process hardhat network is discarded when this script exits.");
+    console.log("   Start a node with `npm run node` and use `npm run deploy:local` instead.\n");
+  }
+
+  const signers = await ethers.getSigners();
+  const deployer = signers[0];
+  const deployerAddress = await deployer.getAddress();
+  const { chainId } = await ethers.provider.getNetwork();
+  if (!getNetworkByChainId(chainId).local) {
+    throw new Error(`Refusing to deploy mock tokens to chainId ${chainId}; deploy:local only targets local chains.`);
+  }
+
+  console.log("📋 Deployment Details:");
+  console.log(`  Network: ${network.name} (${chainId})`);
+  console.log(`  Deployer: ${deployerAddress}\n`);
+
+  const config = loadLocalConfig(await Promise.all(signers.map((s) => s.getAddress())));
+
+  try {
+    const environment = await deployLocalEnvironment(deployer, config, { log: console.log });
+
+    console.log();
+    const addresses = await deployProtocol(
+      deployer,
+      {
+        usdc: environment.usdc,
+        saucerSwapRouter: environment.saucerSwapRouter,
+        creationFee: BigInt(LOCAL_CONFIG.INITIAL_CREATION_FEE),
+        factoryAllowance: ethers.parseUnits(LOCAL_CONFIG.FACTORY_ALLOWANCE, 6),
+      },
+      { log: console.log }
+    );
+
+    const deploymentFile = saveDeployment({
+      ...addresses,
+      saucerSwapFactory: environment.saucerSwapFactory,
+      tokens: environment.tokens,
+    });
+
+    console.log("\n📊 Deployment Summary:");
+    console.log(`💵 USDC: ${environment.usdc}`);
+    console.log(`🔁 SaucerSwap Router: ${environment.saucerSwapRouter}`);
+    console.log(`📝 Registry: ${addresses.registry}`);
+    console.log(`🔀 Router: ${addresses.router}`);
+    console.log(`🏭 Factory: ${addresses.factory}`);
+    console.log(`🪙 Tokens: ${Object.keys(environment.tokens).join(", ")}`);
+    console.log(`💾 Saved to: ${deploymentFile}`);
+
+    console.log("\n🎉 Local deployment completed successfully!");
+  } catch (error) {
+    console.error(`❌ Deployment failed: ${describeError(error)}`);
+    process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(`❌ ${describeError(error)}`);
+    process.exit(1);
+  });
@@ -0,0 +1,1191 @@
+import {
+  ContractRunner,
+  TransactionReceipt,
+  Signer,
+  ZeroAddress,
+  formatUnits,
+  isError,
+} from "ethers";
+import {
+  BasketVault,
+  BasketVault__factory,
+  IERC20,
+  IERC20__factory,
+  IERC20Metadata__factory,
+  IndexFactory,
+  IndexFactory__factory,
+  IndexRegistry,
+  IndexRegistry__factory,
+  IndexToken,
+  IndexToken__factory,
+  ISaucerSwapRouter__factory,
+  Router,
+  Router__factory,
+} from "../typechain-types";
+import type { Types } from "../typechain-types/contracts/IndexRegistry";
+import type { AdminCall } from "./adminConfig";
+import { callInterface } from "./batch";
+import type { TxSettings } from "./networks";
+import { decodeRevert, sendTransaction } from "./transactions";
+import {
+  BasketRebalancedEvent,
+  Component,
+  ComponentDrift,
+  ComponentQuote,
+  ContractCall,
+  CreateIndexParams,
+  CreateIndexResult,
+  DeploymentManifest,
+  FeeClaim,
+  FeeReport,
+  FeeSweepOptions,
+  FeeWithdrawal,
+  IndexCreatedEvent,
+  IndexInfo,
+  IndexStatus,
+  IndexValuation,
+  MintedEvent,
+  MintOptions,
+  MintQuote,
+  MintResult,
+  InKindComponent,
+  MigrationPlan,
+  MigrationPlanOptions,
+  MigrationResult,
+  RebalanceOptions,
+  RebalancePlan,
+  RebalancePlanOptions,
+  RebalanceResult,
+  RedeemedEvent,
+  RedeemedInKindEvent,
+  RedeemInKindOptions,
+  RedeemInKindResult,
+  RedeemOptions,
+  RedeemQuote,
+  RedeemResult,
+  TokenMetadata,
+  VaultFees,
+  VaultMigratedEvent,
+  VaultSnapshot,
+} from "./types";
+
+/** Default transaction deadline window (30 minutes) */
+export const DEFAULT_DEADLINE_SECONDS = 1800;
+
+/** Default slippage tolerance for quotes (1%) */
+export const DEFAULT_SLIPPAGE_BPS = 100;
+
+/** Trades below this value are left out of rebalance plans (1 USDC) */
+export const DEFAULT_MIN_TRADE_USDC = 1_000_000n;
+
+/** Default NAV and TVL a vault migration may lose, in basis points (0.1%) */
+export const DEFAULT_MIGRATION_TOLERANCE_BPS = 10;
+
+/** Largest migration tolerance `planMigration` accepts (10%) */
+const MAX_MIGRATION_TOLERANCE_BPS = 1000;
+
+/** SaucerSwap V1 pool fee, counted in the estimated cost of a rebalance (0.3%) */
+const POOL_FEE_BPS = 30n;
+
+/** Basis points denominator (10000 = 100%) */
+const BASIS_POINTS = 10000n;
+
+/** Page size used when walking the registry with `getIndexes` */
+const LIST_PAGE_SIZE = 25;
+
+/**
+ * A request the client refuses before sending or quoting anything
+ * @dev Thrown for arguments out of range and for index state that makes the request meaningless,
+ *      such as an unpriced basket or no shares to redeem, as opposed to RPC or contract failures
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+export interface HedgeraClientOptions {
+  /** How the client sends transactions: gas, retries and confirmations (see `sdk/transactions.ts`) */
+  txOverrides?: TxSettings;
+}
+
+/**
+ * Decodes a `Types.Component` tuple returned by the contracts
+ */
+export function decodeComponent(raw: Types.ComponentStructOutput): Component {
+  return {
+    token: raw.token,
+    weight: raw.weight,
+    balance: raw.balance,
+  };
+}
+
+/**
+ * Decodes a `Types.IndexInfo` tuple returned by the registry
+ */
+export function decodeIndexInfo(raw: Types.IndexInfoStructOutput): IndexInfo {
+  return {
+    id: Number(raw.id),
+    name: raw.name,
+    symbol: raw.symbol,
+    curator: raw.curator,
+    vault: raw.vault,
+    indexToken: raw.indexToken,
+    creationTime: Number(raw.creationTime),
+    totalValueLocked: raw.totalValueLocked,
+    totalVolume: raw.totalVolume,
+    status: Number(raw.status) as IndexStatus,
+    fees: {
+      mintFee: raw.fees.mintFee,
+      redeemFee: raw.fees.redeemFee,
+      platformShare: raw.fees.platformShare,
+    },
+    components: raw.components.map(decodeComponent),
+  };
+}
+
+/**
+ * Typed client for the Hedgera protocol
+ * @dev Works with any ethers v6 runner; state-changing methods require a Signer
+ */
+export class HedgeraClient {
+  readonly registry: IndexRegistry;
+  readonly factory: IndexFactory;
+  readonly router: Router;
+  readonly usdc: IERC20;
+
+  private readonly txOverrides: TxSettings;
+
+  constructor(
+    readonly deployment: DeploymentManifest,
+    readonly runner: ContractRunner,
+    options: HedgeraClientOptions = {}
+  ) {
+    this.registry = IndexRegistry__factory.connect(deployment.registry, runner);
+    this.factory = IndexFactory__factory.connect(deployment.factory, runner);
+    this.router = Router__factory.connect(deployment.router, runner);
+    this.usdc = IERC20__factory.connect(deployment.usdc, runner);
+    this.txOverrides = options.txOverrides ?? {};
+  }
+
+  /**
+   * Attaches to a vault
+   */
+  vault(address: string): BasketVault {
+    return BasketVault__factory.connect(address, this.runner);
+  }
+
+  /**
+   * Attaches to an index token
+   */
+  indexToken(address: string): IndexToken {
+    return IndexToken__factory.connect(address, this.runner);
+  }
+
+  /**
+   * Attaches to an arbitrary ERC-20 token
+   */
+  erc20(address: string): IERC20 {
+    return IERC20__factory.connect(address, this.runner);
+  }
+
+  /**
+   * Gets symbol and decimals of a token, falling back to the address and 0 decimals
+   * for tokens that do not implement the metadata extension
+   */
+  async getTokenMetadata(address: string): Promise<TokenMetadata> {
+    const token = IERC20Metadata__factory.connect(address, this.runner);
+    try {
+      const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+      return { address, symbol, decimals: Number(decimals) };
+    } catch {
+      return { address, symbol: address, decimals: 0 };
+    }
+  }
+
+  /**
+   * Gets the address of the connected signer
+   */
+  async getSignerAddress(): Promise<string> {
+    return this.requireSigner().getAddress();
+  }
+
+  /**
+   * Gets the total number of indexes in the registry
+   */
+  async getIndexCount(): Promise<number> {
+    return Number(await this.registry.getIndexCount());
+  }
+
+  /**
+   * Gets index information by ID
+   */
+  async getIndex(indexId: number): Promise<IndexInfo> {
+    return decodeIndexInfo(await this.registry.getIndex(indexId));
+  }
+
+  /**
+   * Lists indexes from the registry, walking `getIndexes` page by page
+   * @param offset First index ID to return
+   * @param limit Maximum number of indexes to return (all remaining if omitted)
+   */
+  async listIndexes(offset = 0, limit?: number): Promise<IndexInfo[]> {
+    const count = await this.getIndexCount();
+    const end = limit === undefined ? count : Math.min(count, offset + limit);
+
+    const indexes: IndexInfo[] = [];
+    for (let start = offset; start < end; start += LIST_PAGE_SIZE) {
+      const page = await this.registry.getIndexes(start, Math.min(LIST_PAGE_SIZE, end - start));
+      indexes.push(...page.map(decodeIndexInfo));
+    }
+    return indexes;
+  }
+
+  /**
+   * Gets the current basket composition of an index with live vault balances
+   */
+  async getComposition(indexId: number): Promise<Component[]> {
+    const { vault } = await this.getIndex(indexId);
+    const components = await this.vault(vault).getBasketComposition();
+    return components.map(decodeComponent);
+  }
+
+  /**
+   * Gets the NAV per share of an index as reported by `BasketVault.getNavPerShare`
+   * @dev Components the vault cannot price are left out; `getValuation` lists them
+   */
+  async getNavPerShare(indexId: number): Promise<bigint> {
+    const { vault } = await this.getIndex(indexId);
+    return this.vault(vault).getNavPerShare();
+  }
+
+  /**
+   * Values an index the way the vault does: TVL, NAV per share and every component holding
+   * @dev Read-only. TVL includes idle USDC. `unpriced` lists the components the Router could not
+   *      quote, which TVL and NAV leave out, so callers can warn instead of showing an understated value
+   */
+  async getValuation(indexId: number): Promise<IndexValuation> {
+    const index = await this.getIndex(indexId);
+    const vault = this.vault(index.vault);
+    const [[values, priced], totalValueLocked] = await Promise.all([vault.getComponentValues(), vault.getTotalValueLocked()]);
+
+    const components = [];
+    for (const [i, { token }] of index.components.entries()) {
+      components.push({ token, balance: await this.erc20(token).balanceOf(index.vault), value: values[i], priced: priced[i] });
+    }
+    return {
+      indexId,
+      totalValueLocked,
+      navPerShare: await vault.getNavPerShare(),
+      components,
+      unpriced: components.filter((c) => !c.priced).map((c) => c.token),
+    };
+  }
+
+  /**
+   * Prices a mint: expected shares and the minimum output of every component swap
+   * @dev Shares come from `BasketVault.previewMint`. Allocations follow `BasketVault.mintWithMinimums`
+   *      (rounding dust to the last component). The component quotes are requested together, so a
+   *      batching provider sends them as one JSON-RPC batch
+   * @param usdcAmount Amount of USDC to deposit (6 decimals)
+   * @param slippageBps Tolerance applied to shares and every component, at most the vault's MAX_SLIPPAGE
+   */
+  async quoteMint(indexId: number, usdcAmount: bigint, slippageBps = DEFAULT_SLIPPAGE_BPS): Promise<MintQuote> {
+    const index = await this.getIndex(indexId);
+    await this.checkSlippage(index.vault, slippageBps);
+
+    const fee = (usdcAmount * index.fees.mintFee) / BASIS_POINTS;
+    const investment = usdcAmount - fee;
+
+    const allocations = index.components.map(({ weight }) => (investment * weight) / BASIS_POINTS);
+    allocations[allocations.length - 1] += investment - allocations.reduce((sum, a) => sum + a, 0n);
+
+    const components = await Promise.all(
+      allocations.map((amount, i) => this.quoteLeg(this.deployment.usdc, index.components[i].token, amount, slippageBps))
+    );
+
+    const vault = this.vault(index.vault);
+    const [supply, navPerShare] = await Promise.all([this.indexToken(index.indexToken).totalSupply(), vault.getNavPerShare()]);
+    if (supply > 0n && navPerShare === 0n) {
+      throw new ValidationError(`HedgeraClient: index ${indexId} has no priced assets, cannot quote shares`);
+    }
+    const expectedShares = await vault.previewMint(usdcAmount);
+
+    return {
+      indexId,
+      usdcAmount,
+      fee,
+      slippageBps,
+      expectedShares,
+      minShares: applySlippage(expectedShares, slippageBps),
+      components,
+    };
+  }
+
+  /**
+   * Prices a redeem: expected USDC and the minimum output of every component sale
+   * @dev The expected USDC is `BasketVault.previewRedeem`
+   * @param shares Number of shares to redeem (18 decimals)
+   * @param slippageBps Tolerance applied to every component, at most the vault's MAX_SLIPPAGE
+   */
+  async quoteRedeem(indexId: number, shares: bigint, slippageBps = DEFAULT_SLIPPAGE_BPS): Promise<RedeemQuote> {
+    const index = await this.getIndex(indexId);
+    await this.checkSlippage(index.vault, slippageBps);
+
+    const supply = await this.indexToken(index.indexToken).totalSupply();
+    if (supply === 0n) {
+      throw new ValidationError(`HedgeraClient: index ${indexId} has no shares to redeem`);
+    }
+
+    const components = await Promise.all(
+      index.components.map(async ({ token }) => {
+        const balance = await this.erc20(token).balanceOf(index.vault);
+        return this.quoteLeg(token, this.deployment.usdc, (balance * shares) / supply, slippageBps);
+      })
+    );
+
+    const grossUsdc = components.reduce((sum, c) => sum + c.expectedOut, 0n);
+    const fee = (grossUsdc * index.fees.redeemFee) / BASIS_POINTS;
+    const minGross = components.reduce((sum, c) => sum + c.minOut, 0n);
+
+    return {
+      indexId,
+      shares,
+      slippageBps,
+      grossUsdc,
+      fee,
+      expectedUsdc: await this.vault(index.vault).previewRedeem(shares),
+      minUsdc: minGross - (minGross * index.fees.redeemFee) / BASIS_POINTS,
+      components,
+    };
+  }
+
+  /**
+   * Approves `spender` for `amount` of `token` if the current allowance is insufficient
+   * @return receipt Approval receipt, or null if no approval was needed
+   */
+  async ensureAllowance(
+    token: string,
+    spender: string,
+    amount: bigint
+  ): Promise<TransactionReceipt | null> {
+    const signer = this.requireSigner();
+    const [call] = await this.approvalCalls(await signer.getAddress(), token, spender, amount);
+    return call ? this.sendCall(call) : null;
+  }
+
+  /**
+   * Creates a new index through the factory, approving the creation fee first if needed
+   */
+  async createIndex(params: CreateIndexParams): Promise<CreateIndexResult> {
+    this.requireSigner();
+
+    const creationFee = await this.factory.indexCreationFee();
+    if (creationFee > 0n) {
+      await this.ensureAllowance(this.deployment.usdc, this.deployment.factory, creationFee);
+    }
+
+    const receipt = await this.sendCall({
+      contract: "IndexFactory",
+      to: this.deployment.factory,
+      method: "createIndex",
+      args: [
+        params.name,
+        params.symbol,
+        params.curator,
+        params.tokens,
+        params.weights,
+        params.mintFee,
+        params.redeemFee,
+      ],
+      description: `Create index ${params.symbol}`,
+    });
+
+    const event = parseIndexCreatedEvents(this.factory, receipt)[0];
+    if (!event) {
+      throw new Error(`HedgeraClient: no IndexCreated event in transaction ${receipt.hash}`);
+    }
+    return { receipt, event };
+  }
+
+  /**
+   * Mints index tokens by depositing USDC, approving the vault first if needed
+   * @param indexId Index to mint
+   * @param usdcAmount Amount of USDC to deposit (6 decimals)
+   */
+  async mint(indexId: number, usdcAmount: bigint, options: MintOptions = {}): Promise<MintResult> {
+    const signer = this.requireSigner();
+    const calls = await this.mintCalls(await signer.getAddress(), indexId, usdcAmount, options);
+
+    let receipt!: TransactionReceipt;
+    for (const call of calls) {
+      receipt = await this.sendCall(call);
+    }
+
+    const event = parseMintedEvents(this.vault(calls[calls.length - 1].to), receipt)[0];
+    if (!event) {
+      throw new Error(`HedgeraClient: no Minted event in transaction ${receipt.hash}`);
+    }
+    return { receipt, event };
+  }
+
+  /**
+   * Redeems index tokens for USDC
+   * @param indexId Index to redeem from
+   * @param shares Number of shares to redeem (18 decimals)
+   */
+  async redeem(indexId: number, shares: bigint, options: RedeemOptions = {}): Promise<RedeemResult> {
+    this.requireSigner();
+    const call = await this.redeemCall(indexId, shares, options);
+    const receipt = await this.sendCall(call);
+
+    const event = parseRedeemedEvents(this.vault(call.to), receipt)[0];
+    if (!event) {
+      throw new Error(`HedgeraClient: no Redeemed event in transaction ${receipt.hash}`);
+    }
+    return { receipt, event };
+  }
+
+  /**
+   * Redeems index tokens directly into the underlying basket tokens, without swaps
+   * @dev The redeem fee is applied in kind: that share of each component goes to the curator and the platform.
+   *      The pro-rata part of idle USDC is paid too, less the same fee
+   * @param shares Number of shares to redeem (18 decimals)
+   */
+  async redeemInKind(indexId: number, shares: bigint, options: RedeemInKindOptions = {}): Promise<RedeemInKindResult> {
+    this.requireSigner();
+    const call = await this.redeemInKindCall(indexId, shares, options);
+    const receipt = await this.sendCall(call);
+
+    const event = parseRedeemedInKindEvents(this.vault(call.to), receipt)[0];
+    if (!event) {
+      throw new Error(`HedgeraClient: no RedeemedInKind event in transaction ${receipt.hash}`);
+    }
+    return { receipt, event };
+  }
+
+  /**
+   * Computes what `redeemInKind` would pay out at current vault balances
+   * @dev Components in registry order, then USDC when the vault holds idle USDC
+   * @param shares Number of shares to redeem (18 decimals)
+   */
+  async previewRedeemInKind(indexId: number, shares: bigint): Promise<InKindComponent[]> {
+    const index = await this.getIndex(indexId);
+    const supply = await this.indexToken(index.indexToken).totalSupply();
+    if (supply === 0n) {
+      throw new ValidationError(`HedgeraClient: index ${indexId} has no shares to redeem`);
+    }
+
+    const components: InKindComponent[] = [];
+    for (const { token } of index.components) {
+      const gross = ((await this.erc20(token).balanceOf(index.vault)) * shares) / supply;
+      const fee = (gross * index.fees.redeemFee) / BASIS_POINTS;
+      components.push({ token, amount: gross - fee, fee });
+    }
+    const [usdcBalance, collectedFees] = await Promise.all([
+      this.usdc.balanceOf(index.vault),
+      this.vault(index.vault).collectedFees(),
+    ]);
+    if (usdcBalance > collectedFees) {
+      const gross = ((usdcBalance - collectedFees) * shares) / supply;
+      const fee = (gross * index.fees.redeemFee) / BASIS_POINTS;
+      if (gross > 0n) components.push({ token: this.deployment.usdc, amount: gross - fee, fee });
+    }
+    return components;
+  }
+
+  /**
+   * Plans the trades that move a basket to its target weights
+   * @dev Components are valued with `BasketVault.getComponentValues`, and idle USDC counts towards
+   *      the basket so it gets deployed. Overweight components are sold and underweight ones bought:
+   *      idle USDC plus the sales' minimum proceeds is split across the buys by shortfall. A component
+   *      the vault cannot price stops the plan, since its weight would be unknown
+   */
+  async planRebalance(indexId: number, options: RebalancePlanOptions = {}): Promise<RebalancePlan> {
+    const index = await this.getIndex(indexId);
+    const slippageBps = options.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+    const minTradeUsdc = options.minTradeUsdc ?? DEFAULT_MIN_TRADE_USDC;
+    await this.checkSlippage(index.vault, slippageBps);
+
+    const currentWeights = index.components.map((c) => c.weight);
+    const targetWeights = options.targetWeights ?? currentWeights;
+    if (targetWeights.length !== index.components.length) {
+      throw new Error(
+        `HedgeraClient: index ${indexId} has ${index.components.length} components, got ${targetWeights.length} weights`
+      );
+    }
+    if (targetWeights.reduce((sum, w) => sum + w, 0n) !== BASIS_POINTS) {
+      throw new ValidationError("HedgeraClient: target weights must sum to 10000 basis points");
+    }
+
+    const [values, priced] = await this.vault(index.vault).getComponentValues();
+    const unpriced = index.components.filter((_, i) => !priced[i]);
+    if (unpriced.length > 0) {
+      const tokens = unpriced.map((c) => c.token).join(", ");
+      throw new ValidationError(`HedgeraClient: cannot price ${tokens} in index ${indexId}, rebalance would use wrong weights`);
+    }
+    const balances: bigint[] = [];
+    for (const { token } of index.components) {
+      balances.push(await this.erc20(token).balanceOf(index.vault));
+    }
+    const usdcBalance = await this.usdc.balanceOf(index.vault);
+    const collectedFees = await this.vault(index.vault).collectedFees();
+    const idleUsdc = usdcBalance > collectedFees ? usdcBalance - collectedFees : 0n;
+
+    const totalValue = values.reduce((sum, v) => sum + v, idleUsdc);
+    if (totalValue === 0n) {
+      throw new ValidationError(`HedgeraClient: index ${indexId} holds nothing to rebalance`);
+    }
+
+    const bps = (value: bigint) => Number((value * BASIS_POINTS) / totalValue);
+    const components: ComponentDrift[] = index.components.map(({ token }, i) => {
+      const targetValue = (totalValue * targetWeights[i]) / BASIS_POINTS;
+      return {
+        token,
+        balance: balances[i],
+        value: values[i],
+        targetValue,
+        currentWeight: bps(values[i]),
+        targetWeight: Number(targetWeights[i]),
+        driftBps: bps(values[i]) - Number(targetWeights[i]),
+      };
+    });
+
+    // Sell the excess of overweight components, in proportion to the balance
+    const sells: ComponentQuote[] = [];
+    for (const { token, balance, value, targetValue } of components) {
+      const excess = value - targetValue;
+      const amount = excess >= minTradeUsdc ? (balance * excess) / value : 0n;
+      sells.push(await this.quoteLeg(token, this.deployment.usdc, amount, slippageBps));
+    }
+
+    const shortfalls = components.map(({ value, targetValue }) =>
+      targetValue - value >= minTradeUsdc ? targetValue - value : 0n
+    );
+    const wanted = shortfalls.reduce((sum, s) => sum + s, 0n);
+    const available = sells.reduce((sum, s) => sum + s.minOut, idleUsdc);
+
+    const buys: ComponentQuote[] = [];
+    for (const [i, { token }] of components.entries()) {
+      const allocation = wanted > 0n ? (shortfalls[i] * available) / wanted : 0n;
+      buys.push(await this.quoteLeg(this.deployment.usdc, token, allocation, slippageBps));
+    }
+
+    // Each leg loses the pool fee of every hop plus its price impact, measured on its USDC side
+    const legCost = (usdcAmount: bigint, { path, priceImpactBps }: ComponentQuote) =>
+      (usdcAmount * (BigInt(priceImpactBps) + POOL_FEE_BPS * BigInt(path.length - 1))) / BASIS_POINTS;
+    const estimatedCost =
+      sells.reduce((sum, s) => sum + legCost(s.expectedOut, s), 0n) +
+      buys.reduce((sum, b) => sum + legCost(b.amountIn, b), 0n);
+
+    return {
+      indexId,
+      slippageBps,
+      targetWeights,
+      weightsChanged: targetWeights.some((w, i) => w !== currentWeights[i]),
+      idleUsdc,
+      totalValue,
+      components,
+      sells,
+      buys,
+      estimatedCost,
+    };
+  }
+
+  /**
+   * Executes a rebalance plan through `BasketVault.rebalance` (vault owner only)
+   * @dev Every leg reverts the whole transaction if it falls short of the plan's minimum
+   */
+  async rebalance(plan: RebalancePlan, options: RebalanceOptions = {}): Promise<RebalanceResult> {
+    this.requireSigner();
+    const call = await this.rebalanceCall(plan, options);
+    const receipt = await this.sendCall(call);
+
+    const event = parseBasketRebalancedEvents(this.vault(call.to), receipt)[0];
+    if (!event) {
+      throw new Error(`HedgeraClient: no BasketRebalanced event in transaction ${receipt.hash}`);
+    }
+    return { receipt, event };
+  }
+
+  /**
+   * Reads what an index's live vault holds and what it is worth, for checking a migration
+   */
+  async snapshotVault(indexId: number): Promise<VaultSnapshot> {
+    const index = await this.getIndex(indexId);
+    const vault = this.vault(index.vault);
+    const components = [];
+    for (const { token } of index.components) {
+      components.push({ token, balance: await this.erc20(token).balanceOf(index.vault) });
+    }
+    return {
+      indexId,
+      vault: index.vault,
+      navPerShare: await vault.getNavPerShare(),
+      totalValueLocked: await vault.getTotalValueLocked(),
+      totalSupply: await this.indexToken(index.indexToken).totalSupply(),
+      usdcBalance: await this.usdc.balanceOf(index.vault),
+      collectedFees: await vault.collectedFees(),
+      platformFees: await vault.platformFees(),
+      components,
+    };
+  }
+
+  /**
+   * Checks that an index can move to a new vault deployed by `factory` and snapshots the vault it leaves
+   * @dev The vault enforces `minNavPerShare`, the snapshot's NAV less the tolerance, on-chain. Vaults
+   *      deployed before `migrate` existed cannot be migrated. A component the vault cannot price
+   *      stops the plan, since a value lost on it would go unnoticed
+   * @param factory Factory that deploys the new vault (default: the deployment's); it must be
+   *        authorized in the registry and should carry the fixed vault
+   */
+  async planMigration(
+    indexId: number,
+    factory: string = this.deployment.factory,
+    options: MigrationPlanOptions = {}
+  ): Promise<MigrationPlan> {
+    const toleranceBps = options.toleranceBps ?? DEFAULT_MIGRATION_TOLERANCE_BPS;
+    if (!Number.isInteger(toleranceBps) || toleranceBps < 0 || toleranceBps > MAX_MIGRATION_TOLERANCE_BPS) {
+      throw new Error(
+        `HedgeraClient: migration tolerance must be between 0 and ${MAX_MIGRATION_TOLERANCE_BPS} basis points, got ${toleranceBps}`
+      );
+    }
+
+    const index = await this.getIndex(indexId);
+    const vault = this.vault(index.vault);
+    let migratedTo: string;
+    try {
+      migratedTo = await vault.migratedTo();
+    } catch {
+      throw new ValidationError(`HedgeraClient: vault ${index.vault} of index ${indexId} predates migrate and cannot be migrated`);
+    }
+    if (migratedTo !== ZeroAddress) {
+      throw new ValidationError(`HedgeraClient: vault ${index.vault} of index ${indexId} already migrated to ${migratedTo}`);
+    }
+    if (!(await this.registry.authorizedFactories(factory))) {
+      throw new ValidationError(`HedgeraClient: factory ${factory} is not authorized in the registry`);
+    }
+
+    const [, priced] = await vault.getComponentValues();
+    const unpriced = index.components.filter((_, i) => !priced[i]);
+    if (unpriced.length > 0) {
+      const tokens = unpriced.map((c) => c.token).join(", ");
+      throw new ValidationError(`HedgeraClient: cannot price ${tokens} in index ${indexId}, migration could lose value unnoticed`);
+    }
+
+    const before = await this.snapshotVault(indexId);
+    return {
+      indexId,
+      vault: index.vault,
+      factory,
+      owner: await vault.owner(),
+      before,
+      toleranceBps,
+      minNavPerShare: applySlippage(before.navPerShare, toleranceBps),
+    };
+  }
+
+  /**
+   * Executes a migration plan through `BasketVault.migrate` (vault owner only), then checks the new
+   * vault against the plan's snapshot
+   * @dev The migration is one transaction: it reverts as a whole, leaving the old vault live, when any
+   *      step fails or the new NAV falls below the plan's floor. `issues` lists what the on-chain check
+   *      does not cover (supply, balances, fees and TVL); an empty list means nothing was lost
+   */
+  async migrateVault(plan: MigrationPlan): Promise<MigrationResult> {
+    this.requireSigner();
+    const receipt = await this.sendCall(migrationCall(plan));
+
+    const event = parseVaultMigratedEvents(this.vault(plan.vault), receipt)[0];
+    if (!event) {
+      throw new Error(`HedgeraClient: no VaultMigrated event in transaction ${receipt.hash}`);
+    }
+    const after = await this.snapshotVault(plan.indexId);
+    const issues = compareVaultSnapshots(plan.before, after, plan.toleranceBps);
+    if (after.vault.toLowerCase() !== event.newVault.toLowerCase()) {
+      issues.unshift(`registry points at ${after.vault}, not the new vault ${event.newVault}`);
+    }
+    return { receipt, event, after, issues };
+  }
+
+  /**
+   * Reads the unclaimed fees of every vault and of the factory
+   * @dev Vault fees are split between the vault owner and the platform (the registry owner);
+   *      index creation fees sit in the factory and belong to its owner
+   */
+  async getFeeReport(): Promise<FeeReport> {
+    const vaults: VaultFees[] = [];
+    for (const index of await this.listIndexes()) {
+      const vault = this.vault(index.vault);
+      const [curatorFees, platformFees] = await vault.getFeeSplit();
+      vaults.push({
+        indexId: index.id,
+        symbol: index.symbol,
+        vault: index.vault,
+        curator: await vault.owner(),
+        curatorFees,
+        platformFees,
+      });
+    }
+
+    const factoryFees = await this.factory.getCollectedFees();
+    return {
+      platform: await this.registry.owner(),
+      factoryOwner: await this.factory.owner(),
+      factoryFees,
+      vaults,
+      totalCuratorFees: vaults.reduce((sum, v) => sum + v.curatorFees, 0n),
+      totalPlatformFees: vaults.reduce((sum, v) => sum + v.platformFees, factoryFees),
+    };
+  }
+
+  /**
+   * Lists every fee balance `account` can withdraw
+   * @dev Curator fees of the vaults the account owns go to `curatorTreasury`; platform fees
+   *      (when it owns the registry) and creation fees (when it owns the factory) go to
+   *      `platformTreasury`. Both treasuries default to the account
+   */
+  async planFeeSweep(account: string, options: FeeSweepOptions = {}): Promise<FeeClaim[]> {
+    const curatorTreasury = options.curatorTreasury ?? account;
+    const platformTreasury = options.platformTreasury ?? account;
+    const minAmount = options.minAmount ?? 1n;
+    const report = await this.getFeeReport();
+    const isAccount = (address: string) => address.toLowerCase() === account.toLowerCase();
+
+    const claims: FeeClaim[] = [];
+    for (const fees of report.vaults) {
+      if (isAccount(fees.curator) && fees.curatorFees >= minAmount) {
+        claims.push({ source: "curator", indexId: fees.indexId, from: fees.vault, to: curatorTreasury, amount: fees.curatorFees });
+      }
+      if (isAccount(report.platform) && fees.platformFees >= minAmount) {
+        claims.push({ source: "platform", indexId: fees.indexId, from: fees.vault, to: platformTreasury, amount: fees.platformFees });
+      }
+    }
+    if (isAccount(report.factoryOwner) && report.factoryFees >= minAmount) {
+      claims.push({ source: "factory", from: this.deployment.factory, to: platformTreasury, amount: report.factoryFees });
+    }
+    return claims;
+  }
+
+  /**
+   * Withdraws every fee balance the signer can claim (see `planFeeSweep`), one transaction per balance
+   * @dev Balances the signer cannot claim are left alone
+   */
+  async sweepFees(options: FeeSweepOptions = {}): Promise<FeeWithdrawal[]> {
+    const signer = this.requireSigner();
+    const claims = await this.planFeeSweep(await signer.getAddress(), options);
+
+    const withdrawals: FeeWithdrawal[] = [];
+    for (const claim of claims) {
+      const receipt = await this.sendCall(feeClaimCall(claim));
+      withdrawals.push({ ...claim, receipt });
+    }
+    return withdrawals;
+  }
+
+  /**
+   * Sends admin calls (from `planAdminChanges`) in order, one transaction each
+   * @dev Stops at the first failure. Calls already confirmed stay applied, so planning again
+   *      lists only what is left
+   * @param onConfirmed Called after each confirmed call, e.g. for progress output
+   */
+  async applyAdminCalls(
+    calls: AdminCall[],
+    onConfirmed?: (call: AdminCall, receipt: TransactionReceipt) => void
+  ): Promise<TransactionReceipt[]> {
+    this.requireSigner();
+
+    const receipts: TransactionReceipt[] = [];
+    for (const call of calls) {
+      const receipt = await this.sendCall(call);
+      receipts.push(receipt);
+      onConfirmed?.(call, receipt);
+    }
+    return receipts;
+  }
+
+  /**
+   * Builds the calls `mint` sends for `account`: a USDC approval when the allowance is short, then the mint
+   */
+  async mintCalls(account: string, indexId: number, usdcAmount: bigint, options: MintOptions = {}): Promise<ContractCall[]> {
+    const index = await this.getIndex(indexId);
+    const calls = await this.approvalCalls(account, this.deployment.usdc, index.vault, usdcAmount);
+
+    const minShares = options.minShares ?? 0n;
+    const deadline = options.deadline ?? defaultDeadline();
+    calls.push({
+      contract: "BasketVault",
+      to: index.vault,
+      method: options.minTokenAmounts ? "mintWithMinimums" : "mint",
+      args: options.minTokenAmounts
+        ? [usdcAmount, minShares, options.minTokenAmounts, deadline]
+        : [usdcAmount, minShares, deadline],
+      description: `Mint ${index.symbol} with ${formatUnits(usdcAmount, 6)} USDC`,
+    });
+    return calls;
+  }
+
+  /**
+   * Builds the call `redeem` sends
+   */
+  async redeemCall(indexId: number, shares: bigint, options: RedeemOptions = {}): Promise<ContractCall> {
+    const index = await this.getIndex(indexId);
+    const minAmount = options.minAmount ?? 0n;
+    const deadline = options.deadline ?? defaultDeadline();
+    return {
+      contract: "BasketVault",
+      to: index.vault,
+      method: options.minUsdcAmounts ? "redeemWithMinimums" : "redeem",
+      args: options.minUsdcAmounts
+        ? [shares, minAmount, options.minUsdcAmounts, deadline]
+        : [shares, minAmount, deadline],
+      description: `Redeem ${formatUnits(shares, 18)} ${index.symbol} for USDC`,
+    };
+  }
+
+  /**
+   * Builds the call `redeemInKind` sends
+   */
+  async redeemInKindCall(indexId: number, shares: bigint, options: RedeemInKindOptions = {}): Promise<ContractCall> {
+    const index = await this.getIndex(indexId);
+    return {
+      contract: "BasketVault",
+      to: index.vault,
+      method: "redeemInKind",
+      args: [shares, options.deadline ?? defaultDeadline()],
+      description: `Redeem ${formatUnits(shares, 18)} ${index.symbol} for the basket tokens`,
+    };
+  }
+
+  /**
+   * Builds the call `rebalance` sends
+   */
+  async rebalanceCall(plan: RebalancePlan, options: RebalanceOptions = {}): Promise<ContractCall> {
+    const index = await this.getIndex(plan.indexId);
+    return {
+      contract: "BasketVault",
+      to: index.vault,
+      method: "rebalance",
+      args: [
+        plan.weightsChanged ? plan.targetWeights : [],
+        plan.sells.map((s) => s.amountIn),
+        plan.sells.map((s) => s.minOut),
+        plan.buys.map((b) => b.amountIn),
+        plan.buys.map((b) => b.minOut),
+        options.deadline ?? defaultDeadline(),
+      ],
+      description: `Rebalance ${index.symbol}${plan.weightsChanged ? ` to weights ${plan.targetWeights.join(", ")}` : ""}`,
+    };
+  }
+
+  /**
+   * Sends one prepared call through the transaction pipeline and waits for it
+   * @throws TransactionError with the decoded revert reason when the call reverts
+   */
+  private async sendCall(call: ContractCall): Promise<TransactionReceipt> {
+    const data = callInterface(call.contract).encodeFunctionData(call.method, call.args);
+    return sendTransaction(this.requireSigner(), { to: call.to, data }, {
+      settings: this.txOverrides,
+      action: `${call.contract}.${call.method}`,
+    });
+  }
+
+  /**
+   * Lists the approval `account` needs before `spender` can take `amount` of `token` (none when the allowance suffices)
+   */
+  private async approvalCalls(account: string, token: string, spender: string, amount: bigint): Promise<ContractCall[]> {
+    const allowance = await this.erc20(token).allowance(account, spender);
+    if (allowance >= amount) {
+      return [];
+    }
+    const isUsdc = token.toLowerCase() === this.deployment.usdc.toLowerCase();
+    return [
+      {
+        contract: "ERC20",
+        to: token,
+        method: "approve",
+        args: [spender, amount],
+        description: `Approve ${spender} for ${isUsdc ? `${formatUnits(amount, 6)} USDC` : `${amount} of ${token}`}`,
+      },
+    ];
+  }
+
+  /**
+   * Fails unless `slippageBps` is within the vault's MAX_SLIPPAGE
+   */
+  private async checkSlippage(vault: string, slippageBps: number): Promise<void> {
+    const max = await this.vault(vault).MAX_SLIPPAGE();
+    if (!Number.isInteger(slippageBps) || slippageBps < 0 || BigInt(slippageBps) > max) {
+      throw new ValidationError(`HedgeraClient: slippage must be between 0 and ${max} basis points, got ${slippageBps}`);
+    }
+  }
+
+  /**
+   * Quotes a swap along `path` on the DEX the Router trades through
+   * @dev Asks the DEX directly: `Router.getAmountsOut` answers 1:1 when the DEX cannot quote, which
+   *      a genuine 1:1 quote (e.g. between two USDC-pegged tokens) cannot be told apart from
+   * @return amountOut Output of the last hop, or null when the DEX has no quote for the path
+   */
+  async quoteSwap(amountIn: bigint, path: string[]): Promise<bigint | null> {
+    const dex = ISaucerSwapRouter__factory.connect(await this.router.getSaucerSwapRouter(), this.runner);
+    try {
+      const amounts = await dex.getAmountsOut(amountIn, path);
+      return amounts[amounts.length - 1];
+    } catch (error) {
+      if (isError(error, "CALL_EXCEPTION") || decodeRevert(error) !== null) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Quotes one swap leg along the Router's path for the component and measures its price impact
+   * @dev The path is `Router.getTokenPath`, reversed for sales, so the quote follows the swap the
+   *      vault will make. Impact compares the quote with a 1/100 probe of the same path, scaled up,
+   *      so it is approximate for small outputs. A path the DEX cannot quote is reported as an error
+   */
+  private async quoteLeg(tokenIn: string, tokenOut: string, amountIn: bigint, slippageBps: number): Promise<ComponentQuote> {
+    const selling = tokenOut.toLowerCase() === this.deployment.usdc.toLowerCase();
+    const token = selling ? tokenIn : tokenOut;
+    const path = [...(await this.router.getTokenPath(token))];
+    if (selling) {
+      path.reverse();
+    }
+    if (amountIn === 0n) {
+      return { token, path, amountIn, expectedOut: 0n, minOut: 0n, priceImpactBps: 0 };
+    }
+
+    const probe = amountIn / 100n;
+    const [expectedOut, probeOut] = await Promise.all([
+      this.quoteSwap(amountIn, path),
+      probe > 0n ? this.quoteSwap(probe, path) : null,
+    ]);
+    if (expectedOut === null || expectedOut === 0n) {
+      throw new ValidationError(`HedgeraClient: no USDC ${path.length > 2 ? "route" : "pool"} quote for ${token}`);
+    }
+
+    let priceImpactBps = 0;
+    if (probe > 0n) {
+      const marginalOut = ((probeOut ?? 0n) * amountIn) / probe;
+      if (marginalOut > expectedOut) {
+        priceImpactBps = Number(((marginalOut - expectedOut) * BASIS_POINTS) / marginalOut);
+      }
+    }
+
+    return { token, path, amountIn, expectedOut, minOut: applySlippage(expectedOut, slippageBps), priceImpactBps };
+  }
+
+  private requireSigner(): Signer {
+    const runner = this.runner as Partial<Signer>;
+    if (typeof runner.getAddress !== "function" || typeof runner.sendTransaction !== "function") {
+      throw new Error("HedgeraClient: a Signer is required for this operation");
+    }
+    return this.runner as Signer;
+  }
+}
+
+/**
+ * Builds the withdrawal of one fee claim (from `HedgeraClient.planFeeSweep`)
+ */
+export function feeClaimCall(claim: FeeClaim): ContractCall {
+  const amount = `${formatUnits(claim.amount, 6)} USDC`;
+  const source = claim.indexId === undefined ? "factory" : `index ${claim.indexId}`;
+  const description = `Withdraw ${amount} ${claim.source} fees from ${source} to ${claim.to}`;
+  if (claim.source === "factory") {
+    return { contract: "IndexFactory", to: claim.from, method: "withdrawFees", args: [claim.to, claim.amount], description };
+  }
+  const method = claim.source === "curator" ? "withdrawFees" : "withdrawPlatformFees";
+  return { contract: "BasketVault", to: claim.from, method, args: [claim.to, claim.amount], description };
+}
+
+/**
+ * Builds the call `migrateVault` sends
+ */
+export function migrationCall(plan: MigrationPlan): ContractCall {
+  return {
+    contract: "BasketVault",
+    to: plan.vault,
+    method: "migrate",
+    args: [plan.factory, plan.minNavPerShare],
+    description: `Migrate index ${plan.indexId} from vault ${plan.vault} to a new vault from factory ${plan.factory}`,
+  };
+}
+
+/**
+ * Lists how a vault snapshot taken after a migration differs from the one taken before
+ * @dev Supply, component balances, USDC and fees must carry over exactly; NAV and TVL may drop by
+ *      `toleranceBps`, since the new vault may price differently
+ * @return issues Human-readable differences, empty when the migration preserved everything
+ */
+export function compareVaultSnapshots(before: VaultSnapshot, after: VaultSnapshot, toleranceBps: number): string[] {
+  const issues: string[] = [];
+  if (after.vault.toLowerCase() === before.vault.toLowerCase()) {
+    issues.push(`index ${before.indexId} still points at vault ${before.vault}`);
+  }
+  const exact: [string, bigint, bigint][] = [
+    ["total supply", before.totalSupply, after.totalSupply],
+    ["USDC balance", before.usdcBalance, after.usdcBalance],
+    ["collected fees", before.collectedFees, after.collectedFees],
+    ["platform fees", before.platformFees, after.platformFees],
+  ];
+  for (const { token, balance } of before.components) {
+    const moved = after.components.find((c) => c.token.toLowerCase() === token.toLowerCase())?.balance ?? 0n;
+    exact.push([`${token} balance`, balance, moved]);
+  }
+  for (const [label, was, now] of exact) {
+    if (now !== was) {
+      issues.push(`${label} changed from ${was} to ${now}`);
+    }
+  }
+  const floored: [string, bigint, bigint][] = [
+    ["NAV per share", before.navPerShare, after.navPerShare],
+    ["total value locked", before.totalValueLocked, after.totalValueLocked],
+  ];
+  for (const [label, was, now] of floored) {
+    if (now < applySlippage(was, toleranceBps)) {
+      issues.push(`${label} fell from ${was} to ${now}, more than ${toleranceBps} basis points`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Reduces an expected amount by a slippage tolerance in basis points
+ */
+export function applySlippage(amount: bigint, slippageBps: number): bigint {
+  return (amount * (BASIS_POINTS - BigInt(slippageBps))) / BASIS_POINTS;
+}
+
+/**
+ * Default deadline for mint/redeem calls
+ */
+export function defaultDeadline(seconds: number = DEFAULT_DEADLINE_SECONDS): number {
+  return Math.floor(Date.now() / 1000) + seconds;
+}
+
+/**
+ * Parses all `IndexCreated` events emitted by `factory` in a receipt
+ */
+export function parseIndexCreatedEvents(
+  factory: IndexFactory,
+  receipt: TransactionReceipt
+): IndexCreatedEvent[] {
+  const events: IndexCreatedEvent[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== String(factory.target).toLowerCase()) continue;
+    const parsed = factory.interface.parseLog(log);
+    if (parsed?.name !== "IndexCreated") continue;
+    events.push({
+      indexId: Number(parsed.args.indexId),
+      name: parsed.args.name,
+      symbol: parsed.args.symbol,
+      curator: parsed.args.curator,
+      vault: parsed.args.vault,
+      indexToken: parsed.args.indexToken,
+      tokens: [...parsed.args.tokens],
+      weights: [...parsed.args.weights],
+      creator: parsed.args.creator,
+    });
+  }
+  return events;
+}
+
+/**
+ * Parses all `Minted` events emitted by `vault` in a receipt
+ */
+export function parseMintedEvents(vault: BasketVault, receipt: TransactionReceipt): MintedEvent[] {
+  const events: MintedEvent[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== String(vault.target).toLowerCase()) continue;
+    const parsed = vault.interface.parseLog(log);
+    if (parsed?.name !== "Minted") continue;
+    events.push({
+      user: parsed.args.user,
+      indexId: Number(parsed.args.indexId),
+      usdcIn: parsed.args.usdcIn,
+      sharesOut: parsed.args.sharesOut,
+      navPerShare: parsed.args.navPerShare,
+    });
+  }
+  return events;
+}
+
+/**
+ * Parses all `Redeemed` events emitted by `vault` in a receipt
+ */
+export function parseRedeemedEvents(vault: BasketVault, receipt: TransactionReceipt): RedeemedEvent[] {
+  const events: RedeemedEvent[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== String(vault.target).toLowerCase()) continue;
+    const parsed = vault.interface.parseLog(log);
+    if (parsed?.name !== "Redeemed") continue;
+    events.push({
+      user: parsed.args.user,
+      indexId: Number(parsed.args.indexId),
+      sharesIn: parsed.args.sharesIn,
+      usdcOut: parsed.args.usdcOut,
+      navPerShare: parsed.args.navPerShare,
+    });
+  }
+  return events;
+}
+
+/**
+ * Parses all `RedeemedInKind` events emitted by `vault` in a receipt
+ */
+export function parseRedeemedInKindEvents(vault: BasketVault, receipt: TransactionReceipt): RedeemedInKindEvent[] {
+  const events: RedeemedInKindEvent[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== String(vault.target).toLowerCase()) continue;
+    const parsed = vault.interface.parseLog(log);
+    if (parsed?.name !== "RedeemedInKind") continue;
+    events.push({
+      user: parsed.args.user,
+      indexId: Number(parsed.args.indexId),
+      sharesIn: parsed.args.sharesIn,
+      tokens: [...parsed.args.tokens],
+      amounts: [...parsed.args.amounts],
+      fees: [...parsed.args.fees],
+      usdcOut: parsed.args.usdcOut,
+    });
+  }
+  return events;
+}
+
+/**
+ * Parses all `BasketRebalanced` events emitted by `vault` in a receipt
+ */
+export function parseBasketRebalancedEvents(vault: BasketVault, receipt: TransactionReceipt): BasketRebalancedEvent[] {
+  const events: BasketRebalancedEvent[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== String(vault.target).toLowerCase()) continue;
+    const parsed = vault.interface.parseLog(log);
+    if (parsed?.name !== "BasketRebalanced") continue;
+    events.push({
+      indexId: Number(parsed.args.indexId),
+      weights: [...parsed.args.newWeights],
+    });
+  }
+  return events;
+}
+
+/**
+ * Parses all `VaultMigrated` events emitted by `vault` (the old vault) in a receipt
+ */
+export function parseVaultMigratedEvents(vault: BasketVault, receipt: TransactionReceipt): VaultMigratedEvent[] {
+  const events: VaultMigratedEvent[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== String(vault.target).toLowerCase()) continue;
+    const parsed = vault.interface.parseLog(log);
+    if (parsed?.name !== "VaultMigrated") continue;
+    events.push({
+      indexId: Number(parsed.args.indexId),
+      newVault: parsed.args.newVault,
+      totalValueLocked: parsed.args.totalValueLocked,
+      navPerShare: parsed.args.navPerShare,
+    });
+  }
+  return events;
+}
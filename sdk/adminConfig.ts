@@ -0,0 +1,416 @@
+import { readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { formatUnits, getAddress, isAddress, parseUnits } from "ethers";
+import { load as loadYaml } from "js-yaml";
+import type { HedgeraClient } from "./HedgeraClient";
+import { entityIdToAddress, isEntityId } from "./hedera";
+import { MAX_PATH_LENGTH, samePath } from "./routing";
+import { ContractCall, IndexStatus } from "./types";
+
+/** Contracts an admin call can target */
+export type AdminContract = "IndexFactory" | "IndexRegistry" | "Router";
+
+/**
+ * Configured settings of one index
+ */
+export interface IndexAdminSettings {
+  status?: IndexStatus;
+  platformShare?: number;   // basis points
+}
+
+/**
+ * Intended protocol settings, read from a JSON or YAML file
+ * @dev Only the settings present are managed; everything left out keeps its live value.
+ *      Curators and factories are listed as `address: true|false` because the contracts
+ *      cannot enumerate them
+ */
+export interface AdminConfig {
+  factory?: {
+    router?: string;
+    indexCreationFee?: bigint;                  // USDC (6 decimals); written in the file as a decimal amount
+    requireCuratorAuthorization?: boolean;
+    curators?: Record<string, boolean>;         // address -> authorized
+  };
+  registry?: {
+    factories?: Record<string, boolean>;        // address -> authorized
+    indexes?: Record<string, IndexAdminSettings>; // index ID -> settings
+  };
+  router?: {
+    saucerSwapRouter?: string;
+    paths?: Record<string, string[]>;           // token -> USDC -> token swap path ([] for the direct pool)
+  };
+}
+
+/**
+ * One owner-only call that moves a live setting to its configured value
+ */
+export interface AdminCall extends ContractCall {
+  contract: AdminContract;
+  args: (string | bigint | boolean | string[])[];
+  setting: string;          // e.g. "factory.indexCreationFee"
+  current: string;          // Live value, formatted for display
+  desired: string;          // Configured value, formatted for display
+}
+
+/**
+ * Calls that bring the chain in line with an `AdminConfig` (from `planAdminChanges`)
+ */
+export interface AdminPlan {
+  owners: Record<AdminContract, string>;
+  calls: AdminCall[];       // In execution order
+}
+
+/**
+ * Parses an admin configuration from JSON or YAML source
+ * @param origin File name used in error messages
+ */
+export function parseAdminConfig(source: string, format: "json" | "yaml", origin = "<input>"): AdminConfig {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(source) : loadYaml(source);
+  } catch (error) {
+    throw new Error(`${origin}: invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+  const root = section(raw ?? {}, origin);
+  checkKeys(root, ["factory", "registry", "router"], origin);
+  const config: AdminConfig = {};
+
+  if (root.factory !== undefined) {
+    const path = `${origin}.factory`;
+    const factory = section(root.factory, path);
+    checkKeys(factory, ["router", "indexCreationFee", "requireCuratorAuthorization", "curators"], path);
+    config.factory = {
+      router: optional(factory.router, (v) => address(v, `${path}.router`)),
+      indexCreationFee: optional(factory.indexCreationFee, (v) => usdcAmount(v, `${path}.indexCreationFee`)),
+      requireCuratorAuthorization: optional(factory.requireCuratorAuthorization, (v) =>
+        boolean(v, `${path}.requireCuratorAuthorization`)
+      ),
+      curators: optional(factory.curators, (v) => authorizations(v, `${path}.curators`)),
+    };
+  }
+
+  if (root.registry !== undefined) {
+    const path = `${origin}.registry`;
+    const registry = section(root.registry, path);
+    checkKeys(registry, ["factories", "indexes"], path);
+    config.registry = {
+      factories: optional(registry.factories, (v) => authorizations(v, `${path}.factories`)),
+      indexes: optional(registry.indexes, (v) => indexSettings(v, `${path}.indexes`)),
+    };
+  }
+
+  if (root.router !== undefined) {
+    const path = `${origin}.router`;
+    const router = section(root.router, path);
+    checkKeys(router, ["saucerSwapRouter", "paths"], path);
+    config.router = {
+      saucerSwapRouter: optional(router.saucerSwapRouter, (v) => address(v, `${path}.saucerSwapRouter`)),
+      paths: optional(router.paths, (v) => tokenPaths(v, `${path}.paths`)),
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Loads an admin configuration from a `.json`, `.yaml` or `.yml` file
+ */
+export function loadAdminConfig(file: string): AdminConfig {
+  const extension = extname(file).toLowerCase();
+  if (![".json", ".yaml", ".yml"].includes(extension)) {
+    throw new Error(`Unsupported admin config file ${file} (expected .json, .yaml or .yml)`);
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(resolve(file), "utf8");
+  } catch {
+    throw new Error(`Admin config file not found at ${file}`);
+  }
+  return parseAdminConfig(source, extension === ".json" ? "json" : "yaml", file);
+}
+
+/**
+ * Reads live settings and lists the calls needed to reach the configured ones
+ * @dev Calls are ordered so each one can succeed: the Router (SaucerSwap router, then token
+ *      paths) and the factory's router first,
+ *      curators before the authorization requirement is switched on (and after it is switched off),
+ *      then registry factories and per-index settings
+ */
+export async function planAdminChanges(client: HedgeraClient, config: AdminConfig): Promise<AdminPlan> {
+  const { factory, registry, router } = client;
+  const targets: Record<AdminContract, string> = {
+    IndexFactory: client.deployment.factory,
+    IndexRegistry: client.deployment.registry,
+    Router: client.deployment.router,
+  };
+  const calls: AdminCall[] = [];
+  const push = (call: PlannedCall) =>
+    calls.push({
+      ...call,
+      to: targets[call.contract],
+      description: `Change ${call.setting} from ${call.current} to ${call.desired}`,
+    });
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  const desiredDex = config.router?.saucerSwapRouter;
+  if (desiredDex !== undefined) {
+    const current = await router.getSaucerSwapRouter();
+    if (!same(current, desiredDex)) {
+      push({
+        contract: "Router",
+        method: "updateSaucerSwapRouter",
+        args: [desiredDex],
+        setting: "router.saucerSwapRouter",
+        current,
+        desired: desiredDex,
+      });
+    }
+  }
+
+  const usdc = client.deployment.usdc;
+  for (const [token, path] of Object.entries(config.router?.paths ?? {})) {
+    const setting = `router.paths.${token}`;
+    const desired = path.length > 0 ? path : [usdc, token];
+    if (!same(desired[0], usdc) || !same(desired[desired.length - 1], token) || desired.length > MAX_PATH_LENGTH) {
+      throw new Error(
+        `Admin config: ${setting} must start at USDC (${usdc}), end at the token and have at most ${MAX_PATH_LENGTH} entries`
+      );
+    }
+    const current = await router.getTokenPath(token);
+    if (!samePath(current, desired)) {
+      push({
+        contract: "Router",
+        method: "setTokenPath",
+        // The direct path is the Router's default, so it is set by clearing the configured one
+        args: [token, desired.length === 2 ? [] : desired],
+        setting,
+        current: `[${current.join(", ")}]`,
+        desired: `[${desired.join(", ")}]`,
+      });
+    }
+  }
+
+  const factoryConfig = config.factory ?? {};
+  if (factoryConfig.router !== undefined) {
+    const current = await factory.router();
+    if (!same(current, factoryConfig.router)) {
+      push({
+        contract: "IndexFactory",
+        method: "setRouter",
+        args: [factoryConfig.router],
+        setting: "factory.router",
+        current,
+        desired: factoryConfig.router,
+      });
+    }
+  }
+
+  if (factoryConfig.indexCreationFee !== undefined) {
+    const current = await factory.indexCreationFee();
+    if (current !== factoryConfig.indexCreationFee) {
+      push({
+        contract: "IndexFactory",
+        method: "updateIndexCreationFee",
+        args: [factoryConfig.indexCreationFee],
+        setting: "factory.indexCreationFee",
+        current: `${formatUnits(current, 6)} USDC`,
+        desired: `${formatUnits(factoryConfig.indexCreationFee, 6)} USDC`,
+      });
+    }
+  }
+
+  const curatorCalls: PlannedCall[] = [];
+  for (const [curator, authorized] of Object.entries(factoryConfig.curators ?? {})) {
+    const current = await factory.authorizedCurators(curator);
+    if (current !== authorized) {
+      curatorCalls.push({
+        contract: "IndexFactory",
+        method: authorized ? "addAuthorizedCurator" : "removeAuthorizedCurator",
+        args: [curator],
+        setting: `factory.curators.${curator}`,
+        current: String(current),
+        desired: String(authorized),
+      });
+    }
+  }
+
+  const requirement = factoryConfig.requireCuratorAuthorization;
+  const currentRequirement = await factory.requireCuratorAuthorization();
+  if (requirement !== undefined && requirement !== currentRequirement) {
+    const call: PlannedCall = {
+      contract: "IndexFactory",
+      method: "setRequireCuratorAuthorization",
+      args: [requirement],
+      setting: "factory.requireCuratorAuthorization",
+      current: String(currentRequirement),
+      desired: String(requirement),
+    };
+    // Never leave a window where the requirement is on but the curators are not yet authorized
+    if (requirement) {
+      curatorCalls.forEach(push);
+      push(call);
+    } else {
+      push(call);
+      curatorCalls.forEach(push);
+    }
+  } else {
+    curatorCalls.forEach(push);
+  }
+
+  for (const [address, authorized] of Object.entries(config.registry?.factories ?? {})) {
+    const current = await registry.authorizedFactories(address);
+    if (current !== authorized) {
+      push({
+        contract: "IndexRegistry",
+        method: authorized ? "addAuthorizedFactory" : "removeAuthorizedFactory",
+        args: [address],
+        setting: `registry.factories.${address}`,
+        current: String(current),
+        desired: String(authorized),
+      });
+    }
+  }
+
+  const indexes = config.registry?.indexes ?? {};
+  const count = Object.keys(indexes).length > 0 ? await client.getIndexCount() : 0;
+  for (const [id, settings] of Object.entries(indexes)) {
+    const indexId = Number(id);
+    if (indexId >= count) {
+      throw new Error(`Admin config: index ${indexId} does not exist (the registry has ${count})`);
+    }
+    const index = await client.getIndex(indexId);
+
+    if (settings.status !== undefined && settings.status !== index.status) {
+      push({
+        contract: "IndexRegistry",
+        method: "updateIndexStatus",
+        args: [BigInt(indexId), BigInt(settings.status)],
+        setting: `registry.indexes.${indexId}.status`,
+        current: IndexStatus[index.status],
+        desired: IndexStatus[settings.status],
+      });
+    }
+    if (settings.platformShare !== undefined && BigInt(settings.platformShare) !== index.fees.platformShare) {
+      push({
+        contract: "IndexRegistry",
+        method: "updatePlatformShare",
+        args: [BigInt(indexId), BigInt(settings.platformShare)],
+        setting: `registry.indexes.${indexId}.platformShare`,
+        current: `${index.fees.platformShare} bps`,
+        desired: `${settings.platformShare} bps`,
+      });
+    }
+  }
+
+  return {
+    owners: {
+      IndexFactory: await factory.owner(),
+      IndexRegistry: await registry.owner(),
+      Router: await router.owner(),
+    },
+    calls,
+  };
+}
+
+type PlannedCall = Omit<AdminCall, "to" | "description">;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function section(value: unknown, path: string): Record<string, unknown> {
+  if (!isObject(value)) {
+    throw new Error(`${path}: expected an object`);
+  }
+  return value;
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`${path}.${key}: unknown setting (expected ${allowed.join(", ")})`);
+    }
+  }
+}
+
+function optional<T>(value: unknown, parse: (value: unknown) => T): T | undefined {
+  return value === undefined || value === null ? undefined : parse(value);
+}
+
+function address(value: unknown, path: string): string {
+  if (typeof value === "string" && isEntityId(value)) {
+    return entityIdToAddress(value);
+  }
+  if (typeof value !== "string" || !isAddress(value)) {
+    throw new Error(`${path}: expected an address or a Hedera ID`);
+  }
+  return getAddress(value);
+}
+
+function tokenPaths(value: unknown, path: string): Record<string, string[]> {
+  const paths: Record<string, string[]> = {};
+  for (const [token, hops] of Object.entries(section(value, path))) {
+    if (!Array.isArray(hops)) {
+      throw new Error(`${path}.${token}: expected a list of addresses or Hedera IDs`);
+    }
+    paths[address(token, `${path}.${token}`)] = hops.map((hop, i) => address(hop, `${path}.${token}[${i}]`));
+  }
+  return paths;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new Error(`${path}: expected true or false`);
+  }
+  return value;
+}
+
+function usdcAmount(value: unknown, path: string): bigint {
+  try {
+    if (typeof value !== "string" && typeof value !== "number") throw new Error();
+    const amount = parseUnits(String(value), 6);
+    if (amount < 0n) throw new Error();
+    return amount;
+  } catch {
+    throw new Error(`${path}: expected a USDC amount such as 1 or "0.5"`);
+  }
+}
+
+function authorizations(value: unknown, path: string): Record<string, boolean> {
+  const entries = section(value, path);
+  const result: Record<string, boolean> = {};
+  for (const [key, authorized] of Object.entries(entries)) {
+    result[address(key, `${path}.${key}`)] = boolean(authorized, `${path}.${key}`);
+  }
+  return result;
+}
+
+function indexSettings(value: unknown, path: string): Record<string, IndexAdminSettings> {
+  const entries = section(value, path);
+  const result: Record<string, IndexAdminSettings> = {};
+  for (const [id, raw] of Object.entries(entries)) {
+    const indexPath = `${path}.${id}`;
+    if (!/^\d+$/.test(id)) {
+      throw new Error(`${indexPath}: expected an index ID`);
+    }
+    const settings = section(raw, indexPath);
+    checkKeys(settings, ["status", "platformShare"], indexPath);
+    result[id] = {
+      status: optional(settings.status, (v) => {
+        const status = typeof v === "string" ? IndexStatus[v as keyof typeof IndexStatus] : undefined;
+        if (typeof status !== "number") {
+          throw new Error(`${indexPath}.status: expected Active, Inactive or Deprecated`);
+        }
+        return status;
+      }),
+      platformShare: optional(settings.platformShare, (v) => {
+        if (typeof v !== "number" || !Number.isInteger(v) || v < 0 || v > 10000) {
+          throw new Error(`${indexPath}.platformShare: expected basis points between 0 and 10000`);
+        }
+        return v;
+      }),
+    };
+  }
+  return result;
+}
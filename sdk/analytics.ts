@@ -0,0 +1,269 @@
+import { ZeroAddress, formatUnits } from "ethers";
+import type { EventStore, StoredEvent } from "./eventStore";
+import type { IndexCreatedEvent } from "./types";
+
+/**
+ * Length of the periods returns are measured over
+ */
+export type ReportPeriod = "day" | "week" | "month";
+
+const PERIODS_PER_YEAR: Record<ReportPeriod, number> = { day: 365, week: 52, month: 12 };
+
+/**
+ * NAV and TVL of an index right after a mint or redeem
+ */
+export interface NavPoint {
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+  action: "mint" | "redeem" | "redeemInKind";
+  navPerShare: bigint | null;   // USDC (6 decimals) per whole share; null once every share is redeemed
+  tvl: bigint;                  // USDC (6 decimals), from `IndexMetricsUpdated`
+  supply: bigint;               // Shares outstanding (18 decimals), from mint/burn `Transfer`s
+}
+
+/**
+ * Return between the close of one period and the next
+ */
+export interface PeriodReturn {
+  start: string;                // ISO date the period starts on (UTC)
+  navPerShare: bigint;          // Last NAV in the period
+  return: number;               // Fraction, e.g. 0.012 = +1.2%
+}
+
+/**
+ * Performance of one index over its whole history (from `analyzeIndex`)
+ */
+export interface IndexPerformance {
+  indexId: number;
+  name: string;
+  symbol: string;
+  period: ReportPeriod;
+  firstTimestamp: number | null;
+  lastTimestamp: number | null;
+  startNav: bigint | null;
+  endNav: bigint | null;
+  totalReturn: number | null;
+  periodReturns: PeriodReturn[];
+  volatility: number | null;            // Standard deviation of the period returns
+  annualizedVolatility: number | null;
+  maxDrawdown: number;                  // Largest peak-to-trough NAV decline, as a positive fraction
+  tvl: bigint;                          // Latest TVL
+  mintFees: bigint;                     // USDC
+  redeemFees: bigint;                   // USDC (in-kind redeem fees are paid in basket tokens and not included)
+  inflows: bigint;                      // USDC deposited by mints
+  outflows: bigint;                     // USDC paid out by redeems
+  netFlows: bigint;                     // inflows - outflows
+  sharesRedeemedInKind: bigint;
+  history: NavPoint[];
+}
+
+/** Report fields holding share amounts (18 decimals); every other amount is USDC (6 decimals) */
+const SHARE_FIELDS = ["supply", "sharesRedeemedInKind"];
+
+/** Events the report reads for an index */
+const REPORT_EVENTS = ["Minted", "Redeemed", "RedeemedInKind", "FeesCollected", "IndexMetricsUpdated", "Transfer"];
+
+/**
+ * Reconstructs the NAV, TVL and share supply of an index after every mint and redeem
+ * @param events Stored events of the index in chain order
+ * @dev `Minted`/`Redeemed` carry the NAV; in-kind redeems derive it from TVL and supply
+ */
+export function buildNavHistory(events: StoredEvent[]): NavPoint[] {
+  const points: NavPoint[] = [];
+  let tvl = 0n;
+  let supply = 0n;
+
+  for (const event of events) {
+    const { args } = event;
+    switch (event.name) {
+      case "Transfer":
+        if (args.from === ZeroAddress) supply += BigInt(args.value as string);
+        if (args.to === ZeroAddress) supply -= BigInt(args.value as string);
+        break;
+      case "IndexMetricsUpdated":
+        tvl = BigInt(args.tvl as string);
+        break;
+      case "Minted":
+      case "Redeemed":
+      case "RedeemedInKind": {
+        let navPerShare: bigint | null = null;
+        if (supply > 0n) {
+          navPerShare = event.name === "RedeemedInKind" ? (tvl * 10n ** 18n) / supply : BigInt(args.navPerShare as string);
+        }
+        points.push({
+          blockNumber: event.blockNumber,
+          timestamp: event.timestamp,
+          txHash: event.txHash,
+          action: event.name === "Minted" ? "mint" : event.name === "Redeemed" ? "redeem" : "redeemInKind",
+          navPerShare,
+          tvl,
+          supply,
+        });
+        break;
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Computes returns, volatility, drawdown, fees and flows of an index from its stored events
+ * @dev A zero NAV, e.g. after a first mint whose swaps all failed or with only unpriced components,
+ *      is never a return base: the return from it is left out, and `totalReturn` is null when the
+ *      history starts at zero
+ */
+export function analyzeIndex(index: IndexCreatedEvent, events: StoredEvent[], period: ReportPeriod = "day"): IndexPerformance {
+  const history = buildNavHistory(events);
+  const priced = history.filter((point): point is NavPoint & { navPerShare: bigint } => point.navPerShare !== null);
+
+  let mintFees = 0n;
+  let redeemFees = 0n;
+  let inflows = 0n;
+  let outflows = 0n;
+  let sharesRedeemedInKind = 0n;
+  for (const { name, args } of events) {
+    if (name === "FeesCollected") {
+      if (args.feeType === "0") mintFees += BigInt(args.amount as string);
+      else redeemFees += BigInt(args.amount as string);
+    } else if (name === "Minted") {
+      inflows += BigInt(args.usdcIn as string);
+    } else if (name === "Redeemed") {
+      outflows += BigInt(args.usdcOut as string);
+    } else if (name === "RedeemedInKind") {
+      outflows += BigInt(args.usdcOut as string);
+      sharesRedeemedInKind += BigInt(args.sharesIn as string);
+    }
+  }
+
+  const periodReturns: PeriodReturn[] = [];
+  let previous = priced[0]?.navPerShare;
+  for (const [start, close] of periodCloses(priced, period)) {
+    if (previous! > 0n) {
+      periodReturns.push({ start, navPerShare: close, return: ratio(close, previous!) - 1 });
+    }
+    previous = close;
+  }
+  const volatility = standardDeviation(periodReturns.map((r) => r.return));
+
+  let peak = 0n;
+  let maxDrawdown = 0;
+  for (const { navPerShare } of priced) {
+    if (navPerShare > peak) peak = navPerShare;
+    if (peak > 0n) maxDrawdown = Math.max(maxDrawdown, 1 - ratio(navPerShare, peak));
+  }
+
+  const startNav = priced[0]?.navPerShare ?? null;
+  const endNav = priced[priced.length - 1]?.navPerShare ?? null;
+  return {
+    indexId: index.indexId,
+    name: index.name,
+    symbol: index.symbol,
+    period,
+    firstTimestamp: history[0]?.timestamp ?? null,
+    lastTimestamp: history[history.length - 1]?.timestamp ?? null,
+    startNav,
+    endNav,
+    totalReturn: startNav !== null && startNav > 0n && endNav !== null ? ratio(endNav, startNav) - 1 : null,
+    periodReturns,
+    volatility,
+    annualizedVolatility: volatility === null ? null : volatility * Math.sqrt(PERIODS_PER_YEAR[period]),
+    maxDrawdown,
+    tvl: history[history.length - 1]?.tvl ?? 0n,
+    mintFees,
+    redeemFees,
+    inflows,
+    outflows,
+    netFlows: inflows - outflows,
+    sharesRedeemedInKind,
+    history,
+  };
+}
+
+/**
+ * Analyzes every index in an event database (or only `indexId`)
+ */
+export function analyzeIndexes(store: EventStore, period: ReportPeriod = "day", indexId?: number): IndexPerformance[] {
+  const indexes = store.getIndexes().filter((index) => indexId === undefined || index.indexId === indexId);
+  if (indexId !== undefined && indexes.length === 0) {
+    throw new Error(`Index ${indexId} not found in ${store.file}. Run \`hedgera sync-events\` first.`);
+  }
+  return indexes.map((index) => analyzeIndex(index, store.getEvents({ indexId: index.indexId, name: REPORT_EVENTS }), period));
+}
+
+/**
+ * Serializes reports to JSON, with USDC and share amounts as decimal strings
+ */
+export function performanceToJson(reports: IndexPerformance[]): string {
+  return JSON.stringify(
+    reports,
+    (key, value) => (typeof value === "bigint" ? formatUnits(value, SHARE_FIELDS.includes(key) ? 18 : 6) : value),
+    2
+  );
+}
+
+/**
+ * Serializes the NAV history of every report to CSV, one row per mint or redeem
+ */
+export function navHistoryToCsv(reports: IndexPerformance[]): string {
+  const rows = ["indexId,symbol,blockNumber,time,txHash,action,navPerShare,tvl,supply"];
+  for (const report of reports) {
+    for (const point of report.history) {
+      rows.push(
+        [
+          report.indexId,
+          report.symbol,
+          point.blockNumber,
+          new Date(point.timestamp * 1000).toISOString(),
+          point.txHash,
+          point.action,
+          point.navPerShare === null ? "" : formatUnits(point.navPerShare, 6),
+          formatUnits(point.tvl, 6),
+          formatUnits(point.supply, 18),
+        ].join(",")
+      );
+    }
+  }
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * Last NAV of every period that has one, in order, keyed by the period's UTC start date
+ */
+function periodCloses(points: { timestamp: number; navPerShare: bigint }[], period: ReportPeriod): Map<string, bigint> {
+  const closes = new Map<string, bigint>();
+  for (const { timestamp, navPerShare } of points) {
+    closes.set(periodStart(timestamp, period), navPerShare);
+  }
+  return closes;
+}
+
+function periodStart(timestamp: number, period: ReportPeriod): string {
+  const date = new Date(timestamp * 1000);
+  date.setUTCHours(0, 0, 0, 0);
+  if (period === "week") {
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7)); // Monday
+  } else if (period === "month") {
+    date.setUTCDate(1);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * a / b as a float, keeping 18 digits of precision from the bigint division
+ */
+function ratio(a: bigint, b: bigint): number {
+  return Number((a * 10n ** 18n) / b) / 1e18;
+}
+
+/**
+ * Sample standard deviation, or null with fewer than two values
+ */
+function standardDeviation(values: number[]): number | null {
+  if (values.length < 2) {
+    return null;
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  return Math.sqrt(variance);
+}
@@ -0,0 +1,408 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "http";
+import { AddressInfo } from "net";
+import { parseUnits } from "ethers";
+import { DEFAULT_SLIPPAGE_BPS, HedgeraClient, ValidationError, decodeComponent, decodeIndexInfo } from "./HedgeraClient";
+import { toEvmAddress } from "./hedera";
+import { describeError } from "./transactions";
+import { IndexInfo, IndexStatus, MintQuote, TokenMetadata } from "./types";
+
+/** How long reads are served from the cache when no TTL is given */
+export const DEFAULT_API_CACHE_TTL_MS = 5_000;
+
+/** Largest `limit` accepted by `GET /indexes` */
+export const MAX_API_PAGE_SIZE = 100;
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Options of `ApiServer`
+ */
+export interface ApiServerOptions {
+  cacheTtlMs?: number;            // How long a read is reused (default 5 seconds)
+  log?: (line: string) => void;   // Called with one line per request
+}
+
+/**
+ * An index as the API returns it: amounts as integer strings in base units, the status by name
+ */
+export type IndexJson = Omit<IndexInfo, "status"> & { status: string };
+
+/**
+ * `GET /indexes` response
+ */
+export interface IndexPage {
+  total: number;
+  offset: number;
+  limit: number;
+  indexes: IndexJson[];
+}
+
+/**
+ * `GET /indexes/:id/composition` response
+ */
+export interface CompositionJson {
+  indexId: number;
+  vault: string;
+  totalValueLocked: bigint;     // USDC (6 decimals), priced components and idle USDC
+  unpriced: string[];           // Components the Router could not quote
+  components: {
+    token: string;
+    symbol: string;
+    decimals: number;
+    weight: bigint;             // Basis points
+    balance: bigint;            // Held by the vault, in the token's decimals
+    value: bigint;              // USDC (6 decimals); 0 when not priced
+    priced: boolean;
+  }[];
+}
+
+/**
+ * `GET /indexes/:id/nav` response
+ */
+export interface NavJson {
+  indexId: number;
+  navPerShare: bigint;          // USDC (6 decimals) per whole share
+  totalValueLocked: bigint;     // USDC (6 decimals), priced components and idle USDC
+  totalSupply: bigint;          // Shares (18 decimals)
+  unpriced: string[];
+}
+
+/**
+ * A read failure with the HTTP status it maps to
+ */
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Promise cache with a time to live
+ * @dev Concurrent reads of a key share one load, and failed loads are dropped so the next read retries
+ */
+export class ReadCache {
+  private readonly entries = new Map<string, { expiresAt: number; value: Promise<unknown> }>();
+
+  constructor(readonly ttlMs: number, private readonly now: () => number = Date.now) {}
+
+  /**
+   * Returns the cached value of `key`, or loads and caches it for `ttlMs`
+   */
+  get<T>(key: string, load: () => Promise<T>, ttlMs = this.ttlMs): Promise<T> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.value as Promise<T>;
+    }
+
+    const value = load();
+    this.entries.set(key, { expiresAt: now + ttlMs, value });
+    value.catch(() => {
+      if (this.entries.get(key)?.value === value) {
+        this.entries.delete(key);
+      }
+    });
+    if (this.entries.size > 1000) {
+      this.prune(now);
+    }
+    return value;
+  }
+
+  /**
+   * Forgets every cached read
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Read-only HTTP/JSON API over the registry, vaults and Router, for dashboards
+ * @dev Every route issues its independent reads concurrently, so a batching provider (ethers'
+ *      `JsonRpcProvider` by default) sends each round of them as one JSON-RPC batch, and reuses them
+ *      from a `ReadCache` for a few seconds. A mint quote needs a few rounds, each covering every
+ *      component: the swap paths, their DEX quotes, then the shares. Amounts are integer strings in base units: USDC 6 decimals, shares 18 decimals,
+ *      token balances in the token's decimals
+ *
+ *      GET /indexes?offset&limit            Registry page, through `IndexRegistry.getIndexes`
+ *      GET /indexes/:id                     One index
+ *      GET /indexes/:id/composition         Weights, vault balances and USDC values per component
+ *      GET /indexes/:id/nav                 NAV per share, TVL and share supply
+ *      GET /curators/:address/indexes       Indexes of a curator, through `getIndexesByCurator`
+ *      GET /quote/mint?indexId&usdc[&slippage]  `HedgeraClient.quoteMint`
+ */
+export class ApiServer {
+  readonly cache: ReadCache;
+  readonly server: Server;
+  private readonly tokens = new Map<string, Promise<TokenMetadata>>();
+
+  constructor(readonly client: HedgeraClient, private readonly options: ApiServerOptions = {}) {
+    this.cache = new ReadCache(options.cacheTtlMs ?? DEFAULT_API_CACHE_TTL_MS);
+    this.server = createServer((request, response) => void this.handle(request, response));
+  }
+
+  /**
+   * Starts listening
+   * @param port Port to bind, or 0 for any free port
+   * @return url Base URL of the API
+   */
+  async listen(port: number, host = "127.0.0.1"): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, host, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Stops accepting requests and closes open connections
+   */
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  /**
+   * A page of indexes from the registry
+   */
+  async listIndexes(offset = 0, limit = DEFAULT_PAGE_SIZE): Promise<IndexPage> {
+    if (limit < 1 || limit > MAX_API_PAGE_SIZE) {
+      throw new ApiError(400, `limit must be between 1 and ${MAX_API_PAGE_SIZE}`);
+    }
+    const total = await this.indexCount();
+    const indexes =
+      offset >= total
+        ? []
+        : await this.cache.get(`indexes:${offset}:${limit}`, async () =>
+            (await this.client.registry.getIndexes(offset, limit)).map(decodeIndexInfo)
+          );
+    return { total, offset, limit, indexes: indexes.map(indexToJson) };
+  }
+
+  /**
+   * One index, or a 404 when the registry has no such ID
+   */
+  async getIndex(indexId: number): Promise<IndexJson> {
+    return indexToJson(await this.index(indexId));
+  }
+
+  /**
+   * Basket composition with live vault balances and USDC values
+   */
+  async getComposition(indexId: number): Promise<CompositionJson> {
+    const { vault } = await this.index(indexId);
+    return this.cache.get(`composition:${indexId}`, async () => {
+      const contract = this.client.vault(vault);
+      const [components, [values, priced], totalValueLocked] = await Promise.all([
+        contract.getBasketComposition(),
+        contract.getComponentValues(),
+        contract.getTotalValueLocked(),
+      ]);
+      const metadata = await Promise.all(components.map(({ token }) => this.tokenMetadata(token)));
+
+      const rows = components.map((raw, i) => {
+        const { token, weight, balance } = decodeComponent(raw);
+        return { token, symbol: metadata[i].symbol, decimals: metadata[i].decimals, weight, balance, value: values[i], priced: priced[i] };
+      });
+      return {
+        indexId,
+        vault,
+        totalValueLocked,
+        unpriced: rows.filter((c) => !c.priced).map((c) => c.token),
+        components: rows,
+      };
+    });
+  }
+
+  /**
+   * NAV per share, TVL and share supply as the vault computes them
+   */
+  async getNav(indexId: number): Promise<NavJson> {
+    const { vault, indexToken } = await this.index(indexId);
+    return this.cache.get(`nav:${indexId}`, async () => {
+      const contract = this.client.vault(vault);
+      const [navPerShare, [, priced], totalValueLocked, totalSupply] = await Promise.all([
+        contract.getNavPerShare(),
+        contract.getComponentValues(),
+        contract.getTotalValueLocked(),
+        this.client.indexToken(indexToken).totalSupply(),
+      ]);
+      const { components } = await this.index(indexId);
+      return {
+        indexId,
+        navPerShare,
+        totalValueLocked,
+        totalSupply,
+        unpriced: components.filter((_, i) => !priced[i]).map((c) => c.token),
+      };
+    });
+  }
+
+  /**
+   * Indexes curated by an address
+   */
+  async getCuratorIndexes(curator: string): Promise<{ curator: string; indexes: IndexJson[] }> {
+    const address = addressParam(curator, "curator");
+    const ids = await this.cache.get(`curator:${address}`, async () =>
+      (await this.client.registry.getIndexesByCurator(address)).map(Number)
+    );
+    const indexes = await Promise.all(ids.map((id) => this.index(id)));
+    return { curator: address, indexes: indexes.map(indexToJson) };
+  }
+
+  /**
+   * Mint quote for `usdcAmount` USDC (6 decimals)
+   */
+  async quoteMint(indexId: number, usdcAmount: bigint, slippageBps = DEFAULT_SLIPPAGE_BPS): Promise<MintQuote> {
+    await this.index(indexId);
+    return this.cache.get(`quote:mint:${indexId}:${usdcAmount}:${slippageBps}`, async () => {
+      try {
+        return await this.client.quoteMint(indexId, usdcAmount, slippageBps);
+      } catch (error) {
+        // The client's own checks (slippage bound, unpriced index, missing pool) are bad requests
+        if (error instanceof ValidationError) {
+          throw new ApiError(400, error.message);
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Routes a request and writes the JSON response
+   */
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const started = Date.now();
+    let status = 200;
+    let body: unknown;
+    try {
+      if (request.method !== "GET") {
+        throw new ApiError(405, `${request.method} is not supported, the API is read-only`);
+      }
+      body = await this.route(new URL(request.url ?? "/", "http://localhost"));
+    } catch (error) {
+      status = error instanceof ApiError ? error.status : 500;
+      body = { error: error instanceof ApiError ? error.message : describeError(error) };
+    }
+
+    response.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Cache-Control": status === 200 ? `public, max-age=${Math.floor(this.cache.ttlMs / 1000)}` : "no-store",
+    });
+    response.end(JSON.stringify(body, (_, value) => (typeof value === "bigint" ? value.toString() : value)));
+    this.options.log?.(`${request.method} ${request.url} ${status} ${Date.now() - started}ms`);
+  }
+
+  private async route(url: URL): Promise<unknown> {
+    const parts = url.pathname.split("/").filter(Boolean);
+    const query = url.searchParams;
+
+    if (parts[0] === "indexes" && parts.length === 1) {
+      return this.listIndexes(
+        integerParam(query.get("offset") ?? "0", "offset"),
+        integerParam(query.get("limit") ?? String(DEFAULT_PAGE_SIZE), "limit")
+      );
+    }
+    if (parts[0] === "indexes" && parts.length === 2) {
+      return this.getIndex(integerParam(parts[1], "index ID"));
+    }
+    if (parts[0] === "indexes" && parts.length === 3 && parts[2] === "composition") {
+      return this.getComposition(integerParam(parts[1], "index ID"));
+    }
+    if (parts[0] === "indexes" && parts.length === 3 && parts[2] === "nav") {
+      return this.getNav(integerParam(parts[1], "index ID"));
+    }
+    if (parts[0] === "curators" && parts.length === 3 && parts[2] === "indexes") {
+      return this.getCuratorIndexes(parts[1]);
+    }
+    if (parts[0] === "quote" && parts[1] === "mint" && parts.length === 2) {
+      const indexId = integerParam(requiredParam(query, "indexId"), "indexId");
+      const slippage = query.get("slippage");
+      return this.quoteMint(
+        indexId,
+        usdcParam(requiredParam(query, "usdc")),
+        slippage === null ? undefined : integerParam(slippage, "slippage")
+      );
+    }
+    throw new ApiError(404, `No route for ${url.pathname}`);
+  }
+
+  private indexCount(): Promise<number> {
+    return this.cache.get("count", () => this.client.getIndexCount());
+  }
+
+  private async index(indexId: number): Promise<IndexInfo> {
+    if (indexId >= (await this.indexCount())) {
+      throw new ApiError(404, `Index ${indexId} does not exist`);
+    }
+    return this.cache.get(`index:${indexId}`, () => this.client.getIndex(indexId));
+  }
+
+  // Token symbols and decimals never change, so they are kept for the life of the server.
+  // A failed read is dropped, like in ReadCache, so the next request retries it
+  private tokenMetadata(token: string): Promise<TokenMetadata> {
+    let metadata = this.tokens.get(token);
+    if (!metadata) {
+      const loaded = this.client.getTokenMetadata(token);
+      loaded.catch(() => {
+        if (this.tokens.get(token) === loaded) {
+          this.tokens.delete(token);
+        }
+      });
+      this.tokens.set(token, (metadata = loaded));
+    }
+    return metadata;
+  }
+}
+
+function indexToJson(index: IndexInfo): IndexJson {
+  return { ...index, status: IndexStatus[index.status] };
+}
+
+function requiredParam(query: URLSearchParams, name: string): string {
+  const value = query.get(name);
+  if (value === null) {
+    throw new ApiError(400, `Missing query parameter ${name}`);
+  }
+  return value;
+}
+
+function addressParam(value: string, name: string): string {
+  try {
+    return toEvmAddress(value, name);
+  } catch (error) {
+    throw new ApiError(400, (error as Error).message);
+  }
+}
+
+function integerParam(value: string, name: string): number {
+  if (!/^\d+$/.test(value) || !Number.isSafeInteger(Number(value))) {
+    throw new ApiError(400, `Invalid ${name}: "${value}" (expected a non-negative integer)`);
+  }
+  return Number(value);
+}
+
+function usdcParam(value: string): bigint {
+  try {
+    const amount = parseUnits(value, 6);
+    if (amount > 0n) {
+      return amount;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ApiError(400, `Invalid usdc: "${value}" (expected a positive amount such as 12.5)`);
+}
@@ -0,0 +1,139 @@
+import { readFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { InterfaceAbi, isAddress } from "ethers";
+import type { CreationTarget } from "./types";
+
+/** Contracts whose bytecode is checked against `artifacts/` */
+export type CoreContract = "IndexRegistry" | "Router" | "IndexFactory";
+
+/** Fully qualified name of the library IndexFactory is linked against */
+export const VAULT_DEPLOYER_LIBRARY = "contracts/libraries/VaultDeployer.sol:VaultDeployer";
+
+/** Byte range in contract code */
+export interface CodeRange {
+  start: number;
+  length: number;
+}
+
+/** Library placeholders in contract code, by source file and library name */
+export type LinkReferences = Record<string, Record<string, CodeRange[]>>;
+
+/**
+ * The parts of a Hardhat artifact the SDK reads
+ */
+export interface ContractArtifact {
+  sourceName: string;
+  contractName: string;
+  abi: InterfaceAbi;
+  bytecode: string;
+  deployedBytecode: string;
+  linkReferences: LinkReferences;
+  deployedLinkReferences: LinkReferences;
+}
+
+/**
+ * Runtime code of a compiled contract and the ranges that are only known once deployed
+ */
+export interface DeployedCode {
+  deployedBytecode: string;
+  deployedLinkReferences: LinkReferences;
+  immutableReferences: CodeRange[];   // Set at construction, zero-filled in the artifact
+}
+
+const ARTIFACT_PATHS: Record<CreationTarget, string[]> = {
+  IndexRegistry: ["IndexRegistry.sol", "IndexRegistry.json"],
+  Router: ["Router.sol", "Router.json"],
+  IndexFactory: ["IndexFactory.sol", "IndexFactory.json"],
+  VaultDeployer: ["libraries", "VaultDeployer.sol", "VaultDeployer.json"],
+};
+
+/**
+ * Loads a deployable contract's Hardhat artifact (run `npm run compile` first)
+ */
+export function loadArtifact(contract: CreationTarget): ContractArtifact {
+  const segments = ARTIFACT_PATHS[contract];
+  if (!segments) {
+    throw new Error(`${contract} is not a contract the protocol deploys`);
+  }
+  return readJson<ContractArtifact>(resolve("artifacts", "contracts", ...segments));
+}
+
+/**
+ * Loads a contract's runtime code with its link and immutable ranges
+ * @dev Immutable ranges are not in the artifact, so they come from the build info it points to
+ */
+export function loadDeployedCode(contract: CreationTarget): DeployedCode {
+  const { sourceName, contractName, deployedBytecode, deployedLinkReferences } = loadArtifact(contract);
+  const debugPath = resolve("artifacts", "contracts", ...ARTIFACT_PATHS[contract]).replace(/\.json$/, ".dbg.json");
+  const { buildInfo } = readJson<{ buildInfo: string }>(debugPath);
+  const { output } = readJson<{
+    output: { contracts: Record<string, Record<string, { evm: { deployedBytecode: { immutableReferences?: Record<string, CodeRange[]> } } }>> };
+  }>(resolve(dirname(debugPath), buildInfo));
+  const immutables = output.contracts[sourceName]?.[contractName]?.evm.deployedBytecode.immutableReferences ?? {};
+  return { deployedBytecode, deployedLinkReferences, immutableReferences: Object.values(immutables).flat() };
+}
+
+/**
+ * Compares on-chain runtime code with a compiled contract byte for byte
+ * @dev Only the immutable ranges, set at construction, are skipped. Every library reference must
+ *      hold the address given for that library, so code linked to another library does not match
+ * @param libraries Library addresses by fully qualified name, e.g. `VAULT_DEPLOYER_LIBRARY`
+ */
+export function matchesDeployedBytecode(onChain: string, expected: DeployedCode, libraries: Record<string, string> = {}): boolean {
+  const actual = onChain.toLowerCase().replace(/^0x/, "");
+  let reference: string;
+  try {
+    reference = linkLibraries(expected.deployedBytecode.toLowerCase().replace(/^0x/, ""), expected.deployedLinkReferences, libraries);
+  } catch {
+    return false;
+  }
+  if (actual.length !== reference.length) {
+    return false;
+  }
+  for (const range of expected.immutableReferences) {
+    reference = splice(reference, range, actual.slice(range.start * 2, (range.start + range.length) * 2));
+  }
+  return actual === reference;
+}
+
+/**
+ * A contract's creation code from the artifacts, with its libraries linked
+ * @param libraries Library addresses by fully qualified name, e.g. `VAULT_DEPLOYER_LIBRARY`
+ */
+export function linkCreationCode(contract: CreationTarget, libraries: Record<string, string> = {}): string {
+  const { bytecode, linkReferences } = loadArtifact(contract);
+  try {
+    return `0x${linkLibraries(bytecode.replace(/^0x/, ""), linkReferences, libraries)}`;
+  } catch (error) {
+    throw new Error(`${contract} ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Writes each library's address over its placeholders in unprefixed hex code
+ */
+function linkLibraries(code: string, linkReferences: LinkReferences, libraries: Record<string, string>): string {
+  for (const [file, names] of Object.entries(linkReferences)) {
+    for (const [name, references] of Object.entries(names)) {
+      const address = libraries[`${file}:${name}`];
+      if (address === undefined || !isAddress(address)) {
+        throw new Error(`links ${file}:${name}, but ${address ?? "no address"} was given for it`);
+      }
+      for (const range of references) {
+        code = splice(code, range, address.toLowerCase().replace(/^0x/, ""));
+      }
+    }
+  }
+  return code;
+}
+
+const splice = (code: string, { start, length }: CodeRange, bytes: string) =>
+  code.slice(0, start * 2) + bytes + code.slice((start + length) * 2);
+
+function readJson<T>(path: string): T {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch {
+    throw new Error(`Artifact not found at ${path}. Please run \`npm run compile\` first.`);
+  }
+}
@@ -0,0 +1,453 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import { Interface, Provider, Signer, Transaction, TransactionReceipt, getCreateAddress, keccak256, toUtf8Bytes } from "ethers";
+import {
+  BasketVault__factory,
+  IERC20__factory,
+  IndexFactory__factory,
+  IndexRegistry__factory,
+  IndexToken__factory,
+  Router__factory,
+} from "../typechain-types";
+import type { HedgeraClient } from "./HedgeraClient";
+import { linkCreationCode, loadArtifact } from "./artifacts";
+import type { TxSettings } from "./networks";
+import { broadcastSigned, estimateGasLimit, waitForReceipt } from "./transactions";
+import type {
+  BatchTransaction,
+  CallTarget,
+  ContractCall,
+  ContractCreation,
+  CreationTarget,
+  DeploymentManifest,
+  TransactionBatch,
+} from "./types";
+
+/** Format version written to batch files */
+export const BATCH_VERSION = 1;
+
+/**
+ * Gas limit used when signing a transaction whose estimate reverts
+ * @dev Later transactions of a batch often depend on earlier ones (a mint after its approval),
+ *      so they cannot be estimated until those are mined
+ */
+export const BATCH_FALLBACK_GAS_LIMIT = 5_000_000n;
+
+const INTERFACES: Record<CallTarget, Interface> = {
+  IndexRegistry: IndexRegistry__factory.createInterface(),
+  IndexFactory: IndexFactory__factory.createInterface(),
+  Router: Router__factory.createInterface(),
+  BasketVault: BasketVault__factory.createInterface(),
+  IndexToken: IndexToken__factory.createInterface(),
+  ERC20: IERC20__factory.createInterface(),
+};
+
+/**
+ * ABI of a contract a prepared call can target
+ */
+export function callInterface(contract: CallTarget): Interface {
+  const iface = INTERFACES[contract];
+  if (!iface) {
+    throw new Error(`Batch: unknown contract ${contract}`);
+  }
+  return iface;
+}
+
+/**
+ * Encodes a prepared call into an unsigned transaction, with the arguments decoded back from its calldata
+ */
+export function encodeCall(call: ContractCall): BatchTransaction {
+  const iface = callInterface(call.contract);
+  const data = iface.encodeFunctionData(call.method, call.args);
+  const decoded = iface.parseTransaction({ data })!;
+  return {
+    to: call.to,
+    value: "0",
+    data,
+    contract: call.contract,
+    method: decoded.name,
+    args: decoded.args.map(formatArg),
+    description: call.description,
+  };
+}
+
+/**
+ * Encodes a contract creation into an unsigned transaction, with the constructor arguments decoded back
+ * @dev The creation code comes from `artifacts/`, linked against `creation.libraries`
+ */
+export function encodeCreation(creation: ContractCreation): BatchTransaction {
+  const iface = new Interface(loadArtifact(creation.contract).abi);
+  const code = linkCreationCode(creation.contract, creation.libraries);
+  const data = code + iface.encodeDeploy(creation.args).slice(2);
+  return {
+    to: null,
+    value: "0",
+    data,
+    contract: creation.contract,
+    method: "constructor",
+    args: decodeConstructorArgs(iface, data, code).map(formatArg),
+    description: creation.description,
+    address: creation.address,
+    ...(creation.libraries ? { libraries: creation.libraries } : {}),
+  };
+}
+
+/**
+ * Builds an unsigned batch of calls for `from` to sign, e.g. a multisig or an offline key
+ * @dev Creations can only be signed by an account key (`signBatch`), not imported into a multisig.
+ *      Their addresses depend on the nonce, so `nonce` is required with them: it is where `from`
+ *      will be when the batch is signed, and `signBatch` refuses any other
+ */
+export function createBatch(
+  deployment: Pick<DeploymentManifest, "chainId" | "registry">,
+  from: string,
+  calls: (ContractCall | ContractCreation)[],
+  nonce?: number
+): TransactionBatch {
+  const transactions = calls.map((call) => ("to" in call ? encodeCall(call) : encodeCreation(call)));
+  transactions.forEach((tx, i) => {
+    if (tx.to !== null) {
+      return;
+    }
+    if (nonce === undefined) {
+      throw new Error(`Batch: transaction ${i + 1} creates ${tx.contract}, which needs the nonce the batch starts at`);
+    }
+    const address = getCreateAddress({ from, nonce: nonce + i });
+    if (address.toLowerCase() !== tx.address!.toLowerCase()) {
+      throw new Error(`Batch: transaction ${i + 1} creates ${tx.contract} at ${address}, not ${tx.address}`);
+    }
+  });
+
+  const batch: Omit<TransactionBatch, "hash"> = {
+    version: BATCH_VERSION,
+    chainId: deployment.chainId,
+    registry: deployment.registry,
+    from,
+    createdAt: new Date().toISOString(),
+    transactions,
+    ...(nonce === undefined ? {} : { nonce }),
+  };
+  return { ...batch, hash: batchHash(batch) };
+}
+
+/**
+ * Hashes the reviewable content of a batch (everything but `hash` and `signed`)
+ * @dev Fields are hashed in a fixed order, so reformatting the file does not change the hash.
+ *      Creation fields and the nonce are only hashed when present, so call batches hash as before
+ */
+export function batchHash(batch: Omit<TransactionBatch, "hash">): string {
+  const content = [
+    batch.version,
+    batch.chainId,
+    batch.registry.toLowerCase(),
+    batch.from.toLowerCase(),
+    batch.createdAt,
+    batch.transactions.map((tx) => [
+      tx.to?.toLowerCase() ?? null,
+      tx.value,
+      tx.data.toLowerCase(),
+      tx.contract,
+      tx.method,
+      tx.args,
+      tx.description,
+      ...(tx.to === null
+        ? [tx.address?.toLowerCase(), Object.entries(tx.libraries ?? {}).map(([name, address]) => [name, address.toLowerCase()]).sort()]
+        : []),
+    ]),
+    ...(batch.nonce === undefined ? [] : [batch.nonce]),
+  ];
+  return keccak256(toUtf8Bytes(JSON.stringify(content)));
+}
+
+/**
+ * Checks a batch for tampering without any RPC calls
+ * @dev The hash must match the content, the decoded fields must match the calldata, and
+ *      every signed transaction must carry exactly the calldata it claims, signed by `from`.
+ *      Creations must carry the compiled creation code and create where `from` and the nonce put them
+ * @return problems One message per problem; empty when the batch is intact
+ */
+export function inspectBatch(batch: TransactionBatch): string[] {
+  const problems: string[] = [];
+  if (batch.version !== BATCH_VERSION) {
+    return [`unsupported batch version ${batch.version} (expected ${BATCH_VERSION})`];
+  }
+  if (batchHash(batch) !== batch.hash) {
+    problems.push("hash does not match the batch content");
+  }
+
+  batch.transactions.forEach((tx, i) => {
+    const label = `transaction ${i + 1} (${tx.contract}.${tx.method})`;
+    if (tx.value !== "0") {
+      problems.push(`${label}: sends ${tx.value} wei, protocol calls send none`);
+    }
+    if (tx.to === null) {
+      problems.push(...inspectCreation(batch, tx, i).map((problem) => `${label}: ${problem}`));
+      return;
+    }
+    let decoded;
+    try {
+      decoded = INTERFACES[tx.contract as CallTarget]?.parseTransaction({ data: tx.data });
+    } catch {
+      decoded = null;
+    }
+    if (!decoded) {
+      problems.push(`${label}: calldata is not a ${tx.contract} call`);
+      return;
+    }
+    if (decoded.name !== tx.method) {
+      problems.push(`${label}: calldata calls ${decoded.name}`);
+    }
+    const args = decoded.args.map(formatArg);
+    if (JSON.stringify(args) !== JSON.stringify(tx.args)) {
+      problems.push(`${label}: calldata arguments are (${args.join(", ")})`);
+    }
+  });
+
+  if (batch.signed) {
+    if (batch.signed.length !== batch.transactions.length) {
+      problems.push(`${batch.signed.length} signed transactions for ${batch.transactions.length} calls`);
+    }
+    let nonce: number | undefined;
+    batch.signed.forEach((raw, i) => {
+      const expected = batch.transactions[i];
+      const label = `signed transaction ${i + 1}`;
+      let tx: Transaction;
+      try {
+        tx = Transaction.from(raw);
+      } catch {
+        problems.push(`${label}: not a serialized transaction`);
+        return;
+      }
+      if (!tx.from || tx.from.toLowerCase() !== batch.from.toLowerCase()) {
+        problems.push(`${label}: signed by ${tx.from ?? "nobody"}, expected ${batch.from}`);
+      }
+      if (tx.chainId !== BigInt(batch.chainId)) {
+        problems.push(`${label}: chainId ${tx.chainId}, expected ${batch.chainId}`);
+      }
+      if (
+        !expected ||
+        (tx.to?.toLowerCase() ?? null) !== (expected.to?.toLowerCase() ?? null) ||
+        tx.data.toLowerCase() !== expected.data.toLowerCase() ||
+        tx.value !== BigInt(expected.value)
+      ) {
+        problems.push(`${label}: does not match the unsigned call`);
+      }
+      if (nonce !== undefined && tx.nonce !== nonce + 1) {
+        problems.push(`${label}: nonce ${tx.nonce} does not follow ${nonce}`);
+      }
+      if (nonce === undefined && batch.nonce !== undefined && tx.nonce !== batch.nonce) {
+        problems.push(`${label}: nonce ${tx.nonce}, the batch creates contracts for nonce ${batch.nonce}`);
+      }
+      nonce = tx.nonce;
+    });
+  }
+  return problems;
+}
+
+/**
+ * Checks a batch against the deployment: `inspectBatch`, plus the chain, and that every
+ * transaction targets a protocol contract (or USDC, for approvals)
+ * @dev A contract created earlier in the batch counts as a target of its own kind
+ * @return problems One message per problem; empty when the batch is safe to sign or submit
+ */
+export async function verifyBatch(client: HedgeraClient, batch: TransactionBatch): Promise<string[]> {
+  const problems = inspectBatch(batch);
+  const { deployment } = client;
+  if (batch.chainId !== deployment.chainId) {
+    problems.push(`built for chainId ${batch.chainId}, the deployment is on ${deployment.chainId}`);
+  }
+  if (batch.registry.toLowerCase() !== deployment.registry.toLowerCase()) {
+    problems.push(`built against registry ${batch.registry}, the deployment uses ${deployment.registry}`);
+  }
+
+  const needsIndexes = batch.transactions.some((tx) => tx.contract === "BasketVault" || tx.contract === "IndexToken");
+  const indexes = needsIndexes ? await client.listIndexes() : [];
+  const targets: Record<CallTarget | CreationTarget, string[]> = {
+    IndexRegistry: [deployment.registry],
+    IndexFactory: [deployment.factory],
+    Router: [deployment.router],
+    ERC20: [deployment.usdc],
+    BasketVault: indexes.map((index) => index.vault),
+    IndexToken: indexes.map((index) => index.indexToken),
+    VaultDeployer: [],
+  };
+  batch.transactions.forEach((tx, i) => {
+    if (tx.to === null) {
+      targets[tx.contract]?.push(tx.address!);
+      return;
+    }
+    const known = (targets[tx.contract] ?? []).some((address) => address.toLowerCase() === tx.to!.toLowerCase());
+    if (!known) {
+      problems.push(`transaction ${i + 1} (${tx.contract}.${tx.method}): ${tx.to} is not a ${tx.contract} of this deployment`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Signs every transaction of a batch with consecutive nonces, without sending anything
+ * @dev Gas comes from `settings` when set, otherwise from an estimate with the settings' margin
+ *      (falling back to `BATCH_FALLBACK_GAS_LIMIT`); fees come from the signer's provider.
+ *      Calls to contracts the batch creates are not estimated and use the fallback: without code
+ *      yet, they would estimate as plain transfers
+ * @return batch A copy of the batch with `signed` filled in
+ */
+export async function signBatch(
+  batch: TransactionBatch,
+  signer: Signer,
+  settings: TxSettings = {}
+): Promise<TransactionBatch> {
+  if (batchHash(batch) !== batch.hash) {
+    throw new Error("Batch: hash does not match the batch content");
+  }
+  const address = await signer.getAddress();
+  if (address.toLowerCase() !== batch.from.toLowerCase()) {
+    throw new Error(`Batch: built for ${batch.from}, signer is ${address}`);
+  }
+
+  const startNonce = await signer.getNonce("pending");
+  if (batch.nonce !== undefined && startNonce !== batch.nonce) {
+    throw new Error(
+      `Batch: creates contracts for nonce ${batch.nonce} of ${batch.from}, which is at nonce ${startNonce}. Export it again`
+    );
+  }
+  const signed: string[] = [];
+  for (const [i, tx] of batch.transactions.entries()) {
+    const request = { to: tx.to, data: tx.data, value: BigInt(tx.value), from: address };
+    const pending = batch.transactions.some((c) => c.to === null && c.address?.toLowerCase() === tx.to?.toLowerCase());
+    const gasLimit =
+      pending && settings.gasLimit === undefined
+        ? BATCH_FALLBACK_GAS_LIMIT
+        : await estimateGasLimit(signer, request, settings).catch(() => BATCH_FALLBACK_GAS_LIMIT);
+    const populated = await signer.populateTransaction({
+      ...request,
+      chainId: batch.chainId,
+      nonce: startNonce + i,
+      gasLimit,
+      ...(settings.gasPrice !== undefined ? { gasPrice: settings.gasPrice } : {}),
+    });
+    signed.push(await signer.signTransaction(populated));
+  }
+  return { ...batch, signed };
+}
+
+/**
+ * Broadcasts the signed transactions of a batch in order, waiting for each one
+ * @dev Transactions already mined (e.g. by an interrupted earlier submit) are skipped.
+ *      Stops at the first failure, with its revert reason
+ * @param onConfirmed Called for every mined transaction, e.g. for progress output
+ * @param settings Retries and confirmations used while broadcasting and waiting
+ */
+export async function submitBatch(
+  provider: Provider,
+  batch: TransactionBatch,
+  onConfirmed?: (tx: BatchTransaction, receipt: TransactionReceipt, skipped: boolean) => void,
+  settings: TxSettings = {}
+): Promise<TransactionReceipt[]> {
+  if (!batch.signed) {
+    throw new Error("Batch: not signed yet");
+  }
+  const problems = inspectBatch(batch);
+  if (problems.length > 0) {
+    throw new Error(`Batch: ${problems.join("; ")}`);
+  }
+
+  const receipts: TransactionReceipt[] = [];
+  for (const [i, raw] of batch.signed.entries()) {
+    const tx = batch.transactions[i];
+    const label = `transaction ${i + 1} (${tx.contract}.${tx.method})`;
+    const mined = await provider.getTransactionReceipt(Transaction.from(raw).hash!);
+    if (mined && mined.status === 1) {
+      receipts.push(mined);
+      onConfirmed?.(tx, mined, true);
+      continue;
+    }
+
+    const response = await broadcastSigned(provider, raw, settings);
+    const receipt = await waitForReceipt(response, `Batch: ${label}`, settings);
+    receipts.push(receipt);
+    onConfirmed?.(tx, receipt, false);
+  }
+  return receipts;
+}
+
+/**
+ * Loads a batch file written by `saveBatch`
+ */
+export function loadBatch(file: string): TransactionBatch {
+  const path = resolve(file);
+  if (!existsSync(path)) {
+    throw new Error(`Batch file not found at ${file}`);
+  }
+  return JSON.parse(readFileSync(path, "utf8")) as TransactionBatch;
+}
+
+/**
+ * Writes a batch to disk, creating the directory if needed
+ * @return path Absolute path of the written file
+ */
+export function saveBatch(batch: TransactionBatch, file: string): string {
+  const path = resolve(file);
+  if (!existsSync(dirname(path))) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(batch, null, 2));
+  return path;
+}
+
+/**
+ * Checks a creation against the compiled artifacts and the address its nonce gives
+ */
+function inspectCreation(batch: TransactionBatch, tx: BatchTransaction, index: number): string[] {
+  const problems: string[] = [];
+  if (batch.nonce === undefined) {
+    problems.push("creates a contract, but the batch has no nonce");
+  } else {
+    const address = getCreateAddress({ from: batch.from, nonce: batch.nonce + index });
+    if (address.toLowerCase() !== tx.address?.toLowerCase()) {
+      problems.push(`creates ${address}, not ${tx.address}`);
+    }
+  }
+
+  let iface: Interface;
+  let code: string;
+  try {
+    iface = new Interface(loadArtifact(tx.contract as CreationTarget).abi);
+    code = linkCreationCode(tx.contract as CreationTarget, tx.libraries);
+  } catch (error) {
+    return [...problems, (error as Error).message];
+  }
+  if (tx.method !== "constructor") {
+    problems.push(`creations call the constructor, not ${tx.method}`);
+  }
+  if (!tx.data.toLowerCase().startsWith(code.toLowerCase())) {
+    problems.push(`creation code is not the compiled ${tx.contract}`);
+    return problems;
+  }
+  let args: string[];
+  try {
+    args = decodeConstructorArgs(iface, tx.data, code).map(formatArg);
+  } catch {
+    return [...problems, `constructor arguments do not decode`];
+  }
+  if (JSON.stringify(args) !== JSON.stringify(tx.args)) {
+    problems.push(`constructor arguments are (${args.join(", ")})`);
+  }
+  return problems;
+}
+
+// Protocol constructors only take static arguments, so anything but one word per argument was tampered with
+function decodeConstructorArgs(iface: Interface, data: string, code: string): unknown[] {
+  const encoded = `0x${data.slice(code.length)}`;
+  if (encoded.length !== 2 + iface.deploy.inputs.length * 64) {
+    throw new Error("constructor arguments do not decode");
+  }
+  return [...iface.getAbiCoder().decode(iface.deploy.inputs, encoded)];
+}
+
+function formatArg(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArg).join(", ")}]`;
+  }
+  return String(value);
+}
@@ -0,0 +1,254 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import { Interface, InterfaceAbi } from "ethers";
+import { assertDeploymentChain, loadDeployment } from "./deployments";
+import { NETWORKS, NetworkConfig } from "./networks";
+import type {
+  AbiChange,
+  AbiCompatibility,
+  AbiLock,
+  BundledNetwork,
+  ContractBundle,
+  CreatedIndexRecord,
+  VersionBump,
+} from "./types";
+
+/** npm package the bundle is published as */
+export const BUNDLE_PACKAGE_NAME = "@hedgera/contracts";
+
+/** Contracts and interfaces whose ABIs and bindings are published; mocks and libraries are not */
+export const BUNDLE_CONTRACTS = [
+  "IndexRegistry",
+  "IndexFactory",
+  "BasketVault",
+  "IndexToken",
+  "Router",
+  "IIndexRegistry",
+  "IIndexFactory",
+  "IBasketVault",
+  "IIndexToken",
+  "IRouter",
+  "ISaucerSwapRouter",
+];
+
+/** Lock file recording the ABIs published with the current version, committed with the contracts */
+export const ABI_LOCK_FILE = "abi-lock.json";
+
+/** Written by `scripts/create-index.ts` */
+export const CREATED_INDEXES_FILE = join("deployments", "created-indexes.json");
+
+const BUMPS: VersionBump[] = ["none", "patch", "minor", "major"];
+
+/**
+ * Sorted full signatures of an ABI's fragments, e.g. `event Minted(address indexed user, ...)`
+ * @dev Parameter names, mutability and outputs are part of the signature, since the bindings use them
+ */
+export function abiSignatures(abi: InterfaceAbi): string[] {
+  return new Interface(abi).fragments.map((fragment) => fragment.format("full")).sort();
+}
+
+/**
+ * Lock recording the given ABIs as published under `version`
+ */
+export function createAbiLock(version: string, abis: Record<string, unknown[]>): AbiLock {
+  parseVersion(version);
+  const contracts: Record<string, string[]> = {};
+  for (const name of Object.keys(abis).sort()) {
+    contracts[name] = abiSignatures(abis[name] as InterfaceAbi);
+  }
+  return { version, contracts };
+}
+
+/**
+ * Loads the ABI lock
+ * @return lock The lock, or null when none has been written yet
+ */
+export function loadAbiLock(file: string = ABI_LOCK_FILE): AbiLock | null {
+  const path = resolve(file);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(path, "utf8")) as AbiLock;
+}
+
+/**
+ * Writes the ABI lock
+ * @return path Absolute path of the written file
+ */
+export function saveAbiLock(lock: AbiLock, file: string = ABI_LOCK_FILE): string {
+  const path = resolve(file);
+  writeFileSync(path, JSON.stringify(lock, null, 2) + "\n");
+  return path;
+}
+
+/**
+ * Fragments added and removed between two locks, by contract
+ * @dev A contract missing from one side counts as all of its fragments added or removed
+ */
+export function diffAbiLocks(locked: AbiLock, current: AbiLock): AbiChange[] {
+  const changes: AbiChange[] = [];
+  const names = [...new Set([...Object.keys(locked.contracts), ...Object.keys(current.contracts)])].sort();
+  for (const contract of names) {
+    const before = new Set(locked.contracts[contract] ?? []);
+    const after = new Set(current.contracts[contract] ?? []);
+    for (const signature of before) {
+      if (!after.has(signature)) {
+        changes.push({ contract, change: "removed", signature });
+      }
+    }
+    for (const signature of after) {
+      if (!before.has(signature)) {
+        changes.push({ contract, change: "added", signature });
+      }
+    }
+  }
+  return changes;
+}
+
+/**
+ * Semver part incremented from one `major.minor.patch` version to another
+ * @return bump The bump, or null when `to` is older than `from`
+ */
+export function versionBump(from: string, to: string): VersionBump | null {
+  const a = parseVersion(from);
+  const b = parseVersion(to);
+  for (let i = 0; i < 3; i++) {
+    if (b[i] !== a[i]) {
+      return b[i] < a[i] ? null : (["major", "minor", "patch"] as VersionBump[])[i];
+    }
+  }
+  return "none";
+}
+
+/**
+ * Checks the compiled ABIs against the lock before a bundle is built under `version`
+ * @dev Removing or changing a fragment breaks consumers and needs a major bump; adding one needs
+ *      at least a minor bump. Any version may ship unchanged ABIs
+ */
+export function checkAbiCompatibility(lock: AbiLock, version: string, abis: Record<string, unknown[]>): AbiCompatibility {
+  const changes = diffAbiLocks(lock, createAbiLock(version, abis));
+  const bump = versionBump(lock.version, version);
+  if (bump === null) {
+    throw new Error(`Bundle: version ${version} is older than the locked ${lock.version}`);
+  }
+  const required: VersionBump = changes.some((c) => c.change === "removed")
+    ? "major"
+    : changes.length > 0
+      ? "minor"
+      : "none";
+  return {
+    lockedVersion: lock.version,
+    version,
+    changes,
+    required,
+    bump,
+    ok: BUMPS.indexOf(bump) >= BUMPS.indexOf(required),
+  };
+}
+
+/**
+ * Deployment manifests of every network that has one, with the indexes created on each
+ * @param options.includeLocal Also bundle `localhost`, whose addresses only exist on a developer's node
+ * @dev Missing manifests are skipped; incomplete ones, manifests for another chain and created indexes
+ *      recorded without their deployment are skipped with a warning
+ */
+export function collectDeployments(
+  options: { includeLocal?: boolean; networks?: NetworkConfig[]; createdIndexesFile?: string } = {}
+): { networks: Record<string, BundledNetwork>; warnings: string[] } {
+  const networks = options.networks ?? Object.values(NETWORKS).filter((network) => options.includeLocal || !network.local);
+  const createdIndexesFile = options.createdIndexesFile ?? CREATED_INDEXES_FILE;
+  const created: CreatedIndexRecord[] = existsSync(createdIndexesFile)
+    ? JSON.parse(readFileSync(createdIndexesFile, "utf8"))
+    : [];
+
+  const bundled: Record<string, BundledNetwork> = {};
+  const warnings: string[] = [];
+  for (const network of networks) {
+    if (!existsSync(network.deploymentFile)) {
+      continue;
+    }
+    try {
+      const manifest = loadDeployment(network.deploymentFile);
+      assertDeploymentChain(manifest, network.chainId, network.deploymentFile);
+      const indexes = created
+        .filter((r) => r.chainId === manifest.chainId && r.registry?.toLowerCase() === manifest.registry.toLowerCase())
+        .sort((a, b) => a.id - b.id)
+        .map(({ id, name, symbol, vault, indexToken }) => ({ id, name, symbol, vault, indexToken }));
+      bundled[network.name] = { network: network.name, ...manifest, indexes };
+    } catch (error) {
+      warnings.push(`${network.name}: ${(error as Error).message}`);
+    }
+  }
+
+  const unrecorded = created.filter((r) => r.chainId === undefined || !r.registry);
+  if (unrecorded.length > 0) {
+    warnings.push(
+      `${createdIndexesFile}: ${unrecorded.map((r) => r.symbol).join(", ")} have no chainId and registry ` +
+        "and are left out; rerun create-index to record them"
+    );
+  }
+  return { networks: bundled, warnings };
+}
+
+/**
+ * Writes a bundle's package.json, ABIs, deployments and TypeScript entry point to `outDir`
+ * @dev The entry point re-exports `./types`, where `scripts/bundle.ts` generates the TypeChain
+ *      bindings before compiling it. Replaces a previous bundle but refuses any other non-empty directory
+ * @return files Paths of the written files, relative to `outDir`
+ */
+export function writeBundle(bundle: ContractBundle, outDir: string): string[] {
+  const root = resolve(outDir);
+  if (existsSync(root) && readdirSync(root).length > 0) {
+    if (!existsSync(join(root, "bundle.json"))) {
+      throw new Error(`Bundle: ${outDir} is not empty and holds no bundle; refusing to overwrite it`);
+    }
+    rmSync(root, { recursive: true });
+  }
+  const contracts = Object.keys(bundle.abis).sort();
+  const networks = Object.keys(bundle.networks).sort();
+
+  const files: Record<string, string> = {
+    "package.json": json({
+      name: bundle.name,
+      version: bundle.version,
+      description: "Hedgera contract ABIs, TypeChain ethers-v6 bindings and deployment addresses",
+      main: "index.js",
+      types: "index.d.ts",
+      files: ["index.js", "index.d.ts", "types", "abis", "deployments", "bundle.json"],
+      peerDependencies: { ethers: "^6.0.0" },
+    }),
+    "bundle.json": json({ name: bundle.name, version: bundle.version, contracts, networks: bundle.networks }),
+    "index.ts": [
+      "/* Generated by scripts/bundle.ts. Do not edit manually. */",
+      'export * from "./types";',
+      `export const VERSION = ${JSON.stringify(bundle.version)};`,
+      `export const abis = ${json(Object.fromEntries(contracts.map((name) => [name, bundle.abis[name]])))} as const;`,
+      `export const deployments = ${json(bundle.networks)} as const;`,
+      "",
+    ].join("\n"),
+  };
+  for (const name of contracts) {
+    files[join("abis", `${name}.json`)] = json(bundle.abis[name]);
+  }
+  for (const name of networks) {
+    files[join("deployments", `${name}.json`)] = json(bundle.networks[name]);
+  }
+
+  for (const [file, contents] of Object.entries(files)) {
+    const path = join(root, file);
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, contents);
+  }
+  return Object.keys(files);
+}
+
+function parseVersion(version: string): number[] {
+  if (!/^\d+\.\d+\.\d+$/.test(version)) {
+    throw new Error(`Bundle: version "${version}" is not major.minor.patch`);
+  }
+  return version.split(".").map(Number);
+}
+
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
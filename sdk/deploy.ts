@@ -0,0 +1,494 @@
+import { ContractFactory, ContractRunner, Provider, Signer, TransactionRequest, formatUnits, getCreateAddress } from "ethers";
+import {
+  IERC20__factory,
+  IndexFactory__factory,
+  IndexRegistry__factory,
+  Router__factory,
+} from "../typechain-types";
+import { CoreContract, VAULT_DEPLOYER_LIBRARY, loadArtifact, loadDeployedCode, matchesDeployedBytecode } from "./artifacts";
+import { callInterface } from "./batch";
+import type { TxSettings } from "./networks";
+import { sendTransaction } from "./transactions";
+import type { ContractCall, ContractCreation, CreationTarget, DeploymentManifest, PartialDeployment } from "./types";
+
+/**
+ * Inputs for a full protocol deployment
+ */
+export interface DeployConfig {
+  usdc: string;               // USDC token address
+  saucerSwapRouter: string;   // SaucerSwap V1 router address
+  creationFee: bigint;        // Index creation fee in USDC (6 decimals)
+  factoryAllowance: bigint;   // USDC allowance granted to the factory by the deployer
+}
+
+export interface DeployOptions {
+  txOverrides?: TxSettings;
+  log?: (message: string) => void;
+  /** Manifest of an earlier (possibly interrupted) run to resume from */
+  existing?: PartialDeployment | null;
+  /** Called with the manifest so far after every completed step, so progress survives a crash */
+  onProgress?: (manifest: PartialDeployment) => void;
+}
+
+/**
+ * Result of one manifest-vs-chain check
+ */
+export interface DeploymentCheck {
+  name: string;
+  ok: boolean;
+  expected?: string;
+  actual?: string;
+}
+
+/**
+ * Deployment steps still missing, for export as a batch (from `planDeployment`)
+ */
+export interface DeploymentPlan {
+  manifest: DeploymentManifest;                   // Addresses once every step is mined
+  steps: (ContractCreation | ContractCall)[];     // Creations first, then configuration
+  nonce?: number;                                 // Nonce the creations were planned for, when there are any
+}
+
+async function hasExpectedCode(
+  provider: Provider,
+  address: string,
+  contract: CreationTarget,
+  libraries: Record<string, string> = {}
+): Promise<boolean> {
+  const code = await provider.getCode(address);
+  return code !== "0x" && matchesDeployedBytecode(code, loadDeployedCode(contract), libraries);
+}
+
+/** Libraries IndexFactory must be linked against, empty when there is no VaultDeployer to check */
+const factoryLibraries = (vaultDeployer: string | undefined): Record<string, string> =>
+  vaultDeployer ? { [VAULT_DEPLOYER_LIBRARY]: vaultDeployer } : {};
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Returns an IndexFactory contract factory linked to the VaultDeployer library at `library`,
+ * deploying a new library when none is given
+ * @dev The factory creates vaults through the library to stay under the contract size limit
+ */
+export async function linkIndexFactory(
+  deployer: Signer,
+  settings: TxSettings = {},
+  library?: string
+): Promise<IndexFactory__factory> {
+  const address = library ?? (await deployVaultDeployer(deployer, settings)).address;
+  return new IndexFactory__factory({ [VAULT_DEPLOYER_LIBRARY]: address }, deployer);
+}
+
+/**
+ * Deploys the VaultDeployer library
+ * @dev The library has no ABI for TypeChain, so it is deployed from its artifact
+ */
+async function deployVaultDeployer(deployer: Signer, settings: TxSettings): Promise<{ address: string; blockNumber: number }> {
+  const { abi, bytecode } = loadArtifact("VaultDeployer");
+  return deployContract(
+    deployer,
+    await new ContractFactory(abi, bytecode, deployer).getDeployTransaction(),
+    "VaultDeployer",
+    settings
+  );
+}
+
+/**
+ * Sends a contract creation through the transaction pipeline
+ * @return deployment Address of the new contract and the block it was created in
+ */
+async function deployContract(
+  deployer: Signer,
+  request: TransactionRequest,
+  name: string,
+  settings: TxSettings
+): Promise<{ address: string; blockNumber: number }> {
+  const receipt = await sendTransaction(deployer, request, { settings, action: `Deploy ${name}` });
+  return { address: receipt.contractAddress!, blockNumber: receipt.blockNumber };
+}
+
+/**
+ * Compares a manifest against chain state without sending transactions
+ * @return checks One entry per contract and configuration step, in deployment order
+ */
+export async function inspectDeployment(
+  runner: ContractRunner,
+  manifest: PartialDeployment,
+  config: DeployConfig
+): Promise<DeploymentCheck[]> {
+  const provider = runner.provider!;
+  const checks: DeploymentCheck[] = [];
+  const check = (name: string, ok: boolean, expected?: string, actual?: string) =>
+    checks.push({ name, ok, expected, actual });
+
+  const { chainId } = await provider.getNetwork();
+  check("chainId", manifest.chainId === Number(chainId), String(manifest.chainId), String(chainId));
+
+  const deployed: Partial<Record<CoreContract, boolean>> = {};
+  for (const [contract, address] of [
+    ["IndexRegistry", manifest.registry],
+    ["Router", manifest.router],
+    ["IndexFactory", manifest.factory],
+  ] as [CoreContract, string | undefined][]) {
+    const libraries = contract === "IndexFactory" ? factoryLibraries(manifest.vaultDeployer) : {};
+    deployed[contract] = !!address && (await hasExpectedCode(provider, address, contract, libraries));
+    const expected = contract === "IndexFactory" ? `compiled artifact linked to ${manifest.vaultDeployer ?? "no VaultDeployer"}` : "compiled artifact";
+    check(`${contract} bytecode`, deployed[contract]!, expected, address ?? "not deployed");
+  }
+  if (manifest.vaultDeployer) {
+    const ok = await hasExpectedCode(provider, manifest.vaultDeployer, "VaultDeployer");
+    check("VaultDeployer bytecode", ok, "compiled artifact", manifest.vaultDeployer);
+  }
+
+  if (deployed.Router) {
+    const router = Router__factory.connect(manifest.router!, runner);
+    const [usdc, saucerSwapRouter] = await Promise.all([router.usdc(), router.saucerSwapRouter()]);
+    check("Router.usdc", sameAddress(usdc, config.usdc), config.usdc, usdc);
+    check("Router.saucerSwapRouter", sameAddress(saucerSwapRouter, config.saucerSwapRouter), config.saucerSwapRouter, saucerSwapRouter);
+  }
+
+  if (deployed.IndexFactory) {
+    const factory = IndexFactory__factory.connect(manifest.factory!, runner);
+    const [registry, usdc, router, fee] = await Promise.all([
+      factory.registry(),
+      factory.usdc(),
+      factory.router(),
+      factory.indexCreationFee(),
+    ]);
+    if (manifest.registry) {
+      check("IndexFactory.registry", sameAddress(registry, manifest.registry), manifest.registry, registry);
+    }
+    check("IndexFactory.usdc", sameAddress(usdc, config.usdc), config.usdc, usdc);
+    if (manifest.router) {
+      check("IndexFactory.router", sameAddress(router, manifest.router), manifest.router, router);
+    }
+    check("IndexFactory.indexCreationFee", fee === config.creationFee, formatUnits(config.creationFee, 6), formatUnits(fee, 6));
+
+    if (deployed.IndexRegistry) {
+      const authorized = await IndexRegistry__factory.connect(manifest.registry!, runner).authorizedFactories(
+        manifest.factory!
+      );
+      check("IndexRegistry.authorizedFactories", authorized, "true", String(authorized));
+    }
+
+    if (manifest.deployer) {
+      const allowance = await IERC20__factory.connect(config.usdc, runner).allowance(manifest.deployer, manifest.factory!);
+      check(
+        "USDC allowance",
+        allowance >= config.factoryAllowance,
+        `>= ${formatUnits(config.factoryAllowance, 6)}`,
+        formatUnits(allowance, 6)
+      );
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Lists the configuration calls deployed contracts still need, in order: authorize the factory
+ * in the registry, set the Router's SaucerSwap router, set the factory's router, set the
+ * creation fee and approve USDC for the factory (from `deployer`)
+ * @dev Only settings that differ from chain state get a call, so a configured deployment needs none.
+ *      Contracts in `pending` are not created yet and are taken to be as their constructor leaves them
+ * @param pending Addresses of contracts created by earlier steps of the same batch
+ */
+export async function planDeployConfiguration(
+  runner: ContractRunner,
+  manifest: Pick<DeploymentManifest, "registry" | "router" | "factory">,
+  config: DeployConfig,
+  deployer: string,
+  pending: string[] = []
+): Promise<ContractCall[]> {
+  const registry = IndexRegistry__factory.connect(manifest.registry, runner);
+  const router = Router__factory.connect(manifest.router, runner);
+  const factory = IndexFactory__factory.connect(manifest.factory, runner);
+  const usdc = IERC20__factory.connect(config.usdc, runner);
+  const isPending = (address: string) => pending.some((p) => sameAddress(p, address));
+  const newFactory = isPending(manifest.factory);
+  const calls: ContractCall[] = [];
+
+  if (newFactory || isPending(manifest.registry) || !(await registry.authorizedFactories(manifest.factory))) {
+    calls.push({
+      contract: "IndexRegistry",
+      to: manifest.registry,
+      method: "addAuthorizedFactory",
+      args: [manifest.factory],
+      description: "Authorize the factory in the registry",
+    });
+  }
+  // A new Router is constructed with the configured SaucerSwap router
+  if (!isPending(manifest.router) && !sameAddress(await router.saucerSwapRouter(), config.saucerSwapRouter)) {
+    calls.push({
+      contract: "Router",
+      to: manifest.router,
+      method: "updateSaucerSwapRouter",
+      args: [config.saucerSwapRouter],
+      description: `Set the Router's SaucerSwap router to ${config.saucerSwapRouter}`,
+    });
+  }
+  if (newFactory || !sameAddress(await factory.router(), manifest.router)) {
+    calls.push({
+      contract: "IndexFactory",
+      to: manifest.factory,
+      method: "setRouter",
+      args: [manifest.router],
+      description: `Set the factory's router to ${manifest.router}`,
+    });
+  }
+  if (newFactory || (await factory.indexCreationFee()) !== config.creationFee) {
+    calls.push({
+      contract: "IndexFactory",
+      to: manifest.factory,
+      method: "updateIndexCreationFee",
+      args: [config.creationFee],
+      description: `Set the index creation fee to ${formatUnits(config.creationFee, 6)} USDC`,
+    });
+  }
+  const allowanceShort = newFactory
+    ? config.factoryAllowance > 0n
+    : (await usdc.allowance(deployer, manifest.factory)) < config.factoryAllowance;
+  if (allowanceShort) {
+    calls.push({
+      contract: "ERC20",
+      to: config.usdc,
+      method: "approve",
+      args: [manifest.factory, config.factoryAllowance],
+      description: `Approve the factory for ${formatUnits(config.factoryAllowance, 6)} USDC`,
+    });
+  }
+  return calls;
+}
+
+/**
+ * Plans the deployment steps still missing, as creations and calls for `from` to sign offline
+ * @dev Contracts of `existing` are reused as `deployProtocol` would reuse them; the others are
+ *      created from `from` at the addresses its next nonces give, followed by the configuration
+ *      they need. A new factory links the manifest's VaultDeployer when its code matches. Without a
+ *      `deploymentBlock` yet, the manifest gets the current block, a lower bound of the first creation
+ * @param from Account that will sign the batch; must be an account key, not a multisig
+ */
+export async function planDeployment(
+  runner: ContractRunner,
+  existing: PartialDeployment | null,
+  config: DeployConfig,
+  from: string
+): Promise<DeploymentPlan> {
+  const provider = runner.provider!;
+  const [network, nonce, blockNumber] = await Promise.all([
+    provider.getNetwork(),
+    provider.getTransactionCount(from, "pending"),
+    provider.getBlockNumber(),
+  ]);
+  const chainId = Number(network.chainId);
+  if (existing && existing.chainId !== chainId) {
+    throw new Error(`Existing deployment is for chainId ${existing.chainId}, not ${chainId}`);
+  }
+
+  const creations: ContractCreation[] = [];
+  const create = (contract: CreationTarget, args: unknown[], libraries?: Record<string, string>): string => {
+    const address = getCreateAddress({ from, nonce: nonce + creations.length });
+    creations.push({ contract, address, args, ...(libraries ? { libraries } : {}), description: `Deploy ${contract}` });
+    return address;
+  };
+  const created = (address: string) => creations.some((c) => sameAddress(c.address, address));
+
+  let registry = existing?.registry;
+  if (!registry || !(await hasExpectedCode(provider, registry, "IndexRegistry"))) {
+    registry = create("IndexRegistry", [from]);
+  }
+
+  let router = existing?.router;
+  if (
+    !router ||
+    !(await hasExpectedCode(provider, router, "Router")) ||
+    !sameAddress(await Router__factory.connect(router, runner).usdc(), config.usdc)
+  ) {
+    router = create("Router", [config.usdc, config.saucerSwapRouter, from]);
+  }
+
+  let library = existing?.vaultDeployer;
+  const libraryReused = !!library && (await hasExpectedCode(provider, library, "VaultDeployer"));
+  let factory = existing?.factory;
+  let factoryReused =
+    !!factory &&
+    libraryReused &&
+    !created(registry) &&
+    (await hasExpectedCode(provider, factory, "IndexFactory", factoryLibraries(library)));
+  if (factoryReused) {
+    const contract = IndexFactory__factory.connect(factory!, runner);
+    const [factoryRegistry, usdc] = await Promise.all([contract.registry(), contract.usdc()]);
+    factoryReused = sameAddress(factoryRegistry, registry) && sameAddress(usdc, config.usdc);
+  }
+  if (!factoryReused) {
+    if (!libraryReused) {
+      library = create("VaultDeployer", []);
+    }
+    factory = create("IndexFactory", [registry, config.usdc, from], { [VAULT_DEPLOYER_LIBRARY]: library! });
+  }
+
+  const manifest: DeploymentManifest = {
+    ...existing,
+    usdc: config.usdc,
+    saucerSwapRouter: config.saucerSwapRouter,
+    registry,
+    router,
+    factory: factory!,
+    ...(library ? { vaultDeployer: library } : {}),
+    deployer: existing?.deployer ?? from,
+    deploymentBlock: existing?.deploymentBlock ?? blockNumber,
+    timestamp: Math.floor(Date.now() / 1000),
+    chainId,
+  };
+  const pending = creations.map((c) => c.address);
+  const calls = await planDeployConfiguration(runner, manifest, config, from, pending);
+  return { manifest, steps: [...creations, ...calls], ...(creations.length > 0 ? { nonce } : {}) };
+}
+
+/**
+ * Deploys IndexRegistry, Router and IndexFactory and wires them together
+ * @dev Steps: deploy registry, router, VaultDeployer library, factory linked to it; authorize factory
+ *      in registry; set router in factory; set creation fee; approve USDC for the factory.
+ *      With `options.existing`, contracts (and the library) whose on-chain bytecode matches are reused
+ *      and only configuration that differs from `config` is sent. `deploymentBlock` is the block of
+ *      the first contract deployed and is never moved, so indexing always starts early enough
+ * @return manifest Addresses and metadata of the deployment
+ */
+export async function deployProtocol(
+  deployer: Signer,
+  config: DeployConfig,
+  options: DeployOptions = {}
+): Promise<DeploymentManifest> {
+  const settings = options.txOverrides ?? {};
+  const log = options.log ?? (() => {});
+  const provider = deployer.provider!;
+
+  const deployerAddress = await deployer.getAddress();
+  const network = await provider.getNetwork();
+  const chainId = Number(network.chainId);
+
+  const existing = options.existing ?? undefined;
+  if (existing && existing.chainId !== chainId) {
+    throw new Error(`Existing deployment is for chainId ${existing.chainId}, not ${chainId}`);
+  }
+  const manifest: PartialDeployment = {
+    ...existing,
+    usdc: config.usdc,
+    saucerSwapRouter: config.saucerSwapRouter,
+    deployer: existing?.deployer ?? deployerAddress,
+    chainId,
+  };
+  const persist = () => {
+    manifest.timestamp = Math.floor(Date.now() / 1000);
+    options.onProgress?.({ ...manifest });
+  };
+
+  /** Reuses the manifest's address when its bytecode checks out */
+  const reusable = async (
+    contract: CreationTarget,
+    address: string | undefined,
+    libraries: Record<string, string> = {}
+  ): Promise<boolean> => {
+    if (!address) {
+      return false;
+    }
+    if (await hasExpectedCode(provider, address, contract, libraries)) {
+      log(`♻️  ${contract} already deployed: ${address}`);
+      return true;
+    }
+    log(`⚠️  ${contract} at ${address} does not match the compiled artifact, redeploying`);
+    return false;
+  };
+
+  // 1. Deploy Registry
+  if (!(await reusable("IndexRegistry", manifest.registry))) {
+    log("📝 Deploying IndexRegistry...");
+    const registry = await deployContract(
+      deployer,
+      await new IndexRegistry__factory(deployer).getDeployTransaction(deployerAddress),
+      "IndexRegistry",
+      settings
+    );
+    manifest.registry = registry.address;
+    manifest.deploymentBlock ??= registry.blockNumber;
+    // Contracts wired to the old registry must be replaced too
+    delete manifest.factory;
+    persist();
+    log(`✅ IndexRegistry deployed: ${manifest.registry}`);
+  }
+
+  // 2. Deploy Router
+  let routerReused = await reusable("Router", manifest.router);
+  if (routerReused) {
+    const usdc = await Router__factory.connect(manifest.router!, deployer).usdc();
+    if (!sameAddress(usdc, config.usdc)) {
+      log(`⚠️  Router uses USDC ${usdc}, expected ${config.usdc}, redeploying`);
+      routerReused = false;
+    }
+  }
+  if (!routerReused) {
+    log("📝 Deploying Router...");
+    const router = await deployContract(
+      deployer,
+      await new Router__factory(deployer).getDeployTransaction(config.usdc, config.saucerSwapRouter, deployerAddress),
+      "Router",
+      settings
+    );
+    manifest.router = router.address;
+    manifest.deploymentBlock ??= router.blockNumber;
+    persist();
+    log(`✅ Router deployed: ${manifest.router}`);
+  }
+
+  // 3. Deploy Factory, reused only while linked to a VaultDeployer that checks out
+  const libraryReused = await reusable("VaultDeployer", manifest.vaultDeployer);
+  let factoryReused =
+    libraryReused && (await reusable("IndexFactory", manifest.factory, factoryLibraries(manifest.vaultDeployer)));
+  if (factoryReused) {
+    const factory = IndexFactory__factory.connect(manifest.factory!, deployer);
+    const [registry, usdc] = await Promise.all([factory.registry(), factory.usdc()]);
+    if (!sameAddress(registry, manifest.registry!) || !sameAddress(usdc, config.usdc)) {
+      log("⚠️  IndexFactory points at a different registry or USDC, redeploying");
+      factoryReused = false;
+    }
+  }
+  if (!factoryReused) {
+    if (!libraryReused) {
+      log("📝 Deploying VaultDeployer...");
+      const library = await deployVaultDeployer(deployer, settings);
+      manifest.vaultDeployer = library.address;
+      manifest.deploymentBlock ??= library.blockNumber;
+      persist();
+      log(`✅ VaultDeployer deployed: ${manifest.vaultDeployer}`);
+    }
+
+    log("📝 Deploying IndexFactory...");
+    const linked = await linkIndexFactory(deployer, settings, manifest.vaultDeployer);
+    const factory = await deployContract(
+      deployer,
+      await linked.getDeployTransaction(manifest.registry!, config.usdc, deployerAddress),
+      "IndexFactory",
+      settings
+    );
+    manifest.factory = factory.address;
+    manifest.deploymentBlock ??= factory.blockNumber;
+    persist();
+    log(`✅ IndexFactory deployed: ${manifest.factory}`);
+  }
+
+  // 4. Set up initial configuration (only what differs from chain state)
+  log("\n⚙️ Setting up initial configuration...");
+  const steps = await planDeployConfiguration(deployer, manifest as DeploymentManifest, config, deployerAddress);
+  if (steps.length === 0) {
+    log("♻️  Configuration already up to date");
+  }
+  for (const step of steps) {
+    log(`🔧 ${step.description}...`);
+    const data = callInterface(step.contract).encodeFunctionData(step.method, step.args);
+    await sendTransaction(deployer, { to: step.to, data }, { settings, action: `${step.contract}.${step.method}` });
+    log("✅ Done");
+  }
+
+  persist();
+  return manifest as DeploymentManifest;
+}
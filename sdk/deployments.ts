@@ -0,0 +1,84 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, resolve } from "path";
+import type { Provider } from "ethers";
+import { NetworkConfig, getNetworkByChainId } from "./networks";
+import type { DeploymentManifest, PartialDeployment } from "./types";
+
+/** Fields only present once every deployment step has completed */
+const REQUIRED_FIELDS: (keyof DeploymentManifest)[] = ["registry", "router", "factory", "deploymentBlock"];
+
+/**
+ * Loads a deployment manifest from disk
+ * @param file Path to the manifest, relative to the current working directory
+ * @dev Refuses manifests left behind by an interrupted deployment
+ */
+export function loadDeployment(file: string): DeploymentManifest {
+  const manifest = loadPartialDeployment(file);
+  if (!manifest) {
+    throw new Error(`Deployment file not found at ${file}. Please run deployment script first.`);
+  }
+  const missing = REQUIRED_FIELDS.filter((field) => manifest[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Deployment ${file} is incomplete (missing ${missing.join(", ")}). Rerun the deployment to resume it.`);
+  }
+  return manifest as DeploymentManifest;
+}
+
+/**
+ * Loads a possibly incomplete manifest, e.g. to resume a deployment
+ * @return manifest The manifest, or null when the file does not exist
+ */
+export function loadPartialDeployment(file: string): PartialDeployment | null {
+  const path = resolve(file);
+  if (!existsSync(path)) {
+    return null;
+  }
+  return JSON.parse(readFileSync(path, "utf8")) as PartialDeployment;
+}
+
+/**
+ * Fails unless a manifest was written for the given chain
+ * @param file Manifest path, for the error message
+ */
+export function assertDeploymentChain(manifest: DeploymentManifest, chainId: number | bigint, file: string): void {
+  if (manifest.chainId !== Number(chainId)) {
+    throw new Error(
+      `Deployment ${file} is for chainId ${manifest.chainId} but the provider is connected to chainId ${chainId}. ` +
+        "Refusing to use addresses from another network."
+    );
+  }
+}
+
+/**
+ * Loads the manifest for the chain a provider is connected to
+ * @dev Picks `deployments/<network>.json` from the chainId unless `file` is given,
+ *      and refuses manifests written for a different chain
+ */
+export async function loadNetworkDeployment(
+  provider: Provider,
+  file?: string
+): Promise<{ deployment: DeploymentManifest; network: NetworkConfig; file: string }> {
+  const { chainId } = await provider.getNetwork();
+  const network = getNetworkByChainId(chainId);
+  const path = file ?? network.deploymentFile;
+  const deployment = loadDeployment(path);
+  assertDeploymentChain(deployment, chainId, path);
+  return { deployment, network, file: path };
+}
+
+/**
+ * Writes a deployment manifest to disk, creating the directory if needed
+ * @param file Defaults to the manifest path of the manifest's chain
+ * @return path Absolute path of the written file
+ */
+export function saveDeployment(
+  manifest: DeploymentManifest | PartialDeployment,
+  file: string = getNetworkByChainId(manifest.chainId).deploymentFile
+): string {
+  const path = resolve(file);
+  if (!existsSync(dirname(path))) {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  writeFileSync(path, JSON.stringify(manifest, null, 2));
+  return path;
+}
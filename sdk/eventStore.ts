@@ -0,0 +1,325 @@
+import { existsSync, mkdirSync } from "fs";
+import { dirname, resolve } from "path";
+import Database from "better-sqlite3";
+import type { IndexCreatedEvent } from "./types";
+
+/** Bumped whenever the tables change; older databases must be rebuilt */
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS indexes (
+    index_id INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    curator TEXT NOT NULL,
+    vault TEXT NOT NULL,
+    index_token TEXT NOT NULL,
+    tokens TEXT NOT NULL,
+    weights TEXT NOT NULL,
+    creator TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    address TEXT NOT NULL,
+    contract TEXT NOT NULL,
+    name TEXT NOT NULL,
+    index_id INTEGER,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_index ON events (index_id, name, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (name, block_number);
+`;
+
+/**
+ * Contract kinds whose events are indexed
+ */
+export type EventSource = "IndexFactory" | "IndexRegistry" | "BasketVault" | "Router" | "IndexToken";
+
+/**
+ * Decoded event argument: bigints are stored as decimal strings
+ */
+export type EventArg = string | number | boolean | EventArg[];
+
+/**
+ * One indexed log
+ */
+export interface StoredEvent {
+  blockNumber: number;
+  logIndex: number;
+  txHash: string;
+  timestamp: number;              // Block timestamp (seconds)
+  address: string;                // Emitting contract
+  contract: EventSource;
+  name: string;                   // Event name, e.g. "Minted"
+  indexId: number | null;         // Index the emitting vault/token belongs to, when known
+  args: Record<string, EventArg>;
+}
+
+/**
+ * Filter for `EventStore.getEvents`
+ */
+export interface EventQuery {
+  name?: string | string[];
+  indexId?: number;
+  address?: string;
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * Identity and progress of an indexed deployment
+ */
+export interface SyncState {
+  chainId: number;
+  factory: string;
+  deploymentBlock: number;
+  lastBlock: number;              // Last block fully stored (deploymentBlock - 1 before the first scan)
+}
+
+/**
+ * Events and checkpoint of one block range, written atomically by `EventStore.commit`
+ */
+export interface BlockRangeBatch {
+  toBlock: number;
+  blocks: Map<number, number>;    // Block number to timestamp
+  indexes: (IndexCreatedEvent & { blockNumber: number; txHash: string })[];
+  events: Omit<StoredEvent, "timestamp">[];
+}
+
+interface EventRow {
+  block_number: number;
+  log_index: number;
+  tx_hash: string;
+  timestamp: number;
+  address: string;
+  contract: EventSource;
+  name: string;
+  index_id: number | null;
+  args: string;
+}
+
+interface IndexRow {
+  index_id: number;
+  name: string;
+  symbol: string;
+  curator: string;
+  vault: string;
+  index_token: string;
+  tokens: string;
+  weights: string;
+  creator: string;
+}
+
+/**
+ * SQLite database of protocol events written by `EventIndexer`
+ * @dev Every block range is committed in one transaction together with the checkpoint,
+ *      so an interrupted sync resumes from the last complete range
+ */
+export class EventStore {
+  private readonly db: Database.Database;
+
+  /**
+   * @param file Database path (created with its directory if missing), or ":memory:"
+   */
+  constructor(readonly file: string) {
+    if (file !== ":memory:" && !existsSync(dirname(resolve(file)))) {
+      mkdirSync(dirname(resolve(file)), { recursive: true });
+    }
+    this.db = new Database(file);
+    this.db.pragma("journal_mode = WAL");
+    this.db.exec(SCHEMA);
+
+    const version = this.getMeta("schemaVersion");
+    if (version === undefined) {
+      this.setMeta("schemaVersion", String(SCHEMA_VERSION));
+    } else if (Number(version) !== SCHEMA_VERSION) {
+      throw new Error(`Event database ${file} has schema version ${version}, expected ${SCHEMA_VERSION}. Delete it to rebuild.`);
+    }
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Gets the deployment the database was built for and how far it got
+   * @return state The sync state, or null for a new database
+   */
+  getSyncState(): SyncState | null {
+    const chainId = this.getMeta("chainId");
+    if (chainId === undefined) {
+      return null;
+    }
+    return {
+      chainId: Number(chainId),
+      factory: this.getMeta("factory")!,
+      deploymentBlock: Number(this.getMeta("deploymentBlock")),
+      lastBlock: Number(this.getMeta("lastBlock")),
+    };
+  }
+
+  /**
+   * Binds a new database to a deployment
+   */
+  initialize(state: SyncState): void {
+    this.db.transaction(() => {
+      this.setMeta("chainId", String(state.chainId));
+      this.setMeta("factory", state.factory);
+      this.setMeta("deploymentBlock", String(state.deploymentBlock));
+      this.setMeta("lastBlock", String(state.lastBlock));
+    })();
+  }
+
+  /**
+   * Stores the events of a block range and advances the checkpoint to `batch.toBlock`
+   * @dev Rows already present are replaced, so re-scanning a range is harmless
+   */
+  commit(batch: BlockRangeBatch): void {
+    const insertBlock = this.db.prepare("INSERT OR REPLACE INTO blocks (number, timestamp) VALUES (?, ?)");
+    const insertIndex = this.db.prepare(
+      `INSERT OR REPLACE INTO indexes
+        (index_id, name, symbol, curator, vault, index_token, tokens, weights, creator, block_number, tx_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO events
+        (block_number, log_index, tx_hash, address, contract, name, index_id, args)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    this.db.transaction(() => {
+      for (const [number, timestamp] of batch.blocks) {
+        insertBlock.run(number, timestamp);
+      }
+      for (const index of batch.indexes) {
+        insertIndex.run(
+          index.indexId,
+          index.name,
+          index.symbol,
+          index.curator,
+          index.vault,
+          index.indexToken,
+          JSON.stringify(index.tokens),
+          JSON.stringify(index.weights.map(String)),
+          index.creator,
+          index.blockNumber,
+          index.txHash
+        );
+      }
+      for (const event of batch.events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.txHash,
+          event.address,
+          event.contract,
+          event.name,
+          event.indexId,
+          JSON.stringify(event.args)
+        );
+      }
+      this.setMeta("lastBlock", String(batch.toBlock));
+    })();
+  }
+
+  /**
+   * Gets every index created so far, in ID order
+   */
+  getIndexes(): IndexCreatedEvent[] {
+    const rows = this.db.prepare("SELECT * FROM indexes ORDER BY index_id").all() as IndexRow[];
+    return rows.map((row) => ({
+      indexId: row.index_id,
+      name: row.name,
+      symbol: row.symbol,
+      curator: row.curator,
+      vault: row.vault,
+      indexToken: row.index_token,
+      tokens: JSON.parse(row.tokens),
+      weights: (JSON.parse(row.weights) as string[]).map(BigInt),
+      creator: row.creator,
+    }));
+  }
+
+  /**
+   * Gets stored events in chain order
+   */
+  getEvents(query: EventQuery = {}): StoredEvent[] {
+    const clauses: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.name !== undefined) {
+      const names = Array.isArray(query.name) ? query.name : [query.name];
+      clauses.push(`e.name IN (${names.map(() => "?").join(", ")})`);
+      params.push(...names);
+    }
+    if (query.indexId !== undefined) {
+      clauses.push("e.index_id = ?");
+      params.push(query.indexId);
+    }
+    if (query.address !== undefined) {
+      clauses.push("lower(e.address) = lower(?)");
+      params.push(query.address);
+    }
+    if (query.fromBlock !== undefined) {
+      clauses.push("e.block_number >= ?");
+      params.push(query.fromBlock);
+    }
+    if (query.toBlock !== undefined) {
+      clauses.push("e.block_number <= ?");
+      params.push(query.toBlock);
+    }
+
+    const where = clauses.length > 0 ? `WHERE ${clauses.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(
+        `SELECT e.*, b.timestamp FROM events e JOIN blocks b ON b.number = e.block_number
+          ${where} ORDER BY e.block_number, e.log_index`
+      )
+      .all(...params) as EventRow[];
+
+    return rows.map((row) => ({
+      blockNumber: row.block_number,
+      logIndex: row.log_index,
+      txHash: row.tx_hash,
+      timestamp: row.timestamp,
+      address: row.address,
+      contract: row.contract,
+      name: row.name,
+      indexId: row.index_id,
+      args: JSON.parse(row.args),
+    }));
+  }
+
+  /**
+   * Counts stored events by name
+   */
+  countEvents(): Record<string, number> {
+    const rows = this.db.prepare("SELECT name, COUNT(*) AS count FROM events GROUP BY name ORDER BY name").all() as {
+      name: string;
+      count: number;
+    }[];
+    return Object.fromEntries(rows.map(({ name, count }) => [name, count]));
+  }
+
+  private getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | undefined;
+    return row?.value;
+  }
+
+  private setMeta(key: string, value: string): void {
+    this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+  }
+}
@@ -0,0 +1,177 @@
+import { Interface, Provider, getAddress, isAddress, toBeHex } from "ethers";
+import type { HedgeraClient } from "./HedgeraClient";
+
+/** Hedera entity ID such as `0.0.456858` (shard.realm.num) */
+const ENTITY_ID = /^(\d+)\.(\d+)\.(\d+)$/;
+
+/** HIP-719 view exposed by every HTS token, answering for the caller */
+const HIP719 = new Interface(["function isAssociated() view returns (bool)"]);
+
+/**
+ * Whether a string is a Hedera entity ID (`shard.realm.num`)
+ */
+export function isEntityId(value: string): boolean {
+  return ENTITY_ID.test(value.trim());
+}
+
+/**
+ * Converts a Hedera entity ID to its long-zero EVM address
+ * @dev The address packs the shard (4 bytes), realm (8 bytes) and number (8 bytes)
+ */
+export function entityIdToAddress(id: string): string {
+  const match = ENTITY_ID.exec(id.trim());
+  if (!match) {
+    throw new Error(`Invalid Hedera entity ID "${id}" (expected shard.realm.num, e.g. 0.0.456858)`);
+  }
+  const [shard, realm, num] = match.slice(1).map(BigInt);
+  if (shard >= 1n << 32n || realm >= 1n << 64n || num >= 1n << 64n) {
+    throw new Error(`Hedera entity ID ${id} is out of range`);
+  }
+  return getAddress(`0x${toBeHex(shard, 4).slice(2)}${toBeHex(realm, 8).slice(2)}${toBeHex(num, 8).slice(2)}`);
+}
+
+/**
+ * Whether an address is a long-zero address, i.e. derived from a Hedera entity ID in shard 0, realm 0
+ * @dev HTS tokens and contracts have one; accounts with an ECDSA alias use the alias instead
+ */
+export function isLongZeroAddress(address: string): boolean {
+  return isAddress(address) && /^0x0{24}/i.test(address) && BigInt(address) !== 0n;
+}
+
+/**
+ * Converts a long-zero EVM address back to its entity ID
+ * @return id The `0.0.x` ID, or null for addresses that are not long-zero
+ */
+export function addressToEntityId(address: string): string | null {
+  if (!isLongZeroAddress(address)) {
+    return null;
+  }
+  return `0.0.${BigInt(address)}`;
+}
+
+/**
+ * Parses an EVM address or a Hedera entity ID into a checksummed EVM address
+ * @param label Names the value in the error message
+ */
+export function toEvmAddress(value: string, label = "address"): string {
+  if (isEntityId(value)) {
+    return entityIdToAddress(value);
+  }
+  if (!isAddress(value)) {
+    throw new Error(`Invalid ${label}: "${value}" (expected an EVM address or a Hedera ID such as 0.0.456858)`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * Formats an address for display, followed by its entity ID when it is long-zero
+ */
+export function formatAddress(address: string): string {
+  const id = addressToEntityId(address);
+  return id ? `${address} (${id})` : address;
+}
+
+/**
+ * Tells whether `account` can receive `token`
+ */
+export type AssociationCheck = (account: string, token: string) => Promise<boolean>;
+
+/** Who has to hold a token during an operation */
+export type AssociationRole = "user" | "vault" | "router" | "factory" | "curator" | "platform";
+
+/** Operations `checkAssociations` can preflight */
+export type AssociationOperation = "createIndex" | "mint" | "redeem" | "redeemInKind";
+
+/**
+ * A token an account must be associated with before an operation can succeed
+ */
+export interface MissingAssociation {
+  account: string;
+  role: AssociationRole;
+  token: string;
+}
+
+/**
+ * Checks association through the HIP-719 `isAssociated()` view of HTS tokens
+ * @dev Tokens at other addresses (mocks, the ERC-20 index tokens) need no association
+ *      and always pass. Accounts with free automatic association slots still report false
+ */
+export function hip719AssociationCheck(provider: Provider): AssociationCheck {
+  return async (account, token) => {
+    if (!isLongZeroAddress(token)) {
+      return true;
+    }
+    const result = await provider.call({ to: token, from: account, data: HIP719.encodeFunctionData("isAssociated") });
+    return HIP719.decodeFunctionResult("isAssociated", result)[0] as boolean;
+  };
+}
+
+/**
+ * Lists the HTS associations an operation needs that are missing
+ * @dev On Hedera, a transfer to an account not associated with the token fails. Inside the
+ *      vault's swaps that failure is swallowed and the allocation stays in USDC, so it is
+ *      checked up front. Every account that receives a token during the operation is covered:
+ *      - createIndex: the Router for USDC and every component, and the creator and the factory
+ *        for USDC when there is a creation fee. The vault does not exist yet
+ *      - mint, redeem: the vault and the Router for USDC and every component, and the user for USDC
+ *      - redeemInKind: the user for every component and USDC (its part of idle USDC), and the vault
+ *        owner and the platform when they take a share of the redeem fee
+ * @param request `tokens` lists the components for createIndex; the other operations read them from `indexId`
+ * @param check Defaults to `hip719AssociationCheck` on the client's provider
+ */
+export async function checkAssociations(
+  client: HedgeraClient,
+  operation: AssociationOperation,
+  request: { account: string; indexId?: number; tokens?: string[] },
+  check: AssociationCheck = hip719AssociationCheck(client.runner.provider!)
+): Promise<MissingAssociation[]> {
+  const usdc = client.deployment.usdc;
+  const router = client.deployment.router;
+  const needs: MissingAssociation[] = [];
+  const need = (account: string, role: AssociationRole, tokens: string[]) =>
+    tokens.forEach((token) => needs.push({ account, role, token }));
+
+  if (operation === "createIndex") {
+    const tokens = request.tokens ?? [];
+    need(router, "router", [usdc, ...tokens]);
+    if ((await client.factory.indexCreationFee()) > 0n) {
+      need(request.account, "user", [usdc]);
+      need(client.deployment.factory, "factory", [usdc]);
+    }
+  } else {
+    if (request.indexId === undefined) {
+      throw new Error(`Association check: ${operation} needs an index ID`);
+    }
+    const index = await client.getIndex(request.indexId);
+    const tokens = index.components.map((c) => c.token);
+    if (operation === "redeemInKind") {
+      need(request.account, "user", [...tokens, usdc]);
+      if (index.fees.redeemFee > 0n) {
+        if (index.fees.platformShare < 10000n) {
+          need(await client.vault(index.vault).owner(), "curator", tokens);
+        }
+        if (index.fees.platformShare > 0n) {
+          need(await client.registry.owner(), "platform", tokens);
+        }
+      }
+    } else {
+      need(index.vault, "vault", [usdc, ...tokens]);
+      need(router, "router", [usdc, ...tokens]);
+      need(request.account, "user", [usdc]);
+    }
+  }
+
+  const missing: MissingAssociation[] = [];
+  const seen = new Set<string>();
+  for (const entry of needs) {
+    const key = `${entry.account}:${entry.token}`.toLowerCase();
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    if (!(await check(entry.account, entry.token))) {
+      missing.push(entry);
+    }
+  }
+  return missing;
+}
@@ -0,0 +1,21 @@
+export * from "./types";
+export * from "./deployments";
+export * from "./HedgeraClient";
+export * from "./artifacts";
+export * from "./deploy";
+export * from "./tokens";
+export * from "./networks";
+export * from "./local";
+export * from "./indexDefinitions";
+export * from "./eventStore";
+export * from "./indexer";
+export * from "./analytics";
+export * from "./portfolio";
+export * from "./keeper";
+export * from "./adminConfig";
+export * from "./batch";
+export * from "./hedera";
+export * from "./transactions";
+export * from "./routing";
+export * from "./api";
+export * from "./bundle";
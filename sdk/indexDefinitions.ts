@@ -0,0 +1,259 @@
+import { readFileSync } from "fs";
+import { extname, resolve } from "path";
+import { isAddress } from "ethers";
+import { load as loadYaml } from "js-yaml";
+import type { HedgeraClient } from "./HedgeraClient";
+import { entityIdToAddress, isEntityId } from "./hedera";
+import type { CreateIndexParams } from "./types";
+
+/**
+ * Limits enforced by `IndexFactory._validateIndexCreation` and `IndexRegistry.createIndex`
+ */
+export const INDEX_RULES = {
+  MIN_TOKENS: 2,
+  MAX_TOKENS: 10,
+  MIN_TOKEN_WEIGHT: 100,  // 1%
+  MAX_TOKEN_WEIGHT: 5000, // 50%
+  BASIS_POINTS: 10000,
+  MAX_TOTAL_FEES: 500,    // 5%
+};
+
+/** USDC amount quoted against each component's pool (1 USDC) */
+const POOL_PROBE_AMOUNT = 1_000_000n;
+
+/**
+ * An index described in a JSON or YAML file
+ */
+export interface IndexDefinition {
+  name: string;
+  symbol: string;
+  description?: string;
+  curator?: string;                                     // Address or Hedera account ID; defaults to the creating account
+  components: { token: string; weight: number }[];     // token symbol, address or Hedera token ID, weight in basis points
+  mintFee: number;                                      // basis points
+  redeemFee: number;                                    // basis points
+}
+
+/**
+ * Parses index definitions from JSON or YAML source
+ * @dev Accepts a single definition, a list, or `{ indexes: [...] }`. Only the shape is checked here;
+ *      use `validateIndexDefinition` for the factory rules
+ * @param origin File name used in error messages
+ */
+export function parseIndexDefinitions(source: string, format: "json" | "yaml", origin = "<input>"): IndexDefinition[] {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(source) : loadYaml(source);
+  } catch (error) {
+    throw new Error(`${origin}: invalid ${format.toUpperCase()}: ${(error as Error).message}`);
+  }
+
+  if (isObject(raw) && Array.isArray(raw.indexes)) {
+    raw = raw.indexes;
+  }
+  const entries = Array.isArray(raw) ? raw : [raw];
+  return entries.map((entry, i) => parseDefinition(entry, `${origin}[${i}]`));
+}
+
+/**
+ * Loads index definitions from a `.json`, `.yaml` or `.yml` file
+ */
+export function loadIndexDefinitions(file: string): IndexDefinition[] {
+  const extension = extname(file).toLowerCase();
+  if (![".json", ".yaml", ".yml"].includes(extension)) {
+    throw new Error(`Unsupported index definition file ${file} (expected .json, .yaml or .yml)`);
+  }
+
+  let source: string;
+  try {
+    source = readFileSync(resolve(file), "utf8");
+  } catch {
+    throw new Error(`Index definition file not found at ${file}`);
+  }
+  return parseIndexDefinitions(source, extension === ".json" ? "json" : "yaml", file);
+}
+
+/**
+ * Checks a definition against the factory and registry rules without touching the chain
+ * @param tokens Symbol to address table used to resolve component tokens
+ * @param usdc USDC address, which cannot be a basket component
+ * @return issues One message per violated rule; empty when the definition is valid
+ */
+export function validateIndexDefinition(
+  definition: IndexDefinition,
+  tokens: Record<string, string>,
+  usdc?: string
+): string[] {
+  const issues: string[] = [];
+  const { components } = definition;
+
+  if (definition.name.trim() === "") issues.push("name cannot be empty");
+  if (definition.symbol.trim() === "") issues.push("symbol cannot be empty");
+  if (definition.curator !== undefined && !isAddress(definition.curator) && !isEntityId(definition.curator)) {
+    issues.push(`curator "${definition.curator}" is not an address or Hedera account ID`);
+  }
+
+  if (components.length < INDEX_RULES.MIN_TOKENS) {
+    issues.push(`too few tokens: ${components.length} (minimum ${INDEX_RULES.MIN_TOKENS})`);
+  }
+  if (components.length > INDEX_RULES.MAX_TOKENS) {
+    issues.push(`too many tokens: ${components.length} (maximum ${INDEX_RULES.MAX_TOKENS})`);
+  }
+
+  const seen = new Map<string, string>();
+  let totalWeight = 0;
+  for (const { token, weight } of components) {
+    const address = lookupToken(token, tokens);
+    if (!address) {
+      issues.push(`unknown token "${token}". Known symbols: ${Object.keys(tokens).join(", ")}`);
+    } else if (BigInt(address) === 0n) {
+      issues.push(`${token}: token cannot be zero`);
+    } else if (usdc && address.toLowerCase() === usdc.toLowerCase()) {
+      issues.push(`${token}: cannot include USDC in basket`);
+    } else if (seen.has(address.toLowerCase())) {
+      issues.push(`duplicate token: ${token} (same as ${seen.get(address.toLowerCase())})`);
+    } else {
+      seen.set(address.toLowerCase(), token);
+    }
+
+    if (weight < INDEX_RULES.MIN_TOKEN_WEIGHT) {
+      issues.push(`${token}: weight ${weight} too low (minimum ${INDEX_RULES.MIN_TOKEN_WEIGHT})`);
+    }
+    if (weight > INDEX_RULES.MAX_TOKEN_WEIGHT) {
+      issues.push(`${token}: weight ${weight} too high (maximum ${INDEX_RULES.MAX_TOKEN_WEIGHT})`);
+    }
+    totalWeight += weight;
+  }
+  if (totalWeight !== INDEX_RULES.BASIS_POINTS) {
+    issues.push(`weights must sum to ${INDEX_RULES.BASIS_POINTS}, got ${totalWeight}`);
+  }
+
+  if (definition.mintFee + definition.redeemFee > INDEX_RULES.MAX_TOTAL_FEES) {
+    issues.push(
+      `total fees too high: ${definition.mintFee} + ${definition.redeemFee} (maximum ${INDEX_RULES.MAX_TOTAL_FEES})`
+    );
+  }
+
+  return issues;
+}
+
+/**
+ * Resolves a definition to `createIndex` parameters
+ * @dev Validate first; this only fails on unknown tokens
+ * @param curator Used when the definition has no curator
+ */
+export function toCreateIndexParams(
+  definition: IndexDefinition,
+  tokens: Record<string, string>,
+  curator: string
+): CreateIndexParams {
+  return {
+    name: definition.name,
+    symbol: definition.symbol,
+    curator: definition.curator === undefined ? curator : lookupAccount(definition.curator),
+    tokens: definition.components.map(({ token }) => {
+      const address = lookupToken(token, tokens);
+      if (!address) {
+        throw new Error(`Unknown token "${token}". Known symbols: ${Object.keys(tokens).join(", ")}`);
+      }
+      return address;
+    }),
+    weights: definition.components.map(({ weight }) => BigInt(weight)),
+    mintFee: BigInt(definition.mintFee),
+    redeemFee: BigInt(definition.redeemFee),
+  };
+}
+
+/**
+ * Checks the parts of index creation that depend on chain state
+ * @dev Covers the factory's router and curator authorization, and a quote for every component
+ *      along its Router path (the direct USDC pool unless one is configured), asked of the DEX itself
+ *      through `HedgeraClient.quoteSwap`. A path the DEX cannot quote, or that quotes nothing, counts
+ *      as a missing pool
+ * @param creator Account that will send `createIndex`
+ * @return issues One message per failed check; empty when creation should succeed
+ */
+export async function checkIndexOnChain(
+  client: HedgeraClient,
+  params: CreateIndexParams,
+  creator: string
+): Promise<string[]> {
+  const issues: string[] = [];
+  const { factory, router } = client;
+
+  if (BigInt(await factory.router()) === 0n) {
+    issues.push("router not set in IndexFactory");
+  }
+
+  if (
+    (await factory.requireCuratorAuthorization()) &&
+    params.curator.toLowerCase() !== creator.toLowerCase() &&
+    !(await factory.authorizedCurators(params.curator))
+  ) {
+    issues.push(`curator ${params.curator} not authorized`);
+  }
+
+  for (const token of params.tokens) {
+    const path = [...(await router.getTokenPath(token))];
+    const amountOut = await client.quoteSwap(POOL_PROBE_AMOUNT, path);
+    if (amountOut === null || amountOut === 0n) {
+      issues.push(path.length > 2 ? `no quote along the Router path for ${token}` : `no USDC pool for ${token}`);
+    }
+  }
+
+  return issues;
+}
+
+function lookupAccount(account: string): string {
+  return isEntityId(account) ? entityIdToAddress(account) : account;
+}
+
+function lookupToken(token: string, tokens: Record<string, string>): string | undefined {
+  if (isEntityId(token)) {
+    return entityIdToAddress(token);
+  }
+  return tokens[token.toUpperCase()] ?? (isAddress(token) ? token : undefined);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseDefinition(raw: unknown, origin: string): IndexDefinition {
+  if (!isObject(raw)) {
+    throw new Error(`${origin}: expected an index definition object`);
+  }
+  const string = (key: string, optional = false): string | undefined => {
+    const value = raw[key];
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== "string") throw new Error(`${origin}.${key}: expected a string`);
+    return value;
+  };
+  const integer = (value: unknown, path: string): number => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+      throw new Error(`${path}: expected a non-negative integer (basis points)`);
+    }
+    return value;
+  };
+
+  if (!Array.isArray(raw.components)) {
+    throw new Error(`${origin}.components: expected a list of { token, weight }`);
+  }
+  const components = raw.components.map((component, i) => {
+    const path = `${origin}.components[${i}]`;
+    if (!isObject(component) || typeof component.token !== "string") {
+      throw new Error(`${path}: expected { token, weight }`);
+    }
+    return { token: component.token, weight: integer(component.weight, `${path}.weight`) };
+  });
+
+  return {
+    name: string("name")!,
+    symbol: string("symbol")!,
+    description: string("description", true),
+    curator: string("curator", true),
+    components,
+    mintFee: integer(raw.mintFee ?? 0, `${origin}.mintFee`),
+    redeemFee: integer(raw.redeemFee ?? 0, `${origin}.redeemFee`),
+  };
+}
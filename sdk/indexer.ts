@@ -0,0 +1,292 @@
+import { Interface, Log, LogDescription, Provider } from "ethers";
+import {
+  BasketVault__factory,
+  IndexFactory__factory,
+  IndexRegistry__factory,
+  IndexToken__factory,
+  Router__factory,
+} from "../typechain-types";
+import { BlockRangeBatch, EventArg, EventSource, EventStore, StoredEvent, SyncState } from "./eventStore";
+import type { DeploymentManifest, IndexCreatedEvent } from "./types";
+
+/** Blocks per `eth_getLogs` call; the Hashio relays reject wider ranges */
+export const DEFAULT_BLOCK_RANGE = 1000;
+
+/**
+ * Events stored for each contract kind
+ */
+export const INDEXED_EVENTS: Record<EventSource, string[]> = {
+  IndexFactory: ["IndexCreated"],
+  IndexRegistry: ["IndexStatusUpdated", "IndexMetricsUpdated", "IndexWeightsUpdated", "PlatformShareUpdated"],
+  BasketVault: [
+    "Minted",
+    "Redeemed",
+    "RedeemedInKind",
+    "FeesCollected",
+    "FeesWithdrawn",
+    "PlatformFeesWithdrawn",
+    "BasketRebalanced",
+    "VaultMigrated",
+  ],
+  Router: ["SwapExecuted"],
+  IndexToken: ["Transfer"],
+};
+
+const INTERFACES: Record<EventSource, Interface> = {
+  IndexFactory: IndexFactory__factory.createInterface(),
+  IndexRegistry: IndexRegistry__factory.createInterface(),
+  BasketVault: BasketVault__factory.createInterface(),
+  Router: Router__factory.createInterface(),
+  IndexToken: IndexToken__factory.createInterface(),
+};
+
+/**
+ * Event database kept next to a deployment manifest (`deployments/localhost.json` -> `deployments/localhost.events.db`)
+ */
+export function defaultEventDatabase(deploymentFile: string): string {
+  return deploymentFile.replace(/\.json$/i, "") + ".events.db";
+}
+
+export interface EventIndexerOptions {
+  /** Maximum blocks per log query (default 1000) */
+  blockRange?: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Outcome of one `EventIndexer.sync` run
+ */
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;      // Checkpoint after the run
+  ranges: number;       // Block ranges scanned
+  events: number;       // Events stored
+  indexes: number;      // Indexes discovered
+}
+
+/**
+ * Contract a log came from
+ */
+interface WatchedContract {
+  contract: EventSource;
+  indexId: number | null;
+}
+
+/**
+ * Scans the protocol's events from the deployment block into an `EventStore`
+ * @dev Vaults and index tokens are discovered from the registry's `IndexCreated`, so indexes of
+ *      every authorized factory are found, and the creating factory's `IndexCreated` is stored.
+ *      It is queried before the other events of the same range so a new index's first mint is not missed. A vault's
+ *      `VaultMigrated` adds its successor under the same index, and the range is queried again for it
+ */
+export class EventIndexer {
+  private readonly blockRange: number;
+  private readonly log: (message: string) => void;
+  private readonly watched = new Map<string, WatchedContract>();
+
+  constructor(
+    readonly provider: Provider,
+    readonly deployment: DeploymentManifest,
+    readonly store: EventStore,
+    options: EventIndexerOptions = {}
+  ) {
+    this.blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+    if (!Number.isInteger(this.blockRange) || this.blockRange < 1) {
+      throw new Error(`EventIndexer: block range must be a positive integer, got ${this.blockRange}`);
+    }
+    this.log = options.log ?? (() => {});
+
+    this.watch(deployment.registry, { contract: "IndexRegistry", indexId: null });
+    this.watch(deployment.router, { contract: "Router", indexId: null });
+  }
+
+  /**
+   * Scans from the stored checkpoint up to `toBlock`, committing one block range at a time
+   * @param toBlock Last block to scan (default: the latest block)
+   */
+  async sync(toBlock?: number): Promise<SyncResult> {
+    const state = await this.prepare();
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    const result: SyncResult = { fromBlock: state.lastBlock + 1, toBlock: state.lastBlock, ranges: 0, events: 0, indexes: 0 };
+
+    for (let from = state.lastBlock + 1; from <= head; from += this.blockRange) {
+      const to = Math.min(from + this.blockRange - 1, head);
+      const batch = await this.scanRange(from, to);
+      this.store.commit(batch);
+
+      result.toBlock = to;
+      result.ranges++;
+      result.events += batch.events.length;
+      result.indexes += batch.indexes.length;
+      this.log(`   📦 Blocks ${from}-${to}: ${batch.events.length} events`);
+    }
+    return result;
+  }
+
+  /**
+   * Binds a new store to the deployment, or checks an existing one belongs to it,
+   * and loads the vaults and index tokens found so far
+   */
+  private async prepare(): Promise<SyncState> {
+    const { chainId } = await this.provider.getNetwork();
+    if (Number(chainId) !== this.deployment.chainId) {
+      throw new Error(
+        `EventIndexer: deployment is for chainId ${this.deployment.chainId} but the provider is connected to chainId ${chainId}`
+      );
+    }
+
+    let state = this.store.getSyncState();
+    if (!state) {
+      state = {
+        chainId: this.deployment.chainId,
+        factory: this.deployment.factory,
+        deploymentBlock: this.deployment.deploymentBlock,
+        lastBlock: this.deployment.deploymentBlock - 1,
+      };
+      this.store.initialize(state);
+    } else if (state.chainId !== this.deployment.chainId || state.factory.toLowerCase() !== this.deployment.factory.toLowerCase()) {
+      throw new Error(
+        `EventIndexer: ${this.store.file} indexes factory ${state.factory} on chainId ${state.chainId}, ` +
+          `not ${this.deployment.factory} on chainId ${this.deployment.chainId}`
+      );
+    }
+
+    for (const index of this.store.getIndexes()) {
+      this.watchIndex(index);
+    }
+    for (const migration of this.store.getEvents({ name: "VaultMigrated" })) {
+      this.watch(String(migration.args.newVault), { contract: "BasketVault", indexId: migration.indexId });
+    }
+    return state;
+  }
+
+  private async scanRange(fromBlock: number, toBlock: number): Promise<BlockRangeBatch> {
+    const batch: BlockRangeBatch = { toBlock, blocks: new Map(), indexes: [], events: [] };
+
+    // Every authorized factory registers its indexes in the registry, so the registry's
+    // `IndexCreated` finds them and the factory's own event is read from the same transaction
+    const factoryTopic = INTERFACES.IndexFactory.getEvent("IndexCreated")!.topicHash;
+    const registryLogs = await this.provider.getLogs({
+      address: this.deployment.registry,
+      topics: [INTERFACES.IndexRegistry.getEvent("IndexCreated")!.topicHash],
+      fromBlock,
+      toBlock,
+    });
+    for (const registered of registryLogs) {
+      const indexId = BigInt(registered.topics[1]);
+      const receipt = await this.provider.getTransactionReceipt(registered.transactionHash);
+      const log = receipt?.logs.find((l) => l.topics[0] === factoryTopic && BigInt(l.topics[1]) === indexId);
+      const parsed = log && INTERFACES.IndexFactory.parseLog(log);
+      if (!log || !parsed) {
+        throw new Error(`EventIndexer: no factory IndexCreated for index ${indexId} in transaction ${registered.transactionHash}`);
+      }
+      const event = toIndexCreatedEvent(parsed);
+      this.watchIndex(event);
+      batch.indexes.push({ ...event, blockNumber: log.blockNumber, txHash: log.transactionHash });
+      batch.events.push(toStoredEvent(log, parsed, { contract: "IndexFactory", indexId: event.indexId }));
+    }
+
+    const topics = (Object.keys(INDEXED_EVENTS) as EventSource[])
+      .filter((contract) => contract !== "IndexFactory")
+      .flatMap((contract) => INDEXED_EVENTS[contract].map((name) => INTERFACES[contract].getEvent(name)!.topicHash));
+    // Vaults migrated to within the range are queried again for it, until no new one turns up
+    let addresses = [...this.watched.keys()];
+    const routerLogs: Log[] = [];
+    while (addresses.length > 0) {
+      const logs = await this.provider.getLogs({ address: addresses, topics: [[...new Set(topics)]], fromBlock, toBlock });
+      const known = new Set(this.watched.keys());
+      for (const log of logs) {
+        const source = this.watched.get(log.address.toLowerCase());
+        if (source?.contract === "Router") {
+          routerLogs.push(log);
+        } else if (source) {
+          this.storeLog(batch, log, source);
+        }
+      }
+      addresses = [...this.watched.keys()].filter((address) => !known.has(address));
+    }
+    // Last, so swaps paid to a vault migrated to within the range are attributed to its index
+    for (const log of routerLogs) {
+      this.storeLog(batch, log, this.watched.get(log.address.toLowerCase())!);
+    }
+
+    batch.events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    for (const blockNumber of new Set(batch.events.map((e) => e.blockNumber))) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (!block) {
+        throw new Error(`EventIndexer: block ${blockNumber} not found`);
+      }
+      batch.blocks.set(blockNumber, block.timestamp);
+    }
+    return batch;
+  }
+
+  private storeLog(batch: BlockRangeBatch, log: Log, source: WatchedContract): void {
+    const parsed = INTERFACES[source.contract].parseLog(log);
+    if (!parsed || !INDEXED_EVENTS[source.contract].includes(parsed.name)) return;
+
+    let indexId = source.indexId;
+    if (source.contract === "IndexRegistry") {
+      indexId = Number(parsed.args.indexId);
+    } else if (source.contract === "Router") {
+      // Swaps are paid to the vault that requested them
+      indexId = this.watched.get(String(parsed.args.recipient).toLowerCase())?.indexId ?? null;
+    } else if (parsed.name === "VaultMigrated") {
+      this.watch(parsed.args.newVault, { contract: "BasketVault", indexId });
+    }
+    batch.events.push(toStoredEvent(log, parsed, { contract: source.contract, indexId }));
+  }
+
+  private watchIndex(index: IndexCreatedEvent): void {
+    this.watch(index.vault, { contract: "BasketVault", indexId: index.indexId });
+    this.watch(index.indexToken, { contract: "IndexToken", indexId: index.indexId });
+  }
+
+  private watch(address: string, contract: WatchedContract): void {
+    this.watched.set(address.toLowerCase(), contract);
+  }
+}
+
+function toIndexCreatedEvent(parsed: LogDescription): IndexCreatedEvent {
+  return {
+    indexId: Number(parsed.args.indexId),
+    name: parsed.args.name,
+    symbol: parsed.args.symbol,
+    curator: parsed.args.curator,
+    vault: parsed.args.vault,
+    indexToken: parsed.args.indexToken,
+    tokens: [...parsed.args.tokens],
+    weights: [...parsed.args.weights],
+    creator: parsed.args.creator,
+  };
+}
+
+function toStoredEvent(log: Log, parsed: LogDescription, source: WatchedContract): Omit<StoredEvent, "timestamp"> {
+  const args: Record<string, EventArg> = {};
+  parsed.fragment.inputs.forEach((input, i) => {
+    args[input.name] = toEventArg(parsed.args[i]);
+  });
+  return {
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    txHash: log.transactionHash,
+    address: log.address,
+    contract: source.contract,
+    name: parsed.name,
+    indexId: source.indexId,
+    args,
+  };
+}
+
+/**
+ * Converts a decoded value to JSON-safe form (bigints as decimal strings)
+ */
+function toEventArg(value: unknown): EventArg {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toEventArg);
+  }
+  return value as EventArg;
+}
@@ -0,0 +1,290 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { DEFAULT_MIN_TRADE_USDC, DEFAULT_SLIPPAGE_BPS, HedgeraClient } from "./HedgeraClient";
+import { describeError } from "./transactions";
+import { IndexInfo, IndexStatus, RebalancePlan } from "./types";
+
+const STATE_VERSION = 1;
+
+/**
+ * When the keeper rebalances an index
+ */
+export interface KeeperConfig {
+  driftThresholdBps: number;    // Rebalance once a component is this far from its target weight
+  idleUsdcThreshold: bigint;    // ...or once this much USDC sits idle in the vault
+  cooldownSeconds: number;      // Minimum time between two attempts on the same index
+  maxCostBps: number;           // Skip plans whose estimated cost exceeds this share of the basket value
+  slippageBps: number;          // Tolerance per trade
+  minTradeUsdc: bigint;         // Trades worth less than this are left out of plans
+  dryRun: boolean;              // Plan and log, but send nothing
+  indexIds?: number[];          // Only watch these indexes (default: every active index)
+}
+
+export const DEFAULT_KEEPER_CONFIG: KeeperConfig = {
+  driftThresholdBps: 200,
+  idleUsdcThreshold: 10_000_000n,
+  cooldownSeconds: 3600,
+  maxCostBps: 100,
+  slippageBps: DEFAULT_SLIPPAGE_BPS,
+  minTradeUsdc: DEFAULT_MIN_TRADE_USDC,
+  dryRun: false,
+};
+
+/**
+ * What the keeper last did to one index
+ */
+export interface KeeperIndexState {
+  lastAttemptAt?: number;       // Unix seconds; recorded before the transaction is sent
+  lastRebalanceAt?: number;     // Unix seconds of the last confirmed rebalance
+  lastTxHash?: string;
+  lastError?: string;
+}
+
+/**
+ * Keeper state persisted between runs, keyed by index ID
+ */
+export interface KeeperState {
+  version: number;
+  chainId: number;
+  factory: string;
+  indexes: Record<string, KeeperIndexState>;
+}
+
+export type KeeperAction = "rebalanced" | "would-rebalance" | "skipped" | "failed";
+
+/**
+ * Outcome of one index in a keeper pass
+ */
+export interface KeeperDecision {
+  indexId: number;
+  action: KeeperAction;
+  reason: string;
+  maxDriftBps?: number;
+  idleUsdc?: bigint;
+  estimatedCost?: bigint;
+  costBps?: number;
+  txHash?: string;
+}
+
+export type KeeperLogLevel = "info" | "warn" | "error";
+
+/**
+ * One structured log line
+ */
+export interface KeeperLogEntry {
+  time: string;
+  level: KeeperLogLevel;
+  event: string;
+  [field: string]: unknown;
+}
+
+export interface KeeperOptions {
+  /** JSON file for `KeeperState`; without it state only lives as long as the keeper */
+  stateFile?: string;
+  /** Receives every log entry (default: one JSON line per entry on stdout) */
+  log?: (entry: KeeperLogEntry) => void;
+  /** Current time in unix seconds (default: the system clock) */
+  now?: () => number;
+}
+
+/**
+ * Keeper state kept next to a deployment manifest (`deployments/localhost.json` -> `deployments/localhost.keeper.json`)
+ */
+export function defaultKeeperState(deploymentFile: string): string {
+  return deploymentFile.replace(/\.json$/i, "") + ".keeper.json";
+}
+
+/**
+ * Writes log entries as JSON lines, with bigints as decimal strings
+ */
+export function jsonLineLogger(write: (line: string) => void = (line) => process.stdout.write(line)) {
+  return (entry: KeeperLogEntry) =>
+    write(JSON.stringify(entry, (_, value) => (typeof value === "bigint" ? value.toString() : value)) + "\n");
+}
+
+/**
+ * Watches active indexes and rebalances those that drifted or hold idle USDC
+ * @dev The client's signer must own the vaults it rebalances; other indexes are skipped.
+ *      The attempt time is persisted before each transaction is sent, so a restart
+ *      after a crash waits out the cooldown instead of firing again
+ */
+export class Keeper {
+  private readonly log: (entry: KeeperLogEntry) => void;
+  private readonly now: () => number;
+  private state?: KeeperState;
+
+  constructor(
+    private readonly client: HedgeraClient,
+    readonly config: KeeperConfig = DEFAULT_KEEPER_CONFIG,
+    private readonly options: KeeperOptions = {}
+  ) {
+    this.log = options.log ?? jsonLineLogger();
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Checks every watched index once
+   * @return decisions One per active index, in registry order
+   */
+  async runOnce(): Promise<KeeperDecision[]> {
+    const state = this.loadState();
+    const signer = this.config.dryRun ? null : await this.client.getSignerAddress();
+
+    const decisions: KeeperDecision[] = [];
+    for (const index of await this.client.listIndexes()) {
+      if (index.status !== IndexStatus.Active) continue;
+      if (this.config.indexIds && !this.config.indexIds.includes(index.id)) continue;
+
+      let decision: KeeperDecision;
+      try {
+        decision = await this.checkIndex(index, signer, state);
+      } catch (error) {
+        decision = { indexId: index.id, action: "failed", reason: describeError(error) };
+      }
+      decisions.push(decision);
+
+      const { indexId, action, ...fields } = decision;
+      const level: KeeperLogLevel = action === "failed" ? "error" : "info";
+      this.emit(level, action, { indexId, ...fields });
+    }
+    return decisions;
+  }
+
+  /**
+   * Runs a pass every `intervalSeconds` until `signal` aborts
+   * @dev A failing pass is logged and retried on the next tick
+   */
+  async run(intervalSeconds: number, signal?: AbortSignal): Promise<void> {
+    this.emit("info", "started", { intervalSeconds, dryRun: this.config.dryRun });
+    while (!signal?.aborted) {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        this.emit("error", "pass-failed", { reason: describeError(error) });
+      }
+      await sleep(intervalSeconds * 1000, signal);
+    }
+    this.emit("info", "stopped", {});
+  }
+
+  private async checkIndex(index: IndexInfo, signer: string | null, state: KeeperState): Promise<KeeperDecision> {
+    const { id: indexId, vault } = index;
+    const indexState = (state.indexes[indexId] ??= {});
+    const now = this.now();
+
+    if (signer !== null) {
+      const owner = await this.client.vault(vault).owner();
+      if (owner.toLowerCase() !== signer.toLowerCase()) {
+        return { indexId, action: "skipped", reason: `vault owned by ${owner}` };
+      }
+    }
+    // Nothing minted yet means nothing to rebalance, which is not a failure
+    if ((await this.client.indexToken(index.indexToken).totalSupply()) === 0n) {
+      return { indexId, action: "skipped", reason: "empty" };
+    }
+    if (indexState.lastAttemptAt !== undefined && now - indexState.lastAttemptAt < this.config.cooldownSeconds) {
+      const remaining = this.config.cooldownSeconds - (now - indexState.lastAttemptAt);
+      return { indexId, action: "skipped", reason: `cooldown, ${remaining}s left` };
+    }
+
+    const plan = await this.client.planRebalance(indexId, {
+      slippageBps: this.config.slippageBps,
+      minTradeUsdc: this.config.minTradeUsdc,
+    });
+    const measured = measurePlan(plan);
+    const decision = { indexId, ...measured };
+
+    const drifted = measured.maxDriftBps >= this.config.driftThresholdBps;
+    const idle = plan.idleUsdc >= this.config.idleUsdcThreshold;
+    if (!drifted && !idle) {
+      return { ...decision, action: "skipped", reason: "within thresholds" };
+    }
+    if (!plan.sells.some((s) => s.amountIn > 0n) && !plan.buys.some((b) => b.amountIn > 0n)) {
+      return { ...decision, action: "skipped", reason: "no trade above the minimum size" };
+    }
+    const reason = drifted ? `drift ${measured.maxDriftBps} bps` : `idle USDC ${plan.idleUsdc}`;
+    if (measured.costBps > this.config.maxCostBps) {
+      return { ...decision, action: "skipped", reason: `estimated cost ${measured.costBps} bps exceeds the limit` };
+    }
+    if (this.config.dryRun) {
+      return { ...decision, action: "would-rebalance", reason };
+    }
+
+    indexState.lastAttemptAt = now;
+    this.saveState(state);
+    try {
+      const { receipt } = await this.client.rebalance(plan);
+      indexState.lastRebalanceAt = now;
+      indexState.lastTxHash = receipt.hash;
+      delete indexState.lastError;
+      return { ...decision, action: "rebalanced", reason, txHash: receipt.hash };
+    } catch (error) {
+      indexState.lastError = describeError(error);
+      return { ...decision, action: "failed", reason: indexState.lastError };
+    } finally {
+      this.saveState(state);
+    }
+  }
+
+  private loadState(): KeeperState {
+    if (this.state) {
+      return this.state;
+    }
+    const { chainId, factory } = this.client.deployment;
+    const file = this.options.stateFile;
+    if (file && existsSync(file)) {
+      const saved = JSON.parse(readFileSync(file, "utf8")) as KeeperState;
+      if (saved.version !== STATE_VERSION) {
+        throw new Error(`Keeper: state file ${file} has version ${saved.version}, expected ${STATE_VERSION}`);
+      }
+      if (saved.chainId !== chainId || saved.factory.toLowerCase() !== factory.toLowerCase()) {
+        throw new Error(`Keeper: state file ${file} belongs to another deployment (chainId ${saved.chainId}, factory ${saved.factory})`);
+      }
+      this.state = saved;
+    } else {
+      this.state = { version: STATE_VERSION, chainId, factory, indexes: {} };
+    }
+    return this.state;
+  }
+
+  /** Replaces the state file in one rename so a crash never leaves it half written */
+  private saveState(state: KeeperState): void {
+    const file = this.options.stateFile;
+    if (!file || this.config.dryRun) {
+      return;
+    }
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(`${file}.tmp`, JSON.stringify(state, null, 2));
+    renameSync(`${file}.tmp`, file);
+  }
+
+  private emit(level: KeeperLogLevel, event: string, fields: Record<string, unknown>): void {
+    this.log({ time: new Date().toISOString(), level, event, ...fields });
+  }
+}
+
+/**
+ * Largest absolute drift, idle USDC and estimated cost of a plan
+ */
+function measurePlan(plan: RebalancePlan) {
+  return {
+    maxDriftBps: Math.max(...plan.components.map((c) => Math.abs(c.driftBps))),
+    idleUsdc: plan.idleUsdc,
+    estimatedCost: plan.estimatedCost,
+    costBps: Number((plan.estimatedCost * 10000n) / plan.totalValue),
+  };
+}
+
+/** Resolves after `ms`, or early when `signal` aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
@@ -0,0 +1,181 @@
+import { MaxUint256, Signer, parseUnits } from "ethers";
+import {
+  MockERC20,
+  MockERC20__factory,
+  MockSaucerSwapFactory__factory,
+  MockSaucerSwapRouter__factory,
+} from "../typechain-types";
+import type { TxSettings } from "./networks";
+import { sendTransaction } from "./transactions";
+
+/**
+ * A mock basket token and the USD price its pool is seeded at
+ */
+export interface LocalTokenConfig {
+  symbol: string;
+  name: string;
+  decimals: number;
+  priceUsd: number;     // Price of one whole token in USDC
+  pairedWith?: string;  // Symbol of an earlier token to pool against instead of USDC, for multi-hop routes
+}
+
+/**
+ * Inputs for a local SaucerSwap V1 + USDC stand-in
+ */
+export interface LocalEnvironmentConfig {
+  tokens: LocalTokenConfig[];
+  liquidityUsd: number;       // USDC depth on each side of every TOKEN/USDC pool
+  fundedAccounts: string[];   // Accounts that receive `fundingUsdc`
+  fundingUsdc: number;        // Whole USDC minted to each funded account
+}
+
+/**
+ * Addresses of a deployed local environment
+ */
+export interface LocalEnvironment {
+  usdc: string;
+  saucerSwapFactory: string;
+  saucerSwapRouter: string;
+  tokens: Record<string, string>;   // Basket token symbol to address
+}
+
+// Mirrors the basket tokens in HEDERA_TOKENS, with their decimals on Hedera
+export const DEFAULT_LOCAL_TOKENS: LocalTokenConfig[] = [
+  { symbol: "WBTC", name: "Wrapped Bitcoin", decimals: 8, priceUsd: 60000 },
+  { symbol: "WETH", name: "Wrapped Ethereum", decimals: 8, priceUsd: 3000 },
+  { symbol: "WLINK", name: "Wrapped Chainlink", decimals: 8, priceUsd: 15 },
+  { symbol: "HBAR", name: "Wrapped HBAR", decimals: 8, priceUsd: 0.08 },
+  { symbol: "SAUCE", name: "SaucerSwap", decimals: 6, priceUsd: 0.05 },
+  { symbol: "BONZO", name: "Bonzo", decimals: 8, priceUsd: 0.1 },
+  { symbol: "BSL", name: "BankSocial", decimals: 8, priceUsd: 0.002 },
+  { symbol: "PACK", name: "HashPack", decimals: 6, priceUsd: 0.03 },
+];
+
+/** USDC decimals, matching USDC on Hedera */
+const USDC_DECIMALS = 6;
+
+/**
+ * Converts a (possibly fractional) whole-token amount to base units
+ */
+function toUnits(amount: number, decimals: number): bigint {
+  return parseUnits(amount.toFixed(decimals), decimals);
+}
+
+/**
+ * Deploys mock USDC, mock basket tokens and a SaucerSwap V1-compatible
+ * factory/router, seeds one TOKEN/USDC pool per token (or TOKEN/`pairedWith`)
+ * at its configured price, and funds test accounts with USDC
+ * @dev The deployer mints whatever it needs for seeding; liquidity tokens go to the deployer
+ */
+export async function deployLocalEnvironment(
+  deployer: Signer,
+  config: LocalEnvironmentConfig,
+  options: { log?: (message: string) => void; txOverrides?: TxSettings } = {}
+): Promise<LocalEnvironment> {
+  const log = options.log ?? (() => {});
+  const settings = options.txOverrides ?? {};
+  const deployerAddress = await deployer.getAddress();
+
+  const send = (to: string, data: string, action: string) => sendTransaction(deployer, { to, data }, { settings, action });
+  const mint = async (token: MockERC20, to: string, amount: bigint) =>
+    send(await token.getAddress(), token.interface.encodeFunctionData("mint", [to, amount]), "MockERC20.mint");
+  const approve = async (token: MockERC20, spender: string) =>
+    send(await token.getAddress(), token.interface.encodeFunctionData("approve", [spender, MaxUint256]), "MockERC20.approve");
+
+  const deployToken = async (name: string, symbol: string, decimals: number): Promise<MockERC20> => {
+    const token = await new MockERC20__factory(deployer).deploy(name, symbol, decimals);
+    await token.waitForDeployment();
+    log(`✅ ${symbol} (${decimals} decimals) deployed: ${await token.getAddress()}`);
+    return token;
+  };
+
+  // 1. Tokens
+  log("📝 Deploying mock tokens...");
+  const usdc = await deployToken("USD Coin", "USDC", USDC_DECIMALS);
+  const usdcAddress = await usdc.getAddress();
+  const basketTokens: MockERC20[] = [];
+  for (const token of config.tokens) {
+    basketTokens.push(await deployToken(token.name, token.symbol, token.decimals));
+  }
+
+  // 2. DEX
+  log("📝 Deploying SaucerSwap V1 stand-in...");
+  const factory = await new MockSaucerSwapFactory__factory(deployer).deploy();
+  await factory.waitForDeployment();
+  const factoryAddress = await factory.getAddress();
+  log(`✅ SaucerSwap factory deployed: ${factoryAddress}`);
+
+  const router = await new MockSaucerSwapRouter__factory(deployer).deploy(factoryAddress, deployerAddress);
+  await router.waitForDeployment();
+  const routerAddress = await router.getAddress();
+  log(`✅ SaucerSwap router deployed: ${routerAddress}`);
+
+  // 3. Liquidity
+  log("\n💧 Seeding liquidity...");
+  const usdcDepth = toUnits(config.liquidityUsd, USDC_DECIMALS);
+  const usdcPools = config.tokens.filter((token) => !token.pairedWith).length;
+  await mint(usdc, deployerAddress, usdcDepth * BigInt(usdcPools));
+  await approve(usdc, routerAddress);
+
+  const tokens: Record<string, string> = {};
+  for (let i = 0; i < config.tokens.length; i++) {
+    const { symbol, decimals, priceUsd, pairedWith } = config.tokens[i];
+    if (!(priceUsd > 0)) {
+      throw new Error(`Invalid price for ${symbol}: ${priceUsd}`);
+    }
+    const token = basketTokens[i];
+    const tokenAddress = await token.getAddress();
+    const tokenDepth = toUnits(config.liquidityUsd / priceUsd, decimals);
+
+    await mint(token, deployerAddress, tokenDepth);
+    await approve(token, routerAddress);
+
+    // The other side holds `liquidityUsd` worth of USDC, or of the token it is paired with
+    let quote = { address: usdcAddress, symbol: "USDC", depth: usdcDepth };
+    if (pairedWith) {
+      const paired = config.tokens.find((t) => t.symbol.toUpperCase() === pairedWith.toUpperCase());
+      const pairedAddress = tokens[pairedWith.toUpperCase()];
+      if (!paired || !pairedAddress) {
+        throw new Error(`${symbol} is paired with ${pairedWith}, which must be listed before it`);
+      }
+      const depth = toUnits(config.liquidityUsd / paired.priceUsd, paired.decimals);
+      await mint(basketTokens[config.tokens.indexOf(paired)], deployerAddress, depth);
+      quote = { address: pairedAddress, symbol: paired.symbol, depth };
+    }
+
+    await send(
+      routerAddress,
+      router.interface.encodeFunctionData("addLiquidity", [
+        tokenAddress,
+        quote.address,
+        tokenDepth,
+        quote.depth,
+        0,
+        0,
+        deployerAddress,
+        MaxUint256,
+      ]),
+      "MockSaucerSwapRouter.addLiquidity"
+    );
+
+    tokens[symbol.toUpperCase()] = tokenAddress;
+    log(`✅ ${symbol}/${quote.symbol} pool seeded at $${priceUsd} (${config.liquidityUsd} USD depth)`);
+  }
+
+  // 4. Test accounts
+  if (config.fundedAccounts.length > 0) {
+    log("\n💰 Funding test accounts...");
+    const funding = toUnits(config.fundingUsdc, USDC_DECIMALS);
+    for (const account of config.fundedAccounts) {
+      await mint(usdc, account, funding);
+      log(`✅ ${account}: ${config.fundingUsdc} USDC`);
+    }
+  }
+
+  return {
+    usdc: usdcAddress,
+    saucerSwapFactory: factoryAddress,
+    saucerSwapRouter: routerAddress,
+    tokens,
+  };
+}
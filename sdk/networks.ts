@@ -0,0 +1,115 @@
+import { join } from "path";
+import { HEDERA_TESTNET_TOKENS, HEDERA_TOKENS } from "./tokens";
+
+// Imported by hardhat.config.ts, so this module must not depend on typechain-types
+
+/**
+ * How transactions are sent on a network (see `sdk/transactions.ts`)
+ * @dev Without `gasLimit`, gas is estimated and `gasMarginBps` added on top
+ */
+export interface TxSettings {
+  gasLimit?: number;        // Fixed gas limit, skipping estimation
+  gasPrice?: number;        // Fixed gas price in wei, instead of the provider's
+  minGasPrice?: number;     // Floor applied to the provider's gas price
+  gasMarginBps?: number;    // Safety margin added to gas estimates
+  confirmations?: number;   // Blocks to wait for before a receipt counts
+  retries?: number;         // Retries of transient RPC errors and timeouts
+  retryDelayMs?: number;    // Delay before the first retry, doubled for each one after
+  timeoutMs?: number;       // How long to wait for a receipt
+}
+
+/**
+ * Everything the scripts and the CLI need to know about a network
+ */
+export interface NetworkConfig {
+  name: string;                     // Hardhat / CLI network name
+  url: string;                      // JSON-RPC endpoint
+  chainId: number;
+  deploymentFile: string;           // Manifest written by deploy scripts
+  txOverrides: TxSettings;
+  usdc?: string;                    // USDC address, when the network has one
+  saucerSwapRouter?: string;        // SaucerSwap V1 router, when the network has one
+  tokens: Record<string, string>;   // Known basket token symbols
+  local: boolean;                   // Uses the mock stack from `deploy:local`
+}
+
+// Hedera JSON-RPC relays reject gas prices below the network minimum, and are often rate limited
+const HEDERA_TX_SETTINGS: TxSettings = {
+  minGasPrice: 350000000000, // 350 gwei (above minimum 320)
+  gasMarginBps: 2000,
+  confirmations: 1,
+  retries: 3,
+  retryDelayMs: 2000,
+  timeoutMs: 120000,
+};
+
+export const NETWORKS: Record<string, NetworkConfig> = {
+  hedera: {
+    name: "hedera",
+    url: "https://mainnet.hashio.io/api",
+    chainId: 295,
+    deploymentFile: join("deployments", "hedera-mainnet.json"),
+    txOverrides: HEDERA_TX_SETTINGS,
+    usdc: "0x000000000000000000000000000000000006f89a",              // 0.0.456858
+    saucerSwapRouter: "0x00000000000000000000000000000000002e7a5d",  // 0.0.3045981
+    tokens: HEDERA_TOKENS,
+    local: false,
+  },
+  "hedera-testnet": {
+    name: "hedera-testnet",
+    url: "https://testnet.hashio.io/api",
+    chainId: 296,
+    deploymentFile: join("deployments", "hedera-testnet.json"),
+    txOverrides: HEDERA_TX_SETTINGS,
+    usdc: "0x0000000000000000000000000000000000068cda",              // 0.0.429274
+    saucerSwapRouter: "0x0000000000000000000000000000000000004b40",  // 0.0.19264
+    tokens: HEDERA_TESTNET_TOKENS,
+    local: false,
+  },
+  "hedera-previewnet": {
+    name: "hedera-previewnet",
+    url: "https://previewnet.hashio.io/api",
+    chainId: 297,
+    deploymentFile: join("deployments", "hedera-previewnet.json"),
+    txOverrides: HEDERA_TX_SETTINGS,
+    // No canonical USDC or SaucerSwap deployment; pass addresses explicitly
+    tokens: {},
+    local: false,
+  },
+  localhost: {
+    name: "localhost",
+    url: "http://127.0.0.1:8545",
+    chainId: 1337,
+    deploymentFile: join("deployments", "localhost.json"),
+    txOverrides: {},
+    // Mock tokens are recorded in the manifest by `deploy:local`
+    tokens: {},
+    local: true,
+  },
+};
+
+/**
+ * Looks up a network by name
+ */
+export function getNetwork(name: string): NetworkConfig {
+  const network = NETWORKS[name];
+  if (!network) {
+    throw new Error(`Unknown network "${name}". Available: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return network;
+}
+
+/**
+ * Looks up a network by chain ID (the in-process hardhat network resolves to localhost)
+ */
+export function getNetworkByChainId(chainId: number | bigint): NetworkConfig {
+  const network = Object.values(NETWORKS).find((n) => n.chainId === Number(chainId));
+  if (!network) {
+    throw new Error(
+      `No network configured for chainId ${chainId}. Known: ${Object.values(NETWORKS)
+        .map((n) => `${n.name} (${n.chainId})`)
+        .join(", ")}`
+    );
+  }
+  return network;
+}
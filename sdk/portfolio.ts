@@ -0,0 +1,183 @@
+import { formatUnits } from "ethers";
+import type { HedgeraClient } from "./HedgeraClient";
+import type { EventStore, StoredEvent } from "./eventStore";
+
+const SHARE = 10n ** 18n;
+
+/**
+ * An account's mints and redeems of one index, folded with the average cost method
+ */
+export interface CostBasis {
+  sharesMinted: bigint;
+  sharesRedeemed: bigint;         // Including in-kind redeems
+  sharesRedeemedInKind: bigint;
+  usdcIn: bigint;                 // Paid into mints, fees included
+  usdcOut: bigint;                // Received from USDC redeems, after fees
+  feesPaid: bigint;               // Mint and redeem fees in USDC (in-kind redeem fees are paid in basket tokens)
+  realizedPnl: bigint;            // usdcOut less the average cost of the shares redeemed for USDC
+  openShares: bigint;             // Minted shares not redeemed yet
+  averageCost: bigint | null;     // USDC (6 decimals) per open share, null when there are none
+}
+
+/**
+ * Holding of one index valued at the current NAV
+ */
+export interface PortfolioPosition extends CostBasis {
+  indexId: number;
+  name: string;
+  symbol: string;
+  indexToken: string;
+  balance: bigint;                // Shares held (18 decimals)
+  navPerShare: bigint;            // USDC (6 decimals) per whole share
+  value: bigint;                  // USDC
+  costBasis: bigint | null;       // Open shares still held, at the average cost
+  unrealizedPnl: bigint | null;   // value - costBasis
+  unpriced: string[];             // Components left out of the NAV because they could not be priced
+}
+
+/**
+ * Positions of an account across all indexes (from `getPortfolio`)
+ */
+export interface Portfolio {
+  account: string;
+  positions: PortfolioPosition[];
+  totals: {
+    value: bigint;
+    costBasis: bigint;            // Of the positions with a known cost basis
+    unrealizedPnl: bigint;
+    realizedPnl: bigint;
+    feesPaid: bigint;
+  };
+}
+
+/**
+ * Folds an account's `Minted`/`Redeemed`/`RedeemedInKind` events of one index into a cost basis
+ * @param events Stored events of the index in chain order, including its `FeesCollected`
+ * @dev Shares received by transfer carry no cost; redeeming more shares than were minted
+ *      releases the whole remaining cost
+ */
+export function computeCostBasis(events: StoredEvent[], account: string): CostBasis {
+  const own = (event: StoredEvent) => String(event.args.user).toLowerCase() === account.toLowerCase();
+  const ownTxs = new Set(events.filter((e) => ["Minted", "Redeemed"].includes(e.name) && own(e)).map((e) => e.txHash));
+
+  const basis: CostBasis = {
+    sharesMinted: 0n,
+    sharesRedeemed: 0n,
+    sharesRedeemedInKind: 0n,
+    usdcIn: 0n,
+    usdcOut: 0n,
+    feesPaid: 0n,
+    realizedPnl: 0n,
+    openShares: 0n,
+    averageCost: null,
+  };
+  let shares = 0n;
+  let cost = 0n;
+
+  // Releases the cost of `sharesIn` at the average cost and returns it
+  const release = (sharesIn: bigint): bigint => {
+    const released = sharesIn >= shares ? cost : (cost * sharesIn) / shares;
+    cost -= released;
+    shares = sharesIn >= shares ? 0n : shares - sharesIn;
+    return released;
+  };
+
+  for (const event of events) {
+    const { args } = event;
+    if (event.name === "FeesCollected") {
+      if (ownTxs.has(event.txHash)) basis.feesPaid += BigInt(args.amount as string);
+      continue;
+    }
+    if (!own(event)) continue;
+
+    if (event.name === "Minted") {
+      const sharesOut = BigInt(args.sharesOut as string);
+      basis.sharesMinted += sharesOut;
+      basis.usdcIn += BigInt(args.usdcIn as string);
+      shares += sharesOut;
+      cost += BigInt(args.usdcIn as string);
+    } else if (event.name === "Redeemed") {
+      const sharesIn = BigInt(args.sharesIn as string);
+      const usdcOut = BigInt(args.usdcOut as string);
+      basis.sharesRedeemed += sharesIn;
+      basis.usdcOut += usdcOut;
+      basis.realizedPnl += usdcOut - release(sharesIn);
+    } else if (event.name === "RedeemedInKind") {
+      // Paid in basket tokens: the shares leave at cost and no USDC gain is realized
+      const sharesIn = BigInt(args.sharesIn as string);
+      basis.sharesRedeemed += sharesIn;
+      basis.sharesRedeemedInKind += sharesIn;
+      release(sharesIn);
+    }
+  }
+
+  basis.openShares = shares;
+  basis.averageCost = shares > 0n ? (cost * SHARE) / shares : null;
+  return basis;
+}
+
+/**
+ * Values an account's holdings of every index in the registry at the current NAV
+ * @param store Event database synced for the client's deployment, for the cost basis
+ * @dev Indexes the account never held are left out
+ */
+export async function getPortfolio(client: HedgeraClient, store: EventStore, account: string): Promise<Portfolio> {
+  const positions: PortfolioPosition[] = [];
+
+  for (const index of await client.listIndexes()) {
+    const balance = await client.indexToken(index.indexToken).balanceOf(account);
+    const basis = computeCostBasis(
+      store.getEvents({ indexId: index.id, name: ["Minted", "Redeemed", "RedeemedInKind", "FeesCollected"] }),
+      account
+    );
+    if (balance === 0n && basis.sharesMinted === 0n) {
+      continue;
+    }
+
+    const valuation = balance > 0n ? await client.getValuation(index.id) : null;
+    const navPerShare = valuation?.navPerShare ?? 0n;
+    const value = (balance * navPerShare) / SHARE;
+    // Shares received by transfer carry no cost; shares sent away take theirs with them
+    const held = balance < basis.openShares ? balance : basis.openShares;
+    const costBasis = basis.averageCost === null ? null : (held * basis.averageCost) / SHARE;
+    positions.push({
+      indexId: index.id,
+      name: index.name,
+      symbol: index.symbol,
+      indexToken: index.indexToken,
+      balance,
+      navPerShare,
+      value,
+      costBasis,
+      unrealizedPnl: costBasis === null ? null : value - costBasis,
+      unpriced: valuation?.unpriced ?? [],
+      ...basis,
+    });
+  }
+
+  const sum = (pick: (position: PortfolioPosition) => bigint | null) =>
+    positions.reduce((total, position) => total + (pick(position) ?? 0n), 0n);
+  return {
+    account,
+    positions,
+    totals: {
+      value: sum((p) => p.value),
+      costBasis: sum((p) => p.costBasis),
+      unrealizedPnl: sum((p) => p.unrealizedPnl),
+      realizedPnl: sum((p) => p.realizedPnl),
+      feesPaid: sum((p) => p.feesPaid),
+    },
+  };
+}
+
+/**
+ * Serializes a portfolio to JSON, with USDC and share amounts as decimal strings
+ */
+export function portfolioToJson(portfolio: Portfolio): string {
+  const shareFields = ["balance", "sharesMinted", "sharesRedeemed", "sharesRedeemedInKind", "openShares"];
+  return JSON.stringify(
+    portfolio,
+    (key, value) => (typeof value === "bigint" ? formatUnits(value, shareFields.includes(key) ? 18 : 6) : value),
+    2
+  );
+}
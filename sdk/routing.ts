@@ -0,0 +1,233 @@
+import { Contract, Interface, Provider, ZeroAddress, getAddress } from "ethers";
+import type { HedgeraClient } from "./HedgeraClient";
+import type { AdminConfig } from "./adminConfig";
+
+/** Longest USDC -> token path the Router accepts (Router.MAX_PATH_LENGTH) */
+export const MAX_PATH_LENGTH = 4;
+
+/** USDC amount a route is compared at when none is given (1,000 USDC) */
+export const DEFAULT_ROUTE_AMOUNT = 1_000_000_000n;
+
+/** SaucerSwap V1 keeps 0.3% of every hop's input */
+const FEE_NUMERATOR = 997n;
+const FEE_DENOMINATOR = 1000n;
+
+/** The parts of the SaucerSwap V1 router, factory and pairs the path finder reads */
+const SAUCERSWAP = new Interface([
+  "function factory() view returns (address)",
+  "function getPair(address tokenA, address tokenB) view returns (address)",
+  "function token0() view returns (address)",
+  // Pairs also return the last block timestamp, which is not needed
+  "function getReserves() view returns (uint256 reserve0, uint256 reserve1)",
+]);
+
+/**
+ * A SaucerSwap V1 pair and its reserves
+ */
+export interface Pool {
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+}
+
+/**
+ * A swap path with the amounts it yields, as `getAmountsOut` reports them
+ */
+export interface Route {
+  path: string[];
+  amounts: bigint[];        // amounts[0] is the input, the last entry the output
+}
+
+/**
+ * The Router's configured path for one component next to the best one among the pools
+ * (from `planRoutes`)
+ */
+export interface RoutePlan {
+  token: string;
+  current: Route | null;    // Configured path; null when one of its pools is missing
+  best: Route | null;       // Best output; null when no path reaches the token
+  improvementBps: number;   // Extra output of `best` over `current`; 0 when they are the same path
+}
+
+/**
+ * Address of the SaucerSwap V1 factory behind a deployment
+ * @dev Local deployments record it in the manifest; otherwise it is read from the
+ *      SaucerSwap router the Router swaps through
+ */
+export async function saucerSwapFactory(client: HedgeraClient): Promise<string> {
+  if (client.deployment.saucerSwapFactory) {
+    return client.deployment.saucerSwapFactory;
+  }
+  const dex = new Contract(await client.router.getSaucerSwapRouter(), SAUCERSWAP, client.runner);
+  return getAddress(await dex.factory());
+}
+
+/**
+ * Reads every pool between any two of `tokens`
+ * @dev SaucerSwap has far too many pairs to enumerate, so the candidate set is the tokens to
+ *      route plus the intermediates worth trying (e.g. WHBAR). Pools without liquidity are left out
+ */
+export async function loadPools(provider: Provider, factory: string, tokens: string[]): Promise<Pool[]> {
+  const unique = [...new Map(tokens.map((t) => [t.toLowerCase(), getAddress(t)])).values()];
+  const dex = new Contract(factory, SAUCERSWAP, provider);
+  const pools: Pool[] = [];
+
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) {
+      const address: string = await dex.getPair(unique[i], unique[j]);
+      if (address === ZeroAddress) {
+        continue;
+      }
+      const pair = new Contract(address, SAUCERSWAP, provider);
+      const token0 = getAddress(await pair.token0());
+      const [reserve0, reserve1]: bigint[] = await pair.getReserves();
+      if (reserve0 > 0n && reserve1 > 0n) {
+        const token1 = token0 === unique[i] ? unique[j] : unique[i];
+        pools.push({ address, token0, token1, reserve0, reserve1 });
+      }
+    }
+  }
+  return pools;
+}
+
+/**
+ * Quotes a path against the given pools with the SaucerSwap V1 formula
+ * @return amounts Per hop, like `getAmountsOut`; null when a hop has no pool or yields nothing
+ */
+export function quotePath(pools: Pool[], path: string[], amountIn: bigint): bigint[] | null {
+  const amounts = [amountIn];
+  for (let i = 0; i < path.length - 1; i++) {
+    const pool = findPool(pools, path[i], path[i + 1]);
+    if (!pool) {
+      return null;
+    }
+    const forward = sameAddress(pool.token0, path[i]);
+    const reserveIn = forward ? pool.reserve0 : pool.reserve1;
+    const reserveOut = forward ? pool.reserve1 : pool.reserve0;
+    const inWithFee = amounts[i] * FEE_NUMERATOR;
+    const out = (inWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + inWithFee);
+    if (out === 0n) {
+      return null;
+    }
+    amounts.push(out);
+  }
+  return amounts;
+}
+
+/**
+ * Finds the path from `tokenIn` to `tokenOut` with the largest output for `amountIn`
+ * @dev Tries every simple path through the pools up to `maxLength` tokens
+ * @return route The best route, or null when no path reaches `tokenOut`
+ */
+export function findBestRoute(
+  pools: Pool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  maxLength = MAX_PATH_LENGTH
+): Route | null {
+  const neighbours = new Map<string, string[]>();
+  const link = (from: string, to: string) => {
+    const key = from.toLowerCase();
+    neighbours.set(key, [...(neighbours.get(key) ?? []), to]);
+  };
+  for (const pool of pools) {
+    link(pool.token0, pool.token1);
+    link(pool.token1, pool.token0);
+  }
+
+  let best: Route | null = null;
+  const visit = (path: string[]) => {
+    const last = path[path.length - 1];
+    if (sameAddress(last, tokenOut)) {
+      const amounts = quotePath(pools, path, amountIn);
+      if (amounts && (!best || amounts[amounts.length - 1] > best.amounts[best.amounts.length - 1])) {
+        best = { path, amounts };
+      }
+      return;
+    }
+    if (path.length === maxLength) {
+      return;
+    }
+    for (const next of neighbours.get(last.toLowerCase()) ?? []) {
+      if (!path.some((token) => sameAddress(token, next))) {
+        visit([...path, next]);
+      }
+    }
+  };
+  visit([getAddress(tokenIn)]);
+  return best;
+}
+
+/**
+ * Compares the Router's configured path of every token with the best one among the pools
+ * @dev Routes are ranked by what `amountIn` USDC buys. The Router sells and values a component
+ *      along the same path reversed, so one path serves quotes, mints, redeems and NAV
+ * @param options.via Intermediate tokens to route through, e.g. WHBAR
+ * @param options.amountIn USDC trade size to compare routes at (default 1,000 USDC)
+ * @param options.pools Pools to route over instead of reading them from SaucerSwap
+ */
+export async function planRoutes(
+  client: HedgeraClient,
+  tokens: string[],
+  options: { via?: string[]; amountIn?: bigint; pools?: Pool[] } = {}
+): Promise<RoutePlan[]> {
+  const usdc = client.deployment.usdc;
+  const amountIn = options.amountIn ?? DEFAULT_ROUTE_AMOUNT;
+  const pools =
+    options.pools ??
+    (await loadPools(client.runner.provider!, await saucerSwapFactory(client), [usdc, ...(options.via ?? []), ...tokens]));
+
+  const plans: RoutePlan[] = [];
+  for (const token of tokens) {
+    const path = await client.router.getTokenPath(token);
+    const amounts = quotePath(pools, path, amountIn);
+    const current = amounts ? { path: [...path], amounts } : null;
+    const best = findBestRoute(pools, usdc, token, amountIn);
+
+    let improvementBps = 0;
+    if (best && current && !samePath(best.path, current.path)) {
+      const currentOut = current.amounts[current.amounts.length - 1];
+      const bestOut = best.amounts[best.amounts.length - 1];
+      improvementBps = Number(((bestOut - currentOut) * 10000n) / currentOut);
+    }
+    plans.push({ token: getAddress(token), current, best, improvementBps });
+  }
+  return plans;
+}
+
+/**
+ * The `router.paths` admin config that switches every token to its best route
+ * @dev Only tokens whose best route differs from the configured one are included; direct
+ *      routes are written as an empty path, which clears the configured one
+ */
+export function routeAdminConfig(plans: RoutePlan[]): AdminConfig {
+  const paths: Record<string, string[]> = {};
+  for (const { token, current, best } of plans) {
+    if (best && !(current && samePath(best.path, current.path))) {
+      paths[token] = best.path.length === 2 ? [] : best.path;
+    }
+  }
+  return { router: { paths } };
+}
+
+/**
+ * Whether two paths go through the same tokens in the same order
+ */
+export function samePath(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((token, i) => sameAddress(token, b[i]));
+}
+
+function findPool(pools: Pool[], a: string, b: string): Pool | undefined {
+  return pools.find(
+    (pool) =>
+      (sameAddress(pool.token0, a) && sameAddress(pool.token1, b)) ||
+      (sameAddress(pool.token0, b) && sameAddress(pool.token1, a))
+  );
+}
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
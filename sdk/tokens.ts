@@ -0,0 +1,39 @@
+import { isAddress } from "ethers";
+import { entityIdToAddress, isEntityId } from "./hedera";
+
+// Real token addresses on Hedera
+export const HEDERA_TOKENS: Record<string, string> = {
+  WBTC: "0x0000000000000000000000000000000000101afb",   // Wrapped Bitcoin
+  WETH: "0x000000000000000000000000000000000008437c",   // Wrapped Ethereum
+  WLINK: "0x0000000000000000000000000000000000101b07",  // Wrapped Chainlink
+  HBAR: "0x0000000000000000000000000000000000163b5a",   // HBAR (Hedera native)
+  SAUCE: "0x00000000000000000000000000000000000b2ad5",  // SaucerSwap token
+  BONZO: "0x00000000000000000000000000000000007e545e",  // Bonzo token
+  BSL: "0x000000000000000000000000000000000043a076",    // BSL token
+  PACK: "0x0000000000000000000000000000000000492a28",   // HashPack token
+};
+
+// Token addresses on Hedera testnet
+export const HEDERA_TESTNET_TOKENS: Record<string, string> = {
+  HBAR: "0x0000000000000000000000000000000000003ad2",   // WHBAR (0.0.15058)
+  SAUCE: "0x0000000000000000000000000000000000120f46",  // SaucerSwap token (0.0.1183558)
+};
+
+/**
+ * Resolves a token symbol (e.g. "WBTC"), address or Hedera token ID to an address
+ * @param tokenOrSymbol Symbol known in `tokens`, an EVM address or a `0.0.x` token ID
+ * @param tokens Symbol to address table to resolve against
+ */
+export function resolveToken(tokenOrSymbol: string, tokens: Record<string, string> = HEDERA_TOKENS): string {
+  const address = tokens[tokenOrSymbol.toUpperCase()];
+  if (address) {
+    return address;
+  }
+  if (isAddress(tokenOrSymbol)) {
+    return tokenOrSymbol;
+  }
+  if (isEntityId(tokenOrSymbol)) {
+    return entityIdToAddress(tokenOrSymbol);
+  }
+  throw new Error(`Unknown token "${tokenOrSymbol}". Known symbols: ${Object.keys(tokens).join(", ")}`);
+}
@@ -0,0 +1,524 @@
+import {
+  AbiCoder,
+  BaseWallet,
+  Interface,
+  Provider,
+  Signer,
+  Transaction,
+  TransactionReceipt,
+  TransactionRequest,
+  TransactionResponse,
+  dataSlice,
+  formatEther,
+  isError,
+  isHexString,
+} from "ethers";
+import { BasketVault__factory, IndexToken__factory } from "../typechain-types";
+import type { TxSettings } from "./networks";
+
+/**
+ * Settings used where a network leaves them unset
+ */
+export const DEFAULT_TX_SETTINGS = {
+  gasMarginBps: 2000,     // 20% on top of estimates
+  confirmations: 1,
+  retries: 3,
+  retryDelayMs: 2000,
+  timeoutMs: 120000,
+};
+
+/** ABIs declaring every custom error the protocol contracts can raise (Ownable, ERC20, SafeERC20, ReentrancyGuard) */
+const ERROR_INTERFACES: Interface[] = [BasketVault__factory.createInterface(), IndexToken__factory.createInterface()];
+
+/** Selectors of the built-in `Error(string)` and `Panic(uint256)` */
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+const PANIC_REASONS: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x32: "array index out of bounds",
+};
+
+/**
+ * What to do about the protocol's revert reasons, keyed by revert string or custom error name
+ */
+const REVERT_HINTS: Record<string, string> = {
+  "BasketVault: expired": "The deadline passed before the transaction was mined. Send it again with a later deadline",
+  "BasketVault: component below minimum":
+    "A component swap failed or returned less than its minimum. Quote again or allow more slippage, or redeem in kind while a pool is down",
+  "BasketVault: insufficient shares":
+    "The mint would return fewer shares than the minimum. Quote again or lower the minimum shares",
+  "BasketVault: insufficient amount":
+    "The redeem would return less USDC than the minimum. Quote again or lower the minimum USDC",
+  "BasketVault: insufficient balance": "The account holds fewer index shares than it redeems",
+  "BasketVault: amount too small": "The mint is below the vault's MIN_MINT_AMOUNT",
+  "BasketVault: zero shares": "The mint is too small to buy a single share at the current NAV. Mint more",
+  "BasketVault: dust supply":
+    "The redeem would leave fewer than MIN_SHARE_SUPPLY shares outstanding. Redeem slightly less, or every remaining share",
+  "BasketVault: component not priced":
+    "A component the vault holds cannot be priced, so mints are paused until the Router can quote it again. Redeems still work",
+  "BasketVault: index not active": "The index is paused or deprecated in the registry",
+  "BasketVault: insufficient idle USDC": "The vault holds less idle USDC than the rebalance buys with. Plan it again",
+  "BasketVault: minimum exceeds max slippage":
+    "A rebalance trade's minimum is further below the current quote than the vault's MAX_SLIPPAGE allows. Plan it again",
+  "BasketVault: insufficient fees": "The vault holds fewer unclaimed fees than requested. Read the fee report again",
+  "BasketVault: caller is not the platform": "Only the registry owner can withdraw platform fees",
+  "BasketVault: migrated": "The index moved to a new vault. Use the vault the registry lists for it now",
+  "BasketVault: migration lost value":
+    "The new vault values the index below the plan's NAV floor. Check the factory's vault before migrating again",
+  "BasketVault: new vault not registered":
+    "The factory could not register the new vault. Migrate through a factory the registry authorizes",
+  "BasketVault: caller is not the live vault": "Only the index's live vault can hand over its fees, during BasketVault.migrate",
+  "IndexRegistry: not authorized": "Send it from the registry owner, or through an authorized factory or the index's vault",
+  "IndexRegistry: index does not exist": "No index has this ID. List the indexes to find the right one",
+  "IndexFactory: curator not authorized":
+    "The factory requires authorized curators. The factory owner has to authorize this curator first",
+  "IndexFactory: caller is not the index vault":
+    "Migration vaults are deployed only for the index's live vault. Call BasketVault.migrate from the vault owner",
+  "IndexFactory: router not set": "The factory has no Router yet. Run the deployment again to configure it",
+  "IndexFactory: insufficient balance": "The factory holds less USDC than the withdrawal",
+  OwnableUnauthorizedAccount: "Only the contract owner can do this. Send it from the owner account",
+  ERC20InsufficientAllowance: "The spender is not approved for enough of the token. Approve it first",
+  ERC20InsufficientBalance: "The account does not hold enough of the token",
+  SafeERC20FailedOperation: "A token transfer failed. On Hedera, check that the receiver is associated with the token",
+};
+
+/**
+ * A transaction that reverted, failed on-chain or could not be confirmed
+ * @dev `reason` is the decoded revert reason and `data` the raw revert data, when there is one.
+ *      `receipt` is set for transactions mined with status 0, `hash` for every transaction that was sent
+ */
+export class TransactionError extends Error {
+  readonly action: string;
+  readonly reason?: string;
+  readonly data?: string;
+  readonly hash?: string;
+  readonly receipt?: TransactionReceipt;
+
+  constructor(
+    message: string,
+    details: { action: string; reason?: string; data?: string; hash?: string; receipt?: TransactionReceipt }
+  ) {
+    super(message);
+    this.name = "TransactionError";
+    this.action = details.action;
+    this.reason = details.reason;
+    this.data = details.data;
+    this.hash = details.hash;
+    this.receipt = details.receipt;
+  }
+}
+
+/**
+ * Options for `sendTransaction`
+ */
+export interface SendOptions {
+  settings?: TxSettings;
+  /** Names the transaction in errors, e.g. `BasketVault.mint` */
+  action?: string;
+  /** Called once the transaction is accepted by the RPC, before waiting for it */
+  onSent?: (hash: string) => void;
+}
+
+/**
+ * Sends a transaction and waits for its receipt
+ * @dev Gas is estimated with `gasMarginBps` on top unless `gasLimit` is set; a revert during
+ *      estimation fails before anything is sent. The nonce is fixed up front, so retrying a
+ *      send after a transient RPC error cannot execute the transaction twice. Wallets sign
+ *      locally and re-broadcast the same bytes; other signers fail with an explicit message
+ *      when a retry finds the nonce already used
+ * @return receipt Receipt of the transaction, mined with status 1
+ * @throws TransactionError with the decoded revert reason when it reverts or fails on-chain
+ */
+export async function sendTransaction(
+  signer: Signer,
+  request: TransactionRequest,
+  options: SendOptions = {}
+): Promise<TransactionReceipt> {
+  const settings = options.settings ?? {};
+  const action = options.action ?? "Transaction";
+  const provider = signer.provider;
+  if (!provider) {
+    throw new Error(`${action}: the signer has no provider`);
+  }
+
+  const tx: TransactionRequest = { ...request, from: await signer.getAddress() };
+  tx.gasLimit = await estimateGasLimit(signer, tx, settings, action);
+  const gasPrice = await resolveGasPrice(provider, settings);
+  if (gasPrice !== undefined) {
+    tx.gasPrice = gasPrice;
+  }
+  tx.nonce = await withRetries(() => signer.getNonce("pending"), settings);
+
+  let response: TransactionResponse;
+  try {
+    response = await broadcast(signer, tx, settings, action);
+  } catch (error) {
+    throw revertError(action, error) ?? error;
+  }
+  options.onSent?.(response.hash);
+  return waitForReceipt(response, action, settings);
+}
+
+/**
+ * Estimates the gas limit of a transaction, with `gasMarginBps` on top
+ * @return gasLimit `settings.gasLimit` when set, otherwise the padded estimate
+ * @throws TransactionError with the decoded revert reason when the estimate reverts
+ */
+export async function estimateGasLimit(
+  signer: Signer,
+  request: TransactionRequest,
+  settings: TxSettings = {},
+  action = "Transaction"
+): Promise<bigint> {
+  if (settings.gasLimit !== undefined) {
+    return BigInt(settings.gasLimit);
+  }
+  let estimate: bigint;
+  try {
+    estimate = await withRetries(() => signer.estimateGas(request), settings);
+  } catch (error) {
+    throw revertError(action, error) ?? error;
+  }
+  const margin = BigInt(settings.gasMarginBps ?? DEFAULT_TX_SETTINGS.gasMarginBps);
+  return (estimate * (10000n + margin)) / 10000n;
+}
+
+/**
+ * Broadcasts a signed transaction, retrying transient RPC errors
+ * @dev A retry that finds the transaction already known or mined counts as sent
+ */
+export async function broadcastSigned(provider: Provider, raw: string, settings: TxSettings = {}): Promise<TransactionResponse> {
+  const hash = Transaction.from(raw).hash!;
+  return withRetries(async (attempt) => {
+    try {
+      return await provider.broadcastTransaction(raw);
+    } catch (error) {
+      const sent = attempt > 0 || isNonceConflict(error) ? await provider.getTransaction(hash) : null;
+      if (sent) {
+        return sent;
+      }
+      throw error;
+    }
+  }, settings);
+}
+
+/**
+ * Waits for a sent transaction with `confirmations` blocks, retrying transient RPC errors
+ * @dev `timeoutMs` bounds the whole wait, retries included: once it has passed the wait is not
+ *      retried. On status 0 the call is replayed at the block it was mined in to recover the revert reason
+ * @throws TransactionError when the transaction fails, is cancelled or is not mined within `timeoutMs`
+ */
+export async function waitForReceipt(
+  response: TransactionResponse,
+  action = "Transaction",
+  settings: TxSettings = {}
+): Promise<TransactionReceipt> {
+  const confirmations = settings.confirmations ?? DEFAULT_TX_SETTINGS.confirmations;
+  const timeoutMs = settings.timeoutMs ?? DEFAULT_TX_SETTINGS.timeoutMs;
+  const { hash } = response;
+  const deadline = Date.now() + timeoutMs;
+  const notConfirmed = () =>
+    new TransactionError(
+      `${action} (${hash}) was sent but not confirmed within ${timeoutMs / 1000}s. Check it before sending again`,
+      { action, hash }
+    );
+
+  let receipt: TransactionReceipt | null;
+  try {
+    receipt = await withRetries(async () => {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw notConfirmed();
+      }
+      try {
+        return await response.wait(confirmations, remainingMs);
+      } catch (error) {
+        // The wait itself ran out; only RPC errors within the timeout are worth another attempt
+        if (isError(error, "TIMEOUT") && Date.now() >= deadline) {
+          throw notConfirmed();
+        }
+        throw error;
+      }
+    }, settings);
+  } catch (error) {
+    if (error instanceof TransactionError) {
+      throw error;
+    } else if (isError(error, "CALL_EXCEPTION") && error.receipt) {
+      receipt = error.receipt;
+    } else if (isError(error, "TRANSACTION_REPLACED") && !error.cancelled) {
+      receipt = error.receipt;
+    } else if (isError(error, "TRANSACTION_REPLACED")) {
+      throw new TransactionError(`${action} (${hash}) was replaced by ${error.replacement.hash}`, { action, hash });
+    } else if (isError(error, "TIMEOUT")) {
+      throw notConfirmed();
+    } else {
+      throw error;
+    }
+  }
+  if (!receipt) {
+    throw new TransactionError(`${action} (${hash}) has no receipt`, { action, hash });
+  }
+
+  if (receipt.status !== 1) {
+    const replayed = await replay(response, receipt.blockNumber);
+    const reason = decodeRevert(replayed);
+    const detail = reason === null ? "failed" : formatRevert(reason);
+    throw new TransactionError(
+      `${action} ${detail} in transaction ${hash} (block ${receipt.blockNumber}, ${receipt.gasUsed} gas, ${formatTxCost(receipt)})`,
+      { action, reason: reason ?? undefined, data: findRevertData(replayed) ?? undefined, hash, receipt }
+    );
+  }
+  return receipt;
+}
+
+/**
+ * Runs an RPC operation, retrying transient errors with exponential backoff
+ * @param fn Receives the attempt number, starting at 0
+ */
+export async function withRetries<T>(fn: (attempt: number) => Promise<T>, settings: TxSettings = {}): Promise<T> {
+  const retries = settings.retries ?? DEFAULT_TX_SETTINGS.retries;
+  const delayMs = settings.retryDelayMs ?? DEFAULT_TX_SETTINGS.retryDelayMs;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, delayMs * 2 ** attempt));
+    }
+  }
+}
+
+/**
+ * Whether an error is worth retrying: timeouts, dropped connections, rate limits and 5xx responses
+ * @dev Reverts and `TransactionError`s, which report a final outcome, are never transient
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof TransactionError || isError(error, "CALL_EXCEPTION") || decodeRevert(error) !== null) {
+    return false;
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === "TIMEOUT" || code === "NETWORK_ERROR" || code === "SERVER_ERROR") {
+    return true;
+  }
+  return /timeout|timed out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|rate limit|too many requests|\b(429|502|503|504)\b/i.test(
+    errorText(error)
+  );
+}
+
+/**
+ * Extracts the revert reason from an RPC or ethers error
+ * @return reason The revert string, `Name(args)` for a custom error, a panic description,
+ *         or null when the error is not a revert with a known reason
+ */
+export function decodeRevert(error: unknown): string | null {
+  const seen = new Set<unknown>();
+  const visit = (value: unknown): string | null => {
+    if (!value || typeof value !== "object" || seen.has(value)) {
+      return null;
+    }
+    seen.add(value);
+    const e = value as Record<string, unknown>;
+
+    const revert = e.revert as { name?: string; args?: unknown[] } | undefined;
+    if (revert?.name) {
+      return revert.name === "Error" ? String(revert.args?.[0]) : formatCustomError(revert.name, revert.args ?? []);
+    }
+    if (typeof e.data === "string") {
+      const decoded = decodeRevertData(e.data);
+      if (decoded !== null) {
+        return decoded;
+      }
+    }
+    for (const key of ["error", "info", "cause", "data"]) {
+      const nested = visit(e[key]);
+      if (nested !== null) {
+        return nested;
+      }
+    }
+
+    const message = typeof e.message === "string" ? e.message : "";
+    const match =
+      /reverted with reason string '(.*)'/.exec(message) ??
+      /reverted with custom error '(.*)'/.exec(message) ??
+      /execution reverted: (.+?)(?:"|$)/.exec(message);
+    if (match) {
+      return match[1];
+    }
+    const panic = /reverted with panic code (0x[0-9a-f]+)/i.exec(message);
+    return panic ? describePanic(Number(panic[1])) : null;
+  };
+  return visit(error);
+}
+
+/**
+ * Decodes revert data: `Error(string)`, `Panic(uint256)` or a protocol custom error
+ * @return reason The decoded reason, or null for empty or unknown data
+ */
+export function decodeRevertData(data: string): string | null {
+  if (!isHexString(data) || data.length < 10) {
+    return null;
+  }
+  const selector = dataSlice(data, 0, 4);
+  try {
+    if (selector === ERROR_SELECTOR) {
+      return AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4))[0] as string;
+    }
+    if (selector === PANIC_SELECTOR) {
+      return describePanic(Number(AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(data, 4))[0]));
+    }
+    for (const iface of ERROR_INTERFACES) {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        return formatCustomError(parsed.name, [...parsed.args]);
+      }
+    }
+  } catch {
+    // Malformed data reads as unknown
+  }
+  return null;
+}
+
+/**
+ * Suggests what to do about a revert reason from `decodeRevert`
+ * @return hint One sentence, or undefined for reasons without a known fix
+ */
+export function explainRevert(reason: string): string | undefined {
+  return REVERT_HINTS[reason] ?? REVERT_HINTS[reason.split("(")[0]];
+}
+
+/**
+ * Formats any error for display, decoding revert reasons the error message leaves raw
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof TransactionError) {
+    return error.message;
+  }
+  const reason = decodeRevert(error);
+  if (reason !== null) {
+    return `Call ${formatRevert(reason)}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Formats the fee paid by a transaction in HBAR
+ */
+export function formatTxCost(receipt: TransactionReceipt): string {
+  return `${formatEther(receipt.fee)} HBAR`;
+}
+
+async function broadcast(
+  signer: Signer,
+  tx: TransactionRequest,
+  settings: TxSettings,
+  action: string
+): Promise<TransactionResponse> {
+  if (signer instanceof BaseWallet) {
+    const raw = await signer.signTransaction(await signer.populateTransaction(tx));
+    return broadcastSigned(signer.provider!, raw, settings);
+  }
+  return withRetries(async (attempt) => {
+    try {
+      return await signer.sendTransaction(tx);
+    } catch (error) {
+      if (attempt > 0 && isNonceConflict(error)) {
+        throw new TransactionError(
+          `${action} may already have been sent with nonce ${tx.nonce}. Check the account's transactions before sending again`,
+          { action }
+        );
+      }
+      throw error;
+    }
+  }, settings);
+}
+
+/**
+ * Gas price to send with: `gasPrice` when set, otherwise the provider's raised to `minGasPrice`
+ * @return gasPrice Undefined when neither is set, leaving fees to the signer
+ */
+async function resolveGasPrice(provider: Provider, settings: TxSettings): Promise<bigint | undefined> {
+  if (settings.gasPrice !== undefined) {
+    return BigInt(settings.gasPrice);
+  }
+  if (settings.minGasPrice === undefined) {
+    return undefined;
+  }
+  const { gasPrice } = await withRetries(() => provider.getFeeData(), settings);
+  const floor = BigInt(settings.minGasPrice);
+  return gasPrice !== null && gasPrice > floor ? gasPrice : floor;
+}
+
+/**
+ * Replays a failed transaction as a call at its block
+ * @return error The error of the replayed call, holding the revert reason, or null if it succeeds
+ */
+async function replay(response: TransactionResponse, blockNumber: number): Promise<unknown> {
+  try {
+    await response.provider.call({
+      to: response.to,
+      from: response.from,
+      data: response.data,
+      value: response.value,
+      blockTag: blockNumber,
+    });
+    return null;
+  } catch (error) {
+    return error;
+  }
+}
+
+function revertError(action: string, error: unknown): TransactionError | null {
+  const reason = decodeRevert(error);
+  if (reason === null) {
+    return null;
+  }
+  const data = findRevertData(error) ?? undefined;
+  return new TransactionError(`${action} ${formatRevert(reason)}`, { action, reason, data });
+}
+
+/** Finds the raw revert data carried by an RPC or ethers error */
+function findRevertData(error: unknown, depth = 0): string | null {
+  if (!error || typeof error !== "object" || depth > 4) {
+    return null;
+  }
+  const e = error as Record<string, unknown>;
+  if (typeof e.data === "string" && isHexString(e.data) && e.data.length >= 10) {
+    return e.data;
+  }
+  for (const key of ["error", "info", "cause", "data"]) {
+    const nested = findRevertData(e[key], depth + 1);
+    if (nested !== null) {
+      return nested;
+    }
+  }
+  return null;
+}
+
+function formatRevert(reason: string): string {
+  const hint = explainRevert(reason);
+  return `reverted: ${reason}${hint ? `. ${hint}` : ""}`;
+}
+
+function formatCustomError(name: string, args: unknown[]): string {
+  return `${name}(${args.map(String).join(", ")})`;
+}
+
+function describePanic(code: number): string {
+  return `panic 0x${code.toString(16).padStart(2, "0")} (${PANIC_REASONS[code] ?? "unknown"})`;
+}
+
+function isNonceConflict(error: unknown): boolean {
+  return isError(error, "NONCE_EXPIRED") || /nonce too low|already known|nonce has already been used/i.test(errorText(error));
+}
+
+function errorText(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return typeof error === "string" ? error : "";
+}
@@ -0,0 +1,551 @@
+/**
+ * Decoded TypeScript mirrors of the structs in `contracts/libraries/Types.sol`
+ * and of the events emitted by the Hedgera contracts.
+ */
+
+import type { TransactionReceipt } from "ethers";
+
+/**
+ * Status of an index (mirrors `Types.IndexStatus`)
+ */
+export enum IndexStatus {
+  Active = 0,     // Index is active and can be minted/redeemed
+  Inactive = 1,   // Index is inactive but can still be redeemed
+  Deprecated = 2, // Index is deprecated and should not be used
+}
+
+/**
+ * Component token in an index basket (mirrors `Types.Component`)
+ */
+export interface Component {
+  token: string;    // Token contract address
+  weight: bigint;   // Weight in basis points (10000 = 100%)
+  balance: bigint;  // Current balance of this token in vault
+}
+
+/**
+ * Fee configuration for an index (mirrors `Types.FeeConfig`)
+ */
+export interface FeeConfig {
+  mintFee: bigint;        // Mint fee in basis points
+  redeemFee: bigint;      // Redeem fee in basis points
+  platformShare: bigint;  // Platform's share of fees in basis points
+}
+
+/**
+ * Complete information about an index (mirrors `Types.IndexInfo`)
+ */
+export interface IndexInfo {
+  id: number;                 // Index ID
+  name: string;               // Index name
+  symbol: string;             // Index symbol
+  curator: string;            // Curator address
+  vault: string;              // Vault contract address
+  indexToken: string;         // Index token contract address
+  creationTime: number;       // Block timestamp when created (seconds)
+  totalValueLocked: bigint;   // Total value locked in USDC (6 decimals)
+  totalVolume: bigint;        // Total trading volume in USDC (6 decimals)
+  status: IndexStatus;        // Current status
+  fees: FeeConfig;            // Fee configuration
+  components: Component[];    // Basket components
+}
+
+/**
+ * A component holding valued by its vault (mirrors `BasketVault.getComponentValues`)
+ */
+export interface ComponentValuation {
+  token: string;
+  balance: bigint;            // Held by the vault
+  value: bigint;              // USDC (6 decimals); 0 when not priced
+  priced: boolean;            // False when the Router could not quote the token
+}
+
+/**
+ * An index's live value as its vault computes it (from `HedgeraClient.getValuation`)
+ */
+export interface IndexValuation {
+  indexId: number;
+  totalValueLocked: bigint;   // USDC (6 decimals), priced components and idle USDC
+  navPerShare: bigint;        // USDC (6 decimals) per whole share
+  components: ComponentValuation[]; // Registry component order
+  unpriced: string[];         // Components left out of TVL and NAV
+}
+
+/**
+ * ERC-20 metadata of a basket token
+ */
+export interface TokenMetadata {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * Addresses written by `scripts/deploy.ts` and `scripts/deploy-local.ts`
+ */
+export interface DeploymentManifest {
+  usdc: string;
+  saucerSwapRouter: string;
+  registry: string;
+  router: string;
+  factory: string;
+  vaultDeployer?: string;           // VaultDeployer library the factory is linked against
+  deployer: string;
+  deploymentBlock: number;          // Block of the first contract deployed, kept across resumes and redeploys
+  timestamp: number;
+  chainId: number;
+  saucerSwapFactory?: string;       // Only set for local mock deployments
+  tokens?: Record<string, string>;  // Basket token symbol to address, when not the Hedera mainnet tokens
+}
+
+/**
+ * Manifest written part-way through a deployment (contract addresses appear as they are deployed)
+ */
+export type PartialDeployment = Partial<DeploymentManifest> & { chainId: number };
+
+/**
+ * Decoded `BasketVault.Minted` event
+ */
+export interface MintedEvent {
+  user: string;
+  indexId: number;
+  usdcIn: bigint;
+  sharesOut: bigint;
+  navPerShare: bigint;
+}
+
+/**
+ * Decoded `BasketVault.Redeemed` event
+ */
+export interface RedeemedEvent {
+  user: string;
+  indexId: number;
+  sharesIn: bigint;
+  usdcOut: bigint;
+  navPerShare: bigint;
+}
+
+/**
+ * Decoded `BasketVault.RedeemedInKind` event
+ */
+export interface RedeemedInKindEvent {
+  user: string;
+  indexId: number;
+  sharesIn: bigint;
+  tokens: string[];     // Registry component order
+  amounts: bigint[];    // Received by the user
+  fees: bigint[];       // Kept as the in-kind redeem fee (sent to the curator)
+  usdcOut: bigint;      // Pro-rata idle USDC received, after the redeem fee
+}
+
+/**
+ * Decoded `BasketVault.BasketRebalanced` event
+ */
+export interface BasketRebalancedEvent {
+  indexId: number;
+  weights: bigint[];    // Target weights after the rebalance, registry component order
+}
+
+/**
+ * Decoded `BasketVault.VaultMigrated` event, emitted by the old vault
+ */
+export interface VaultMigratedEvent {
+  indexId: number;
+  newVault: string;
+  totalValueLocked: bigint; // USDC (6 decimals), reported by the new vault
+  navPerShare: bigint;      // USDC (6 decimals), reported by the new vault
+}
+
+/**
+ * Decoded `IndexFactory.IndexCreated` event
+ */
+export interface IndexCreatedEvent {
+  indexId: number;
+  name: string;
+  symbol: string;
+  curator: string;
+  vault: string;
+  indexToken: string;
+  tokens: string[];
+  weights: bigint[];
+  creator: string;
+}
+
+/**
+ * Parameters for `IndexFactory.createIndex`
+ */
+export interface CreateIndexParams {
+  name: string;
+  symbol: string;
+  curator: string;
+  tokens: string[];
+  weights: bigint[];    // basis points (10000 = 100%)
+  mintFee: bigint;      // basis points
+  redeemFee: bigint;    // basis points
+}
+
+/**
+ * Options shared by the state-changing client methods
+ */
+export interface MintOptions {
+  minShares?: bigint;           // Minimum shares to receive (default 0)
+  minTokenAmounts?: bigint[];   // Per-component minimums; uses `mintWithMinimums` when set
+  deadline?: number;            // Unix timestamp, default now + 30 minutes
+}
+
+export interface RedeemOptions {
+  minAmount?: bigint;           // Minimum USDC to receive (default 0)
+  minUsdcAmounts?: bigint[];    // Per-component minimums; uses `redeemWithMinimums` when set
+  deadline?: number;            // Unix timestamp, default now + 30 minutes
+}
+
+export interface RedeemInKindOptions {
+  deadline?: number;            // Unix timestamp, default now + 30 minutes
+}
+
+export interface RebalancePlanOptions {
+  targetWeights?: bigint[];     // New weights in registry component order (default: the registry's)
+  slippageBps?: number;         // Tolerance applied to every trade (default 100)
+  minTradeUsdc?: bigint;        // Trades worth less than this are skipped (default 1 USDC)
+}
+
+export interface RebalanceOptions {
+  deadline?: number;            // Unix timestamp, default now + 30 minutes
+}
+
+export interface MigrationPlanOptions {
+  toleranceBps?: number;        // NAV and TVL the migration may lose (default 10)
+}
+
+export interface FeeSweepOptions {
+  curatorTreasury?: string;     // Receives curator fees (default: the signer)
+  platformTreasury?: string;    // Receives platform and index creation fees (default: the signer)
+  minAmount?: bigint;           // Balances below this are left in place (default: any non-zero balance)
+}
+
+/**
+ * Quoted swap of one basket component
+ */
+export interface ComponentQuote {
+  token: string;
+  path: string[];           // Router swap path (USDC -> token for a mint, token -> USDC for a redeem)
+  amountIn: bigint;         // USDC allocation (mint) or component amount sold (redeem)
+  expectedOut: bigint;      // Component bought (mint) or USDC received (redeem) at current pool prices
+  minOut: bigint;           // expectedOut less the slippage tolerance
+  priceImpactBps: number;   // Shortfall against the pool's marginal price, in basis points
+}
+
+/**
+ * Expected outcome of a mint with the minimums to enforce (from `HedgeraClient.quoteMint`)
+ */
+export interface MintQuote {
+  indexId: number;
+  usdcAmount: bigint;
+  fee: bigint;                  // Mint fee in USDC
+  slippageBps: number;
+  expectedShares: bigint;
+  minShares: bigint;
+  components: ComponentQuote[]; // Registry component order
+}
+
+/**
+ * Expected outcome of a redeem with the minimums to enforce (from `HedgeraClient.quoteRedeem`)
+ */
+export interface RedeemQuote {
+  indexId: number;
+  shares: bigint;
+  slippageBps: number;
+  grossUsdc: bigint;            // USDC from selling the components, before the redeem fee
+  fee: bigint;                  // Redeem fee in USDC
+  expectedUsdc: bigint;         // From BasketVault.previewRedeem
+  minUsdc: bigint;
+  components: ComponentQuote[]; // Registry component order
+}
+
+/**
+ * A component's holding against its target weight
+ */
+export interface ComponentDrift {
+  token: string;
+  balance: bigint;          // Held by the vault
+  value: bigint;            // USDC, from BasketVault.getComponentValues
+  targetValue: bigint;      // USDC
+  currentWeight: number;    // Basis points of the basket value
+  targetWeight: number;     // Basis points
+  driftBps: number;         // currentWeight - targetWeight
+}
+
+/**
+ * Trades that bring a basket back to its target weights (from `HedgeraClient.planRebalance`)
+ */
+export interface RebalancePlan {
+  indexId: number;
+  slippageBps: number;
+  targetWeights: bigint[];      // Registry component order
+  weightsChanged: boolean;      // Targets differ from the registry's, so the rebalance updates them
+  idleUsdc: bigint;             // Vault USDC beyond the collected fees
+  totalValue: bigint;           // Component values plus idle USDC
+  components: ComponentDrift[]; // Registry component order
+  sells: ComponentQuote[];      // Registry component order, amountIn 0 where nothing is sold
+  buys: ComponentQuote[];       // Registry component order, amountIn is the USDC to spend
+  estimatedCost: bigint;        // USDC lost to pool fees and price impact
+}
+
+/**
+ * Holdings and value of an index's live vault at one point in time (from `HedgeraClient.snapshotVault`)
+ */
+export interface VaultSnapshot {
+  indexId: number;
+  vault: string;
+  navPerShare: bigint;          // USDC (6 decimals) per whole share
+  totalValueLocked: bigint;     // USDC (6 decimals), priced components only
+  totalSupply: bigint;          // Index token shares
+  usdcBalance: bigint;          // Idle USDC plus collected fees
+  collectedFees: bigint;        // USDC, curator and platform shares together
+  platformFees: bigint;         // USDC
+  components: { token: string; balance: bigint }[]; // Registry component order
+}
+
+/**
+ * A checked migration of an index to a new vault (from `HedgeraClient.planMigration`)
+ */
+export interface MigrationPlan {
+  indexId: number;
+  vault: string;                // Vault the index moves away from
+  factory: string;              // Authorized factory that deploys the new vault
+  owner: string;                // Vault owner, the only account that can migrate
+  before: VaultSnapshot;
+  toleranceBps: number;
+  minNavPerShare: bigint;       // NAV floor the vault enforces on-chain
+}
+
+/**
+ * Unclaimed fees of one vault, split by the index's `platformShare`
+ */
+export interface VaultFees {
+  indexId: number;
+  symbol: string;
+  vault: string;
+  curator: string;          // Vault owner, who claims curatorFees
+  curatorFees: bigint;      // USDC
+  platformFees: bigint;     // USDC
+}
+
+/**
+ * Unclaimed fees across the protocol (from `HedgeraClient.getFeeReport`)
+ */
+export interface FeeReport {
+  platform: string;         // Registry owner, who claims the vaults' platform fees
+  factoryOwner: string;     // Claims the index creation fees
+  factoryFees: bigint;      // USDC held by the factory
+  vaults: VaultFees[];      // Registry order
+  totalCuratorFees: bigint;
+  totalPlatformFees: bigint; // Vault platform fees plus factory fees
+}
+
+/**
+ * One fee balance an account can withdraw (from `HedgeraClient.planFeeSweep`)
+ */
+export interface FeeClaim {
+  source: "curator" | "platform" | "factory";
+  indexId?: number;         // Unset for factory fees
+  from: string;             // Vault or factory
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * One confirmed withdrawal of a fee sweep (from `HedgeraClient.sweepFees`)
+ */
+export interface FeeWithdrawal extends FeeClaim {
+  receipt: TransactionReceipt;
+}
+
+/**
+ * Result of a confirmed index creation
+ */
+export interface CreateIndexResult {
+  receipt: TransactionReceipt;
+  event: IndexCreatedEvent;
+}
+
+/**
+ * Result of a confirmed mint
+ */
+export interface MintResult {
+  receipt: TransactionReceipt;
+  event: MintedEvent;
+}
+
+/**
+ * Result of a confirmed redeem
+ */
+export interface RedeemResult {
+  receipt: TransactionReceipt;
+  event: RedeemedEvent;
+}
+
+/**
+ * Result of a confirmed in-kind redeem
+ */
+export interface RedeemInKindResult {
+  receipt: TransactionReceipt;
+  event: RedeemedInKindEvent;
+}
+
+/**
+ * Result of a confirmed rebalance
+ */
+export interface RebalanceResult {
+  receipt: TransactionReceipt;
+  event: BasketRebalancedEvent;
+}
+
+/**
+ * Result of a confirmed migration, with the new vault checked against the plan's snapshot
+ */
+export interface MigrationResult {
+  receipt: TransactionReceipt;
+  event: VaultMigratedEvent;
+  after: VaultSnapshot;
+  issues: string[];             // Differences beyond the tolerance (from `compareVaultSnapshots`)
+}
+
+/**
+ * Component or idle USDC amounts an in-kind redeem would pay out (from `HedgeraClient.previewRedeemInKind`)
+ */
+export interface InKindComponent {
+  token: string;
+  amount: bigint;   // Sent to the redeemer
+  fee: bigint;      // Split between the curator and the platform
+}
+
+/** Contracts a prepared call can target */
+export type CallTarget = "IndexRegistry" | "IndexFactory" | "Router" | "BasketVault" | "IndexToken" | "ERC20";
+
+/**
+ * A state-changing call, built before it is either sent or exported for offline signing
+ */
+export interface ContractCall {
+  contract: CallTarget;
+  to: string;
+  method: string;
+  args: unknown[];
+  description: string;      // What the call does, for review
+}
+
+/**
+ * Contracts a batch can create: the protocol contracts and the library IndexFactory links
+ */
+export type CreationTarget = "IndexRegistry" | "Router" | "IndexFactory" | "VaultDeployer";
+
+/**
+ * A contract creation, built for export so that an account key can deploy the protocol offline
+ * @dev The address follows from the sender and its nonce, so it only holds at the nonce it was planned for
+ */
+export interface ContractCreation {
+  contract: CreationTarget;
+  address: string;                      // Where the contract will be created
+  args: unknown[];                      // Constructor arguments
+  libraries?: Record<string, string>;   // Linked library addresses by fully qualified name
+  description: string;
+}
+
+/**
+ * One unsigned transaction of a batch, with its calldata decoded for review
+ * @dev A creation has no `to`; its `data` is the linked creation code followed by the constructor
+ *      arguments, `method` is "constructor" and `address` the contract it creates
+ */
+export interface BatchTransaction {
+  to: string | null;
+  value: string;            // Wei; protocol calls send none
+  data: string;
+  contract: CallTarget | CreationTarget;
+  method: string;
+  args: string[];           // Decoded from `data`, formatted for display
+  description: string;
+  address?: string;                     // Creations only
+  libraries?: Record<string, string>;   // Creations only
+}
+
+/**
+ * Unsigned transactions exported for signing elsewhere (from `createBatch`)
+ * @dev `hash` covers every other field except `signed`; compare it out of band before signing
+ */
+export interface TransactionBatch {
+  version: number;
+  chainId: number;
+  registry: string;         // Deployment the batch was built against
+  from: string;             // Account expected to sign every transaction
+  createdAt: string;        // ISO timestamp
+  transactions: BatchTransaction[];
+  nonce?: number;           // Nonce of the first transaction, set when the batch creates contracts
+  hash: string;
+  signed?: string[];        // Serialized signed transactions, in order (from `signBatch`)
+}
+
+/**
+ * ABIs published with a bundle version, one sorted list of fragment signatures per contract
+ * @dev Committed as `abi-lock.json`; `checkAbiCompatibility` compares the compiled ABIs against it
+ */
+export interface AbiLock {
+  version: string;
+  contracts: Record<string, string[]>;
+}
+
+/**
+ * One ABI fragment added or removed since the locked version (a changed fragment is both)
+ */
+export interface AbiChange {
+  contract: string;
+  change: "added" | "removed";
+  signature: string;        // Full fragment, e.g. `function getNavPerShare() view returns (uint256)`
+}
+
+/** Semver part a version change increments */
+export type VersionBump = "none" | "patch" | "minor" | "major";
+
+/**
+ * Compiled ABIs checked against the lock (from `checkAbiCompatibility`)
+ * @dev Removed fragments need a major bump and added ones a minor bump
+ */
+export interface AbiCompatibility {
+  lockedVersion: string;
+  version: string;
+  changes: AbiChange[];
+  required: VersionBump;
+  bump: VersionBump;
+  ok: boolean;
+}
+
+/**
+ * Entry of `deployments/created-indexes.json`, written by `scripts/create-index.ts`
+ * @dev Entries written before `chainId` and `registry` were recorded cannot be bundled
+ */
+export interface CreatedIndexRecord {
+  id: number;
+  name: string;
+  symbol: string;
+  vault: string;
+  indexToken: string;
+  chainId?: number;
+  registry?: string;
+}
+
+/**
+ * A network's deployment manifest as published in the bundle, with the indexes created on it
+ */
+export interface BundledNetwork extends DeploymentManifest {
+  network: string;
+  indexes: Omit<CreatedIndexRecord, "chainId" | "registry">[];
+}
+
+/**
+ * Everything `writeBundle` publishes: one version of the ABIs and the deployments to use them with
+ */
+export interface ContractBundle {
+  name: string;             // npm package name
+  version: string;
+  abis: Record<string, unknown[]>;
+  networks: Record<string, BundledNetwork>;
+}
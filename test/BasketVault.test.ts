@@ -0,0 +1,751 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-network-helpers";
+import { HedgeraClient, IndexStatus } from "../sdk";
+import { MINT_FEE, REDEEM_FEE, WEIGHTS, deployIndexFixture, rejectionOf, usdc } from "./fixtures";
+
+const BASIS_POINTS = 10000n;
+const PLATFORM_SHARE = 5000n; // IndexRegistry default
+const DEADLINE = ethers.MaxUint256;
+
+describe("BasketVault", function () {
+  async function setup() {
+    const base = await deployIndexFixture();
+    const vaultAddress = await base.vault.getAddress();
+    for (const user of [base.alice, base.bob]) {
+      await base.usdcToken.connect(user).approve(vaultAddress, ethers.MaxUint256);
+    }
+    return { ...base, vaultAddress };
+  }
+
+  async function componentBalances(fixture: Awaited<ReturnType<typeof setup>>) {
+    return Promise.all(fixture.tokens.map((t) => t.balanceOf(fixture.vaultAddress)));
+  }
+
+  describe("mint", function () {
+    it("scales the first mint from 6 to 18 decimals after the fee", async function () {
+      const { vault, indexToken, alice } = await loadFixture(setup);
+      const amount = usdc("1000");
+      const fee = (amount * MINT_FEE) / BASIS_POINTS;
+
+      expect(await vault.getNavPerShare()).to.equal(usdc("1"));
+      await expect(vault.connect(alice).mint(amount, 0n, DEADLINE)).to.emit(vault, "Minted");
+
+      expect(await indexToken.balanceOf(alice.address)).to.equal((amount - fee) * 10n ** 12n);
+      expect(await indexToken.totalSupply()).to.equal((amount - fee) * 10n ** 12n);
+    });
+
+    it("buys every component in proportion to its weight", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, router, tokens, alice } = fixture;
+      const investment = usdc("995"); // 1000 USDC minus the 0.5% mint fee
+
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+
+      const balances = await componentBalances(fixture);
+      for (let i = 0; i < tokens.length; i++) {
+        const value = await router.getTokenValueInUSDC(await tokens[i].getAddress(), balances[i]);
+        const target = (investment * WEIGHTS[i]) / BASIS_POINTS;
+        // Round trip through 1M-deep pools loses ~0.6% to swap fees and impact
+        expect(value).to.be.closeTo(target, target / 100n);
+      }
+    });
+
+    it("prices subsequent mints at the current NAV per share", async function () {
+      const { vault, indexToken, alice, bob } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+
+      const amount = usdc("500");
+      const investment = amount - (amount * MINT_FEE) / BASIS_POINTS;
+      const nav = await vault.getNavPerShare();
+      const tvl = await vault.getTotalValueLocked();
+      // NAV is USDC (6 decimals) per whole share
+      expect(nav).to.equal((tvl * 10n ** 18n) / (await indexToken.totalSupply()));
+
+      await vault.connect(bob).mint(amount, 0n, DEADLINE);
+      expect(await indexToken.balanceOf(bob.address)).to.equal((investment * 10n ** 18n) / nav);
+    });
+
+    it("accrues the mint fee into collectedFees", async function () {
+      const { vault, usdcToken, alice, bob, vaultAddress } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      await vault.connect(bob).mint(usdc("200"), 0n, DEADLINE);
+
+      const expected = (usdc("1000") * MINT_FEE) / BASIS_POINTS + (usdc("200") * MINT_FEE) / BASIS_POINTS;
+      expect(await vault.collectedFees()).to.equal(expected);
+      expect(await vault.getCollectedFees()).to.equal(expected);
+      // Fees are the only USDC left behind when every swap succeeds
+      expect(await usdcToken.balanceOf(vaultAddress)).to.equal(expected);
+    });
+
+    it("updates registry TVL and volume", async function () {
+      const { vault, registry, indexId, alice, bob } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      await vault.connect(bob).mint(usdc("250"), 0n, DEADLINE);
+
+      const info = await registry.getIndex(indexId);
+      expect(info.totalVolume).to.equal(usdc("1250"));
+      expect(info.totalValueLocked).to.equal(await vault.getTotalValueLocked());
+
+      // Only the vault, authorized factories and the registry owner may report metrics
+      await expect(registry.connect(alice).updateIndexMetrics(indexId, 0n, 0n)).to.be.revertedWith(
+        "IndexRegistry: not authorized"
+      );
+    });
+
+    it("enforces the minimum amount, deadline, minShares and index status", async function () {
+      const { vault, registry, indexId, deployer, alice } = await loadFixture(setup);
+      await expect(vault.connect(alice).mint(usdc("0.999999"), 0n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: amount too small"
+      );
+      await expect(vault.connect(alice).mint(usdc("10"), 0n, (await time.latest()) - 1)).to.be.revertedWith(
+        "BasketVault: expired"
+      );
+      await expect(vault.connect(alice).mint(usdc("10"), 10n ** 19n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: insufficient shares"
+      );
+
+      await registry.connect(deployer).updateIndexStatus(indexId, IndexStatus.Inactive);
+      await expect(vault.connect(alice).mint(usdc("10"), 0n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: index not active"
+      );
+    });
+  });
+
+  describe("redeem", function () {
+    it("sells a proportional slice of the basket and charges the redeem fee", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, indexToken, registry, usdcToken, indexId, alice } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+
+      const shares = (await indexToken.balanceOf(alice.address)) / 4n;
+      const supply = await indexToken.totalSupply();
+      const balancesBefore = await componentBalances(fixture);
+      const feesBefore = await vault.collectedFees();
+      const volumeBefore = (await registry.getIndex(indexId)).totalVolume;
+      const usdcBefore = await usdcToken.balanceOf(alice.address);
+
+      await expect(vault.connect(alice).redeem(shares, 0n, DEADLINE)).to.emit(vault, "Redeemed");
+
+      const received = (await usdcToken.balanceOf(alice.address)) - usdcBefore;
+      const fee = (await vault.collectedFees()) - feesBefore;
+      const gross = received + fee;
+      expect(fee).to.equal((gross * REDEEM_FEE) / BASIS_POINTS);
+      expect(received).to.be.closeTo(usdc("245"), usdc("5")); // ~995 / 4 less 1% fee and swap costs
+
+      const balancesAfter = await componentBalances(fixture);
+      for (let i = 0; i < balancesBefore.length; i++) {
+        expect(balancesBefore[i] - balancesAfter[i]).to.equal((balancesBefore[i] * shares) / supply);
+      }
+
+      expect(await indexToken.balanceOf(alice.address)).to.equal(supply - shares);
+      const info = await registry.getIndex(indexId);
+      expect(info.totalVolume - volumeBefore).to.equal(gross);
+      expect(info.totalValueLocked).to.equal(await vault.getTotalValueLocked());
+    });
+
+    it("still allows redemption from an inactive index", async function () {
+      const { vault, indexToken, registry, indexId, deployer, alice } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("100"), 0n, DEADLINE);
+      await registry.connect(deployer).updateIndexStatus(indexId, IndexStatus.Inactive);
+
+      const shares = await indexToken.balanceOf(alice.address);
+      await vault.connect(alice).redeem(shares, 0n, DEADLINE);
+      expect(await indexToken.totalSupply()).to.equal(0n);
+    });
+
+    it("enforces balance, minAmount and deadline", async function () {
+      const { vault, indexToken, alice, bob } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("100"), 0n, DEADLINE);
+      const shares = await indexToken.balanceOf(alice.address);
+
+      await expect(vault.connect(bob).redeem(1n, 0n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: insufficient balance"
+      );
+      await expect(vault.connect(alice).redeem(0n, 0n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: shares must be positive"
+      );
+      await expect(vault.connect(alice).redeem(shares, usdc("100"), DEADLINE)).to.be.revertedWith(
+        "BasketVault: insufficient amount"
+      );
+      await expect(vault.connect(alice).redeem(shares, 0n, (await time.latest()) - 1)).to.be.revertedWith(
+        "BasketVault: expired"
+      );
+    });
+  });
+
+  describe("redeemInKind", function () {
+    it("pays out a pro-rata slice of every component and splits the fee with the platform", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, indexToken, usdcToken, tokens, vaultAddress, deployer, curator, alice } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+
+      const shares = (await indexToken.balanceOf(alice.address)) / 4n;
+      const supply = await indexToken.totalSupply();
+      const balancesBefore = await componentBalances(fixture);
+      const platformBefore = await Promise.all(tokens.map((t) => t.balanceOf(deployer.address)));
+      const vaultUsdcBefore = await usdcToken.balanceOf(vaultAddress);
+      const preview = await new HedgeraClient(fixture.manifest, alice).previewRedeemInKind(fixture.indexId, shares);
+
+      await expect(vault.connect(alice).redeemInKind(shares, DEADLINE)).to.emit(vault, "RedeemedInKind");
+
+      for (let i = 0; i < tokens.length; i++) {
+        const gross = (balancesBefore[i] * shares) / supply;
+        const fee = (gross * REDEEM_FEE) / BASIS_POINTS;
+        const platformFee = (fee * PLATFORM_SHARE) / BASIS_POINTS;
+        expect(await tokens[i].balanceOf(alice.address)).to.equal(gross - fee);
+        expect(await tokens[i].balanceOf(curator.address)).to.equal(fee - platformFee);
+        expect((await tokens[i].balanceOf(deployer.address)) - platformBefore[i]).to.equal(platformFee);
+        expect(preview[i]).to.deep.equal({ token: await tokens[i].getAddress(), amount: gross - fee, fee });
+      }
+      expect(await indexToken.balanceOf(alice.address)).to.equal(supply - shares);
+      expect(await usdcToken.balanceOf(vaultAddress)).to.equal(vaultUsdcBefore);
+    });
+
+    it("reports each token received through the SDK and updates registry TVL", async function () {
+      const { vault, registry, indexToken, tokens, indexId, manifest, alice } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const shares = await indexToken.balanceOf(alice.address);
+
+      const client = new HedgeraClient(manifest, alice);
+      const { event } = await client.redeemInKind(indexId, shares);
+
+      expect(event.user).to.equal(alice.address);
+      expect(event.indexId).to.equal(indexId);
+      expect(event.sharesIn).to.equal(shares);
+      expect(event.tokens).to.deep.equal(await Promise.all(tokens.map((t) => t.getAddress())));
+      for (let i = 0; i < tokens.length; i++) {
+        expect(event.amounts[i]).to.equal(await tokens[i].balanceOf(alice.address));
+        expect(event.fees[i]).to.equal((event.amounts[i] + event.fees[i]) * REDEEM_FEE / BASIS_POINTS);
+      }
+      expect(await indexToken.totalSupply()).to.equal(0n);
+      expect((await registry.getIndex(indexId)).totalValueLocked).to.equal(0n);
+    });
+
+    it("pays the pro-rata part of idle USDC, less the redeem fee", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, saucerSwapRouter, indexToken, usdcToken, tokens, vaultAddress, manifest, indexId, alice } = fixture;
+      await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), true);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+
+      const shares = (await indexToken.balanceOf(alice.address)) / 2n;
+      const idle = (await usdcToken.balanceOf(vaultAddress)) - (await vault.collectedFees());
+      const gross = (idle * shares) / (await indexToken.totalSupply());
+      const fee = (gross * REDEEM_FEE) / BASIS_POINTS;
+      const feesBefore = await vault.collectedFees();
+      const client = new HedgeraClient(manifest, alice);
+      const preview = await client.previewRedeemInKind(indexId, shares);
+      expect(preview[tokens.length]).to.deep.equal({ token: manifest.usdc, amount: gross - fee, fee });
+
+      const usdcBefore = await usdcToken.balanceOf(alice.address);
+      const { event } = await client.redeemInKind(indexId, shares);
+      expect(event.usdcOut).to.equal(gross - fee);
+      expect((await usdcToken.balanceOf(alice.address)) - usdcBefore).to.equal(gross - fee);
+      expect((await vault.collectedFees()) - feesBefore).to.equal(fee);
+    });
+
+    it("works when a component cannot be swapped", async function () {
+      const { vault, saucerSwapRouter, indexToken, tokens, alice } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      await saucerSwapRouter.setTokenDisabled(await tokens[0].getAddress(), true);
+
+      await vault.connect(alice).redeemInKind(await indexToken.balanceOf(alice.address), DEADLINE);
+      expect(await tokens[0].balanceOf(alice.address)).to.be.gt(0n);
+    });
+
+    it("enforces balance, share amount and deadline", async function () {
+      const { vault, indexToken, alice, bob } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("100"), 0n, DEADLINE);
+      const shares = await indexToken.balanceOf(alice.address);
+
+      await expect(vault.connect(bob).redeemInKind(1n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: insufficient balance"
+      );
+      await expect(vault.connect(alice).redeemInKind(0n, DEADLINE)).to.be.revertedWith(
+        "BasketVault: shares must be positive"
+      );
+      await expect(vault.connect(alice).redeemInKind(shares, (await time.latest()) - 1)).to.be.revertedWith(
+        "BasketVault: expired"
+      );
+    });
+  });
+
+  describe("fees", function () {
+    it("lets the curator and the platform each withdraw only their share", async function () {
+      const { vault, usdcToken, deployer, curator, alice } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const fees = await vault.collectedFees();
+      const platformFees = (fees * PLATFORM_SHARE) / BASIS_POINTS;
+      const curatorFees = fees - platformFees;
+
+      expect(await vault.platform()).to.equal(deployer.address);
+      expect(await vault.getFeeSplit()).to.deep.equal([curatorFees, platformFees]);
+
+      await expect(vault.connect(alice).withdrawFees(alice.address, fees)).to.be.revertedWithCustomError(
+        vault,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(vault.connect(curator).withdrawFees(curator.address, curatorFees + 1n)).to.be.revertedWith(
+        "BasketVault: insufficient fees"
+      );
+      await expect(vault.connect(curator).withdrawPlatformFees(curator.address, platformFees)).to.be.revertedWith(
+        "BasketVault: caller is not the platform"
+      );
+      await expect(
+        vault.connect(deployer).withdrawPlatformFees(deployer.address, platformFees + 1n)
+      ).to.be.revertedWith("BasketVault: insufficient fees");
+
+      await expect(vault.connect(curator).withdrawFees(curator.address, curatorFees)).to.changeTokenBalance(
+        usdcToken,
+        curator.address,
+        curatorFees
+      );
+      await expect(vault.connect(deployer).withdrawPlatformFees(deployer.address, platformFees))
+        .to.emit(vault, "PlatformFeesWithdrawn")
+        .withArgs(deployer.address, platformFees);
+      expect(await vault.collectedFees()).to.equal(0n);
+      expect(await vault.getFeeSplit()).to.deep.equal([0n, 0n]);
+    });
+
+    it("applies a new platformShare to fees collected afterwards", async function () {
+      const { vault, registry, indexId, deployer, curator, alice } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const [curatorBefore, platformBefore] = await vault.getFeeSplit();
+
+      await expect(registry.connect(curator).updatePlatformShare(indexId, 2000n)).to.be.revertedWithCustomError(
+        registry,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(registry.connect(deployer).updatePlatformShare(indexId, 10001n)).to.be.revertedWith(
+        "IndexRegistry: share too high"
+      );
+      await expect(registry.connect(deployer).updatePlatformShare(indexId, 2000n))
+        .to.emit(registry, "PlatformShareUpdated")
+        .withArgs(indexId, 2000n);
+
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const fee = (usdc("1000") * MINT_FEE) / BASIS_POINTS;
+      expect(await vault.getFeeSplit()).to.deep.equal([
+        curatorBefore + fee - (fee * 2000n) / BASIS_POINTS,
+        platformBefore + (fee * 2000n) / BASIS_POINTS,
+      ]);
+    });
+
+    it("reports and sweeps every party's fees through the client", async function () {
+      const { vault, indexToken, manifest, usdcToken, factory, deployer, curator, alice, bob } = await loadFixture(setup);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      await vault.connect(alice).redeem((await indexToken.balanceOf(alice.address)) / 2n, 0n, DEADLINE);
+      const [curatorFees, platformFees] = await vault.getFeeSplit();
+      const factoryFees = await factory.getCollectedFees();
+
+      const report = await new HedgeraClient(manifest, ethers.provider).getFeeReport();
+      expect(report.platform).to.equal(deployer.address);
+      expect(report.factoryOwner).to.equal(deployer.address);
+      expect(report.vaults).to.have.length(1);
+      expect(report.vaults[0]).to.include({ curator: curator.address, curatorFees, platformFees });
+      expect(report.totalPlatformFees).to.equal(platformFees + factoryFees);
+
+      // The curator can only sweep its own share
+      const curatorSweep = await new HedgeraClient(manifest, curator).sweepFees({ curatorTreasury: bob.address });
+      expect(curatorSweep.map((w) => [w.source, w.to, w.amount])).to.deep.equal([["curator", bob.address, curatorFees]]);
+
+      const bobBefore = await usdcToken.balanceOf(bob.address);
+      const platformSweep = await new HedgeraClient(manifest, deployer).sweepFees({ platformTreasury: bob.address });
+      expect(platformSweep.map((w) => w.source)).to.deep.equal(["platform", "factory"]);
+      expect((await usdcToken.balanceOf(bob.address)) - bobBefore).to.equal(platformFees + factoryFees);
+      expect(await vault.collectedFees()).to.equal(0n);
+      expect(await factory.getCollectedFees()).to.equal(0n);
+      expect(await new HedgeraClient(manifest, deployer).sweepFees()).to.deep.equal([]);
+    });
+  });
+
+  describe("rebalance", function () {
+    async function planned() {
+      const fixture = await setup();
+      return { ...fixture, client: new HedgeraClient(fixture.manifest, fixture.curator) };
+    }
+
+    it("deploys USDC left idle by a failed swap into the underweight component", async function () {
+      const fixture = await loadFixture(planned);
+      const { vault, client, indexId, saucerSwapRouter, usdcToken, tokens, vaultAddress, alice } = fixture;
+      await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), true);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), false);
+
+      const plan = await client.planRebalance(Number(indexId));
+      expect(plan.idleUsdc).to.equal(usdc("398"));
+      expect(plan.weightsChanged).to.equal(false);
+      expect(plan.components[1].driftBps).to.be.closeTo(-4000, 5);
+      expect(plan.sells.every((s) => s.amountIn === 0n)).to.equal(true);
+      expect(plan.buys.map((b) => b.amountIn)).to.deep.equal([0n, usdc("398"), 0n]);
+      expect(plan.estimatedCost).to.be.within(usdc("1.19"), usdc("1.4")); // 0.3% fee plus impact
+
+      const { event } = await client.rebalance(plan);
+      expect(event.weights).to.deep.equal(WEIGHTS);
+      expect(await usdcToken.balanceOf(vaultAddress)).to.equal(await vault.collectedFees());
+      expect((await componentBalances(fixture))[1]).to.equal(plan.buys[1].expectedOut);
+
+      const after = await client.planRebalance(Number(indexId));
+      after.components.forEach((c) => expect(Math.abs(c.driftBps)).to.be.at.most(5));
+    });
+
+    it("trades to new target weights and updates them in the registry", async function () {
+      const { vault, client, registry, indexId, alice } = await loadFixture(planned);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const targetWeights = [2000n, 5000n, 3000n];
+
+      const plan = await client.planRebalance(Number(indexId), { targetWeights });
+      expect(plan.weightsChanged).to.equal(true);
+      expect(plan.sells.map((s) => s.amountIn > 0n)).to.deep.equal([true, false, false]);
+      expect(plan.buys.map((b) => b.amountIn > 0n)).to.deep.equal([false, true, true]);
+      // Buys spend what the sales are guaranteed to return
+      const funding = plan.sells.reduce((sum, s) => sum + s.minOut, plan.idleUsdc);
+      expect(plan.buys.reduce((sum, b) => sum + b.amountIn, 0n)).to.be.closeTo(funding, 1n);
+
+      await client.rebalance(plan);
+      const [updated] = await registry.queryFilter(registry.filters.IndexWeightsUpdated(indexId));
+      expect(updated.args.weights).to.deep.equal(targetWeights);
+      const index = await client.getIndex(Number(indexId));
+      expect(index.components.map((c) => c.weight)).to.deep.equal(targetWeights);
+      expect(index.totalValueLocked).to.equal(await vault.getTotalValueLocked());
+
+      // What the slippage reserve left idle is below a percent of the basket
+      const after = await client.planRebalance(Number(indexId));
+      after.components.forEach((c) => expect(Math.abs(c.driftBps)).to.be.at.most(100));
+    });
+
+    it("restricts rebalancing to the owner and enforces weights, minimums and idle USDC", async function () {
+      const { vault, client, registry, indexId, alice } = await loadFixture(planned);
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const none = [0n, 0n, 0n];
+
+      await expect(
+        vault.connect(alice).rebalance([], none, none, none, none, DEADLINE)
+      ).to.be.revertedWithCustomError(vault, "OwnableUnauthorizedAccount");
+      await expect(vault.connect(alice).updateBasketWeights(WEIGHTS)).to.be.revertedWithCustomError(
+        vault,
+        "OwnableUnauthorizedAccount"
+      );
+      await expect(registry.connect(alice).updateIndexWeights(indexId, WEIGHTS)).to.be.revertedWith(
+        "IndexRegistry: not authorized"
+      );
+
+      await expect(vault.updateBasketWeights([5000n, 5000n])).to.be.revertedWith(
+        "IndexRegistry: tokens and weights length mismatch"
+      );
+      await expect(vault.updateBasketWeights([6000n, 2000n, 2000n])).to.be.revertedWith("IndexRegistry: weight too high");
+      await expect(vault.updateBasketWeights([4000n, 4000n, 1000n])).to.be.revertedWith(
+        "IndexRegistry: weights must sum to 100%"
+      );
+      await expect(vault.rebalance([], [0n], none, none, none, DEADLINE)).to.be.revertedWith(
+        "BasketVault: length mismatch"
+      );
+      await expect(vault.rebalance([], none, none, none, none, 0n)).to.be.revertedWith("BasketVault: expired");
+
+      // Only the collected fees sit in the vault as USDC
+      await expect(vault.rebalance([], none, none, [0n, usdc("1"), 0n], none, DEADLINE)).to.be.revertedWith(
+        "BasketVault: insufficient idle USDC"
+      );
+      const plan = await client.planRebalance(Number(indexId), { targetWeights: [3000n, 5000n, 2000n] });
+      const sellAmounts = plan.sells.map((s) => s.amountIn);
+      const buyAllocations = plan.buys.map((b) => b.amountIn);
+
+      // Every traded leg needs a minimum within MAX_SLIPPAGE of the vault's own quote
+      await expect(
+        vault.rebalance(plan.targetWeights, sellAmounts, none, buyAllocations, plan.buys.map((b) => b.minOut), DEADLINE)
+      ).to.be.revertedWith("BasketVault: minimum exceeds max slippage");
+      await expect(
+        vault.rebalance(plan.targetWeights, sellAmounts, plan.sells.map((s) => s.minOut), buyAllocations, none, DEADLINE)
+      ).to.be.revertedWith("BasketVault: minimum exceeds max slippage");
+      const loose = plan.buys.map((b) => (b.expectedOut * 9400n) / 10000n);
+      await expect(
+        vault.rebalance(plan.targetWeights, sellAmounts, plan.sells.map((s) => s.minOut), buyAllocations, loose, DEADLINE)
+      ).to.be.revertedWith("BasketVault: minimum exceeds max slippage");
+
+      const greedy = plan.buys.map((b) => (b.amountIn > 0n ? b.expectedOut + 1n : 0n));
+      await expect(
+        vault.rebalance(
+          plan.targetWeights,
+          plan.sells.map((s) => s.amountIn),
+          plan.sells.map((s) => s.minOut),
+          plan.buys.map((b) => b.amountIn),
+          greedy,
+          DEADLINE
+        )
+      ).to.be.revertedWith("BasketVault: component below minimum");
+
+      // The weights-only update leaves holdings alone
+      await expect(vault.updateBasketWeights([3000n, 5000n, 2000n]))
+        .to.emit(vault, "BasketRebalanced")
+        .withArgs(indexId, [3000n, 5000n, 2000n]);
+      expect(await rejectionOf(client.planRebalance(Number(indexId), { targetWeights: [5000n, 5000n, 1000n] }))).to.match(
+        /must sum to 10000/
+      );
+    });
+  });
+
+  // Plain mints swallow failed buys and redeems revert on failed sales; these tests pin down what happens to the funds
+  describe("swap failure fallbacks", function () {
+    it("keeps a failed component's allocation as idle USDC that TVL counts", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, saucerSwapRouter, usdcToken, tokens, indexToken, vaultAddress, alice } = fixture;
+      await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), true);
+
+      const amount = usdc("1000");
+      const fee = (amount * MINT_FEE) / BASIS_POINTS;
+      const stranded = ((amount - fee) * WEIGHTS[1]) / BASIS_POINTS;
+      await vault.connect(alice).mint(amount, 0n, DEADLINE);
+
+      // Shares are still priced on the full investment
+      expect(await indexToken.balanceOf(alice.address)).to.equal((amount - fee) * 10n ** 12n);
+      const balances = await componentBalances(fixture);
+      expect(balances[0]).to.be.gt(0n);
+      expect(balances[1]).to.equal(0n);
+      expect(balances[2]).to.be.gt(0n);
+      expect(await usdcToken.balanceOf(vaultAddress)).to.equal(fee + stranded);
+
+      const tvl = await vault.getTotalValueLocked();
+      expect(tvl).to.be.closeTo(amount - fee, usdc("10"));
+      expect(await vault.previewRedeem(await indexToken.balanceOf(alice.address))).to.be.greaterThan(stranded);
+    });
+
+    it("keeps the whole investment as USDC when the router rejects rounded allocations", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, usdcToken, indexToken, vaultAddress, alice, bob } = fixture;
+      // 995.000003 USDC after fees splits 40/40/20 into allocations that sum to 995.000002,
+      // so Router reverts with "Allocation mismatch" and the vault swallows it
+      const amount = 1000000003n;
+      const fee = (amount * MINT_FEE) / BASIS_POINTS;
+      await vault.connect(alice).mint(amount, 0n, DEADLINE);
+
+      expect(await indexToken.balanceOf(alice.address)).to.equal((amount - fee) * 10n ** 12n);
+      expect(await componentBalances(fixture)).to.deep.equal([0n, 0n, 0n]);
+      expect(await usdcToken.balanceOf(vaultAddress)).to.equal(amount);
+      expect(await vault.getTotalValueLocked()).to.equal(amount - fee);
+      expect(await vault.getNavPerShare()).to.equal(usdc("1"));
+
+      // The idle USDC keeps the NAV, so a later mint is priced like the first
+      await vault.connect(bob).mint(usdc("100"), 0n, DEADLINE);
+      expect(await indexToken.balanceOf(bob.address)).to.equal(usdc("99.5") * 10n ** 12n);
+    });
+
+    it("reverts a redeem whose component cannot be sold, leaving the shares and the vault as they were", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, saucerSwapRouter, tokens, indexToken, alice } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const shares = await indexToken.balanceOf(alice.address);
+      const balancesBefore = await componentBalances(fixture);
+
+      await saucerSwapRouter.setTokenDisabled(await tokens[0].getAddress(), true);
+      await expect(vault.connect(alice).redeem(shares, 0n, DEADLINE)).to.be.revertedWith("BasketVault: component below minimum");
+      expect(await indexToken.balanceOf(alice.address)).to.equal(shares);
+      expect(await componentBalances(fixture)).to.deep.equal(balancesBefore);
+
+      // Redeeming in kind still works while the pool is down
+      await vault.connect(alice).redeemInKind(shares, DEADLINE);
+      expect(await tokens[0].balanceOf(alice.address)).to.be.gt(0n);
+    });
+
+    it("reverts a redeem when the whole sell reverts", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, router, indexToken, deployer, alice } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const shares = await indexToken.balanceOf(alice.address);
+      const balancesBefore = await componentBalances(fixture);
+
+      // A non-contract DEX makes Router revert outside its own try/catch
+      await router.connect(deployer).updateSaucerSwapRouter(deployer.address);
+
+      await expect(vault.connect(alice).redeem(shares, 0n, DEADLINE)).to.be.reverted;
+      expect(await indexToken.balanceOf(alice.address)).to.equal(shares);
+      expect(await componentBalances(fixture)).to.deep.equal(balancesBefore);
+    });
+  });
+
+  describe("read-only valuation", function () {
+    it("previews mints and redeems exactly as they execute", async function () {
+      const { vault, indexToken, usdcToken, alice, bob } = await loadFixture(setup);
+      expect(await vault.previewMint(usdc("1000"))).to.equal((usdc("995")) * 10n ** 12n);
+      await expect(vault.previewRedeem(1n)).to.be.revertedWith("BasketVault: no supply");
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+
+      const shares = await vault.previewMint(usdc("500"));
+      await vault.connect(bob).mint(usdc("500"), 0n, DEADLINE);
+      expect(await indexToken.balanceOf(bob.address)).to.equal(shares);
+
+      const redeemed = await indexToken.balanceOf(alice.address);
+      const expected = await vault.previewRedeem(redeemed);
+      await expect(vault.connect(alice).redeem(redeemed, 0n, DEADLINE)).to.changeTokenBalance(usdcToken, alice.address, expected);
+    });
+
+    it("flags components that cannot be priced and leaves them out of TVL", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, router, saucerSwapRouter, tokens, alice } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const balances = await componentBalances(fixture);
+
+      const [values, priced] = await vault.getComponentValues();
+      expect(priced).to.deep.equal([true, true, true]);
+      for (let i = 0; i < tokens.length; i++) {
+        expect(values[i]).to.equal(await router.getTokenValueInUSDC(await tokens[i].getAddress(), balances[i]));
+      }
+      expect(await vault.getTotalValueLocked()).to.equal(values[0] + values[1] + values[2]);
+
+      // The Router's 1:1 fallback would count 0.0066 WBTC as 0.0066 USDC; the vault reports it unpriced
+      const wbtc = await tokens[0].getAddress();
+      await saucerSwapRouter.setTokenDisabled(wbtc, true);
+      expect(await router.tryGetTokenValueInUSDC(wbtc, balances[0])).to.deep.equal([false, 0n]);
+      expect(await router.getTokenValueInUSDC(wbtc, balances[0])).to.equal(balances[0]);
+      const [after, pricedAfter] = await vault.getComponentValues();
+      expect(pricedAfter).to.deep.equal([false, true, true]);
+      expect(after[0]).to.equal(0n);
+      expect(await vault.getTotalValueLocked()).to.equal(values[1] + values[2]);
+
+      // The client surfaces the same flags
+      const client = new HedgeraClient(fixture.manifest, alice);
+      const valuation = await client.getValuation(fixture.indexId);
+      expect(valuation.unpriced).to.deep.equal([wbtc]);
+      expect(valuation.components.map((c) => c.balance)).to.deep.equal(balances);
+      expect(valuation.totalValueLocked).to.equal(values[1] + values[2]);
+      expect(valuation.navPerShare).to.equal(await vault.getNavPerShare());
+      expect(await rejectionOf(client.planRebalance(Number(fixture.indexId)))).to.contain(`HedgeraClient: cannot price ${wbtc}`);
+    });
+
+    it("refuses to mint at a NAV that leaves out an unpriced component", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, indexToken, saucerSwapRouter, tokens, alice, bob } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      await saucerSwapRouter.setTokenDisabled(await tokens[0].getAddress(), true);
+
+      await expect(vault.previewMint(usdc("100"))).to.be.revertedWith("BasketVault: component not priced");
+      await expect(vault.connect(bob).mint(usdc("100"), 0n, DEADLINE)).to.be.revertedWith("BasketVault: component not priced");
+      // Holders can still leave
+      await expect(vault.connect(alice).redeemInKind((await indexToken.balanceOf(alice.address)) / 2n, DEADLINE)).not.to.be.reverted;
+
+      await saucerSwapRouter.setTokenDisabled(await tokens[0].getAddress(), false);
+      await expect(vault.connect(bob).mint(usdc("100"), 0n, DEADLINE)).to.emit(vault, "Minted");
+    });
+  });
+
+  describe("slippage protection", function () {
+    async function quoted() {
+      const fixture = await setup();
+      const client = new HedgeraClient(fixture.manifest, fixture.alice);
+      const [usdcAddress, routerAddress] = [fixture.manifest.usdc, fixture.manifest.saucerSwapRouter];
+
+      // Moves a pool against the vault the way a sandwiching bot would
+      const frontRun = async (tokenIn: string, tokenOut: string, amount: bigint) => {
+        const { bob, saucerSwapRouter } = fixture;
+        const token = fixture.tokens.find((t) => t.target === tokenIn) ?? fixture.usdcToken;
+        await token.mint(bob.address, amount);
+        await token.connect(bob).approve(routerAddress, amount);
+        await saucerSwapRouter.connect(bob).swapExactTokensForTokens(amount, 0n, [tokenIn, tokenOut], bob.address, DEADLINE);
+      };
+      return { ...fixture, client, usdcAddress, frontRun };
+    }
+
+    it("mints with per-component minimums from the quote", async function () {
+      const fixture = await loadFixture(quoted);
+      const { vault, client, indexId, indexToken, alice } = fixture;
+
+      const quote = await client.quoteMint(Number(indexId), usdc("1000"));
+      expect(quote.expectedShares).to.equal(usdc("995") * 10n ** 12n);
+      expect(quote.components.map((c) => c.amountIn)).to.deep.equal([usdc("398"), usdc("398"), usdc("199")]);
+      for (const component of quote.components) {
+        expect(component.minOut).to.equal((component.expectedOut * 9900n) / BASIS_POINTS);
+        expect(component.priceImpactBps).to.be.within(1, 10); // ~0.04% against 1M-deep pools
+      }
+
+      await vault.connect(alice).mintWithMinimums(
+        usdc("1000"),
+        quote.minShares,
+        quote.components.map((c) => c.minOut),
+        DEADLINE
+      );
+      expect(await indexToken.balanceOf(alice.address)).to.equal(quote.expectedShares);
+      expect(await componentBalances(fixture)).to.deep.equal(quote.components.map((c) => c.expectedOut));
+    });
+
+    it("reverts a sandwiched mint instead of buying at the worse price", async function () {
+      const fixture = await loadFixture(quoted);
+      const { vault, client, indexId, usdcAddress, tokens, alice, frontRun } = fixture;
+      const quote = await client.quoteMint(Number(indexId), usdc("1000"));
+      const minimums = quote.components.map((c) => c.minOut);
+
+      await frontRun(usdcAddress, await tokens[0].getAddress(), usdc("50000")); // ~10% up on WBTC
+
+      await expect(
+        vault.connect(alice).mintWithMinimums(usdc("1000"), quote.minShares, minimums, DEADLINE)
+      ).to.be.revertedWith("BasketVault: component below minimum");
+      // The unprotected entrypoint still fills
+      await expect(vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE)).to.emit(vault, "Minted");
+    });
+
+    it("reverts instead of keeping USDC when a component swap fails", async function () {
+      const fixture = await loadFixture(quoted);
+      const { vault, client, indexId, saucerSwapRouter, tokens, alice } = fixture;
+      await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), true);
+
+      // Even with zero minimums a leg that falls back to raw USDC fails the mint
+      await expect(
+        vault.connect(alice).mintWithMinimums(usdc("1000"), 0n, [0n, 0n, 0n], DEADLINE)
+      ).to.be.revertedWith("BasketVault: component below minimum");
+      expect(await rejectionOf(client.quoteMint(Number(indexId), usdc("1000")))).to.match(/no USDC pool quote/);
+
+      // The DEX is asked directly, so the Router's 1:1 fallback never passes for a quote
+      const [usdcAddress, weth, wbtc] = [fixture.manifest.usdc, await tokens[1].getAddress(), await tokens[0].getAddress()];
+      expect(await fixture.router.getAmountsOut(usdc("1000"), [usdcAddress, weth])).to.deep.equal([usdc("1000"), usdc("1000")]);
+      expect(await client.quoteSwap(usdc("1000"), [usdcAddress, weth])).to.equal(null);
+      const [, wbtcOut] = await saucerSwapRouter.getAmountsOut(usdc("1000"), [usdcAddress, wbtc]);
+      expect(await client.quoteSwap(usdc("1000"), [usdcAddress, wbtc])).to.equal(wbtcOut);
+    });
+
+    it("assigns rounding dust to the last component so allocations add up", async function () {
+      const fixture = await loadFixture(quoted);
+      const { vault, client, indexId, usdcToken, vaultAddress, alice } = fixture;
+      // Same 1000.000003 USDC that makes the unprotected mint keep everything as USDC
+      const amount = 1000000003n;
+      const fee = (amount * MINT_FEE) / BASIS_POINTS;
+      const quote = await client.quoteMint(Number(indexId), amount);
+      expect(quote.components.reduce((sum, c) => sum + c.amountIn, 0n)).to.equal(amount - fee);
+
+      await vault.connect(alice).mintWithMinimums(amount, quote.minShares, quote.components.map((c) => c.minOut), DEADLINE);
+      expect(await usdcToken.balanceOf(vaultAddress)).to.equal(fee);
+    });
+
+    it("redeems with per-component minimums and reverts when sandwiched", async function () {
+      const fixture = await loadFixture(quoted);
+      const { vault, client, indexId, indexToken, usdcToken, usdcAddress, tokens, alice, frontRun } = fixture;
+      await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+      const shares = (await indexToken.balanceOf(alice.address)) / 2n;
+
+      const quote = await client.quoteRedeem(Number(indexId), shares);
+      expect(quote.expectedUsdc).to.equal(quote.grossUsdc - (quote.grossUsdc * REDEEM_FEE) / BASIS_POINTS);
+      const minimums = quote.components.map((c) => c.minOut);
+
+      await expect(
+        vault.connect(alice).redeemWithMinimums(shares, quote.minUsdc, minimums, DEADLINE)
+      ).to.changeTokenBalance(usdcToken, alice.address, quote.expectedUsdc);
+
+      const next = await client.quoteRedeem(Number(indexId), shares);
+      await frontRun(await tokens[2].getAddress(), usdcAddress, 2n * 10n ** 12n); // dump SAUCE
+      await expect(
+        vault.connect(alice).redeemWithMinimums(shares, 0n, next.components.map((c) => c.minOut), DEADLINE)
+      ).to.be.revertedWith("BasketVault: component below minimum");
+    });
+
+    it("validates minimums and the slippage bound", async function () {
+      const { vault, client, indexId, alice } = await loadFixture(quoted);
+
+      await expect(vault.connect(alice).mintWithMinimums(usdc("10"), 0n, [], DEADLINE)).to.be.revertedWith(
+        "BasketVault: no minimums"
+      );
+      await expect(vault.connect(alice).mintWithMinimums(usdc("10"), 0n, [0n, 0n], DEADLINE)).to.be.revertedWith(
+        "BasketVault: minimums length mismatch"
+      );
+      expect(await rejectionOf(client.quoteMint(Number(indexId), usdc("10"), 501))).to.match(
+        /slippage must be between 0 and 500 basis points/
+      );
+    });
+  });
+});
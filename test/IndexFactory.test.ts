@@ -0,0 +1,178 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { linkIndexFactory } from "../sdk";
+import { CREATION_FEE, deployProtocolFixture } from "./fixtures";
+
+describe("IndexFactory", function () {
+  async function setup() {
+    const base = await deployProtocolFixture();
+    const tokens = await Promise.all(base.tokens.map((t) => t.getAddress()));
+    const factoryAddress = await base.factory.getAddress();
+    await base.usdcToken.connect(base.curator).approve(factoryAddress, ethers.MaxUint256);
+    const factory = base.factory.connect(base.curator);
+
+    // Valid defaults; each test overrides one field
+    const create = (overrides: {
+      name?: string;
+      symbol?: string;
+      curator?: string;
+      tokens?: string[];
+      weights?: bigint[];
+      mintFee?: bigint;
+      redeemFee?: bigint;
+    } = {}) =>
+      factory.createIndex(
+        overrides.name ?? "Test Index",
+        overrides.symbol ?? "TIDX",
+        overrides.curator ?? base.curator.address,
+        overrides.tokens ?? tokens,
+        overrides.weights ?? [4000n, 4000n, 2000n],
+        overrides.mintFee ?? 50n,
+        overrides.redeemFee ?? 50n
+      );
+
+    return { ...base, tokenAddresses: tokens, factoryAddress, create };
+  }
+
+  /** Distinct non-zero addresses for basket-size checks (validation runs before any token call) */
+  const fakeTokens = (count: number) =>
+    Array.from({ length: count }, (_, i) => ethers.zeroPadValue(ethers.toBeHex(0x1000 + i), 20));
+
+  describe("createIndex validation", function () {
+    it("rejects fewer than MIN_TOKENS tokens", async function () {
+      const { create, tokenAddresses } = await loadFixture(setup);
+      await expect(create({ tokens: [tokenAddresses[0]], weights: [10000n] })).to.be.revertedWith(
+        "IndexFactory: too few tokens"
+      );
+    });
+
+    it("rejects more than MAX_TOKENS tokens", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ tokens: fakeTokens(11), weights: Array(11).fill(909n) })).to.be.revertedWith(
+        "IndexFactory: too many tokens"
+      );
+    });
+
+    it("accepts exactly MAX_TOKENS tokens", async function () {
+      const { create, registry } = await loadFixture(setup);
+      await expect(create({ tokens: fakeTokens(10), weights: Array(10).fill(1000n) })).to.emit(
+        registry,
+        "IndexCreated"
+      );
+    });
+
+    it("rejects mismatched tokens and weights", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ weights: [5000n, 5000n] })).to.be.revertedWith("IndexFactory: length mismatch");
+    });
+
+    it("rejects weights below MIN_TOKEN_WEIGHT", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ weights: [5000n, 4901n, 99n] })).to.be.revertedWith("IndexFactory: weight too low");
+    });
+
+    it("rejects weights above MAX_TOKEN_WEIGHT", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ weights: [5001n, 2999n, 2000n] })).to.be.revertedWith(
+        "IndexFactory: weight too high"
+      );
+    });
+
+    it("rejects weights that do not sum to 100%", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ weights: [4000n, 4000n, 1999n] })).to.be.revertedWith(
+        "IndexFactory: weights must sum to 100%"
+      );
+    });
+
+    it("rejects total fees above MAX_TOTAL_FEES", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ mintFee: 250n, redeemFee: 251n })).to.be.revertedWith(
+        "IndexFactory: total fees too high"
+      );
+      await expect(create({ mintFee: 250n, redeemFee: 250n })).not.to.be.reverted;
+    });
+
+    it("rejects duplicate, zero and USDC tokens", async function () {
+      const { create, tokenAddresses, environment } = await loadFixture(setup);
+      const [a, b] = tokenAddresses;
+      await expect(create({ tokens: [a, b, a] })).to.be.revertedWith("IndexFactory: duplicate token");
+      await expect(create({ tokens: [a, b, ethers.ZeroAddress] })).to.be.revertedWith(
+        "IndexFactory: token cannot be zero"
+      );
+      await expect(create({ tokens: [a, b, environment.usdc] })).to.be.revertedWith(
+        "IndexFactory: cannot include USDC in basket"
+      );
+    });
+
+    it("rejects empty name, empty symbol and zero curator", async function () {
+      const { create } = await loadFixture(setup);
+      await expect(create({ name: "" })).to.be.revertedWith("IndexFactory: name cannot be empty");
+      await expect(create({ symbol: "" })).to.be.revertedWith("IndexFactory: symbol cannot be empty");
+      await expect(create({ curator: ethers.ZeroAddress })).to.be.revertedWith(
+        "IndexFactory: curator cannot be zero"
+      );
+    });
+
+    it("rejects creation before the router is set", async function () {
+      const { deployer, manifest, tokenAddresses } = await loadFixture(setup);
+      const factory = await (await linkIndexFactory(deployer)).deploy(
+        manifest.registry,
+        manifest.usdc,
+        deployer.address
+      );
+      await expect(
+        factory.createIndex("Test Index", "TIDX", deployer.address, tokenAddresses, [4000n, 4000n, 2000n], 0n, 0n)
+      ).to.be.revertedWith("IndexFactory: router not set");
+    });
+  });
+
+  describe("creation fee", function () {
+    it("pulls the creation fee from the creator", async function () {
+      const { create, usdcToken, curator, factory, factoryAddress } = await loadFixture(setup);
+      await expect(create()).to.changeTokenBalances(
+        usdcToken,
+        [curator.address, factoryAddress],
+        [-CREATION_FEE, CREATION_FEE]
+      );
+      expect(await factory.getCollectedFees()).to.equal(CREATION_FEE);
+    });
+
+    it("reverts without a USDC allowance for the fee", async function () {
+      const { create, usdcToken, curator, factoryAddress } = await loadFixture(setup);
+      await usdcToken.connect(curator).approve(factoryAddress, 0n);
+      await expect(create()).to.be.revertedWithCustomError(usdcToken, "ERC20InsufficientAllowance");
+    });
+
+    it("skips the fee when it is zero", async function () {
+      const { create, usdcToken, curator, factory } = await loadFixture(setup);
+      await factory.updateIndexCreationFee(0n);
+      await usdcToken.connect(curator).approve(await factory.getAddress(), 0n);
+      await expect(create()).to.changeTokenBalance(usdcToken, curator.address, 0n);
+    });
+  });
+
+  describe("wiring", function () {
+    it("registers the index and hands vault and token ownership to the curator", async function () {
+      const { create, registry, router, curator, tokenAddresses } = await loadFixture(setup);
+      await create();
+
+      const info = await registry.getIndex(0);
+      expect(info.curator).to.equal(curator.address);
+      expect(info.components.map((c) => c.token)).to.deep.equal(tokenAddresses);
+      expect(info.components.map((c) => c.weight)).to.deep.equal([4000n, 4000n, 2000n]);
+      expect(info.fees.mintFee).to.equal(50n);
+      expect(info.fees.redeemFee).to.equal(50n);
+
+      const vault = await ethers.getContractAt("BasketVault", info.vault);
+      const indexToken = await ethers.getContractAt("IndexToken", info.indexToken);
+      expect(await vault.owner()).to.equal(curator.address);
+      expect(await indexToken.owner()).to.equal(curator.address);
+      expect(await vault.indexToken()).to.equal(info.indexToken);
+      expect(await vault.router()).to.equal(await router.getAddress());
+      expect(await indexToken.getVault()).to.equal(info.vault);
+      expect(await indexToken.getIndexId()).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployIndexFixture, usdc } from "./fixtures";
+
+describe("IndexToken", function () {
+  it("only lets the vault mint", async function () {
+    const { indexToken, curator, alice } = await loadFixture(deployIndexFixture);
+    // Not even the owner (curator) can mint
+    await expect(indexToken.connect(curator).mint(alice.address, 1n)).to.be.revertedWith(
+      "IndexToken: caller is not the vault"
+    );
+    await expect(indexToken.connect(alice).mint(alice.address, 1n)).to.be.revertedWith(
+      "IndexToken: caller is not the vault"
+    );
+  });
+
+  it("only lets the vault burn", async function () {
+    const { indexToken, vault, usdcToken, alice, bob } = await loadFixture(deployIndexFixture);
+    await usdcToken.connect(alice).approve(await vault.getAddress(), usdc("100"));
+    await vault.connect(alice).mint(usdc("100"), 0n, ethers.MaxUint256);
+
+    await expect(indexToken.connect(alice).burn(alice.address, 1n)).to.be.revertedWith(
+      "IndexToken: caller is not the vault"
+    );
+    // Holders can still move their shares
+    await expect(indexToken.connect(alice).transfer(bob.address, 1n)).not.to.be.reverted;
+  });
+
+  it("only lets the owner or the vault repoint it", async function () {
+    const { indexToken, vault, curator, alice, bob } = await loadFixture(deployIndexFixture);
+    await expect(indexToken.connect(alice).updateVault(alice.address)).to.be.revertedWith(
+      "IndexToken: caller is not the owner or vault"
+    );
+    await expect(indexToken.connect(curator).updateVault(alice.address))
+      .to.emit(indexToken, "VaultUpdated")
+      .withArgs(await vault.getAddress(), alice.address);
+    // The vault in place can hand over to its successor
+    await expect(indexToken.connect(alice).updateVault(bob.address)).not.to.be.reverted;
+    expect(await indexToken.getVault()).to.equal(bob.address);
+  });
+
+  it("cannot be initialized twice", async function () {
+    const { indexToken, curator } = await loadFixture(deployIndexFixture);
+    await expect(indexToken.connect(curator).initialize(curator.address)).to.be.revertedWith(
+      "IndexToken: already initialized"
+    );
+  });
+
+  it("exposes its metadata", async function () {
+    const { indexToken, indexId } = await loadFixture(deployIndexFixture);
+    const [name, symbol, decimals] = await indexToken.getMetadata();
+    expect([name, symbol, decimals]).to.deep.equal(["Test Index", "TIDX", 18n]);
+    expect(await indexToken.getIndexId()).to.equal(BigInt(indexId));
+    expect(await indexToken.isInitialized()).to.equal(true);
+  });
+});
@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { deployProtocolFixture, usdc } from "./fixtures";
+
+describe("Router", function () {
+  async function setup() {
+    const base = await deployProtocolFixture();
+    const routerAddress = await base.router.getAddress();
+    const tokenAddresses = await Promise.all(base.tokens.map((t) => t.getAddress()));
+    await base.usdcToken.connect(base.alice).approve(routerAddress, ethers.MaxUint256);
+    return { ...base, routerAddress, tokenAddresses };
+  }
+
+  describe("swapExactUSDCForTokens", function () {
+    it("buys each token with its allocation", async function () {
+      const { router, tokens, tokenAddresses, environment, alice, bob } = await loadFixture(setup);
+      const allocations = [usdc("600"), usdc("300"), usdc("100")];
+
+      const amounts = await router
+        .connect(alice)
+        .swapExactUSDCForTokens.staticCall(usdc("1000"), tokenAddresses, allocations, [0n, 0n, 0n], bob.address);
+      await expect(
+        router.connect(alice).swapExactUSDCForTokens(usdc("1000"), tokenAddresses, allocations, [0n, 0n, 0n], bob.address)
+      )
+        .to.emit(router, "SwapExecuted")
+        .withArgs(environment.usdc, tokenAddresses[0], allocations[0], amounts[0], bob.address);
+
+      for (let i = 0; i < tokens.length; i++) {
+        expect(amounts[i]).to.be.gt(0n);
+        expect(await tokens[i].balanceOf(bob.address)).to.equal(amounts[i]);
+      }
+    });
+
+    it("reverts when allocations do not add up to the total", async function () {
+      const { router, tokenAddresses, alice } = await loadFixture(setup);
+      await expect(
+        router
+          .connect(alice)
+          .swapExactUSDCForTokens(usdc("1000"), tokenAddresses, [usdc("600"), usdc("300"), usdc("99")], [0n, 0n, 0n], alice.address)
+      ).to.be.revertedWith("Router: Allocation mismatch");
+    });
+
+    it("forwards the raw USDC allocation to the recipient when a swap fails", async function () {
+      const { router, saucerSwapRouter, usdcToken, tokens, tokenAddresses, alice, bob } = await loadFixture(setup);
+      await saucerSwapRouter.setTokenDisabled(tokenAddresses[1], true);
+      const allocations = [usdc("600"), usdc("300"), usdc("100")];
+
+      const amounts = await router
+        .connect(alice)
+        .swapExactUSDCForTokens.staticCall(usdc("1000"), tokenAddresses, allocations, [0n, 0n, 0n], bob.address);
+      expect(amounts[1]).to.equal(0n);
+
+      await expect(
+        router.connect(alice).swapExactUSDCForTokens(usdc("1000"), tokenAddresses, allocations, [0n, 0n, 0n], bob.address)
+      ).to.changeTokenBalances(usdcToken, [alice.address, bob.address], [-usdc("1000"), usdc("300")]);
+      expect(await tokens[1].balanceOf(bob.address)).to.equal(0n);
+      expect(await tokens[0].balanceOf(bob.address)).to.be.gt(0n);
+    });
+
+    it("also falls back when minAmounts cannot be met", async function () {
+      const { router, usdcToken, tokenAddresses, alice, bob } = await loadFixture(setup);
+      const allocations = [usdc("600"), usdc("300"), usdc("100")];
+      const unreachable = [0n, ethers.MaxUint256, 0n];
+
+      await expect(
+        router.connect(alice).swapExactUSDCForTokens(usdc("1000"), tokenAddresses, allocations, unreachable, bob.address)
+      ).to.changeTokenBalance(usdcToken, bob.address, usdc("300"));
+    });
+
+    it("reverts outright when the DEX is not a contract", async function () {
+      const { router, tokenAddresses, deployer, alice } = await loadFixture(setup);
+      await router.connect(deployer).updateSaucerSwapRouter(deployer.address);
+      await expect(
+        router
+          .connect(alice)
+          .swapExactUSDCForTokens(usdc("1000"), tokenAddresses, [usdc("600"), usdc("300"), usdc("100")], [0n, 0n, 0n], alice.address)
+      ).to.be.reverted;
+    });
+  });
+
+  describe("swapExactTokensForUSDC", function () {
+    it("returns tokens to the sender when a swap fails", async function () {
+      const { router, routerAddress, saucerSwapRouter, usdcToken, tokens, tokenAddresses, alice } =
+        await loadFixture(setup);
+      const amounts = [10n ** 6n, 10n ** 8n, 10n ** 9n]; // 0.01 WBTC, 1 WETH, 1000 SAUCE
+      for (let i = 0; i < tokens.length; i++) {
+        await tokens[i].mint(alice.address, amounts[i]);
+        await tokens[i].connect(alice).approve(routerAddress, amounts[i]);
+      }
+      await saucerSwapRouter.setTokenDisabled(tokenAddresses[0], true);
+
+      const received = await router
+        .connect(alice)
+        .swapExactTokensForUSDC.staticCall(tokenAddresses, amounts, [0n, 0n, 0n], alice.address);
+      expect(received[0]).to.equal(0n);
+      expect(received[1]).to.be.gt(0n);
+
+      await expect(
+        router.connect(alice).swapExactTokensForUSDC(tokenAddresses, amounts, [0n, 0n, 0n], alice.address)
+      ).to.changeTokenBalance(usdcToken, alice.address, received[1] + received[2]);
+      expect(await tokens[0].balanceOf(alice.address)).to.equal(amounts[0]);
+      expect(await tokens[1].balanceOf(alice.address)).to.equal(0n);
+      expect(await tokens[0].balanceOf(routerAddress)).to.equal(0n);
+    });
+  });
+
+  describe("price queries", function () {
+    it("quotes through the DEX", async function () {
+      const { router, tokenAddresses, environment } = await loadFixture(setup);
+      // 1 WBTC into a $1M/$1M pool at $60k: ~$56.4k after 0.3% fee and price impact
+      const value = await router.getTokenValueInUSDC(tokenAddresses[0], 10n ** 8n);
+      expect(value).to.equal(usdc("56443.547006"));
+      expect(await router.getTokenValueInUSDC(environment.usdc, usdc("5"))).to.equal(usdc("5"));
+    });
+
+    it("falls back to 1:1 when the DEX quote fails", async function () {
+      const { router, saucerSwapRouter, tokenAddresses, environment } = await loadFixture(setup);
+      await saucerSwapRouter.setTokenDisabled(tokenAddresses[0], true);
+
+      // 1 WBTC (8 decimals) is valued at 100 USDC (6 decimals)
+      expect(await router.getTokenValueInUSDC(tokenAddresses[0], 10n ** 8n)).to.equal(10n ** 8n);
+      expect(await router.getAmountsOut(123n, [tokenAddresses[0], environment.usdc])).to.deep.equal([123n, 123n]);
+      expect(await router.getAmountsIn(456n, [environment.usdc, tokenAddresses[0]])).to.deep.equal([456n, 456n]);
+    });
+  });
+
+  describe("token paths", function () {
+    /** Seeds a deep WETH/SAUCE pool and routes SAUCE through WETH */
+    async function routedSetup() {
+      const base = await setup();
+      const { router, saucerSwapRouter, tokens, tokenAddresses, environment, deployer } = base;
+      // $1M on each side: 333.33 WETH against 20M SAUCE
+      await tokens[1].mint(deployer.address, 33333333333n);
+      await tokens[2].mint(deployer.address, 20000000n * 10n ** 6n);
+      await saucerSwapRouter.addLiquidity(
+        tokenAddresses[1],
+        tokenAddresses[2],
+        33333333333n,
+        20000000n * 10n ** 6n,
+        0n,
+        0n,
+        deployer.address,
+        ethers.MaxUint256
+      );
+      const path = [environment.usdc, tokenAddresses[1], tokenAddresses[2]];
+      await router.setTokenPath(tokenAddresses[2], path);
+      return { ...base, path };
+    }
+
+    it("defaults to the direct pool and only takes paths from USDC to the token", async function () {
+      const { router, tokenAddresses, environment, alice } = await loadFixture(setup);
+      const [wbtc, weth, sauce] = tokenAddresses;
+      expect(await router.getTokenPath(sauce)).to.deep.equal([environment.usdc, sauce]);
+
+      await expect(router.connect(alice).setTokenPath(sauce, [environment.usdc, weth, sauce]))
+        .to.be.revertedWithCustomError(router, "OwnableUnauthorizedAccount")
+        .withArgs(alice.address);
+      await expect(router.setTokenPath(sauce, [weth, sauce])).to.be.revertedWith("Router: Path must start at USDC");
+      await expect(router.setTokenPath(sauce, [environment.usdc, weth])).to.be.revertedWith("Router: Path must end at token");
+      await expect(router.setTokenPath(sauce, [environment.usdc, wbtc, weth, wbtc, sauce])).to.be.revertedWith(
+        "Router: Invalid path length"
+      );
+      await expect(router.setTokenPath(sauce, [environment.usdc, wbtc, wbtc, sauce])).to.be.revertedWith(
+        "Router: Invalid intermediate token"
+      );
+      await expect(router.setTokenPath(sauce, [environment.usdc, environment.usdc, sauce])).to.be.revertedWith(
+        "Router: Invalid intermediate token"
+      );
+      await expect(router.setTokenPath(environment.usdc, [environment.usdc])).to.be.revertedWith("Router: Invalid token");
+
+      await expect(router.setTokenPath(sauce, [environment.usdc, weth, sauce]))
+        .to.emit(router, "TokenPathUpdated")
+        .withArgs(sauce, [environment.usdc, weth, sauce]);
+      expect(await router.getTokenPath(sauce)).to.deep.equal([environment.usdc, weth, sauce]);
+
+      // An empty path goes back to the direct pool
+      await router.setTokenPath(sauce, []);
+      expect(await router.getTokenPath(sauce)).to.deep.equal([environment.usdc, sauce]);
+    });
+
+    it("buys, sells and values a token along its path", async function () {
+      const { router, saucerSwapRouter, tokens, tokenAddresses, environment, alice, path } = await loadFixture(routedSetup);
+      const sauce = tokenAddresses[2];
+
+      const expected = await saucerSwapRouter.getAmountsOut(usdc("100"), path);
+      const direct = await saucerSwapRouter.getAmountsOut(usdc("100"), [environment.usdc, sauce]);
+      expect(expected[2]).to.not.equal(direct[1]);
+      await expect(router.connect(alice).swapExactUSDCForTokens(usdc("100"), [sauce], [usdc("100")], [0n], alice.address))
+        .to.emit(router, "SwapExecuted")
+        .withArgs(environment.usdc, sauce, usdc("100"), expected[2], alice.address);
+      expect(await tokens[2].balanceOf(alice.address)).to.equal(expected[2]);
+
+      const bought = expected[2];
+      const back = [...path].reverse();
+      const value = await router.getTokenValueInUSDC(sauce, bought);
+      expect(value).to.equal((await saucerSwapRouter.getAmountsOut(bought, back))[2]);
+
+      await tokens[2].connect(alice).approve(await router.getAddress(), bought);
+      const received = await router.connect(alice).swapExactTokensForUSDC.staticCall([sauce], [bought], [0n], alice.address);
+      expect(received).to.deep.equal([value]);
+    });
+  });
+});
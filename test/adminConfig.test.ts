@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import { getAddress } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { HedgeraClient, IndexStatus, parseAdminConfig, planAdminChanges } from "../sdk";
+import { CREATION_FEE, deployIndexFixture, rejectionOf, usdc } from "./fixtures";
+
+describe("admin config", function () {
+  const CURATOR = "0x0000000000000000000000000000000000000c01";
+  const DEX = "0x0000000000000000000000000000000000000d01";
+
+  describe("parsing", function () {
+    it("reads the same config from YAML and JSON", function () {
+      const yaml = `
+factory:
+  indexCreationFee: 2.5
+  requireCuratorAuthorization: true
+  curators:
+    "${CURATOR}": true
+registry:
+  indexes:
+    "0": { status: Inactive, platformShare: 2000 }
+router:
+  saucerSwapRouter: "${DEX}"
+`;
+      const config = parseAdminConfig(yaml, "yaml");
+      expect(config.factory).to.deep.equal({
+        router: undefined,
+        indexCreationFee: usdc("2.5"),
+        requireCuratorAuthorization: true,
+        curators: { [getAddress(CURATOR)]: true },
+      });
+      expect(config.registry?.indexes).to.deep.equal({ "0": { status: IndexStatus.Inactive, platformShare: 2000 } });
+      expect(config.router?.saucerSwapRouter).to.equal(getAddress(DEX));
+
+      const json = JSON.stringify({
+        factory: { indexCreationFee: "2.5", requireCuratorAuthorization: true, curators: { [CURATOR]: true } },
+        registry: { indexes: { 0: { status: "Inactive", platformShare: 2000 } } },
+        router: { saucerSwapRouter: DEX },
+      });
+      expect(parseAdminConfig(json, "json")).to.deep.equal(config);
+    });
+
+    it("reports unknown and malformed settings with their location", function () {
+      expect(() => parseAdminConfig("factory: { fee: 1 }", "yaml", "admin.yaml")).to.throw(
+        "admin.yaml.factory.fee: unknown setting"
+      );
+      expect(() => parseAdminConfig("factory: { curators: { nobody: true } }", "yaml", "admin.yaml")).to.throw(
+        "admin.yaml.factory.curators.nobody: expected an address"
+      );
+      expect(() => parseAdminConfig("registry: { indexes: { 0: { status: Paused } } }", "yaml", "admin.yaml")).to.throw(
+        "admin.yaml.registry.indexes.0.status: expected Active, Inactive or Deprecated"
+      );
+      expect(() => parseAdminConfig("router: { saucerSwapRouter: 1 }", "yaml", "admin.yaml")).to.throw(
+        "admin.yaml.router.saucerSwapRouter: expected an address"
+      );
+    });
+  });
+
+  describe("plan and apply", function () {
+    async function setup() {
+      const base = await deployIndexFixture();
+      return { ...base, client: new HedgeraClient(base.manifest, base.deployer) };
+    }
+
+    it("plans nothing when the chain already matches", async function () {
+      const { client, manifest, environment } = await loadFixture(setup);
+      const plan = await planAdminChanges(client, {
+        factory: { router: manifest.router, indexCreationFee: CREATION_FEE, requireCuratorAuthorization: false },
+        registry: { factories: { [manifest.factory]: true }, indexes: { "0": { status: IndexStatus.Active } } },
+        router: { saucerSwapRouter: environment.saucerSwapRouter },
+      });
+      expect(plan.calls).to.deep.equal([]);
+    });
+
+    it("orders the calls, applies them and converges", async function () {
+      const { client, factory, registry, router, deployer, curator, alice } = await loadFixture(setup);
+      const config = parseAdminConfig(
+        `
+factory:
+  indexCreationFee: 5
+  requireCuratorAuthorization: true
+  curators:
+    "${curator.address}": true
+registry:
+  indexes:
+    "0": { status: Deprecated, platformShare: 1000 }
+router:
+  saucerSwapRouter: "${DEX}"
+`,
+        "yaml"
+      );
+
+      const plan = await planAdminChanges(client, config);
+      expect(plan.owners).to.deep.equal({
+        IndexFactory: deployer.address,
+        IndexRegistry: deployer.address,
+        Router: deployer.address,
+      });
+      // Curators are authorized before the requirement is switched on
+      expect(plan.calls.map((c) => `${c.contract}.${c.method}`)).to.deep.equal([
+        "Router.updateSaucerSwapRouter",
+        "IndexFactory.updateIndexCreationFee",
+        "IndexFactory.addAuthorizedCurator",
+        "IndexFactory.setRequireCuratorAuthorization",
+        "IndexRegistry.updateIndexStatus",
+        "IndexRegistry.updatePlatformShare",
+      ]);
+      expect(plan.calls[1]).to.include({ current: "1.0 USDC", desired: "5.0 USDC" });
+      expect(plan.calls[4]).to.include({ current: "Active", desired: "Deprecated" });
+
+      // Only the owners can apply
+      expect(await rejectionOf(new HedgeraClient(client.deployment, alice).applyAdminCalls(plan.calls))).to.match(
+        /OwnableUnauthorizedAccount/
+      );
+
+      const confirmed: string[] = [];
+      const receipts = await client.applyAdminCalls(plan.calls, (call) => confirmed.push(call.method));
+      expect(receipts).to.have.length(6);
+      expect(confirmed).to.have.length(6);
+
+      expect(await router.getSaucerSwapRouter()).to.equal(getAddress(DEX));
+      expect(await factory.indexCreationFee()).to.equal(usdc("5"));
+      expect(await factory.authorizedCurators(curator.address)).to.equal(true);
+      expect(await factory.requireCuratorAuthorization()).to.equal(true);
+      const index = await registry.getIndex(0);
+      expect(index.status).to.equal(BigInt(IndexStatus.Deprecated));
+      expect(index.fees.platformShare).to.equal(1000n);
+
+      expect((await planAdminChanges(client, config)).calls).to.deep.equal([]);
+    });
+
+    it("rejects settings for indexes that do not exist", async function () {
+      const { client } = await loadFixture(setup);
+      expect(
+        await rejectionOf(planAdminChanges(client, { registry: { indexes: { "7": { status: IndexStatus.Inactive } } } }))
+      ).to.equal("Admin config: index 7 does not exist (the registry has 1)");
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  EventArg,
+  EventIndexer,
+  EventStore,
+  HedgeraClient,
+  IndexCreatedEvent,
+  StoredEvent,
+  analyzeIndex,
+  analyzeIndexes,
+  buildNavHistory,
+  navHistoryToCsv,
+  performanceToJson,
+} from "../sdk";
+import { deployIndexFixture, usdc } from "./fixtures";
+
+const DAY = 86400;
+const START = Date.UTC(2026, 0, 5) / 1000; // Monday
+const SHARE = 10n ** 18n;
+const HOLDER = "0x" + "11".repeat(20);
+
+const INDEX: IndexCreatedEvent = {
+  indexId: 0,
+  name: "Test Index",
+  symbol: "TIDX",
+  curator: ethers.ZeroAddress,
+  vault: ethers.ZeroAddress,
+  indexToken: ethers.ZeroAddress,
+  tokens: [],
+  weights: [],
+  creator: ethers.ZeroAddress,
+};
+
+describe("analytics", function () {
+  let block = 0;
+
+  const event = (timestamp: number, name: string, args: Record<string, EventArg>): StoredEvent => ({
+    blockNumber: ++block,
+    logIndex: 0,
+    txHash: ethers.ZeroHash,
+    timestamp,
+    address: ethers.ZeroAddress,
+    contract: "BasketVault",
+    name,
+    indexId: 0,
+    args,
+  });
+
+  // A mint at `nav` USDC per share: the share mint, the registry TVL update, then the vault events
+  const mint = (timestamp: number, usdcIn: bigint, shares: bigint, supplyAfter: bigint, nav: bigint, fee = 0n) => [
+    event(timestamp, "Transfer", { from: ethers.ZeroAddress, to: HOLDER, value: shares.toString() }),
+    event(timestamp, "IndexMetricsUpdated", { indexId: "0", tvl: ((supplyAfter * nav) / SHARE).toString(), totalVolume: "0" }),
+    event(timestamp, "Minted", { user: ethers.ZeroAddress, indexId: "0", usdcIn: usdcIn.toString(), sharesOut: shares.toString(), navPerShare: nav.toString() }),
+    event(timestamp, "FeesCollected", { indexId: "0", amount: fee.toString(), feeType: "0" }),
+  ];
+
+  beforeEach(function () {
+    block = 0;
+  });
+
+  it("computes returns, volatility and drawdown from the NAV series", function () {
+    const events = [
+      ...mint(START, usdc("100"), 100n * SHARE, 100n * SHARE, usdc("1")),
+      ...mint(START + DAY, usdc("10"), SHARE, 101n * SHARE, usdc("1.1")),
+      ...mint(START + 2 * DAY, usdc("10"), SHARE, 102n * SHARE, usdc("0.88")),
+      ...mint(START + 2 * DAY + 60, usdc("10"), SHARE, 103n * SHARE, usdc("0.99")),
+    ];
+    const report = analyzeIndex(INDEX, events, "day");
+
+    expect(report.history.map((p) => p.navPerShare)).to.deep.equal([usdc("1"), usdc("1.1"), usdc("0.88"), usdc("0.99")]);
+    expect(report.totalReturn).to.be.closeTo(-0.01, 1e-12);
+    // Daily closes 1.00, 1.10, 0.99 (the last mint of the third day)
+    expect(report.periodReturns.map((r) => r.start)).to.deep.equal(["2026-01-05", "2026-01-06", "2026-01-07"]);
+    [0, 0.1, -0.1].forEach((expected, i) => expect(report.periodReturns[i].return).to.be.closeTo(expected, 1e-12));
+    expect(report.volatility).to.be.closeTo(0.1, 1e-12);
+    expect(report.annualizedVolatility).to.be.closeTo(0.1 * Math.sqrt(365), 1e-9);
+    // Peak 1.10 to trough 0.88
+    expect(report.maxDrawdown).to.be.closeTo(0.2, 1e-12);
+    expect(report.inflows).to.equal(usdc("130"));
+
+    const weekly = analyzeIndex(INDEX, events, "week");
+    expect(weekly.periodReturns.length).to.equal(1);
+    expect(weekly.volatility).to.equal(null);
+  });
+
+  it("never measures a return from a zero NAV", function () {
+    // A first mint whose swaps all failed reports a zero NAV
+    const events = [
+      ...mint(START, usdc("100"), 100n * SHARE, 100n * SHARE, 0n),
+      ...mint(START + DAY, usdc("10"), SHARE, 101n * SHARE, usdc("1")),
+      ...mint(START + 2 * DAY, usdc("10"), SHARE, 102n * SHARE, usdc("1.1")),
+    ];
+    const report = analyzeIndex(INDEX, events, "day");
+    expect(report.startNav).to.equal(0n);
+    expect(report.totalReturn).to.equal(null);
+    expect(report.periodReturns.map((r) => r.start)).to.deep.equal(["2026-01-07"]);
+    expect(report.periodReturns[0].return).to.be.closeTo(0.1, 1e-12);
+    expect(report.maxDrawdown).to.equal(0);
+
+    // Falling to zero from a peak is a full drawdown, and the next period has no return
+    const crash = analyzeIndex(INDEX, [...events, ...mint(START + 3 * DAY, usdc("10"), SHARE, 103n * SHARE, 0n), ...mint(START + 4 * DAY, usdc("10"), SHARE, 104n * SHARE, usdc("1"))]);
+    expect(crash.maxDrawdown).to.equal(1);
+    expect(crash.periodReturns.map((r) => r.start)).to.deep.equal(["2026-01-07", "2026-01-08"]);
+    expect(crash.periodReturns[1].return).to.equal(-1);
+  });
+
+  it("stops pricing once every share is redeemed", function () {
+    const events = [
+      ...mint(START, usdc("100"), 100n * SHARE, 100n * SHARE, usdc("1")),
+      event(START + DAY, "Transfer", { from: HOLDER, to: ethers.ZeroAddress, value: (100n * SHARE).toString() }),
+      event(START + DAY, "IndexMetricsUpdated", { indexId: "0", tvl: "0", totalVolume: "0" }),
+      // The vault reports its 1 USDC starting NAV once supply is zero
+      event(START + DAY, "Redeemed", { user: ethers.ZeroAddress, indexId: "0", sharesIn: (100n * SHARE).toString(), usdcOut: usdc("99").toString(), navPerShare: usdc("1").toString() }),
+    ];
+    const history = buildNavHistory(events);
+    expect(history.map((p) => p.navPerShare)).to.deep.equal([usdc("1"), null]);
+    expect(history[1].supply).to.equal(0n);
+
+    const report = analyzeIndex(INDEX, events);
+    expect(report.endNav).to.equal(usdc("1"));
+    expect(report.netFlows).to.equal(usdc("1"));
+  });
+
+  it("reports what the vault holds for an index indexed from the chain", async function () {
+    const { manifest, indexId, vault, alice, bob } = await loadFixture(deployIndexFixture);
+    const aliceClient = new HedgeraClient(manifest, alice);
+    const { event: minted } = await aliceClient.mint(indexId, usdc("1000"));
+    await new HedgeraClient(manifest, bob).mint(indexId, usdc("500"));
+    const { event: redeemed } = await aliceClient.redeem(indexId, minted.sharesOut / 2n);
+    await aliceClient.redeemInKind(indexId, minted.sharesOut / 4n);
+
+    const store = new EventStore(":memory:");
+    try {
+      await new EventIndexer(ethers.provider, manifest, store).sync();
+      const [report] = analyzeIndexes(store, "day", indexId);
+
+      expect(report.history.map((p) => p.action)).to.deep.equal(["mint", "mint", "redeem", "redeemInKind"]);
+      expect(report.endNav).to.be.closeTo(await vault.getNavPerShare(), 10n);
+      expect(report.tvl).to.equal(await vault.getTotalValueLocked());
+      expect(report.mintFees + report.redeemFees).to.equal(await vault.collectedFees());
+      expect(report.netFlows).to.equal(usdc("1500") - redeemed.usdcOut);
+      expect(report.sharesRedeemedInKind).to.equal(minted.sharesOut / 4n);
+
+      const json = JSON.parse(performanceToJson([report]));
+      expect(json[0].inflows).to.equal("1500.0");
+      expect(navHistoryToCsv([report]).trim().split("\n")).to.have.length(5);
+    } finally {
+      store.close();
+    }
+  });
+});
@@ -0,0 +1,181 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { ApiServer, HedgeraClient, ReadCache, ValidationError } from "../sdk";
+import { deployIndexFixture, usdc } from "./fixtures";
+
+describe("read-only API", function () {
+  async function setup() {
+    const base = await deployIndexFixture();
+    const { manifest, alice, curator, environment, indexId } = base;
+    await new HedgeraClient(manifest, alice).mint(indexId, usdc("1000"));
+    // A second index curated by alice, so pagination and curator lookups have something to tell apart
+    await new HedgeraClient(manifest, curator).createIndex({
+      name: "Second Index",
+      symbol: "SIDX",
+      curator: alice.address,
+      tokens: [environment.tokens.WBTC, environment.tokens.WETH],
+      weights: [5000n, 5000n],
+      mintFee: 0n,
+      redeemFee: 0n,
+    });
+    return { ...base, client: new HedgeraClient(manifest, ethers.provider) };
+  }
+
+  let api: ApiServer | undefined;
+  afterEach(async function () {
+    await api?.close();
+    api = undefined;
+  });
+
+  async function serve(client: HedgeraClient, cacheTtlMs = 60_000) {
+    api = new ApiServer(client, { cacheTtlMs });
+    const url = await api.listen(0);
+    return async (path: string, init?: RequestInit) => {
+      const response = await fetch(url + path, init);
+      return { status: response.status, headers: response.headers, body: await response.json() };
+    };
+  }
+
+  it("serves index pages, single indexes and curator indexes", async function () {
+    const { client, curator, alice } = await loadFixture(setup);
+    const get = await serve(client);
+
+    const page = await get("/indexes?offset=0&limit=1");
+    expect(page.status).to.equal(200);
+    expect(page.headers.get("access-control-allow-origin")).to.equal("*");
+    expect(page.headers.get("cache-control")).to.equal("public, max-age=60");
+    expect(page.body.total).to.equal(2);
+    expect(page.body.indexes.map((i: { symbol: string }) => i.symbol)).to.deep.equal(["TIDX"]);
+    expect((await get("/indexes?offset=1")).body.indexes.map((i: { symbol: string }) => i.symbol)).to.deep.equal(["SIDX"]);
+    expect((await get("/indexes?offset=5")).body.indexes).to.deep.equal([]);
+
+    const index = (await get("/indexes/0")).body;
+    const info = await client.getIndex(0);
+    expect(index).to.include({ id: 0, name: "Test Index", curator: curator.address, vault: info.vault, status: "Active" });
+    expect(index.totalValueLocked).to.equal(info.totalValueLocked.toString());
+    expect(index.components[0]).to.deep.equal({
+      token: info.components[0].token,
+      weight: "4000",
+      balance: info.components[0].balance.toString(),
+    });
+
+    const curated = (await get(`/curators/${alice.address.toLowerCase()}/indexes`)).body;
+    expect(curated.curator).to.equal(alice.address);
+    expect(curated.indexes.map((i: { id: number }) => i.id)).to.deep.equal([1]);
+  });
+
+  it("serves compositions, NAV and mint quotes as the vault and client compute them", async function () {
+    const { client, indexId } = await loadFixture(setup);
+    const get = await serve(client);
+    const valuation = await client.getValuation(indexId);
+
+    const composition = (await get(`/indexes/${indexId}/composition`)).body;
+    expect(composition.totalValueLocked).to.equal(valuation.totalValueLocked.toString());
+    expect(composition.unpriced).to.deep.equal([]);
+    expect(composition.components.map((c: { symbol: string }) => c.symbol)).to.deep.equal(["WBTC", "WETH", "SAUCE"]);
+    expect(composition.components[0]).to.include({
+      decimals: 8,
+      weight: "4000",
+      balance: valuation.components[0].balance.toString(),
+      value: valuation.components[0].value.toString(),
+      priced: true,
+    });
+
+    const nav = (await get(`/indexes/${indexId}/nav`)).body;
+    expect(nav.navPerShare).to.equal(valuation.navPerShare.toString());
+    expect(nav.totalSupply).to.equal((usdc("995") * 10n ** 12n).toString());
+
+    const quote = (await get(`/quote/mint?indexId=${indexId}&usdc=250.5&slippage=50`)).body;
+    const expected = await client.quoteMint(indexId, usdc("250.5"), 50);
+    expect(quote.expectedShares).to.equal(expected.expectedShares.toString());
+    expect(quote.minShares).to.equal(expected.minShares.toString());
+    expect(quote.components[2].path).to.deep.equal(expected.components[2].path);
+  });
+
+  it("rejects bad requests with JSON errors", async function () {
+    const { client } = await loadFixture(setup);
+    const get = await serve(client);
+
+    expect(await get("/indexes/7")).to.deep.include({ status: 404, body: { error: "Index 7 does not exist" } });
+    expect((await get("/indexes/abc")).status).to.equal(400);
+    expect((await get("/indexes?limit=500")).body.error).to.equal("limit must be between 1 and 100");
+    expect((await get("/curators/nobody/indexes")).body.error).to.match(/^Invalid curator: "nobody"/);
+    expect((await get("/quote/mint?indexId=0")).body.error).to.equal("Missing query parameter usdc");
+    expect((await get("/quote/mint?indexId=0&usdc=-1")).status).to.equal(400);
+    expect((await get("/quote/mint?indexId=0&usdc=10&slippage=9000")).status).to.equal(400);
+    expect((await get("/quote/mint?indexId=0&usdc=10&slippage=9000")).body.error).to.match(
+      /^HedgeraClient: slippage must be between 0 and \d+ basis points, got 9000$/
+    );
+    expect((await get("/nowhere")).status).to.equal(404);
+    const post = await get("/indexes", { method: "POST" });
+    expect(post.status).to.equal(405);
+    expect(post.headers.get("cache-control")).to.equal("no-store");
+  });
+
+  it("answers failures other than the client's validation with a server error", async function () {
+    const { client, indexId } = await loadFixture(setup);
+    const get = await serve(client);
+
+    client.quoteMint = async () => {
+      throw new Error("HedgeraClient: no Minted event in transaction 0x01");
+    };
+    const failed = await get(`/quote/mint?indexId=${indexId}&usdc=10`);
+    expect(failed.status).to.equal(500);
+    expect(failed.body.error).to.equal("HedgeraClient: no Minted event in transaction 0x01");
+
+    client.quoteMint = async () => {
+      throw new ValidationError(`HedgeraClient: index ${indexId} has no priced assets, cannot quote shares`);
+    };
+    expect((await get(`/quote/mint?indexId=${indexId}&usdc=11`)).status).to.equal(400);
+  });
+
+  it("retries token metadata that failed to load", async function () {
+    const { client, indexId } = await loadFixture(setup);
+    const get = await serve(client);
+
+    const getTokenMetadata = client.getTokenMetadata.bind(client);
+    client.getTokenMetadata = async () => {
+      throw new Error("rpc down");
+    };
+    expect((await get(`/indexes/${indexId}/composition`)).status).to.equal(500);
+
+    client.getTokenMetadata = getTokenMetadata;
+    const composition = await get(`/indexes/${indexId}/composition`);
+    expect(composition.status).to.equal(200);
+    expect(composition.body.components.map((c: { symbol: string }) => c.symbol)).to.deep.equal(["WBTC", "WETH", "SAUCE"]);
+  });
+
+  it("reuses reads for the cache TTL", async function () {
+    const { client, manifest, bob, indexId } = await loadFixture(setup);
+    const get = await serve(client);
+    const before = (await get(`/indexes/${indexId}/nav`)).body;
+
+    await new HedgeraClient(manifest, bob).mint(indexId, usdc("500"));
+    expect((await get(`/indexes/${indexId}/nav`)).body).to.deep.equal(before);
+
+    api!.cache.clear();
+    const after = (await get(`/indexes/${indexId}/nav`)).body;
+    expect(BigInt(after.totalSupply)).to.be.greaterThan(BigInt(before.totalSupply));
+  });
+
+  it("shares concurrent loads and expires entries", async function () {
+    let now = 0;
+    const cache = new ReadCache(1000, () => now);
+    let loads = 0;
+    const load = async () => ++loads;
+
+    expect(await Promise.all([cache.get("a", load), cache.get("a", load)])).to.deep.equal([1, 1]);
+    now = 999;
+    expect(await cache.get("a", load)).to.equal(1);
+    now = 1000;
+    expect(await cache.get("a", load)).to.equal(2);
+
+    // Failures are not cached
+    const failing = cache.get("b", async () => {
+      throw new Error("rpc down");
+    });
+    await failing.catch(() => undefined);
+    expect(await cache.get("b", load)).to.equal(3);
+  });
+});
@@ -0,0 +1,208 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Wallet } from "ethers";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  DeployConfig,
+  DeploymentManifest,
+  HedgeraClient,
+  IndexStatus,
+  TransactionBatch,
+  VAULT_DEPLOYER_LIBRARY,
+  batchHash,
+  createBatch,
+  feeClaimCall,
+  inspectBatch,
+  inspectDeployment,
+  planAdminChanges,
+  planDeployment,
+  signBatch,
+  submitBatch,
+  verifyBatch,
+} from "../sdk";
+import { deployIndexFixture, rejectionOf, usdc } from "./fixtures";
+
+// Default Hardhat accounts #0 (deployer) and #2 (alice)
+const DEPLOYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const ALICE_KEY = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+
+describe("transaction batches", function () {
+  async function setup() {
+    const base = await deployIndexFixture();
+    return { ...base, client: new HedgeraClient(base.manifest, ethers.provider) };
+  }
+
+  /** Re-hashes a batch after editing it, as someone tampering with the file would */
+  const rehash = (batch: TransactionBatch): TransactionBatch => ({ ...batch, hash: batchHash(batch) });
+
+  /** A second protocol deployment on the fixture's USDC and DEX */
+  const deployConfig = (manifest: DeploymentManifest): DeployConfig => ({
+    usdc: manifest.usdc,
+    saucerSwapRouter: manifest.saucerSwapRouter,
+    creationFee: usdc("2"),
+    factoryAllowance: usdc("10"),
+  });
+
+  it("exports admin calls with decoded calldata, then signs and submits them", async function () {
+    const { client, manifest, deployer, registry, factory, indexId } = await loadFixture(setup);
+    const plan = await planAdminChanges(client, {
+      factory: { indexCreationFee: usdc("3") },
+      registry: { indexes: { [indexId]: { status: IndexStatus.Inactive } } },
+    });
+
+    const batch = createBatch(manifest, deployer.address, plan.calls);
+    expect(batch.transactions.map((tx) => [tx.to, tx.method, tx.args])).to.deep.equal([
+      [manifest.factory, "updateIndexCreationFee", ["3000000"]],
+      [manifest.registry, "updateIndexStatus", [String(indexId), "1"]],
+    ]);
+    expect(batch.transactions[0].description).to.equal("Change factory.indexCreationFee from 1.0 USDC to 3.0 USDC");
+    expect(await verifyBatch(client, batch)).to.deep.equal([]);
+
+    // Reformatting the file keeps the hash
+    expect(batchHash(JSON.parse(JSON.stringify(batch, null, 4)))).to.equal(batch.hash);
+
+    const signed = await signBatch(batch, new Wallet(DEPLOYER_KEY, ethers.provider));
+    expect(signed.signed).to.have.length(2);
+    expect(inspectBatch(signed)).to.deep.equal([]);
+    // Signing sends nothing
+    expect(await factory.indexCreationFee()).to.equal(usdc("1"));
+
+    const skipped: boolean[] = [];
+    const receipts = await submitBatch(ethers.provider, signed, (_tx, _receipt, wasMined) => skipped.push(wasMined));
+    expect(receipts.map((r) => r.status)).to.deep.equal([1, 1]);
+    expect(skipped).to.deep.equal([false, false]);
+    expect(await factory.indexCreationFee()).to.equal(usdc("3"));
+    expect((await registry.getIndex(indexId)).status).to.equal(BigInt(IndexStatus.Inactive));
+
+    // Submitting again only reports what is already mined
+    await submitBatch(ethers.provider, signed, (_tx, _receipt, wasMined) => skipped.push(wasMined));
+    expect(skipped.slice(2)).to.deep.equal([true, true]);
+  });
+
+  it("exports a mint for another account, with the approval it needs first", async function () {
+    const { client, manifest, alice, indexId, indexToken, vault } = await loadFixture(setup);
+
+    const calls = await client.mintCalls(alice.address, indexId, usdc("100"), { minShares: 1n });
+    expect(calls.map((c) => `${c.contract}.${c.method}`)).to.deep.equal(["ERC20.approve", "BasketVault.mint"]);
+    expect(calls[0].args).to.deep.equal([await vault.getAddress(), usdc("100")]);
+
+    // The mint cannot be estimated before the approval is mined, so it signs with the fallback gas limit
+    const batch = await signBatch(createBatch(manifest, alice.address, calls), new Wallet(ALICE_KEY, ethers.provider));
+    expect(await verifyBatch(client, batch)).to.deep.equal([]);
+    await submitBatch(ethers.provider, batch);
+    expect(await indexToken.balanceOf(alice.address)).to.be.greaterThan(0n);
+  });
+
+  it("detects batches that were tampered with", async function () {
+    const { client, manifest, deployer, curator, alice, indexId } = await loadFixture(setup);
+    const vault = (await client.getIndex(indexId)).vault;
+    const claim = { source: "curator" as const, indexId, from: vault, to: curator.address, amount: 5n };
+    const batch = createBatch(manifest, curator.address, [feeClaimCall(claim)]);
+    expect(batch.transactions[0].description).to.equal(
+      `Withdraw 0.000005 USDC curator fees from index ${indexId} to ${curator.address}`
+    );
+
+    // Calldata swapped for a payout to someone else, with the display fields left alone
+    const redirect = feeClaimCall({ ...claim, to: alice.address });
+    const [redirected] = createBatch(manifest, curator.address, [redirect]).transactions;
+    const swapped = { ...batch.transactions[0], data: redirected.data };
+    expect(inspectBatch({ ...batch, transactions: [swapped] })).to.deep.equal([
+      "hash does not match the batch content",
+      `transaction 1 (BasketVault.withdrawFees): calldata arguments are (${alice.address}, 5)`,
+    ]);
+
+    // A consistent batch aimed at a contract outside the deployment
+    const foreign = rehash({ ...batch, transactions: [{ ...batch.transactions[0], to: alice.address }] });
+    expect(await verifyBatch(client, foreign)).to.deep.equal([
+      `transaction 1 (BasketVault.withdrawFees): ${alice.address} is not a BasketVault of this deployment`,
+    ]);
+
+    // Signatures must come from `from` and carry exactly the exported calldata
+    expect(await rejectionOf(signBatch(batch, new Wallet(DEPLOYER_KEY, ethers.provider)))).to.equal(
+      `Batch: built for ${curator.address}, signer is ${deployer.address}`
+    );
+    const signed = await signBatch(
+      createBatch(manifest, deployer.address, [feeClaimCall(claim)]),
+      new Wallet(DEPLOYER_KEY, ethers.provider)
+    );
+    const resigned = rehash({ ...signed, transactions: [redirected] });
+    expect(inspectBatch(resigned)).to.deep.equal(["signed transaction 1: does not match the unsigned call"]);
+    expect(await rejectionOf(submitBatch(ethers.provider, resigned))).to.equal(
+      "Batch: signed transaction 1: does not match the unsigned call"
+    );
+  });
+
+  it("exports a deployment as contract creations followed by its configuration", async function () {
+    const { manifest, deployer } = await loadFixture(setup);
+    const config = deployConfig(manifest);
+    const plan = await planDeployment(ethers.provider, null, config, deployer.address);
+    const batch = createBatch(plan.manifest, deployer.address, plan.steps, plan.nonce);
+
+    expect(batch.nonce).to.equal(await deployer.getNonce());
+    expect(batch.transactions.map((tx) => `${tx.contract}.${tx.method}`)).to.deep.equal([
+      "IndexRegistry.constructor",
+      "Router.constructor",
+      "VaultDeployer.constructor",
+      "IndexFactory.constructor",
+      "IndexRegistry.addAuthorizedFactory",
+      "IndexFactory.setRouter",
+      "IndexFactory.updateIndexCreationFee",
+      "ERC20.approve",
+    ]);
+    const [registry, , library, factory] = batch.transactions;
+    expect(registry).to.include({ to: null, address: plan.manifest.registry });
+    expect(registry.args).to.deep.equal([deployer.address]);
+    expect(factory).to.include({ to: null, address: plan.manifest.factory });
+    expect(factory.args).to.deep.equal([plan.manifest.registry, config.usdc, deployer.address]);
+    expect(factory.libraries).to.deep.equal({ [VAULT_DEPLOYER_LIBRARY]: library.address });
+    expect(plan.manifest.vaultDeployer).to.equal(library.address);
+    expect(await verifyBatch(new HedgeraClient(plan.manifest, ethers.provider), batch)).to.deep.equal([]);
+
+    const signed = await signBatch(batch, new Wallet(DEPLOYER_KEY, ethers.provider));
+    expect(inspectBatch(signed)).to.deep.equal([]);
+    await submitBatch(ethers.provider, signed);
+    const drift = (await inspectDeployment(ethers.provider, plan.manifest, config)).filter((check) => !check.ok);
+    expect(drift).to.deep.equal([]);
+    expect((await planDeployment(ethers.provider, plan.manifest, config, deployer.address)).steps).to.deep.equal([]);
+  });
+
+  it("refuses creations that were tampered with or planned for another nonce", async function () {
+    const { manifest, deployer, alice } = await loadFixture(setup);
+    const plan = await planDeployment(ethers.provider, null, deployConfig(manifest), deployer.address);
+    const batch = createBatch(plan.manifest, deployer.address, plan.steps, plan.nonce);
+    const factory = batch.transactions[3];
+
+    // Creation code linked against another library, with the display fields left alone
+    const relinked = rehash({
+      ...batch,
+      transactions: batch.transactions.map((tx) =>
+        tx === factory ? { ...tx, libraries: { [VAULT_DEPLOYER_LIBRARY]: alice.address } } : tx
+      ),
+    });
+    expect(inspectBatch(relinked)).to.deep.equal([
+      "transaction 4 (IndexFactory.constructor): creation code is not the compiled IndexFactory",
+    ]);
+
+    // Constructor arguments swapped for another registry
+    const args = [alice.address, ...factory.args.slice(1)];
+    const retargeted = rehash({
+      ...batch,
+      transactions: batch.transactions.map((tx) => (tx === factory ? { ...tx, args } : tx)),
+    });
+    expect(inspectBatch(retargeted)).to.deep.equal([
+      `transaction 4 (IndexFactory.constructor): constructor arguments are (${factory.args.join(", ")})`,
+    ]);
+
+    // Creations only hold at the nonce they were planned for
+    expect(() => createBatch(plan.manifest, deployer.address, plan.steps)).to.throw(
+      "Batch: transaction 1 creates IndexRegistry, which needs the nonce the batch starts at"
+    );
+    expect(inspectBatch(rehash({ ...batch, nonce: plan.nonce! + 1 }))[0]).to.match(
+      /^transaction 1 \(IndexRegistry.constructor\): creates 0x[0-9a-fA-F]{40}, not 0x[0-9a-fA-F]{40}$/
+    );
+    await deployer.sendTransaction({ to: alice.address, value: 1n });
+    expect(await rejectionOf(signBatch(batch, new Wallet(DEPLOYER_KEY, ethers.provider)))).to.equal(
+      `Batch: creates contracts for nonce ${plan.nonce} of ${deployer.address}, which is at nonce ${plan.nonce! + 1}. Export it again`
+    );
+  });
+});
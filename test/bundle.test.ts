@@ -0,0 +1,157 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { version } from "../package.json";
+import {
+  BUNDLE_CONTRACTS,
+  BundledNetwork,
+  DeploymentManifest,
+  NETWORKS,
+  checkAbiCompatibility,
+  collectDeployments,
+  createAbiLock,
+  loadAbiLock,
+  saveDeployment,
+  versionBump,
+  writeBundle,
+} from "../sdk";
+
+describe("consumer bundle", function () {
+  let dir: string;
+
+  beforeEach(function () {
+    dir = mkdtempSync(join(tmpdir(), "hedgera-bundle-"));
+  });
+
+  afterEach(function () {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function compiledAbis(): Promise<Record<string, unknown[]>> {
+    const abis: Record<string, unknown[]> = {};
+    for (const name of BUNDLE_CONTRACTS) {
+      abis[name] = (await artifacts.readArtifact(name)).abi;
+    }
+    return abis;
+  }
+
+  const manifest = (chainId: number, registry: string): DeploymentManifest => ({
+    usdc: ethers.ZeroAddress,
+    saucerSwapRouter: ethers.ZeroAddress,
+    registry,
+    router: ethers.ZeroAddress,
+    factory: ethers.ZeroAddress,
+    deployer: ethers.ZeroAddress,
+    deploymentBlock: 42,
+    timestamp: 0,
+    chainId,
+  });
+
+  it("matches the committed ABI lock at the package version", async function () {
+    const lock = loadAbiLock();
+    expect(lock, "abi-lock.json is missing; run `npm run bundle`").to.not.equal(null);
+    const report = checkAbiCompatibility(lock!, version, await compiledAbis());
+    const changes = report.changes.map((c) => `${c.change} ${c.contract}: ${c.signature}`);
+    expect(report.ok, `ABIs changed without a ${report.required} version bump:\n${changes.join("\n")}`).to.equal(true);
+  });
+
+  it("requires a major bump to change or remove fragments and a minor bump to add them", async function () {
+    const abis = await compiledAbis();
+    const lock = createAbiLock("1.2.3", abis);
+    expect(checkAbiCompatibility(lock, "1.2.3", abis)).to.deep.include({ changes: [], required: "none", ok: true });
+
+    // A new view on the registry
+    const added = {
+      ...abis,
+      IndexRegistry: [...abis.IndexRegistry, { type: "function", name: "version", inputs: [], outputs: [{ type: "string", name: "" }], stateMutability: "view" }],
+    };
+    const addition = checkAbiCompatibility(lock, "1.2.4", added);
+    expect(addition.changes).to.deep.equal([
+      { contract: "IndexRegistry", change: "added", signature: "function version() view returns (string)" },
+    ]);
+    expect(addition).to.deep.include({ required: "minor", bump: "patch", ok: false });
+    expect(checkAbiCompatibility(lock, "1.3.0", added).ok).to.equal(true);
+
+    // Renaming a parameter changes the bindings, so it counts as a removal
+    const renamed = {
+      ...abis,
+      IRouter: (abis.IRouter as { name?: string; inputs?: { name: string }[] }[]).map((f) =>
+        f.name === "getTokenPath" ? { ...f, inputs: [{ ...f.inputs![0], name: "asset" }] } : f
+      ),
+    };
+    const rename = checkAbiCompatibility(lock, "1.3.0", renamed);
+    expect(rename.changes.map((c) => c.change)).to.deep.equal(["removed", "added"]);
+    expect(rename).to.deep.include({ required: "major", ok: false });
+    expect(checkAbiCompatibility(lock, "2.0.0", renamed).ok).to.equal(true);
+
+    expect(() => checkAbiCompatibility(lock, "1.2.2", abis)).to.throw("Bundle: version 1.2.2 is older than the locked 1.2.3");
+    expect(() => versionBump("1.2.3", "v1.3")).to.throw('Bundle: version "v1.3" is not major.minor.patch');
+    expect(versionBump("1.2.3", "1.10.0")).to.equal("minor");
+  });
+
+  it("collects each network's manifest with the indexes created on it", function () {
+    const registry = "0x00000000000000000000000000000000000000aa";
+    const networks = ["hedera", "hedera-testnet", "hedera-previewnet"].map((name) => ({
+      ...NETWORKS[name],
+      deploymentFile: join(dir, `${name}.json`),
+    }));
+    saveDeployment(manifest(295, registry), networks[0].deploymentFile);
+    writeFileSync(networks[1].deploymentFile, JSON.stringify({ chainId: 296, usdc: ethers.ZeroAddress }));
+    const createdIndexesFile = join(dir, "created-indexes.json");
+    const index = (id: number, symbol: string, chainId?: number, registry?: string) => ({
+      id, name: symbol, symbol, vault: ethers.ZeroAddress, indexToken: ethers.ZeroAddress, chainId, registry, config: {},
+    });
+    writeFileSync(
+      createdIndexesFile,
+      JSON.stringify([
+        index(1, "HDI", 295, registry.toUpperCase().replace("0X", "0x")),
+        index(0, "BCCI", 295, registry),
+        index(0, "OLD", 295, "0x00000000000000000000000000000000000000bb"), // an earlier deployment
+        index(0, "TEST", 296, registry),
+        index(3, "LEGACY"),
+      ])
+    );
+
+    const { networks: bundled, warnings } = collectDeployments({ networks, createdIndexesFile });
+    expect(Object.keys(bundled)).to.deep.equal(["hedera"]);
+    expect(bundled.hedera).to.include({ network: "hedera", chainId: 295, registry, deploymentBlock: 42 });
+    expect(bundled.hedera.indexes).to.deep.equal([
+      { id: 0, name: "BCCI", symbol: "BCCI", vault: ethers.ZeroAddress, indexToken: ethers.ZeroAddress },
+      { id: 1, name: "HDI", symbol: "HDI", vault: ethers.ZeroAddress, indexToken: ethers.ZeroAddress },
+    ]);
+    expect(warnings).to.have.length(2);
+    expect(warnings[0]).to.match(/^hedera-testnet: Deployment .* is incomplete/);
+    expect(warnings[1]).to.contain("LEGACY have no chainId and registry");
+
+    // Local deployments are only bundled on request
+    expect(collectDeployments({ createdIndexesFile: join(dir, "none.json") }).networks).to.not.have.property("localhost");
+  });
+
+  it("writes the package, ABIs, deployments and entry point", async function () {
+    const abis = await compiledAbis();
+    const networks: Record<string, BundledNetwork> = {
+      hedera: { network: "hedera", ...manifest(295, ethers.ZeroAddress), indexes: [] },
+    };
+    const out = join(dir, "bundle");
+    const files = writeBundle({ name: "@hedgera/contracts", version: "1.4.0", abis, networks }, out);
+    expect(files).to.include.members(["package.json", "bundle.json", "index.ts", join("abis", "BasketVault.json"), join("deployments", "hedera.json")]);
+
+    const pkg = JSON.parse(readFileSync(join(out, "package.json"), "utf8"));
+    expect(pkg).to.include({ name: "@hedgera/contracts", version: "1.4.0", main: "index.js", types: "index.d.ts" });
+    expect(JSON.parse(readFileSync(join(out, "abis", "IRouter.json"), "utf8"))).to.deep.equal(abis.IRouter);
+    expect(JSON.parse(readFileSync(join(out, "bundle.json"), "utf8")).contracts).to.deep.equal([...BUNDLE_CONTRACTS].sort());
+    const entry = readFileSync(join(out, "index.ts"), "utf8");
+    expect(entry).to.contain('export * from "./types";').and.contain('export const VERSION = "1.4.0";');
+
+    // A rebuild replaces the previous bundle, but nothing else is overwritten
+    writeBundle({ name: "@hedgera/contracts", version: "1.4.1", abis, networks: {} }, out);
+    expect(existsSync(join(out, "deployments", "hedera.json"))).to.equal(false);
+    mkdirSync(join(dir, "src"));
+    writeFileSync(join(dir, "src", "main.ts"), "");
+    expect(() => writeBundle({ name: "x", version: "1.0.0", abis, networks: {} }, join(dir, "src"))).to.throw(
+      /is not empty and holds no bundle/
+    );
+  });
+});
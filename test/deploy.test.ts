@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  DeployConfig,
+  HedgeraClient,
+  PartialDeployment,
+  VAULT_DEPLOYER_LIBRARY,
+  deployLocalEnvironment,
+  deployProtocol,
+  inspectDeployment,
+  loadDeployedCode,
+  matchesDeployedBytecode,
+} from "../sdk";
+import { CREATION_FEE, TEST_TOKENS, usdc } from "./fixtures";
+
+describe("deployProtocol", function () {
+  async function environmentFixture() {
+    const [deployer] = await ethers.getSigners();
+    const environment = await deployLocalEnvironment(deployer, {
+      tokens: TEST_TOKENS,
+      liquidityUsd: 1000,
+      fundedAccounts: [deployer.address],
+      fundingUsdc: 1000,
+    });
+    const config: DeployConfig = {
+      usdc: environment.usdc,
+      saucerSwapRouter: environment.saucerSwapRouter,
+      creationFee: CREATION_FEE,
+      factoryAllowance: usdc("10"),
+    };
+    return { deployer, environment, config };
+  }
+
+  const driftedChecks = async (manifest: PartialDeployment, config: DeployConfig) =>
+    (await inspectDeployment(ethers.provider, manifest, config)).filter((check) => !check.ok).map((check) => check.name);
+
+  it("reports no drift for a fresh deployment", async function () {
+    const { deployer, config } = await loadFixture(environmentFixture);
+    const manifest = await deployProtocol(deployer, config);
+
+    expect(await driftedChecks(manifest, config)).to.deep.equal([]);
+  });
+
+  it("sends no transactions when rerun against a complete deployment", async function () {
+    const { deployer, config } = await loadFixture(environmentFixture);
+    const manifest = await deployProtocol(deployer, config);
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+
+    const rerun = await deployProtocol(deployer, config, { existing: manifest });
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+    expect(rerun.factory).to.equal(manifest.factory);
+    expect(rerun.deploymentBlock).to.equal(manifest.deploymentBlock);
+  });
+
+  it("resumes an interrupted deployment from the last persisted step", async function () {
+    const { deployer, config } = await loadFixture(environmentFixture);
+
+    // Crash right after the router is deployed
+    let persisted: PartialDeployment | undefined;
+    try {
+      await deployProtocol(deployer, config, {
+        onProgress: (manifest) => {
+          persisted = manifest;
+          if (manifest.router) throw new Error("interrupted");
+        },
+      });
+    } catch {}
+    expect(persisted?.registry).to.be.properAddress;
+    expect(persisted?.factory).to.equal(undefined);
+    expect(persisted?.deploymentBlock).to.be.a("number");
+    expect(await driftedChecks(persisted!, config)).to.include("IndexFactory bytecode");
+
+    const manifest = await deployProtocol(deployer, config, { existing: persisted });
+    expect(manifest.registry).to.equal(persisted!.registry);
+    expect(manifest.router).to.equal(persisted!.router);
+    expect(manifest.deploymentBlock).to.equal(persisted!.deploymentBlock);
+    expect(await driftedChecks(manifest, config)).to.deep.equal([]);
+
+    const { registry, factory } = new HedgeraClient(manifest, deployer);
+    expect(await registry.authorizedFactories(manifest.factory)).to.equal(true);
+    expect(await factory.router()).to.equal(manifest.router);
+  });
+
+  it("detects and reconciles configuration drift", async function () {
+    const { deployer, config } = await loadFixture(environmentFixture);
+    const manifest = await deployProtocol(deployer, config);
+    const { factory } = new HedgeraClient(manifest, deployer);
+    await factory.updateIndexCreationFee(usdc("5"));
+
+    expect(await driftedChecks(manifest, config)).to.deep.equal(["IndexFactory.indexCreationFee"]);
+
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+    await deployProtocol(deployer, config, { existing: manifest });
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce + 1);
+    expect(await factory.indexCreationFee()).to.equal(CREATION_FEE);
+  });
+
+  it("redeploys a contract whose bytecode does not match the artifact", async function () {
+    const { deployer, environment, config } = await loadFixture(environmentFixture);
+    const manifest = await deployProtocol(deployer, config);
+    const wrongRouter = { ...manifest, router: environment.usdc };
+
+    expect(await driftedChecks(wrongRouter, config)).to.include("Router bytecode");
+
+    const reconciled = await deployProtocol(deployer, config, { existing: wrongRouter });
+    expect(reconciled.router).to.not.equal(environment.usdc);
+    expect(reconciled.factory).to.equal(manifest.factory);
+    expect(await driftedChecks(reconciled, config)).to.deep.equal([]);
+  });
+
+  it("reuses the VaultDeployer library and the first deployment block when the factory is redeployed", async function () {
+    const { deployer, environment, config } = await loadFixture(environmentFixture);
+    const manifest = await deployProtocol(deployer, config);
+    expect(manifest.vaultDeployer).to.be.properAddress;
+
+    // Only the factory is replaced: no new library, and indexing still starts at the registry
+    const nonce = await ethers.provider.getTransactionCount(deployer.address);
+    const redeployed = await deployProtocol(deployer, config, { existing: { ...manifest, factory: environment.usdc } });
+    expect(redeployed.factory).to.not.equal(environment.usdc);
+    expect(redeployed.vaultDeployer).to.equal(manifest.vaultDeployer);
+    expect(redeployed.deploymentBlock).to.equal(manifest.deploymentBlock);
+    // The factory creation and its four configuration calls
+    expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce + 5);
+    expect(await driftedChecks(redeployed, config)).to.deep.equal([]);
+
+    // A recorded library that does not match the artifact is replaced
+    const relinked = await deployProtocol(deployer, config, {
+      existing: { ...redeployed, factory: undefined, vaultDeployer: environment.usdc },
+    });
+    expect(relinked.vaultDeployer).to.not.equal(environment.usdc);
+    expect(await driftedChecks(relinked, config)).to.deep.equal([]);
+  });
+
+  it("compares bytecode byte for byte and checks the linked VaultDeployer", async function () {
+    const { deployer, config } = await loadFixture(environmentFixture);
+    const manifest = await deployProtocol(deployer, config);
+    const code = (await ethers.provider.getCode(manifest.factory!)).toLowerCase().replace(/^0x/, "");
+    const expected = loadDeployedCode("IndexFactory");
+    const libraries = { [VAULT_DEPLOYER_LIBRARY]: manifest.vaultDeployer! };
+    const masked = [...expected.immutableReferences, ...Object.values(expected.deployedLinkReferences).flatMap(Object.values).flat()];
+    const unmasked = (byte: number) => !masked.some(({ start, length }) => byte >= start && byte < start + length);
+    const valueAt = (byte: number) => code.slice(byte * 2, byte * 2 + 2);
+    const withByte = (byte: number, value: string) => `0x${code.slice(0, byte * 2)}${value}${code.slice(byte * 2 + 2)}`;
+    const byteWhere = (test: (value: string) => boolean) =>
+      [...Array(code.length / 2).keys()].find((byte) => unmasked(byte) && test(valueAt(byte)))!;
+
+    expect(expected.immutableReferences).to.not.be.empty;
+    expect(matchesDeployedBytecode(`0x${code}`, expected, libraries)).to.equal(true);
+
+    // Any byte outside the immutable and library ranges must match, zero or not
+    const nonZero = byteWhere((value) => value !== "00");
+    expect(matchesDeployedBytecode(withByte(nonZero, valueAt(nonZero) === "ff" ? "fe" : "ff"), expected, libraries)).to.equal(false);
+    expect(matchesDeployedBytecode(withByte(byteWhere((value) => value === "00"), "01"), expected, libraries)).to.equal(false);
+    expect(matchesDeployedBytecode(`0x${code}00`, expected, libraries)).to.equal(false);
+
+    // The library ranges must hold the manifest's VaultDeployer
+    expect(matchesDeployedBytecode(`0x${code}`, expected, { [VAULT_DEPLOYER_LIBRARY]: config.usdc })).to.equal(false);
+    expect(matchesDeployedBytecode(`0x${code}`, expected)).to.equal(false);
+    expect(await driftedChecks({ ...manifest, vaultDeployer: config.usdc }, config)).to.include("IndexFactory bytecode");
+  });
+});
@@ -0,0 +1,73 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DeploymentManifest,
+  NETWORKS,
+  getNetworkByChainId,
+  loadDeployment,
+  loadNetworkDeployment,
+  loadPartialDeployment,
+  saveDeployment,
+} from "../sdk";
+import { rejectionOf } from "./fixtures";
+
+describe("deployment manifests", function () {
+  let dir: string;
+
+  const manifest = (chainId: number): DeploymentManifest => ({
+    usdc: ethers.ZeroAddress,
+    saucerSwapRouter: ethers.ZeroAddress,
+    registry: ethers.ZeroAddress,
+    router: ethers.ZeroAddress,
+    factory: ethers.ZeroAddress,
+    deployer: ethers.ZeroAddress,
+    deploymentBlock: 0,
+    timestamp: 0,
+    chainId,
+  });
+
+  beforeEach(function () {
+    dir = mkdtempSync(join(tmpdir(), "hedgera-"));
+  });
+
+  afterEach(function () {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("maps chain IDs to networks", function () {
+    expect(getNetworkByChainId(295).name).to.equal("hedera");
+    expect(getNetworkByChainId(296n).name).to.equal("hedera-testnet");
+    expect(getNetworkByChainId(297).name).to.equal("hedera-previewnet");
+    expect(getNetworkByChainId(1337).name).to.equal("localhost");
+    expect(() => getNetworkByChainId(1)).to.throw("No network configured for chainId 1");
+  });
+
+  it("loads the manifest written for the connected chain", async function () {
+    const file = join(dir, "localhost.json");
+    saveDeployment(manifest(NETWORKS.localhost.chainId), file);
+
+    const { deployment, network } = await loadNetworkDeployment(ethers.provider, file);
+    expect(deployment.chainId).to.equal(1337);
+    expect(network.name).to.equal("localhost");
+  });
+
+  it("refuses a manifest from another chain", async function () {
+    const file = join(dir, "hedera-mainnet.json");
+    saveDeployment(manifest(NETWORKS.hedera.chainId), file);
+
+    expect(await rejectionOf(loadNetworkDeployment(ethers.provider, file))).to.match(/is for chainId 295 but the provider is connected to chainId 1337/);
+  });
+
+  it("refuses an incomplete manifest but can load it for resuming", function () {
+    const file = join(dir, "localhost.json");
+    const { factory, deploymentBlock, ...partial } = manifest(NETWORKS.localhost.chainId);
+    saveDeployment(partial, file);
+
+    expect(() => loadDeployment(file)).to.throw("is incomplete (missing factory, deploymentBlock)");
+    expect(loadPartialDeployment(file)?.registry).to.equal(ethers.ZeroAddress);
+    expect(loadPartialDeployment(join(dir, "missing.json"))).to.equal(null);
+  });
+});
@@ -0,0 +1,98 @@
+import { ethers } from "hardhat";
+import { parseUnits } from "ethers";
+import {
+  BasketVault__factory,
+  IndexToken__factory,
+  MockERC20__factory,
+  MockSaucerSwapRouter__factory,
+} from "../typechain-types";
+import { HedgeraClient, LocalTokenConfig, deployLocalEnvironment, deployProtocol } from "../sdk";
+
+// Basket tokens used across the suite: one 8-decimal blue chip, one 8-decimal mid cap, one 6-decimal small cap
+export const TEST_TOKENS: LocalTokenConfig[] = [
+  { symbol: "WBTC", name: "Wrapped Bitcoin", decimals: 8, priceUsd: 60000 },
+  { symbol: "WETH", name: "Wrapped Ethereum", decimals: 8, priceUsd: 3000 },
+  { symbol: "SAUCE", name: "SaucerSwap", decimals: 6, priceUsd: 0.05 },
+];
+
+export const CREATION_FEE = parseUnits("1", 6);
+export const MINT_FEE = 50n;    // 0.5%
+export const REDEEM_FEE = 100n; // 1%
+export const WEIGHTS = [4000n, 4000n, 2000n];
+
+export const usdc = (amount: string) => parseUnits(amount, 6);
+
+/**
+ * Message of the error a promise rejects with, or undefined if it resolves (no chai-as-promised here)
+ */
+export async function rejectionOf(promise: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await promise;
+  } catch (error) {
+    return (error as Error).message;
+  }
+  return undefined;
+}
+
+/**
+ * Deploys the protocol against the local SaucerSwap/USDC stand-ins with
+ * alice and bob funded with 100k USDC each
+ */
+export async function deployProtocolFixture() {
+  const [deployer, curator, alice, bob] = await ethers.getSigners();
+
+  const environment = await deployLocalEnvironment(deployer, {
+    tokens: TEST_TOKENS,
+    liquidityUsd: 1000000,
+    fundedAccounts: [curator.address, alice.address, bob.address],
+    fundingUsdc: 100000,
+  });
+  const manifest = await deployProtocol(deployer, {
+    usdc: environment.usdc,
+    saucerSwapRouter: environment.saucerSwapRouter,
+    creationFee: CREATION_FEE,
+    factoryAllowance: 0n,
+  });
+  const client = new HedgeraClient(manifest, deployer);
+
+  return {
+    deployer,
+    curator,
+    alice,
+    bob,
+    environment,
+    manifest,
+    registry: client.registry,
+    factory: client.factory,
+    router: client.router,
+    usdcToken: MockERC20__factory.connect(environment.usdc, deployer),
+    saucerSwapRouter: MockSaucerSwapRouter__factory.connect(environment.saucerSwapRouter, deployer),
+    tokens: TEST_TOKENS.map(({ symbol }) => MockERC20__factory.connect(environment.tokens[symbol], deployer)),
+  };
+}
+
+/**
+ * `deployProtocolFixture` plus one index over TEST_TOKENS created by the curator
+ */
+export async function deployIndexFixture() {
+  const base = await deployProtocolFixture();
+  const { curator, environment, manifest } = base;
+
+  const client = new HedgeraClient(manifest, curator);
+  const { event } = await client.createIndex({
+    name: "Test Index",
+    symbol: "TIDX",
+    curator: curator.address,
+    tokens: TEST_TOKENS.map(({ symbol }) => environment.tokens[symbol]),
+    weights: WEIGHTS,
+    mintFee: MINT_FEE,
+    redeemFee: REDEEM_FEE,
+  });
+
+  return {
+    ...base,
+    indexId: event.indexId,
+    vault: BasketVault__factory.connect(event.vault, curator),
+    indexToken: IndexToken__factory.connect(event.indexToken, curator),
+  };
+}
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  AssociationCheck,
+  HedgeraClient,
+  addressToEntityId,
+  checkAssociations,
+  entityIdToAddress,
+  formatAddress,
+  hip719AssociationCheck,
+  parseAdminConfig,
+  resolveToken,
+  toEvmAddress,
+} from "../sdk";
+import { deployIndexFixture, rejectionOf } from "./fixtures";
+
+describe("Hedera IDs and token associations", function () {
+  const USDC_ID = "0.0.456858";
+  const USDC = "0x000000000000000000000000000000000006f89a";
+
+  describe("entity IDs", function () {
+    it("converts between 0.0.x IDs and long-zero addresses", function () {
+      expect(entityIdToAddress(USDC_ID).toLowerCase()).to.equal(USDC);
+      expect(addressToEntityId(USDC)).to.equal(USDC_ID);
+      expect(entityIdToAddress("1.2.3")).to.equal("0x0000000100000000000000020000000000000003");
+
+      // ECDSA alias accounts and the zero address have no entity ID
+      expect(addressToEntityId("0x70997970C51812dc3A010C7d01b50e0d17dc79C8")).to.equal(null);
+      expect(addressToEntityId(ethers.ZeroAddress)).to.equal(null);
+
+      expect(formatAddress(USDC)).to.equal(`${USDC} (${USDC_ID})`);
+      expect(() => entityIdToAddress("0.0.x")).to.throw('Invalid Hedera entity ID "0.0.x"');
+      expect(() => entityIdToAddress("0.0.18446744073709551616")).to.throw("out of range");
+    });
+
+    it("accepts IDs wherever the tooling takes an address", function () {
+      expect(toEvmAddress(USDC_ID)).to.equal(entityIdToAddress(USDC_ID));
+      expect(() => toEvmAddress("nobody", "address for --from")).to.throw('Invalid address for --from: "nobody"');
+      expect(resolveToken("0.0.1055483").toLowerCase()).to.equal("0x0000000000000000000000000000000000101afb");
+      expect(parseAdminConfig(`router: { saucerSwapRouter: "0.0.3045981" }`, "yaml").router?.saucerSwapRouter).to.equal(
+        entityIdToAddress("0.0.3045981")
+      );
+    });
+  });
+
+  describe("association preflight", function () {
+    async function setup() {
+      const base = await deployIndexFixture();
+      return { ...base, client: new HedgeraClient(base.manifest, ethers.provider) };
+    }
+
+    /** Everything is associated except the listed account:token pairs */
+    const allExcept = (...pairs: [string, string][]): AssociationCheck => {
+      const missing = new Set(pairs.map(([account, token]) => `${account}:${token}`.toLowerCase()));
+      return async (account, token) => !missing.has(`${account}:${token}`.toLowerCase());
+    };
+
+    it("covers the vault, the Router and the user for a mint or redeem", async function () {
+      const { client, manifest, alice, indexId, tokens } = await loadFixture(setup);
+      const index = await client.getIndex(indexId);
+      const wbtc = await tokens[0].getAddress();
+
+      const checked: string[] = [];
+      const record: AssociationCheck = async (account, token) => {
+        checked.push(`${account}:${token}`);
+        return true;
+      };
+      expect(await checkAssociations(client, "mint", { account: alice.address, indexId }, record)).to.deep.equal([]);
+      // USDC and 3 components for the vault and the Router, USDC for the user
+      expect(checked).to.have.length(9);
+
+      const check = allExcept([index.vault, wbtc], [alice.address, manifest.usdc], [alice.address, wbtc]);
+      expect(await checkAssociations(client, "redeem", { account: alice.address, indexId }, check)).to.deep.equal([
+        { account: index.vault, role: "vault", token: wbtc },
+        { account: alice.address, role: "user", token: manifest.usdc },
+      ]);
+    });
+
+    it("covers the redeemer and both fee recipients for an in-kind redeem", async function () {
+      const { client, deployer, curator, alice, indexId, tokens } = await loadFixture(setup);
+      const [wbtc, weth] = await Promise.all(tokens.slice(0, 2).map((t) => t.getAddress()));
+
+      const check = allExcept([alice.address, wbtc], [curator.address, weth], [deployer.address, weth]);
+      expect(await checkAssociations(client, "redeemInKind", { account: alice.address, indexId }, check)).to.deep.equal([
+        { account: alice.address, role: "user", token: wbtc },
+        { account: curator.address, role: "curator", token: weth },
+        { account: deployer.address, role: "platform", token: weth },
+      ]);
+    });
+
+    it("covers the Router, the creator and the factory before creating an index", async function () {
+      const { client, manifest, alice, tokens } = await loadFixture(setup);
+      const sauce = await tokens[2].getAddress();
+
+      const check = allExcept([manifest.router, sauce], [manifest.factory, manifest.usdc]);
+      expect(await checkAssociations(client, "createIndex", { account: alice.address, tokens: [sauce] }, check)).to.deep.equal([
+        { account: manifest.router, role: "router", token: sauce },
+        { account: manifest.factory, role: "factory", token: manifest.usdc },
+      ]);
+      expect(await rejectionOf(checkAssociations(client, "mint", { account: alice.address }, check))).to.equal(
+        "Association check: mint needs an index ID"
+      );
+    });
+
+    it("asks HTS tokens through HIP-719 and lets other tokens through", async function () {
+      const { alice, tokens } = await loadFixture(setup);
+      const check = hip719AssociationCheck(ethers.provider);
+
+      // Stand-ins at long-zero addresses that answer every call with true or false
+      const associated = entityIdToAddress("0.0.9001");
+      const unassociated = entityIdToAddress("0.0.9002");
+      await ethers.provider.send("hardhat_setCode", [associated, "0x600160005260206000f3"]);
+      await ethers.provider.send("hardhat_setCode", [unassociated, "0x60206000f3"]);
+
+      expect(await check(alice.address, associated)).to.equal(true);
+      expect(await check(alice.address, unassociated)).to.equal(false);
+      expect(await check(alice.address, await tokens[0].getAddress())).to.equal(true);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { MockERC20__factory } from "../typechain-types";
+import {
+  HedgeraClient,
+  IndexDefinition,
+  checkIndexOnChain,
+  loadIndexDefinitions,
+  parseIndexDefinitions,
+  toCreateIndexParams,
+  validateIndexDefinition,
+} from "../sdk";
+import { deployProtocolFixture } from "./fixtures";
+
+describe("index definitions", function () {
+  const TOKENS: Record<string, string> = {
+    WBTC: "0x0000000000000000000000000000000000000001",
+    WETH: "0x0000000000000000000000000000000000000002",
+    SAUCE: "0x0000000000000000000000000000000000000003",
+  };
+  const USDC = "0x0000000000000000000000000000000000000009";
+
+  const valid: IndexDefinition = {
+    name: "Test Index",
+    symbol: "TIDX",
+    components: [
+      { token: "WBTC", weight: 4000 },
+      { token: "WETH", weight: 4000 },
+      { token: "SAUCE", weight: 2000 },
+    ],
+    mintFee: 50,
+    redeemFee: 100,
+  };
+
+  const issues = (overrides: Partial<IndexDefinition>) =>
+    validateIndexDefinition({ ...valid, ...overrides }, TOKENS, USDC);
+
+  describe("parsing", function () {
+    it("reads the same definition from YAML and JSON", function () {
+      const yaml = `
+indexes:
+  - name: Test Index
+    symbol: TIDX
+    components:
+      - { token: WBTC, weight: 4000 }
+      - { token: WETH, weight: 4000 }
+      - { token: SAUCE, weight: 2000 }
+    mintFee: 50
+    redeemFee: 100
+`;
+      expect(parseIndexDefinitions(yaml, "yaml")).to.deep.equal([{ ...valid, description: undefined, curator: undefined }]);
+      expect(parseIndexDefinitions(JSON.stringify(valid), "json")).to.deep.equal(
+        parseIndexDefinitions(yaml, "yaml")
+      );
+    });
+
+    it("reports malformed definitions with their location", function () {
+      expect(() => parseIndexDefinitions("[{ name: X, symbol: X, components: {} }]", "yaml", "bad.yaml")).to.throw(
+        "bad.yaml[0].components: expected a list of { token, weight }"
+      );
+      expect(() =>
+        parseIndexDefinitions('{"name":"X","symbol":"X","components":[{"token":"WBTC","weight":"40%"}]}', "json")
+      ).to.throw("<input>[0].components[0].weight: expected a non-negative integer");
+      expect(() => parseIndexDefinitions("{", "json", "bad.json")).to.throw("bad.json: invalid JSON");
+    });
+
+    it("loads the bundled sample definitions", function () {
+      const definitions = loadIndexDefinitions("indexes/hedera.yaml");
+      expect(definitions.map((d) => d.symbol)).to.deep.equal(["BCCI", "HDI"]);
+    });
+  });
+
+  describe("offline validation", function () {
+    it("accepts a definition that satisfies every rule", function () {
+      expect(issues({})).to.deep.equal([]);
+    });
+
+    it("enforces token count, weight bounds and the weight total", function () {
+      expect(issues({ components: [{ token: "WBTC", weight: 10000 }] })).to.include.members([
+        "too few tokens: 1 (minimum 2)",
+        "WBTC: weight 10000 too high (maximum 5000)",
+      ]);
+      expect(
+        issues({
+          components: [
+            { token: "WBTC", weight: 50 },
+            { token: "WETH", weight: 5000 },
+            { token: "SAUCE", weight: 4000 },
+          ],
+        })
+      ).to.deep.equal(["WBTC: weight 50 too low (minimum 100)", "weights must sum to 10000, got 9050"]);
+
+      const eleven = Array.from({ length: 11 }, (_, i) => ({ token: ethers.toBeHex(i + 10, 20), weight: 909 }));
+      expect(issues({ components: eleven })).to.include("too many tokens: 11 (maximum 10)");
+    });
+
+    it("rejects duplicate, unknown and USDC tokens", function () {
+      expect(
+        issues({
+          components: [
+            { token: "WBTC", weight: 4000 },
+            { token: TOKENS.WBTC, weight: 4000 },
+            { token: "SAUCE", weight: 2000 },
+          ],
+        })
+      ).to.deep.equal([`duplicate token: ${TOKENS.WBTC} (same as WBTC)`]);
+      expect(issues({ components: [...valid.components.slice(0, 2), { token: "DOGE", weight: 2000 }] })).to.deep.equal([
+        'unknown token "DOGE". Known symbols: WBTC, WETH, SAUCE',
+      ]);
+      expect(issues({ components: [...valid.components.slice(0, 2), { token: USDC, weight: 2000 }] })).to.deep.equal([
+        `${USDC}: cannot include USDC in basket`,
+      ]);
+    });
+
+    it("caps the combined mint and redeem fee", function () {
+      expect(issues({ mintFee: 300, redeemFee: 200 })).to.deep.equal([]);
+      expect(issues({ mintFee: 300, redeemFee: 201 })).to.deep.equal(["total fees too high: 300 + 201 (maximum 500)"]);
+    });
+
+    it("flags definitions the factory would revert on", async function () {
+      const { curator, environment, manifest } = await loadFixture(deployProtocolFixture);
+      const client = new HedgeraClient(manifest, curator);
+      const tokens = environment.tokens;
+
+      const definitions: IndexDefinition[] = [
+        { ...valid, components: [{ token: "WBTC", weight: 5000 }, { token: "WETH", weight: 4999 }] },
+        { ...valid, mintFee: 250, redeemFee: 251 },
+        { ...valid, components: [{ token: "WBTC", weight: 5000 }, { token: "WBTC", weight: 5000 }] },
+      ];
+      for (const definition of definitions) {
+        expect(validateIndexDefinition(definition, tokens, manifest.usdc)).to.not.deep.equal([]);
+        await expect(client.createIndex(toCreateIndexParams(definition, tokens, curator.address))).to.be.reverted;
+      }
+    });
+  });
+
+  describe("on-chain checks", function () {
+    async function setup() {
+      const base = await deployProtocolFixture();
+      const client = new HedgeraClient(base.manifest, base.deployer);
+      const params = toCreateIndexParams(valid, base.environment.tokens, base.curator.address);
+      return { ...base, client, params };
+    }
+
+    it("passes for pooled tokens and an unrestricted factory", async function () {
+      const { client, params, deployer } = await loadFixture(setup);
+      expect(await checkIndexOnChain(client, params, deployer.address)).to.deep.equal([]);
+    });
+
+    it("flags a component without a USDC pool", async function () {
+      const { client, params, deployer } = await loadFixture(setup);
+      const unpooled = await new MockERC20__factory(deployer).deploy("Unpooled", "NOPE", 8);
+      const address = await unpooled.getAddress();
+
+      expect(
+        await checkIndexOnChain(client, { ...params, tokens: [...params.tokens.slice(0, 2), address] }, deployer.address)
+      ).to.deep.equal([`no USDC pool for ${address}`]);
+    });
+
+    it("requires an authorized curator when the factory demands it", async function () {
+      const { client, params, factory, deployer, curator } = await loadFixture(setup);
+      await factory.setRequireCuratorAuthorization(true);
+
+      expect(await checkIndexOnChain(client, params, deployer.address)).to.deep.equal([
+        `curator ${curator.address} not authorized`,
+      ]);
+      expect(await checkIndexOnChain(client, params, curator.address)).to.deep.equal([]);
+
+      await factory.addAuthorizedCurator(curator.address);
+      expect(await checkIndexOnChain(client, params, deployer.address)).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { EventIndexer, EventStore, HedgeraClient, IndexStatus, linkIndexFactory } from "../sdk";
+import { MINT_FEE, REDEEM_FEE, WEIGHTS, deployIndexFixture, rejectionOf, usdc } from "./fixtures";
+
+describe("EventIndexer", function () {
+  let dir: string;
+  let store: EventStore;
+
+  async function setup() {
+    const base = await deployIndexFixture();
+    const { manifest, registry, deployer, curator, alice, bob, indexId, indexToken } = base;
+
+    const aliceClient = new HedgeraClient(manifest, alice);
+    const { event } = await aliceClient.mint(indexId, usdc("1000"));
+    await new HedgeraClient(manifest, bob).mint(indexId, usdc("500"));
+    await indexToken.connect(alice).transfer(bob.address, event.sharesOut / 4n);
+    await aliceClient.redeem(indexId, event.sharesOut / 4n);
+    await aliceClient.redeemInKind(indexId, event.sharesOut / 4n);
+    await registry.connect(deployer).updateIndexStatus(indexId, IndexStatus.Inactive);
+    await base.vault.connect(curator).withdrawFees(curator.address, 1n);
+
+    return base;
+  }
+
+  beforeEach(function () {
+    dir = mkdtempSync(join(tmpdir(), "hedgera-events-"));
+    store = new EventStore(join(dir, "events.db"));
+  });
+
+  afterEach(function () {
+    store.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("stores the protocol's events from the deployment block with block timestamps", async function () {
+    const { manifest, indexId, vault, indexToken, alice } = await loadFixture(setup);
+
+    const result = await new EventIndexer(ethers.provider, manifest, store, { blockRange: 5 }).sync();
+    expect(result.fromBlock).to.equal(manifest.deploymentBlock);
+    expect(result.toBlock).to.equal(await ethers.provider.getBlockNumber());
+    expect(result.indexes).to.equal(1);
+
+    const counts = store.countEvents();
+    expect(counts).to.include({
+      IndexCreated: 1,
+      Minted: 2,
+      Redeemed: 1,
+      RedeemedInKind: 1,
+      FeesWithdrawn: 1,
+      IndexStatusUpdated: 1,
+    });
+    expect(counts.FeesCollected).to.equal(3); // two mints and the USDC redeem
+    expect(counts.SwapExecuted).to.equal(9); // three components per mint and per redeem
+    expect(counts.IndexMetricsUpdated).to.be.greaterThan(0);
+    // Two mints, a transfer and two burns
+    expect(counts.Transfer).to.equal(5);
+
+    const [index] = store.getIndexes();
+    expect(index.indexId).to.equal(indexId);
+    expect(index.vault).to.equal(await vault.getAddress());
+    expect(index.indexToken).to.equal(await indexToken.getAddress());
+
+    const [minted] = store.getEvents({ name: "Minted", indexId });
+    const block = await ethers.provider.getBlock(minted.blockNumber);
+    expect(minted.timestamp).to.equal(block!.timestamp);
+    expect(minted.contract).to.equal("BasketVault");
+    expect(minted.args.user).to.equal(alice.address);
+    expect(minted.args.usdcIn).to.equal(usdc("1000").toString());
+
+    // Swaps are attributed to the vault's index
+    expect(store.getEvents({ name: "SwapExecuted" }).every((e) => e.indexId === indexId)).to.equal(true);
+  });
+
+  it("resumes from the checkpoint without duplicating events", async function () {
+    const { manifest, indexToken, alice, bob } = await loadFixture(setup);
+    const head = await ethers.provider.getBlockNumber();
+    const partial = await new EventIndexer(ethers.provider, manifest, store, { blockRange: 3 }).sync(head - 4);
+    expect(store.getSyncState()!.lastBlock).to.equal(head - 4);
+
+    await indexToken.connect(bob).transfer(alice.address, 1n);
+
+    // A new indexer on the same database continues where the last one stopped
+    const resumed = await new EventIndexer(ethers.provider, manifest, store, { blockRange: 3 }).sync();
+    expect(resumed.fromBlock).to.equal(head - 3);
+    expect(resumed.toBlock).to.equal(head + 1);
+    expect(store.countEvents().Transfer).to.equal(6);
+
+    const events = store.getEvents();
+    expect(events.length).to.equal(partial.events + resumed.events);
+    expect(new Set(events.map((e) => `${e.blockNumber}:${e.logIndex}`)).size).to.equal(events.length);
+
+    const upToDate = await new EventIndexer(ethers.provider, manifest, store).sync();
+    expect(upToDate.ranges).to.equal(0);
+  });
+
+  it("follows an index to the vault it migrates to", async function () {
+    const { manifest, curator, alice, bob, indexId } = await loadFixture(deployIndexFixture);
+    await new HedgeraClient(manifest, alice).mint(indexId, usdc("1000"));
+    await new EventIndexer(ethers.provider, manifest, store).sync();
+
+    // The new vault's first mint falls in the same range as the migration
+    const curatorClient = new HedgeraClient(manifest, curator);
+    const { event } = await curatorClient.migrateVault(await curatorClient.planMigration(indexId));
+    await new HedgeraClient(manifest, alice).mint(indexId, usdc("100"));
+    await new EventIndexer(ethers.provider, manifest, store).sync();
+
+    const [migrated] = store.getEvents({ name: "VaultMigrated" });
+    expect(migrated).to.include({ indexId, contract: "BasketVault" });
+    expect(migrated.args.newVault).to.equal(event.newVault);
+    const minted = store.getEvents({ name: "Minted", indexId });
+    expect(minted.map((e) => e.address)).to.deep.equal([minted[0].address, event.newVault]);
+    expect(store.getEvents({ name: "SwapExecuted" }).every((e) => e.indexId === indexId)).to.equal(true);
+
+    // A new indexer picks the migrated vault up from the database
+    await new HedgeraClient(manifest, bob).mint(indexId, usdc("100"));
+    await new EventIndexer(ethers.provider, manifest, store).sync();
+    expect(store.getEvents({ name: "Minted", address: event.newVault })).to.have.length(2);
+  });
+
+  it("discovers indexes created through another authorized factory", async function () {
+    const { manifest, registry, router, deployer, curator, alice, tokens } = await loadFixture(deployIndexFixture);
+    const linked = await linkIndexFactory(deployer, {}, manifest.vaultDeployer);
+    const factory = await linked.deploy(manifest.registry, manifest.usdc, deployer.address);
+    await registry.addAuthorizedFactory(await factory.getAddress());
+    await factory.setRouter(await router.getAddress());
+
+    const other = { ...manifest, factory: await factory.getAddress() };
+    const { event } = await new HedgeraClient(other, curator).createIndex({
+      name: "Second Index",
+      symbol: "SIDX",
+      curator: curator.address,
+      tokens: await Promise.all(tokens.map((token) => token.getAddress())),
+      weights: WEIGHTS,
+      mintFee: MINT_FEE,
+      redeemFee: REDEEM_FEE,
+    });
+    await new HedgeraClient(other, alice).mint(event.indexId, usdc("100"));
+
+    const result = await new EventIndexer(ethers.provider, manifest, store).sync();
+    expect(result.indexes).to.equal(2);
+    const created = store.getEvents({ name: "IndexCreated", indexId: event.indexId });
+    expect(created.map((e) => e.address)).to.deep.equal([await factory.getAddress()]);
+    expect(store.getIndexes()[1]).to.include({ indexId: event.indexId, vault: event.vault, creator: curator.address });
+    expect(store.getEvents({ name: "Minted", indexId: event.indexId })).to.have.length(1);
+  });
+
+  it("refuses a database built for another deployment", async function () {
+    const { manifest } = await loadFixture(setup);
+    await new EventIndexer(ethers.provider, manifest, store).sync();
+
+    const other = { ...manifest, factory: ethers.Wallet.createRandom().address };
+    expect(await rejectionOf(new EventIndexer(ethers.provider, other, store).sync())).to.match(/indexes factory/);
+    expect(await rejectionOf(new EventIndexer(ethers.provider, { ...manifest, chainId: 295 }, store).sync())).to.match(
+      /deployment is for chainId 295/
+    );
+  });
+});
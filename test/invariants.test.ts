@@ -0,0 +1,377 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { ContractTransactionResponse } from "ethers";
+import { loadFixture, mine, takeSnapshot } from "@nomicfoundation/hardhat-network-helpers";
+import { HedgeraClient, loadPools, parseMintedEvents, parseRedeemedEvents, parseRedeemedInKindEvents } from "../sdk";
+import { REDEEM_FEE, deployIndexFixture, rejectionOf, usdc } from "./fixtures";
+
+// Random runs replay exactly from their seed: INVARIANT_SEED=<n> reruns one, INVARIANT_STEPS sets the length
+const SEEDS = process.env.INVARIANT_SEED ? [Number(process.env.INVARIANT_SEED)] : [1, 2, 3];
+const STEPS = Number(process.env.INVARIANT_STEPS ?? 50);
+const DEADLINE = ethers.MaxUint256;
+const SHARE = 10n ** 18n;
+
+/**
+ * Seeded pseudo-random numbers (mulberry32), the same sequence on every machine
+ */
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    chance: (p: number) => next() < p,
+    pick: <T>(items: T[]): T => items[Math.floor(next() * items.length)],
+    // Uniform in [min, max]
+    amount: (min: bigint, max: bigint) => min + (BigInt(Math.floor(next() * 2 ** 32)) * (max - min + 1n)) / 2n ** 32n,
+  };
+}
+
+describe("BasketVault invariants", function () {
+  async function setup() {
+    const base = await deployIndexFixture();
+    const { vault, usdcToken, saucerSwapRouter, tokens, alice, bob, curator, deployer } = base;
+    const vaultAddress = await vault.getAddress();
+    const dex = await saucerSwapRouter.getAddress();
+    const tokenAddresses = await Promise.all(tokens.map((t) => t.getAddress()));
+    for (const user of [alice, bob, curator, deployer]) {
+      await usdcToken.connect(user).approve(vaultAddress, ethers.MaxUint256);
+      await usdcToken.connect(user).approve(dex, ethers.MaxUint256);
+      for (const token of tokens) {
+        await token.connect(user).approve(dex, ethers.MaxUint256);
+      }
+    }
+    return {
+      ...base,
+      vaultAddress,
+      users: [alice, bob, curator],
+      tokenAddresses,
+      // About $1,000 of each component at the starting prices
+      donationCaps: await Promise.all(
+        tokenAddresses.map(async (token) => (await saucerSwapRouter.getAmountsIn(usdc("1000"), [token, base.environment.usdc]))[0])
+      ),
+    };
+  }
+  type Fixture = Awaited<ReturnType<typeof setup>>;
+
+  /**
+   * What `shares` are worth as a slice of the vault's components at the pools' spot prices and of its
+   * idle USDC, the most a redeem could pay before fees, swap fees and price impact
+   */
+  async function proRataSpotValue(fixture: Fixture, shares: bigint): Promise<bigint> {
+    const { environment, indexToken, tokenAddresses, tokens, usdcToken, vault, vaultAddress } = fixture;
+    const pools = await loadPools(ethers.provider, environment.saucerSwapFactory, [environment.usdc, ...tokenAddresses]);
+    const supply = await indexToken.totalSupply();
+
+    let value = (((await usdcToken.balanceOf(vaultAddress)) - (await vault.collectedFees())) * shares) / supply;
+    for (const [i, token] of tokenAddresses.entries()) {
+      const pool = pools.find((p) => [p.token0, p.token1].includes(token))!;
+      const [reserveToken, reserveUsdc] = pool.token0 === token ? [pool.reserve0, pool.reserve1] : [pool.reserve1, pool.reserve0];
+      const amount = ((await tokens[i].balanceOf(vaultAddress)) * shares) / supply;
+      value += (amount * reserveUsdc) / reserveToken;
+    }
+    return value;
+  }
+
+  /**
+   * Sends transactions back to back and mines them together, in order, in a single block
+   */
+  async function inOneBlock(...sends: (() => Promise<ContractTransactionResponse>)[]) {
+    await network.provider.send("evm_setAutomine", [false]);
+    const pending: ContractTransactionResponse[] = [];
+    try {
+      for (const send of sends) {
+        pending.push(await send());
+      }
+      await mine();
+    } finally {
+      await network.provider.send("evm_setAutomine", [true]);
+    }
+    const receipts = await Promise.all(pending.map((tx) => tx.wait()));
+    expect(new Set(receipts.map((r) => r!.blockNumber)).size).to.equal(1);
+    return receipts.map((r) => r!);
+  }
+
+  describe("random sequences", function () {
+    for (const seed of SEEDS) {
+      it(`holds the share accounting invariants for seed ${seed}`, async function () {
+        const fixture = await loadFixture(setup);
+        const { vault, indexToken, usdcToken, saucerSwapRouter, tokens, tokenAddresses, users, vaultAddress, deployer, curator } =
+          fixture;
+        const random = seededRandom(seed);
+        const disabled = tokenAddresses.map(() => false);
+        let ledger = 0n; // Shares minted less shares burned, from the vault's events
+
+        const checkInvariants = async (where: string) => {
+          const supply = await indexToken.totalSupply();
+          const balances = await Promise.all(users.map((u) => indexToken.balanceOf(u.address)));
+          expect(supply, `${where}: supply vs events`).to.equal(ledger);
+          expect(balances.reduce((sum, b) => sum + b, 0n), `${where}: supply vs holders`).to.equal(supply);
+          expect(supply === 0n || supply >= (await vault.MIN_SHARE_SUPPLY()), `${where}: dust supply`).to.equal(true);
+
+          const collectedFees = await vault.collectedFees();
+          expect(collectedFees, `${where}: fees vs USDC held`).to.be.lte(await usdcToken.balanceOf(vaultAddress));
+          expect(await vault.platformFees(), `${where}: platform part of fees`).to.be.lte(collectedFees);
+
+          const [values] = await vault.getComponentValues();
+          const idle = (await usdcToken.balanceOf(vaultAddress)) - collectedFees;
+          expect(await vault.getTotalValueLocked(), `${where}: TVL`).to.equal(values.reduce((sum, v) => sum + v, idle));
+        };
+
+        const actions: Record<string, () => Promise<void>> = {
+          mint: async () => {
+            const user = random.pick(users);
+            const amount = random.amount(usdc("1"), usdc("20000"));
+            await usdcToken.mint(user.address, amount);
+            const preview = await vault.previewMint(amount).catch(() => 0n);
+            if (preview === 0n) {
+              expect(await rejectionOf(vault.connect(user).mint(amount, 0n, DEADLINE))).to.not.equal(undefined);
+              return;
+            }
+            const receipt = await (await vault.connect(user).mint(amount, 0n, DEADLINE)).wait();
+            const [event] = parseMintedEvents(vault, receipt!);
+            expect(event.sharesOut, "shares vs previewMint").to.equal(preview);
+            ledger += event.sharesOut;
+          },
+
+          redeem: async () => {
+            const user = random.pick(users);
+            const balance = await indexToken.balanceOf(user.address);
+            if (balance === 0n) return;
+            const shares = random.chance(0.3) ? balance : random.amount(1n, balance);
+            const supply = await indexToken.totalSupply();
+            if (supply - shares > 0n && supply - shares < (await vault.MIN_SHARE_SUPPLY())) {
+              expect(await rejectionOf(vault.connect(user).redeem(shares, 0n, DEADLINE))).to.contain("BasketVault: dust supply");
+              return;
+            }
+            // A component whose pool is down cannot be sold, so the redeem reverts and burns nothing
+            const proRata = await Promise.all(tokens.map(async (t) => ((await t.balanceOf(vaultAddress)) * shares) / supply));
+            if (proRata.some((amount, i) => disabled[i] && amount > 0n)) {
+              expect(await rejectionOf(vault.connect(user).redeem(shares, 0n, DEADLINE))).to.contain("BasketVault: component below minimum");
+              return;
+            }
+            const preview = await vault.previewRedeem(shares);
+            const bound = await proRataSpotValue(fixture, shares);
+            const receipt = await (await vault.connect(user).redeem(shares, 0n, DEADLINE)).wait();
+            const [event] = parseRedeemedEvents(vault, receipt!);
+            expect(event.usdcOut, "USDC vs previewRedeem").to.equal(preview);
+            expect(event.usdcOut, "USDC vs pro-rata value").to.be.lte(bound);
+            ledger -= shares;
+          },
+
+          redeemInKind: async () => {
+            const user = random.pick(users);
+            const balance = await indexToken.balanceOf(user.address);
+            if (balance === 0n) return;
+            const shares = random.chance(0.5) ? balance : random.amount(1n, balance);
+            const supply = await indexToken.totalSupply();
+            if (supply - shares > 0n && supply - shares < (await vault.MIN_SHARE_SUPPLY())) return;
+            const proRata = await Promise.all(tokens.map(async (t) => ((await t.balanceOf(vaultAddress)) * shares) / supply));
+            const idle = (((await usdcToken.balanceOf(vaultAddress)) - (await vault.collectedFees())) * shares) / supply;
+            const receipt = await (await vault.connect(user).redeemInKind(shares, DEADLINE)).wait();
+            const [event] = parseRedeemedInKindEvents(vault, receipt!);
+            event.amounts.forEach((amount, i) => {
+              expect(amount + event.fees[i], "in-kind amount vs pro-rata").to.equal(proRata[i]);
+            });
+            expect(event.usdcOut, "in-kind USDC vs pro-rata idle USDC").to.equal(idle - (idle * REDEEM_FEE) / 10000n);
+            ledger -= shares;
+          },
+
+          transferShares: async () => {
+            const [from, to] = [random.pick(users), random.pick(users)];
+            const balance = await indexToken.balanceOf(from.address);
+            if (balance > 0n) {
+              await indexToken.connect(from).transfer(to.address, random.amount(1n, balance));
+            }
+          },
+
+          // Somebody trades against a component's USDC pool, moving its price up to ~20%
+          movePrice: async () => {
+            const i = random.pick([0, 1, 2]);
+            if (disabled[i]) return;
+            if (random.chance(0.5)) {
+              const amount = random.amount(usdc("100"), usdc("100000"));
+              await usdcToken.mint(deployer.address, amount);
+              await saucerSwapRouter.swapExactTokensForTokens(amount, 0n, [fixture.environment.usdc, tokenAddresses[i]], deployer.address, DEADLINE);
+            } else {
+              const [amount] = await saucerSwapRouter.getAmountsIn(random.amount(usdc("100"), usdc("100000")), [tokenAddresses[i], fixture.environment.usdc]);
+              await tokens[i].mint(deployer.address, amount);
+              await saucerSwapRouter.swapExactTokensForTokens(amount, 0n, [tokenAddresses[i], fixture.environment.usdc], deployer.address, DEADLINE);
+            }
+          },
+
+          // A component's pool stops trading (or trades again), so its swaps fail and it cannot be priced
+          toggleSwaps: async () => {
+            const i = random.pick([0, 1, 2]);
+            disabled[i] = !disabled[i];
+            await saucerSwapRouter.setTokenDisabled(tokenAddresses[i], disabled[i]);
+          },
+
+          // Up to $1,000 of a component or USDC sent straight to the vault, outside mint
+          donate: async () => {
+            const i = random.pick([0, 1, 2, 3]);
+            const token = i === 3 ? usdcToken : tokens[i];
+            const amount = random.amount(1n, i === 3 ? usdc("1000") : fixture.donationCaps[i]);
+            await token.mint(deployer.address, amount);
+            await token.connect(deployer).transfer(vaultAddress, amount);
+          },
+
+          withdrawFees: async () => {
+            const [curatorFees, platformFees] = await vault.getFeeSplit();
+            if (curatorFees > 0n) await vault.connect(curator).withdrawFees(curator.address, random.amount(1n, curatorFees));
+            if (platformFees > 0n) await vault.connect(deployer).withdrawPlatformFees(deployer.address, random.amount(1n, platformFees));
+          },
+        };
+        const schedule = [
+          ...Array(6).fill("mint"),
+          ...Array(4).fill("redeem"),
+          "redeemInKind",
+          "transferShares",
+          ...Array(3).fill("movePrice"),
+          "toggleSwaps",
+          "donate",
+          "withdrawFees",
+        ];
+
+        for (let step = 0; step < STEPS; step++) {
+          const action = random.pick(schedule);
+          await actions[action]();
+          await checkInvariants(`seed ${seed}, step ${step} (${action})`);
+        }
+      });
+    }
+  });
+
+  describe("first depositor donation", function () {
+    it("cannot shrink the supply to dust, so a donation cannot round later mints away", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, indexToken, usdcToken, saucerSwapRouter, tokens, tokenAddresses, environment, vaultAddress, alice: attacker, bob: victim } =
+        fixture;
+      const start = await usdcToken.balanceOf(attacker.address);
+
+      // The classic set-up: mint the minimum, then redeem all but one wei of shares
+      await vault.connect(attacker).mint(usdc("1"), 0n, DEADLINE);
+      const shares = await indexToken.balanceOf(attacker.address);
+      expect(await rejectionOf(vault.connect(attacker).redeem(shares - 1n, 0n, DEADLINE))).to.contain("BasketVault: dust supply");
+      expect(await rejectionOf(vault.connect(attacker).redeemInKind(shares - 1n, DEADLINE))).to.contain("BasketVault: dust supply");
+
+      // The smallest supply it can keep still prices a share at a fraction of a cent after a 10k donation
+      const minSupply = await vault.MIN_SHARE_SUPPLY();
+      await vault.connect(attacker).redeem(shares - minSupply, 0n, DEADLINE);
+      await saucerSwapRouter
+        .connect(attacker)
+        .swapExactTokensForTokens(usdc("10000"), 0n, [environment.usdc, tokenAddresses[0]], attacker.address, DEADLINE);
+      await tokens[0].connect(attacker).transfer(vaultAddress, await tokens[0].balanceOf(attacker.address));
+      const nav = await vault.getNavPerShare();
+      expect(nav).to.be.greaterThan(usdc("1000000"));
+
+      // The victim's deposit loses at most one wei of shares to rounding
+      const deposit = usdc("1000");
+      const investment = deposit - (deposit * (await fixture.registry.getIndex(fixture.indexId)).fees.mintFee) / 10000n;
+      await vault.connect(victim).mint(deposit, 0n, DEADLINE);
+      const victimShares = await indexToken.balanceOf(victim.address);
+      expect(victimShares).to.be.greaterThan(0n);
+      expect(investment - (victimShares * nav) / SHARE).to.be.lte(nav / SHARE + 1n);
+
+      // The attacker's shares can win back at most the donation, less swap costs and fees
+      const recoverable = await vault.previewRedeem(minSupply);
+      expect((await usdcToken.balanceOf(attacker.address)) + recoverable).to.be.lessThan(start);
+    });
+  });
+
+  describe("idle USDC", function () {
+    it("prices the next mint on it, so deploying it does not move value to the new holder", async function () {
+      const fixture = await loadFixture(setup);
+      const { manifest, vault, indexToken, saucerSwapRouter, tokenAddresses, indexId, curator, alice: holder, bob: minter } = fixture;
+
+      // The WETH leg fails, leaving 40% of the first mint as idle USDC
+      await saucerSwapRouter.setTokenDisabled(tokenAddresses[1], true);
+      await vault.connect(holder).mint(usdc("1000"), 0n, DEADLINE);
+      await saucerSwapRouter.setTokenDisabled(tokenAddresses[1], false);
+      const shares = await indexToken.balanceOf(holder.address);
+      const before = await proRataSpotValue(fixture, shares);
+
+      // The next minter pays the same NAV, not one that leaves the idle USDC out
+      await vault.connect(minter).mint(usdc("1000"), 0n, DEADLINE);
+      expect(await indexToken.balanceOf(minter.address)).to.be.closeTo(shares, shares / 100n);
+
+      const client = new HedgeraClient(manifest, curator);
+      await client.rebalance(await client.planRebalance(Number(indexId)));
+      expect((await client.planRebalance(Number(indexId))).idleUsdc).to.be.lessThan(usdc("10"));
+
+      // Only swap costs are shared with the new holder
+      expect(await proRataSpotValue(fixture, shares)).to.be.gte((before * 99n) / 100n);
+    });
+  });
+
+  describe("NAV manipulation within one block", function () {
+    // WBTC/USDC holds $1M a side; 5 WBTC moves its price by ~40%
+    const DUMP = 5n * 10n ** 8n;
+
+    it("does not pay to depress NAV around a mint and redeem", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, indexToken, usdcToken, saucerSwapRouter, tokens, tokenAddresses, environment, alice: holder, bob: attacker } = fixture;
+      await vault.connect(holder).mint(usdc("50000"), 0n, DEADLINE);
+      await tokens[0].mint(attacker.address, DUMP);
+      await usdcToken.mint(attacker.address, usdc("500000"));
+      const start = await usdcToken.balanceOf(attacker.address);
+
+      for (const size of [usdc("10000"), usdc("90000")]) {
+        const snapshot = await takeSnapshot();
+        const dex = saucerSwapRouter.connect(attacker);
+        const dump = () =>
+          dex.swapExactTokensForTokens(DUMP, 0n, [tokenAddresses[0], environment.usdc], attacker.address, DEADLINE, { gasLimit: 500000 });
+
+        // Rehearse the dump to learn how many shares the mint right after it issues
+        await dump();
+        const shares = await vault.previewMint(size);
+        await snapshot.restore();
+
+        // Dump WBTC, mint at the depressed NAV, buy the WBTC back and redeem at the restored NAV
+        await inOneBlock(
+          dump,
+          () => vault.connect(attacker).mint(size, 0n, DEADLINE, { gasLimit: 2000000 }),
+          () => dex.swapTokensForExactTokens(DUMP, ethers.MaxUint256, [environment.usdc, tokenAddresses[0]], attacker.address, DEADLINE, { gasLimit: 500000 }),
+          () => vault.connect(attacker).redeem(shares, 0n, DEADLINE, { gasLimit: 2000000 })
+        );
+
+        // Back to the WBTC it started with, with less USDC: the dump and buy-back cost more than the cheap shares gained
+        expect(await tokens[0].balanceOf(attacker.address)).to.equal(DUMP);
+        expect(await indexToken.balanceOf(attacker.address)).to.equal(0n);
+        expect(await usdcToken.balanceOf(attacker.address)).to.be.lessThan(start);
+        await snapshot.restore();
+      }
+    });
+
+    it("does not pay to pump prices around a redeem", async function () {
+      const fixture = await loadFixture(setup);
+      const { vault, indexToken, usdcToken, saucerSwapRouter, tokens, tokenAddresses, environment, alice: attacker } = fixture;
+      await vault.connect(attacker).mint(usdc("50000"), 0n, DEADLINE);
+      await usdcToken.mint(attacker.address, usdc("500000"));
+      const shares = await indexToken.balanceOf(attacker.address);
+      const start = await usdcToken.balanceOf(attacker.address);
+
+      // Honest redeem as the baseline
+      const snapshot = await takeSnapshot();
+      await vault.connect(attacker).redeem(shares, 0n, DEADLINE);
+      const honest = (await usdcToken.balanceOf(attacker.address)) - start;
+      await snapshot.restore();
+
+      // Pump WBTC so the redeem sells the vault's WBTC high, then dump it back
+      const dex = saucerSwapRouter.connect(attacker);
+      const [, bought] = await saucerSwapRouter.getAmountsOut(usdc("300000"), [environment.usdc, tokenAddresses[0]]);
+      await inOneBlock(
+        () => dex.swapExactTokensForTokens(usdc("300000"), 0n, [environment.usdc, tokenAddresses[0]], attacker.address, DEADLINE, { gasLimit: 500000 }),
+        () => vault.connect(attacker).redeem(shares, 0n, DEADLINE, { gasLimit: 2000000 }),
+        () => dex.swapExactTokensForTokens(bought, 0n, [tokenAddresses[0], environment.usdc], attacker.address, DEADLINE, { gasLimit: 500000 })
+      );
+
+      expect(await tokens[0].balanceOf(attacker.address)).to.equal(0n);
+      expect((await usdcToken.balanceOf(attacker.address)) - start).to.be.lessThan(honest);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { DEFAULT_KEEPER_CONFIG, HedgeraClient, IndexStatus, Keeper, KeeperConfig, KeeperLogEntry, jsonLineLogger } from "../sdk";
+import { deployIndexFixture, usdc } from "./fixtures";
+
+const DEADLINE = ethers.MaxUint256;
+
+describe("Keeper", function () {
+  let dir: string;
+  let clock: number;
+
+  // An index whose WETH allocation was left as idle USDC by a failed swap
+  async function drifted() {
+    const base = await deployIndexFixture();
+    const { vault, usdcToken, saucerSwapRouter, tokens, alice } = base;
+    await usdcToken.connect(alice).approve(await vault.getAddress(), ethers.MaxUint256);
+    await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), true);
+    await vault.connect(alice).mint(usdc("1000"), 0n, DEADLINE);
+    await saucerSwapRouter.setTokenDisabled(await tokens[1].getAddress(), false);
+    return base;
+  }
+
+  const keeper = (client: HedgeraClient, config: Partial<KeeperConfig> = {}, log: KeeperLogEntry[] = []) =>
+    new Keeper(client, { ...DEFAULT_KEEPER_CONFIG, ...config }, {
+      stateFile: join(dir, "keeper.json"),
+      log: (entry) => log.push(entry),
+      now: () => clock,
+    });
+
+  beforeEach(function () {
+    dir = mkdtempSync(join(tmpdir(), "hedgera-keeper-"));
+    clock = 1_800_000_000;
+  });
+
+  afterEach(function () {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("only logs the rebalance it would make in dry-run mode", async function () {
+    const { manifest, usdcToken, vault, indexId } = await loadFixture(drifted);
+    const log: KeeperLogEntry[] = [];
+
+    const [decision] = await keeper(new HedgeraClient(manifest, ethers.provider), { dryRun: true }, log).runOnce();
+    expect(decision.indexId).to.equal(indexId);
+    expect(decision.action).to.equal("would-rebalance");
+    expect(decision.maxDriftBps).to.be.closeTo(4000, 5);
+    expect(decision.idleUsdc).to.equal(usdc("398"));
+    expect(log.map((e) => [e.level, e.event, e.indexId])).to.deep.equal([["info", "would-rebalance", indexId]]);
+
+    // Nothing sent, nothing persisted
+    expect(await usdcToken.balanceOf(await vault.getAddress())).to.equal(usdc("398") + (await vault.collectedFees()));
+    expect(() => readFileSync(join(dir, "keeper.json"))).to.throw();
+  });
+
+  it("rebalances once and honours the cooldown across restarts", async function () {
+    const { manifest, curator, usdcToken, vault, indexId } = await loadFixture(drifted);
+    const client = new HedgeraClient(manifest, curator);
+
+    const [first] = await keeper(client).runOnce();
+    expect(first.action).to.equal("rebalanced");
+    expect(first.reason).to.match(/^drift \d+ bps$/);
+    expect(await usdcToken.balanceOf(await vault.getAddress())).to.equal(await vault.collectedFees());
+
+    const state = JSON.parse(readFileSync(join(dir, "keeper.json"), "utf8"));
+    expect(state.indexes[indexId]).to.deep.equal({
+      lastAttemptAt: clock,
+      lastRebalanceAt: clock,
+      lastTxHash: first.txHash,
+    });
+
+    // A restarted keeper reads the attempt back from the state file
+    clock += 600;
+    const [second] = await keeper(client).runOnce();
+    expect(second).to.deep.equal({ indexId, action: "skipped", reason: "cooldown, 3000s left" });
+
+    clock += 3000;
+    const [third] = await keeper(client).runOnce();
+    expect(third.action).to.equal("skipped");
+    expect(third.reason).to.equal("within thresholds");
+  });
+
+  it("skips indexes it cannot or should not rebalance", async function () {
+    const { manifest, curator, alice, deployer, registry, indexId } = await loadFixture(drifted);
+
+    const [notOwner] = await keeper(new HedgeraClient(manifest, alice)).runOnce();
+    expect(notOwner.action).to.equal("skipped");
+    expect(notOwner.reason).to.equal(`vault owned by ${curator.address}`);
+
+    const [tooExpensive] = await keeper(new HedgeraClient(manifest, curator), { maxCostBps: 0 }).runOnce();
+    expect(tooExpensive.action).to.equal("skipped");
+    expect(tooExpensive.reason).to.match(/estimated cost \d+ bps exceeds the limit/);
+
+    const [relaxed] = await keeper(new HedgeraClient(manifest, curator), {
+      driftThresholdBps: 5000,
+      idleUsdcThreshold: usdc("1000"),
+    }).runOnce();
+    expect(relaxed.reason).to.equal("within thresholds");
+
+    await registry.connect(deployer).updateIndexStatus(indexId, IndexStatus.Inactive);
+    expect(await keeper(new HedgeraClient(manifest, curator)).runOnce()).to.deep.equal([]);
+  });
+
+  it("skips an index nothing has been minted into instead of failing", async function () {
+    const { manifest, curator, indexId } = await loadFixture(deployIndexFixture);
+    const log: KeeperLogEntry[] = [];
+
+    const [decision] = await keeper(new HedgeraClient(manifest, curator), {}, log).runOnce();
+    expect(decision).to.deep.equal({ indexId, action: "skipped", reason: "empty" });
+    expect(log.map((e) => [e.level, e.event])).to.deep.equal([["info", "skipped"]]);
+  });
+
+  it("writes structured logs as JSON lines", function () {
+    const lines: string[] = [];
+    jsonLineLogger((line) => lines.push(line))({ time: "t", level: "info", event: "rebalanced", idleUsdc: 5n });
+    expect(lines).to.deep.equal(['{"time":"t","level":"info","event":"rebalanced","idleUsdc":"5"}\n']);
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { BasketVault__factory } from "../typechain-types";
+import { HedgeraClient, compareVaultSnapshots } from "../sdk";
+import { deployIndexFixture, rejectionOf, usdc } from "./fixtures";
+
+const DEADLINE = ethers.MaxUint256;
+
+describe("vault migration", function () {
+  async function setup() {
+    const base = await deployIndexFixture();
+    const { manifest, alice, bob, indexId } = base;
+    await new HedgeraClient(manifest, alice).mint(indexId, usdc("1000"));
+    await new HedgeraClient(manifest, bob).mint(indexId, usdc("500"));
+    return { ...base, client: new HedgeraClient(manifest, base.curator) };
+  }
+
+  it("moves balances, fees and supply to a new vault and repoints the token and registry", async function () {
+    const { client, manifest, registry, vault, indexToken, usdcToken, tokens, curator, alice, indexId } =
+      await loadFixture(setup);
+    const plan = await client.planMigration(indexId);
+    expect(plan).to.include({ vault: await vault.getAddress(), factory: manifest.factory, owner: curator.address });
+    expect(plan.before.collectedFees).to.be.greaterThan(0n);
+
+    const { event, after, issues } = await client.migrateVault(plan);
+    expect(issues).to.deep.equal([]);
+    expect(event).to.include({ indexId, navPerShare: after.navPerShare, totalValueLocked: after.totalValueLocked });
+    expect(after).to.deep.include({
+      vault: event.newVault,
+      totalSupply: plan.before.totalSupply,
+      usdcBalance: plan.before.usdcBalance,
+      collectedFees: plan.before.collectedFees,
+      platformFees: plan.before.platformFees,
+      components: plan.before.components,
+    });
+
+    const newVault = BasketVault__factory.connect(event.newVault, curator);
+    expect((await registry.getIndex(indexId)).vault).to.equal(event.newVault);
+    expect(await indexToken.getVault()).to.equal(event.newVault);
+    expect(await newVault.owner()).to.equal(curator.address);
+    expect(await vault.migratedTo()).to.equal(event.newVault);
+    for (const token of [...tokens, usdcToken]) {
+      expect(await token.balanceOf(await vault.getAddress())).to.equal(0n);
+    }
+
+    // The old vault is closed, while holders carry on against the new one
+    await expect(vault.connect(alice).mint(usdc("10"), 0n, DEADLINE)).to.be.revertedWith("BasketVault: migrated");
+    await expect(vault.connect(alice).redeem(1n, 0n, DEADLINE)).to.be.revertedWith("BasketVault: migrated");
+    await expect(vault.connect(alice).redeemInKind(1n, DEADLINE)).to.be.revertedWith("BasketVault: migrated");
+    const shares = await indexToken.balanceOf(alice.address);
+    const { event: redeemed } = await new HedgeraClient(manifest, alice).redeem(indexId, shares / 2n);
+    expect(redeemed.usdcOut).to.be.greaterThan(0n);
+    await expect(newVault.withdrawFees(curator.address, (await newVault.getFeeSplit())[0])).not.to.be.reverted;
+  });
+
+  it("reverts the whole migration when the new vault reports a NAV below the floor", async function () {
+    const { manifest, registry, vault, indexToken, indexId } = await loadFixture(setup);
+    const nav = await vault.getNavPerShare();
+
+    await expect(vault.migrate(manifest.factory, nav + 1n)).to.be.revertedWith("BasketVault: migration lost value");
+    expect((await registry.getIndex(indexId)).vault).to.equal(await vault.getAddress());
+    expect(await indexToken.getVault()).to.equal(await vault.getAddress());
+    expect(await vault.migratedTo()).to.equal(ethers.ZeroAddress);
+  });
+
+  it("only lets the vault owner migrate, through the index's live vault", async function () {
+    const { client, manifest, factory, vault, alice, indexId } = await loadFixture(setup);
+    await expect(vault.connect(alice).migrate(manifest.factory, 0n)).to.be.revertedWithCustomError(
+      vault,
+      "OwnableUnauthorizedAccount"
+    );
+    await expect(factory.connect(alice).deployMigrationVault(indexId)).to.be.revertedWith(
+      "IndexFactory: caller is not the index vault"
+    );
+
+    const { event } = await client.migrateVault(await client.planMigration(indexId));
+    await expect(vault.migrate(manifest.factory, 0n)).to.be.revertedWith("BasketVault: migrated");
+    // Only the old vault can hand over a fee ledger, and only while it is live
+    const newVault = BasketVault__factory.connect(event.newVault, vault.runner);
+    await expect(newVault.acceptMigration(usdc("1"), 0n)).to.be.revertedWith("BasketVault: caller is not the live vault");
+  });
+
+  it("plans only against an authorized factory and reports what a migration lost", async function () {
+    const { client, alice, indexId } = await loadFixture(setup);
+    expect(await rejectionOf(client.planMigration(indexId, alice.address))).to.equal(
+      `HedgeraClient: factory ${alice.address} is not authorized in the registry`
+    );
+    expect(await rejectionOf(client.planMigration(indexId, undefined, { toleranceBps: 5000 }))).to.equal(
+      "HedgeraClient: migration tolerance must be between 0 and 1000 basis points, got 5000"
+    );
+
+    const { before } = await client.planMigration(indexId, undefined, { toleranceBps: 50 });
+    const moved = { ...before, vault: alice.address };
+    expect(compareVaultSnapshots(before, { ...moved, navPerShare: (before.navPerShare * 9960n) / 10000n }, 50)).to.deep.equal([]);
+    const issues = compareVaultSnapshots(
+      before,
+      {
+        ...moved,
+        navPerShare: (before.navPerShare * 9900n) / 10000n,
+        collectedFees: before.collectedFees - 1n,
+        components: before.components.map((c, i) => (i === 0 ? { ...c, balance: 0n } : c)),
+      },
+      50
+    );
+    expect(issues).to.have.length(3);
+    expect(issues[0]).to.equal(`collected fees changed from ${before.collectedFees} to ${before.collectedFees - 1n}`);
+    expect(issues[1]).to.equal(`${before.components[0].token} balance changed from ${before.components[0].balance} to 0`);
+    expect(issues[2]).to.match(/^NAV per share fell from \d+ to \d+, more than 50 basis points$/);
+    expect(compareVaultSnapshots(before, before, 50)).to.deep.equal([`index ${indexId} still points at vault ${before.vault}`]);
+  });
+});
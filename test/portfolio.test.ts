@@ -0,0 +1,79 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { EventIndexer, EventStore, HedgeraClient, getPortfolio, portfolioToJson } from "../sdk";
+import { deployIndexFixture, usdc } from "./fixtures";
+
+const SHARE = 10n ** 18n;
+
+describe("portfolio", function () {
+  let store: EventStore;
+
+  async function setup() {
+    const base = await deployIndexFixture();
+    const { manifest, indexId, indexToken, alice, bob } = base;
+
+    const aliceClient = new HedgeraClient(manifest, alice);
+    const { event: first } = await aliceClient.mint(indexId, usdc("1000"));
+    const { event: second } = await aliceClient.mint(indexId, usdc("500"));
+    const minted = first.sharesOut + second.sharesOut;
+    const { event: redeemed } = await aliceClient.redeem(indexId, minted / 2n);
+    await indexToken.connect(alice).transfer(bob.address, minted / 4n);
+
+    return { ...base, minted, redeemed };
+  }
+
+  beforeEach(function () {
+    store = new EventStore(":memory:");
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  it("derives the average cost, realized PnL and fees from the account's mints and redeems", async function () {
+    const { manifest, deployer, alice, indexId, indexToken, vault, minted, redeemed } = await loadFixture(setup);
+    await new EventIndexer(ethers.provider, manifest, store).sync();
+
+    const portfolio = await getPortfolio(new HedgeraClient(manifest, deployer), store, alice.address);
+    expect(portfolio.positions).to.have.length(1);
+    const [position] = portfolio.positions;
+
+    const averageCost = (usdc("1500") * SHARE) / minted;
+    expect(position.indexId).to.equal(indexId);
+    expect(position.sharesMinted).to.equal(minted);
+    expect(position.usdcIn).to.equal(usdc("1500"));
+    expect(position.usdcOut).to.equal(redeemed.usdcOut);
+    expect(position.feesPaid).to.equal(await vault.collectedFees());
+    expect(position.averageCost).to.be.closeTo(averageCost, 1n);
+    expect(position.realizedPnl).to.be.closeTo(redeemed.usdcOut - usdc("750"), 1n);
+
+    // A quarter of the minted shares went to bob, so only the rest is held at cost
+    const balance = await indexToken.balanceOf(alice.address);
+    expect(position.balance).to.equal(balance);
+    expect(position.navPerShare).to.equal(await vault.getNavPerShare());
+    expect(position.value).to.equal((balance * position.navPerShare) / SHARE);
+    expect(position.costBasis).to.equal((balance * position.averageCost!) / SHARE);
+    expect(position.unrealizedPnl).to.equal(position.value - position.costBasis!);
+    expect(portfolio.totals.realizedPnl).to.equal(position.realizedPnl);
+
+    const json = JSON.parse(portfolioToJson(portfolio));
+    expect(json.positions[0].usdcIn).to.equal("1500.0");
+    expect(json.positions[0].sharesMinted).to.equal(ethers.formatUnits(minted, 18));
+  });
+
+  it("values shares received by transfer without a cost basis", async function () {
+    const { manifest, bob, curator, minted } = await loadFixture(setup);
+    await new EventIndexer(ethers.provider, manifest, store).sync();
+    const client = new HedgeraClient(manifest, bob);
+
+    const [position] = (await getPortfolio(client, store, bob.address)).positions;
+    expect(position.balance).to.equal(minted / 4n);
+    expect(position.value).to.be.greaterThan(0n);
+    expect(position.sharesMinted).to.equal(0n);
+    expect(position.costBasis).to.equal(null);
+    expect(position.unrealizedPnl).to.equal(null);
+
+    expect((await getPortfolio(client, store, curator.address)).positions).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { MockERC20__factory, MockSaucerSwapRouter__factory } from "../typechain-types";
+import {
+  HedgeraClient,
+  LocalTokenConfig,
+  deployLocalEnvironment,
+  deployProtocol,
+  findBestRoute,
+  loadPools,
+  parseAdminConfig,
+  planAdminChanges,
+  planRoutes,
+  quotePath,
+  routeAdminConfig,
+  saucerSwapFactory,
+} from "../sdk";
+import { rejectionOf, usdc } from "./fixtures";
+
+// PACK only has deep liquidity against HBAR; its direct USDC pool is $100 deep
+const ROUTING_TOKENS: LocalTokenConfig[] = [
+  { symbol: "HBAR", name: "Wrapped HBAR", decimals: 8, priceUsd: 0.08 },
+  { symbol: "WBTC", name: "Wrapped Bitcoin", decimals: 8, priceUsd: 60000 },
+  { symbol: "PACK", name: "HashPack", decimals: 6, priceUsd: 0.03, pairedWith: "HBAR" },
+];
+
+describe("multi-hop routing", function () {
+  async function setup() {
+    const [deployer, curator, alice] = await ethers.getSigners();
+    const environment = await deployLocalEnvironment(deployer, {
+      tokens: ROUTING_TOKENS,
+      liquidityUsd: 1000000,
+      fundedAccounts: [alice.address],
+      fundingUsdc: 100000,
+    });
+    const { HBAR: hbar, WBTC: wbtc, PACK: pack } = environment.tokens;
+
+    const dex = MockSaucerSwapRouter__factory.connect(environment.saucerSwapRouter, deployer);
+    await MockERC20__factory.connect(environment.usdc, deployer).mint(deployer.address, usdc("100"));
+    await MockERC20__factory.connect(pack, deployer).mint(deployer.address, 3333333333n);
+    await dex.addLiquidity(pack, environment.usdc, 3333333333n, usdc("100"), 0n, 0n, deployer.address, ethers.MaxUint256);
+
+    const manifest = await deployProtocol(deployer, {
+      usdc: environment.usdc,
+      saucerSwapRouter: environment.saucerSwapRouter,
+      creationFee: 0n,
+      factoryAllowance: 0n,
+    });
+    const { event } = await new HedgeraClient(manifest, curator).createIndex({
+      name: "Routed Index",
+      symbol: "RIDX",
+      curator: curator.address,
+      tokens: [wbtc, pack],
+      weights: [5000n, 5000n],
+      mintFee: 0n,
+      redeemFee: 0n,
+    });
+
+    return {
+      deployer,
+      alice,
+      environment,
+      hbar,
+      wbtc,
+      pack,
+      indexId: event.indexId,
+      admin: new HedgeraClient(manifest, deployer),
+      client: new HedgeraClient(manifest, alice),
+    };
+  }
+
+  it("finds the best path among the SaucerSwap pools", async function () {
+    const { admin, environment, hbar, wbtc, pack } = await loadFixture(setup);
+
+    // The fixture manifest has no factory address, so it is read from the SaucerSwap router
+    const factory = await saucerSwapFactory(admin);
+    expect(factory).to.equal(environment.saucerSwapFactory);
+    const pools = await loadPools(ethers.provider, factory, [environment.usdc, hbar, wbtc, pack]);
+    expect(pools).to.have.length(4);
+
+    const best = findBestRoute(pools, environment.usdc, pack, usdc("1000"));
+    expect(best?.path).to.deep.equal([environment.usdc, hbar, pack]);
+    // Off-chain quotes match the DEX
+    const dex = MockSaucerSwapRouter__factory.connect(environment.saucerSwapRouter, ethers.provider);
+    expect(best?.amounts).to.deep.equal(await dex.getAmountsOut(usdc("1000"), best!.path));
+    expect(quotePath(pools, [environment.usdc, pack], usdc("1000"))?.[1]).to.be.lessThan(best!.amounts[2]);
+
+    // Limited to direct pools, or with no pool at all
+    expect(findBestRoute(pools, environment.usdc, pack, usdc("1000"), 2)?.path).to.deep.equal([environment.usdc, pack]);
+    expect(findBestRoute(pools, environment.usdc, ethers.ZeroAddress, usdc("1000"))).to.equal(null);
+    expect(quotePath(pools, [environment.usdc, wbtc, pack], usdc("1000"))).to.equal(null);
+  });
+
+  it("plans the better paths as admin config and applies them", async function () {
+    const { admin, environment, hbar, wbtc, pack } = await loadFixture(setup);
+
+    const plans = await planRoutes(admin, [wbtc, pack], { via: [hbar] });
+    expect(plans.map((p) => p.best?.path)).to.deep.equal([
+      [environment.usdc, wbtc],
+      [environment.usdc, hbar, pack],
+    ]);
+    expect(plans[0].improvementBps).to.equal(0);
+    expect(plans[1].current?.path).to.deep.equal([environment.usdc, pack]);
+    expect(plans[1].improvementBps).to.be.greaterThan(1000);
+
+    const config = routeAdminConfig(plans);
+    expect(config).to.deep.equal({ router: { paths: { [pack]: [environment.usdc, hbar, pack] } } });
+    const plan = await planAdminChanges(admin, config);
+    expect(plan.calls.map((c) => [c.method, c.args])).to.deep.equal([["setTokenPath", [pack, [environment.usdc, hbar, pack]]]]);
+    await admin.applyAdminCalls(plan.calls);
+    expect(await admin.router.getTokenPath(pack)).to.deep.equal([environment.usdc, hbar, pack]);
+
+    // Applied: nothing left to change, and an empty path in the config goes back to the direct pool
+    expect(routeAdminConfig(await planRoutes(admin, [wbtc, pack], { via: [hbar] }))).to.deep.equal({ router: { paths: {} } });
+    const reset = await planAdminChanges(admin, parseAdminConfig(`router: { paths: { "${pack}": [] } }`, "yaml"));
+    expect(reset.calls.map((c) => c.args)).to.deep.equal([[pack, []]]);
+    expect(reset.calls[0].desired).to.equal(`[${environment.usdc}, ${pack}]`);
+
+    expect(
+      await rejectionOf(planAdminChanges(admin, { router: { paths: { [pack]: [hbar, pack] } } }))
+    ).to.contain(`Admin config: router.paths.${pack} must start at USDC`);
+  });
+
+  it("quotes, mints, values and redeems along the configured path", async function () {
+    const { admin, client, environment, alice, hbar, pack, indexId } = await loadFixture(setup);
+    const direct = await client.quoteMint(indexId, usdc("1000"));
+    await admin.router.setTokenPath(pack, [environment.usdc, hbar, pack]);
+
+    const quote = await client.quoteMint(indexId, usdc("1000"));
+    expect(quote.components[1].path).to.deep.equal([environment.usdc, hbar, pack]);
+    expect(quote.components[1].expectedOut).to.be.greaterThan(direct.components[1].expectedOut);
+
+    const { event } = await client.mint(indexId, usdc("1000"), { minShares: quote.minShares });
+    const { vault } = await client.getIndex(indexId);
+    const packToken = MockERC20__factory.connect(pack, ethers.provider);
+    expect(await packToken.balanceOf(vault)).to.equal(quote.components[1].expectedOut);
+    // Nothing was left behind in USDC
+    expect(await client.usdc.balanceOf(vault)).to.equal(0n);
+
+    // NAV values PACK through HBAR too: close to the 1000 USDC put in, less pool fees and impact
+    const nav = await client.getNavPerShare(indexId);
+    const value = (nav * event.sharesOut) / 10n ** 18n;
+    expect(value).to.be.greaterThan(usdc("985"));
+
+    const redeem = await client.quoteRedeem(indexId, event.sharesOut);
+    expect(redeem.components[1].path).to.deep.equal([pack, hbar, environment.usdc]);
+    const before = await client.usdc.balanceOf(alice.address);
+    await client.redeem(indexId, event.sharesOut, { minAmount: redeem.minUsdc });
+    expect((await client.usdc.balanceOf(alice.address)) - before).to.equal(redeem.expectedUsdc);
+  });
+});
@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { TransactionResponse, Wallet, formatEther, parseUnits } from "ethers";
+import { loadFixture, mine } from "@nomicfoundation/hardhat-network-helpers";
+import {
+  HedgeraClient,
+  TransactionError,
+  broadcastSigned,
+  decodeRevert,
+  describeError,
+  estimateGasLimit,
+  formatTxCost,
+  isTransientError,
+  sendTransaction,
+  waitForReceipt,
+  withRetries,
+} from "../sdk";
+import { deployIndexFixture, usdc } from "./fixtures";
+
+// Default Hardhat account #2 (alice)
+const ALICE_KEY = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+
+describe("transaction pipeline", function () {
+  async function setup() {
+    const base = await deployIndexFixture();
+    return { ...base, client: new HedgeraClient(base.manifest, base.alice) };
+  }
+
+  /** The error a promise rejects with */
+  async function failure(promise: Promise<unknown>): Promise<TransactionError> {
+    try {
+      await promise;
+    } catch (error) {
+      return error as TransactionError;
+    }
+    throw new Error("expected a rejection");
+  }
+
+  it("decodes reverts into actionable errors before sending anything", async function () {
+    const { client, alice, factory, indexId } = await loadFixture(setup);
+    const nonce = await alice.getNonce();
+
+    const expired = await failure(client.mint(indexId, usdc("100"), { deadline: 1 }));
+    expect(expired).to.be.instanceOf(TransactionError);
+    expect(expired.action).to.equal("BasketVault.mint");
+    expect(expired.reason).to.equal("BasketVault: expired");
+    expect(expired.message).to.equal(
+      "BasketVault.mint reverted: BasketVault: expired. The deadline passed before the transaction was mined. Send it again with a later deadline"
+    );
+
+    // Custom errors are decoded with their arguments
+    const data = factory.interface.encodeFunctionData("updateIndexCreationFee", [0n]);
+    const notOwner = await failure(sendTransaction(alice, { to: await factory.getAddress(), data }, { action: "fee" }));
+    expect(notOwner.reason).to.equal(`OwnableUnauthorizedAccount(${alice.address})`);
+    expect(notOwner.message).to.contain("Only the contract owner can do this");
+    expect(decodeRevert({ data: notOwner.data })).to.equal(notOwner.reason);
+
+    // Only the approval went out; both reverts were caught by the estimate
+    expect(await alice.getNonce()).to.equal(nonce + 1);
+  });
+
+  it("fails on receipts mined with status 0, with the replayed reason and the cost", async function () {
+    const { indexId, client } = await loadFixture(setup);
+    const alice = new Wallet(ALICE_KEY, ethers.provider);
+    const { vault } = await client.getIndex(indexId);
+    const data = client.vault(vault).interface.encodeFunctionData("redeem", [usdc("1"), 0n, 1n]);
+
+    // A fixed gas limit skips the estimate that would catch the revert
+    await network.provider.send("evm_setAutomine", [false]);
+    let error: TransactionError | undefined;
+    try {
+      const pending = failure(sendTransaction(alice, { to: vault, data }, { settings: { gasLimit: 500000 } }));
+      pending.then((e) => (error = e));
+      while (!error) {
+        await mine();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+    } finally {
+      await network.provider.send("evm_setAutomine", [true]);
+    }
+
+    expect(error.receipt?.status).to.equal(0);
+    expect(error.reason).to.equal("BasketVault: expired");
+    expect(error.message).to.match(
+      new RegExp(`^Transaction reverted: BasketVault: expired\\..* in transaction ${error.hash} \\(block \\d+, \\d+ gas, [\\d.]+ HBAR\\)$`)
+    );
+  });
+
+  it("pads gas estimates, applies the gas price floor and reports the cost in HBAR", async function () {
+    const { alice, bob } = await loadFixture(setup);
+    const request = { to: bob.address, value: 1n, from: alice.address };
+
+    const estimate = await alice.estimateGas(request);
+    expect(await estimateGasLimit(alice, request)).to.equal((estimate * 12000n) / 10000n);
+    expect(await estimateGasLimit(alice, request, { gasMarginBps: 0 })).to.equal(estimate);
+    expect(await estimateGasLimit(alice, request, { gasLimit: 50000 })).to.equal(50000n);
+
+    const floor = parseUnits("350", "gwei");
+    const receipt = await sendTransaction(alice, request, { settings: { minGasPrice: Number(floor), confirmations: 1 } });
+    expect(receipt.gasPrice).to.equal(floor);
+    expect(formatTxCost(receipt)).to.equal(`${formatEther(receipt.gasUsed * floor)} HBAR`);
+  });
+
+  it("retries transient RPC errors only, and re-broadcasts signed transactions safely", async function () {
+    const { bob } = await loadFixture(setup);
+
+    let attempts = 0;
+    const flaky = withRetries(async () => {
+      if (++attempts < 3) {
+        throw Object.assign(new Error("request timeout"), { code: "TIMEOUT" });
+      }
+      return "ok";
+    }, { retryDelayMs: 1 });
+    expect(await flaky).to.equal("ok");
+    expect(attempts).to.equal(3);
+
+    attempts = 0;
+    const reverted = Object.assign(new Error("execution reverted"), { data: "0x08c379a0" + "00".repeat(64) });
+    const rejected = await failure(withRetries(async () => {
+      attempts++;
+      throw reverted;
+    }, { retryDelayMs: 1 }));
+    expect(rejected).to.equal(reverted);
+    expect(attempts).to.equal(1);
+    expect(isTransientError(new Error("429 Too Many Requests"))).to.equal(true);
+    expect(isTransientError(new Error("insufficient funds"))).to.equal(false);
+
+    // The second broadcast of the same bytes finds the first one instead of failing on the nonce
+    const alice = new Wallet(ALICE_KEY, ethers.provider);
+    const raw = await alice.signTransaction(await alice.populateTransaction({ to: bob.address, value: 1n }));
+    const first = await broadcastSigned(ethers.provider, raw);
+    await first.wait();
+    const again = await broadcastSigned(ethers.provider, raw);
+    expect(again.hash).to.equal(first.hash);
+  });
+
+  it("gives up on a receipt once the timeout has passed instead of waiting again", async function () {
+    let waits = 0;
+    const pending = {
+      hash: "0x" + "ab".repeat(32),
+      wait: async (_confirmations: number, timeoutMs: number) => {
+        waits++;
+        await new Promise((resolve) => setTimeout(resolve, timeoutMs));
+        throw Object.assign(new Error("wait for transaction timeout"), { code: "TIMEOUT" });
+      },
+    } as unknown as TransactionResponse;
+
+    const error = await failure(waitForReceipt(pending, "Mint", { timeoutMs: 20, retries: 3, retryDelayMs: 1 }));
+    expect(error).to.be.instanceOf(TransactionError);
+    expect(error.message).to.equal(`Mint (${pending.hash}) was sent but not confirmed within 0.02s. Check it before sending again`);
+    expect(waits).to.equal(1);
+
+    // An RPC timeout within the window is retried with the time left
+    waits = 0;
+    const flaky = {
+      ...pending,
+      wait: async () => {
+        if (++waits === 1) {
+          throw Object.assign(new Error("request timeout"), { code: "TIMEOUT" });
+        }
+        return { status: 1 };
+      },
+    } as unknown as TransactionResponse;
+    expect(await waitForReceipt(flaky, "Mint", { timeoutMs: 60_000, retryDelayMs: 1 })).to.deep.equal({ status: 1 });
+    expect(waits).to.equal(2);
+  });
+
+  it("describes any error for display", async function () {
+    expect(describeError(new Error("plain"))).to.equal("plain");
+    expect(describeError({ message: "x", data: "0x4e487b710000000000000000000000000000000000000000000000000000000000000011" })).to.equal(
+      "Call reverted: panic 0x11 (arithmetic overflow or underflow)"
+    );
+  });
+});